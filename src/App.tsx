@@ -1,30 +1,45 @@
-import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom'
-import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { BrowserRouter, Routes, Route, Navigate, useLocation } from 'react-router-dom'
+import { QueryClientProvider } from '@tanstack/react-query'
+import { queryClient } from '@/lib/queryClient'
 import { useAuthStore } from '@/store/authStore'
 import { AppLayout } from '@/components/layout/AppLayout'
 import { Login } from '@/pages/Login'
+import { ForgotPassword } from '@/pages/ForgotPassword'
+import { ResetPassword } from '@/pages/ResetPassword'
+import { ChangePassword } from '@/pages/ChangePassword'
+import { SetupTwoFactor } from '@/pages/SetupTwoFactor'
 import { Dashboard } from '@/pages/Dashboard'
 import { Users } from '@/pages/Users'
 import { Clients } from '@/pages/Clients'
 import { Jobs } from '@/pages/Jobs'
 import { Tasks } from '@/pages/Tasks'
 import { Timesheets } from '@/pages/Timesheets'
+import { Profile } from '@/pages/Profile'
+import { Settings } from '@/pages/Settings'
 import { Placeholder } from '@/pages/Placeholder'
-import type { UserRole } from '@/types'
-
-const queryClient = new QueryClient({
-  defaultOptions: { queries: { staleTime: 60_000, retry: 1 } },
-})
+import { usePermissions } from '@/hooks/usePermissions'
+import type { Permission } from '@/lib/permissions'
 
 function RequireAuth({ children }: { children: React.ReactNode }) {
-  const { isAuthenticated } = useAuthStore()
-  if (!isAuthenticated) return <Navigate to="/login" replace />
+  const { isAuthenticated, user, realUser } = useAuthStore()
+  const location = useLocation()
+  // Remember where we were so Login can send the user back after re-authenticating
+  if (!isAuthenticated) return <Navigate to="/login" replace state={{ from: location }} />
+  // A temporary password has to be replaced before anything else is reachable
+  const account = realUser ?? user
+  if (account?.mustChangePassword) {
+    return location.pathname === '/change-password' ? <>{children}</> : <Navigate to="/change-password" replace />
+  }
+  // Then, if an admin requires it, two-factor has to be set up
+  if (account?.mfaRequired && !account.mfaEnabled && location.pathname !== '/setup-two-factor') {
+    return <Navigate to="/setup-two-factor" replace />
+  }
   return <>{children}</>
 }
 
-function RequireRole({ children, roles }: { children: React.ReactNode; roles: UserRole[] }) {
-  const { user } = useAuthStore()
-  if (!user || !roles.includes(user.role)) {
+function RequirePermission({ children, permission }: { children: React.ReactNode; permission: Permission }) {
+  const can = usePermissions()
+  if (!can(permission)) {
     return (
       <div className="flex flex-col items-center justify-center min-h-64 text-center">
         <div className="w-14 h-14 bg-red-50 rounded-2xl flex items-center justify-center mb-3">
@@ -47,29 +62,34 @@ export default function App() {
         <Routes>
           
           <Route path="/login" element={<Login />} />
+          <Route path="/forgot-password" element={<ForgotPassword />} />
+          <Route path="/reset-password/:token" element={<ResetPassword />} />
+          <Route path="/change-password" element={<RequireAuth><ChangePassword /></RequireAuth>} />
+          <Route path="/setup-two-factor" element={<RequireAuth><SetupTwoFactor /></RequireAuth>} />
           <Route path="/" element={<RequireAuth><AppLayout /></RequireAuth>}>
             <Route index element={<Navigate to="/dashboard" replace />} />
             <Route path="dashboard" element={<Dashboard />} />
             <Route path="users" element={
-              <RequireRole roles={['manager', 'admin']}><Users /></RequireRole>
+              <RequirePermission permission="users.view"><Users /></RequirePermission>
             } />
             <Route path="clients" element={
-              <RequireRole roles={['manager', 'admin']}><Clients /></RequireRole>
+              <RequirePermission permission="clients.view"><Clients /></RequirePermission>
             } />
             <Route path="jobs" element={<Jobs />} />
             <Route path="tasks" element={<Tasks />} />
             <Route path="timesheets" element={<Timesheets />} />
+            <Route path="profile" element={<Profile />} />
             <Route path="reports" element={
-              <RequireRole roles={['manager', 'admin']}><Placeholder title="Reports & Analytics" /></RequireRole>
+              <RequirePermission permission="reports.view"><Placeholder title="Reports & Analytics" /></RequirePermission>
             } />
             <Route path="invoices" element={
-              <RequireRole roles={['manager', 'admin']}><Placeholder title="Invoice Management" /></RequireRole>
+              <RequirePermission permission="invoices.view"><Placeholder title="Invoice Management" /></RequirePermission>
             } />
             <Route path="performance" element={
-              <RequireRole roles={['admin']}><Placeholder title="Performance Dashboard" /></RequireRole>
+              <RequirePermission permission="performance.view"><Placeholder title="Performance Dashboard" /></RequirePermission>
             } />
             <Route path="settings" element={
-              <RequireRole roles={['admin']}><Placeholder title="System Settings" /></RequireRole>
+              <RequirePermission permission="settings.manage"><Settings /></RequirePermission>
             } />
           </Route>
           <Route path="*" element={<Navigate to="/dashboard" replace />} />
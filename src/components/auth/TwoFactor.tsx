@@ -0,0 +1,143 @@
+import { useState } from 'react'
+import { Check, Copy, Download, KeyRound, Smartphone } from 'lucide-react'
+import { useAuthStore } from '@/store/authStore'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { QrCode } from '@/components/ui/QrCode'
+import { toApiError } from '@/lib/api'
+import type { ApiError } from '@/lib/api'
+import { startMfaSetup, formatSecret, downloadRecoveryCodes } from '@/lib/mfa'
+import type { MfaSetup } from '@/lib/mfa'
+
+/**
+ * Authenticator enrolment: fetch a secret, show it as a QR code, and turn
+ * two-factor on once the user proves their app produces matching codes.
+ * Used by the profile page and the forced setup step.
+ */
+export function TwoFactorEnrolment({ onEnabled }: { onEnabled: (recoveryCodes: string[]) => void }) {
+  const enableMfa = useAuthStore(s => s.enableMfa)
+  const [setup, setSetup] = useState<MfaSetup | null>(null)
+  const [code, setCode] = useState('')
+  const [error, setError] = useState<ApiError | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  const begin = async () => {
+    setError(null)
+    setBusy(true)
+    try {
+      setSetup(await startMfaSetup())
+      setCode('')
+    } catch (err: unknown) {
+      setError(toApiError(err, 'Could not start two-factor setup'))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const confirm = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setBusy(true)
+    try {
+      onEnabled(await enableMfa(code))
+    } catch (err: unknown) {
+      setError(toApiError(err, 'Could not turn on two-factor authentication'))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  if (!setup) {
+    return (
+      <div className="space-y-3">
+        <p className="text-sm text-slate-600">
+          Use an authenticator app such as Google Authenticator, Microsoft Authenticator or 1Password
+          to generate a code each time you sign in.
+        </p>
+        {error && <p role="alert" className="text-xs text-red-600">{error.message}</p>}
+        <Button type="button" onClick={() => void begin()} disabled={busy}>
+          <Smartphone size={14} /> {busy ? 'Preparing...' : 'Set up authenticator app'}
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={confirm} className="space-y-4">
+      <div className="flex flex-col sm:flex-row gap-5 items-start">
+        <QrCode value={setup.otpauthUrl} className="rounded-lg border border-slate-200 flex-shrink-0" />
+        <div className="space-y-3 text-sm text-slate-600">
+          <p><span className="font-semibold text-slate-800">1.</span> Scan the QR code with your authenticator app.</p>
+          <div>
+            <p className="text-xs text-slate-400">Can't scan it? Enter this key instead:</p>
+            <code className="mt-1 inline-block rounded bg-slate-100 px-2 py-1 font-mono text-xs text-slate-700 break-all select-all">
+              {formatSecret(setup.secret)}
+            </code>
+          </div>
+          <p><span className="font-semibold text-slate-800">2.</span> Enter the 6-digit code the app shows.</p>
+        </div>
+      </div>
+      <div className="max-w-xs">
+        <Input
+          label="Authenticator code"
+          value={code}
+          onChange={e => setCode(e.target.value.replace(/[^\d\s]/g, ''))}
+          leftIcon={<KeyRound size={14} />}
+          placeholder="123 456"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          maxLength={7}
+          error={error?.fieldErrors.code}
+          required
+          autoFocus
+        />
+      </div>
+      {error && !error.hasFieldErrors && <p role="alert" className="text-xs text-red-600">{error.message}</p>}
+      <div className="flex gap-2">
+        <Button type="submit" disabled={busy || code.replace(/\s/g, '').length !== 6}>
+          {busy ? 'Verifying...' : 'Verify and turn on'}
+        </Button>
+        <Button type="button" variant="ghost" onClick={() => { setSetup(null); setError(null) }} disabled={busy}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  )
+}
+
+/** One-time display of freshly issued recovery codes; they can't be shown again. */
+export function RecoveryCodeList({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  const email = useAuthStore(s => (s.realUser ?? s.user)?.email ?? '')
+  const [copied, setCopied] = useState(false)
+  const [saved, setSaved] = useState(false)
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(codes.join('\n'))
+    setCopied(true)
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-amber-50 border border-amber-200 text-amber-800 text-xs px-3 py-2.5 rounded-lg">
+        Save these recovery codes somewhere safe. Each one signs you in once if you lose your phone.
+        They won't be shown again.
+      </div>
+      <ul className="grid grid-cols-2 gap-2 rounded-lg bg-slate-50 border border-slate-200 p-4 font-mono text-sm text-slate-800">
+        {codes.map(c => <li key={c}>{c}</li>)}
+      </ul>
+      <div className="flex flex-wrap gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={() => void copy()}>
+          {copied ? <Check size={14} /> : <Copy size={14} />} {copied ? 'Copied' : 'Copy'}
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={() => downloadRecoveryCodes(codes, email)}>
+          <Download size={14} /> Download
+        </Button>
+      </div>
+      <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer select-none">
+        <input type="checkbox" checked={saved} onChange={e => setSaved(e.target.checked)} className="w-4 h-4 accent-blue-600" />
+        I've saved my recovery codes
+      </label>
+      <Button type="button" onClick={onDone} disabled={!saved}>Done</Button>
+    </div>
+  )
+}
@@ -1,6 +1,11 @@
 import { Outlet, useLocation } from 'react-router-dom'
 import { Sidebar } from './Sidebar'
 import { Topbar } from './Topbar'
+import { SessionExpiryBanner } from './SessionExpiryBanner'
+import { ImpersonationBanner } from './ImpersonationBanner'
+import { IdleTimeout } from './IdleTimeout'
+import { SchemaDriftPanel } from './SchemaDriftPanel'
+import { UnloggedTimeReminder } from '@/components/timesheets/TimerSessions'
 import { useUIStore } from '@/store/uiStore'
 
 const pageTitles: Record<string, string> = {
@@ -14,6 +19,7 @@ const pageTitles: Record<string, string> = {
   '/invoices': 'Invoices',
   '/performance': 'Performance',
   '/settings': 'Settings',
+  '/profile': 'My Profile',
 }
 
 export function AppLayout() {
@@ -35,10 +41,15 @@ export function AppLayout() {
       >
         <div className="p-6 px-6 py-6 lg:p-16 xl:p-10">
           <div className="max-w-[1600px] mx-auto">
+            <ImpersonationBanner />
+            <SessionExpiryBanner />
+            <UnloggedTimeReminder />
             <Outlet />
           </div>
         </div>
       </main>
+      <IdleTimeout />
+      {import.meta.env.DEV && <SchemaDriftPanel />}
     </div>
   )
 }
\ No newline at end of file
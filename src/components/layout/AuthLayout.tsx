@@ -0,0 +1,87 @@
+/**
+ * Split-screen frame shared by the sign-in, password reset and forced
+ * password change pages: brand hero on the left, a form card on the right.
+ */
+export function AuthLayout({ children }: { children: React.ReactNode }) {
+  return (
+    <div className="min-h-screen flex bg-slate-50">
+      {/* ── Left hero panel ── */}
+      <div className="hidden lg:flex lg:w-1/2 xl:w-[55%] relative flex-col justify-between p-12 overflow-hidden bg-gradient-to-br from-slate-900 via-slate-900 to-blue-950">
+        {/* Decorative orbs */}
+        <div className="absolute -top-40 -right-20 w-96 h-96 rounded-full bg-blue-600/20 blur-3xl pointer-events-none" />
+        <div className="absolute -bottom-40 -left-20 w-80 h-80 rounded-full bg-blue-500/10 blur-3xl pointer-events-none" />
+        <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-[600px] h-[600px] rounded-full border border-white/5 pointer-events-none" />
+        <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-[400px] h-[400px] rounded-full border border-white/5 pointer-events-none" />
+
+        {/* Brand */}
+        <div className="relative z-10 flex items-center gap-3">
+          <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-blue-500 to-blue-700 flex items-center justify-center shadow-lg">
+            <svg width="18" height="18" viewBox="0 0 24 24" fill="white">
+              <path d="M13 2L3 14h9l-1 8 10-12h-9l1-8z"/>
+            </svg>
+          </div>
+          <div>
+            <p className="text-white font-bold text-base leading-none">TOP Internal</p>
+            <p className="text-slate-500 text-xs mt-0.5">Job Management System</p>
+          </div>
+        </div>
+
+        {/* Hero content */}
+        <div className="relative z-10 space-y-8">
+          <div className="space-y-4">
+            <div className="inline-flex items-center gap-2 bg-blue-500/10 border border-blue-500/20 rounded-full px-3 py-1">
+              <span className="w-2 h-2 rounded-full bg-blue-400 animate-pulse" />
+              <span className="text-blue-300 text-xs font-medium">Live platform</span>
+            </div>
+            <h2 className="text-4xl font-bold text-white leading-[1.15] max-w-sm">
+              Track every job.<br />
+              <span className="text-blue-400">Measure every dollar.</span>
+            </h2>
+            <p className="text-slate-400 text-sm leading-relaxed max-w-sm">
+              Real-time job tracking, time billing, invoice performance and team productivity — built for accounting firms.
+            </p>
+          </div>
+
+          {/* KPI tiles */}
+          <div className="grid grid-cols-2 gap-3 max-w-sm">
+            {[
+              { label: 'Invoice Realisation', value: '94%', icon: '📈', desc: 'avg this quarter' },
+              { label: 'Active Jobs',         value: '47',   icon: '💼', desc: 'across 6 clients' },
+              { label: 'Billable Hours',      value: '384h', icon: '⏱',  desc: 'this month' },
+              { label: 'Avg Job Score',       value: '82',   icon: '⭐', desc: 'out of 100' },
+            ].map(kpi => (
+              <div key={kpi.label} className="bg-white/5 border border-white/10 rounded-xl p-4 backdrop-blur-sm">
+                <div className="flex items-start justify-between mb-1">
+                  <span className="text-xl">{kpi.icon}</span>
+                </div>
+                <p className="text-white font-bold text-xl leading-none">{kpi.value}</p>
+                <p className="text-white/70 text-xs font-medium mt-1">{kpi.label}</p>
+                <p className="text-slate-500 text-[11px] mt-0.5">{kpi.desc}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <p className="relative z-10 text-slate-600 text-xs">© 2024 TOP Internal. All rights reserved.</p>
+      </div>
+
+      {/* ── Right login panel ── */}
+      <div className="flex-1 flex items-center justify-center p-6">
+        <div className="w-full max-w-[400px]">
+          {/* Mobile brand */}
+          <div className="lg:hidden flex items-center gap-3 mb-8">
+            <div className="w-9 h-9 rounded-xl bg-gradient-to-br from-blue-500 to-blue-700 flex items-center justify-center">
+              <svg width="16" height="16" viewBox="0 0 24 24" fill="white"><path d="M13 2L3 14h9l-1 8 10-12h-9l1-8z"/></svg>
+            </div>
+            <div>
+              <p className="font-bold text-slate-900">TOP Internal</p>
+              <p className="text-xs text-slate-500">Job Management System</p>
+            </div>
+          </div>
+
+          {children}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,91 @@
+import { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { Hourglass } from 'lucide-react'
+import { Modal } from '@/components/ui/Modal'
+import { useAuthStore } from '@/store/authStore'
+import { markActivity, lastActivity } from '@/lib/sessionSync'
+
+const IDLE_TIMEOUT_MINUTES = Number(import.meta.env.VITE_IDLE_TIMEOUT_MINUTES ?? 30)
+const IDLE_TIMEOUT_MS = (Number.isFinite(IDLE_TIMEOUT_MINUTES) ? IDLE_TIMEOUT_MINUTES : 30) * 60 * 1000
+const WARN_BEFORE_MS = 60 * 1000
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'wheel'] as const
+
+/**
+ * Signs the user out after a period with no activity in any tab, with a
+ * one-minute countdown first. Disabled when VITE_IDLE_TIMEOUT_MINUTES is 0.
+ */
+export function IdleTimeout() {
+  const logout = useAuthStore(s => s.logout)
+  const navigate = useNavigate()
+  const [now, setNow] = useState(Date.now)
+  const [signingOut, setSigningOut] = useState(false)
+  const enabled = IDLE_TIMEOUT_MS > 0
+
+  const idleFor = now - lastActivity()
+  const warning = enabled && idleFor >= IDLE_TIMEOUT_MS - WARN_BEFORE_MS
+
+  // While the warning is up only the button counts as activity, so a stray mouse move can't hide it
+  useEffect(() => {
+    if (!enabled || warning) return
+    markActivity(true)
+    const onActivity = () => markActivity()
+    ACTIVITY_EVENTS.forEach(e => window.addEventListener(e, onActivity, { passive: true }))
+    return () => ACTIVITY_EVENTS.forEach(e => window.removeEventListener(e, onActivity))
+  }, [enabled, warning])
+
+  // Tick every second during the countdown, otherwise wake when the warning could next be due
+  useEffect(() => {
+    if (!enabled || signingOut) return
+    const idle = Date.now() - lastActivity()
+    if (idle >= IDLE_TIMEOUT_MS) {
+      const id = setTimeout(async () => {
+        setSigningOut(true)
+        await logout()
+        const minutes = Math.round(IDLE_TIMEOUT_MS / 60000)
+        navigate('/login', { replace: true, state: { notice: `You were signed out after ${minutes} minutes of inactivity.` } })
+      })
+      return () => clearTimeout(id)
+    }
+    const delay = warning ? 1000 : IDLE_TIMEOUT_MS - WARN_BEFORE_MS - idle
+    const id = setTimeout(() => setNow(Date.now()), Math.max(1000, delay))
+    return () => clearTimeout(id)
+  }, [enabled, now, warning, signingOut, logout, navigate])
+
+  const stay = () => {
+    markActivity(true)
+    setNow(Date.now())
+  }
+
+  if (!warning) return null
+  const remaining = Math.max(0, Math.ceil((IDLE_TIMEOUT_MS - idleFor) / 1000))
+
+  return (
+    <Modal open onClose={stay} title="Still there?" size="sm" hideFooter>
+      <div className="flex flex-col items-center text-center gap-3 py-2">
+        <div className="w-12 h-12 rounded-2xl bg-amber-50 flex items-center justify-center text-amber-600">
+          <Hourglass size={22} />
+        </div>
+        <p className="text-sm text-slate-600">
+          You'll be signed out in <span className="font-semibold tabular-nums text-slate-900">{remaining}s</span> because
+          there's been no activity. Running timers will be paused.
+        </p>
+        <div className="flex gap-2 pt-1">
+          <button
+            onClick={() => void logout()}
+            disabled={signingOut}
+            className="rounded-lg border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-600 hover:bg-slate-50 disabled:opacity-60"
+          >
+            Sign out now
+          </button>
+          <button
+            onClick={stay}
+            disabled={signingOut}
+            className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-semibold text-white hover:bg-blue-700 disabled:opacity-60"
+          >
+            Stay signed in
+          </button>
+        </div>
+      </div>
+    </Modal>
+  )
+}
@@ -0,0 +1,38 @@
+import { useEffect } from 'react'
+import { useLocation } from 'react-router-dom'
+import { Eye, LogOut } from 'lucide-react'
+import { useAuthStore } from '@/store/authStore'
+import { roleLabels } from '@/lib/utils'
+
+/**
+ * Shown while an admin is viewing the app as someone else. Also records
+ * each page they open on the impersonation audit trail.
+ */
+export function ImpersonationBanner() {
+  const { impersonating, realUser, stopImpersonation, recordImpersonationAction } = useAuthStore()
+  const { pathname } = useLocation()
+
+  useEffect(() => {
+    if (impersonating) recordImpersonationAction('view', pathname)
+  }, [impersonating, pathname, recordImpersonationAction])
+
+  if (!impersonating || !realUser) return null
+
+  return (
+    <div className="mb-4 flex items-center gap-3 rounded-xl border border-violet-200 bg-violet-50 px-4 py-3 text-sm text-violet-800">
+      <Eye size={16} className="flex-shrink-0" />
+      <p className="flex-1">
+        Viewing as <span className="font-semibold">{impersonating.name}</span>
+        {impersonating.userId && <> ({roleLabels[impersonating.role]})</>}.
+        {' '}Everything you do is recorded against {realUser.name}.
+      </p>
+      <button
+        onClick={stopImpersonation}
+        className="flex items-center gap-1.5 rounded-lg bg-violet-600 px-3 py-1.5 text-xs font-semibold text-white hover:bg-violet-700"
+      >
+        <LogOut size={13} />
+        Exit view
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,56 @@
+import { useState } from 'react'
+import { AlertTriangle, X, Trash2 } from 'lucide-react'
+import { useDiagnosticsStore } from '@/store/diagnosticsStore'
+
+/**
+ * Dev-only: lists backend payload fields that failed the runtime checks in
+ * src/lib/schema.ts. Stays hidden until the first drift is reported.
+ */
+export function SchemaDriftPanel() {
+  const { driftIssues, clearDrift } = useDiagnosticsStore()
+  const [open, setOpen] = useState(false)
+
+  if (driftIssues.length === 0) return null
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className="fixed bottom-4 right-4 z-50 flex items-center gap-2 rounded-full bg-amber-500 px-3 py-2 text-xs font-semibold text-white shadow-lg hover:bg-amber-600"
+        title="Backend payloads didn't match the expected schema"
+      >
+        <AlertTriangle size={14} />
+        Schema drift ({driftIssues.length})
+      </button>
+    )
+  }
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 flex max-h-[60vh] w-[440px] flex-col overflow-hidden rounded-xl border border-amber-200 bg-white shadow-2xl">
+      <div className="flex items-center gap-2 border-b border-amber-100 bg-amber-50 px-4 py-2.5">
+        <AlertTriangle size={15} className="text-amber-600" />
+        <span className="flex-1 text-sm font-semibold text-amber-800">Schema drift</span>
+        <button onClick={clearDrift} className="rounded p-1 text-amber-700 hover:bg-amber-100" title="Clear">
+          <Trash2 size={14} />
+        </button>
+        <button onClick={() => setOpen(false)} className="rounded p-1 text-amber-700 hover:bg-amber-100" title="Close">
+          <X size={14} />
+        </button>
+      </div>
+      <ul className="divide-y divide-slate-100 overflow-y-auto text-xs">
+        {driftIssues.map(issue => (
+          <li key={issue.key} className="px-4 py-2.5">
+            <div className="flex items-center justify-between gap-2">
+              <code className="font-semibold text-slate-800">{issue.entity}.{issue.field}</code>
+              {issue.count > 1 && <span className="text-slate-400">×{issue.count}</span>}
+            </div>
+            <p className="mt-0.5 text-slate-500">
+              expected <code className="text-slate-700">{issue.expected}</code>, got <code className="text-red-600">{issue.received}</code>
+              {issue.sampleId && <span className="text-slate-400"> · id {issue.sampleId}</span>}
+            </p>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
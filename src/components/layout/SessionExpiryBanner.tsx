@@ -0,0 +1,103 @@
+import { useEffect, useRef, useState } from 'react'
+import { Clock } from 'lucide-react'
+import { getTokenExpiry, refreshToken, canRefreshToken } from '@/lib/api'
+import { useAuthStore } from '@/store/authStore'
+import { onSessionMessage } from '@/lib/sessionSync'
+
+// Start warning this long before the JWT's `exp`
+const WARN_BEFORE_MS = 5 * 60 * 1000
+// Someone who clicked or typed this recently is still working, so the token is renewed without asking
+const ACTIVE_WITHIN_MS = 15 * 60 * 1000
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown'] as const
+
+function formatRemaining(ms: number) {
+  const total = Math.max(0, Math.ceil(ms / 1000))
+  const m = Math.floor(total / 60)
+  const s = total % 60
+  return `${m}:${String(s).padStart(2, '0')}`
+}
+
+/**
+ * Watches the stored token's expiry. Shortly before it lapses the token is
+ * refreshed quietly if the user has been active; otherwise a countdown shows
+ * (with a refresh button when the backend supports it). The session ends at
+ * expiry instead of waiting for the next request to 401.
+ */
+export function SessionExpiryBanner() {
+  const expireSession = useAuthStore(s => s.expireSession)
+  const [expiresAt, setExpiresAt] = useState(getTokenExpiry)
+  const [now, setNow] = useState(Date.now)
+  const [refreshing, setRefreshing] = useState(false)
+  const lastActivity = useRef(0)
+
+  const remaining = expiresAt ? expiresAt - now : null
+  const warning = remaining !== null && remaining <= WARN_BEFORE_MS
+
+  // Another tab refreshed the shared token — pick up its new expiry
+  useEffect(() => onSessionMessage(message => {
+    if (message.type !== 'token') return
+    setExpiresAt(getTokenExpiry())
+    setNow(Date.now())
+  }), [])
+
+  useEffect(() => {
+    const mark = () => { lastActivity.current = Date.now() }
+    // Arriving in the app (signing in, reloading) counts as activity
+    mark()
+    ACTIVITY_EVENTS.forEach(type => window.addEventListener(type, mark, { passive: true }))
+    return () => ACTIVITY_EVENTS.forEach(type => window.removeEventListener(type, mark))
+  }, [])
+
+  // Once per warning window: renew for an active user, and only show the countdown if that fails
+  useEffect(() => {
+    if (!warning || !canRefreshToken() || Date.now() - lastActivity.current > ACTIVE_WITHIN_MS) return
+    let cancelled = false
+    void refreshToken().then(() => {
+      if (cancelled) return
+      setExpiresAt(getTokenExpiry())
+      setNow(Date.now())
+    })
+    return () => { cancelled = true }
+  }, [warning])
+
+  // Tick once a second while warning, otherwise just wake up when the warning is due
+  useEffect(() => {
+    if (!expiresAt) return
+    if (expiresAt <= Date.now()) { expireSession(); return }
+    const delay = warning ? 1000 : expiresAt - WARN_BEFORE_MS - Date.now()
+    const id = setTimeout(() => {
+      setExpiresAt(getTokenExpiry())
+      setNow(Date.now())
+    }, Math.max(0, delay))
+    return () => clearTimeout(id)
+  }, [expiresAt, now, warning, expireSession])
+
+  if (!warning || remaining === null) return null
+
+  const handleRefresh = async () => {
+    setRefreshing(true)
+    await refreshToken()
+    setRefreshing(false)
+    setExpiresAt(getTokenExpiry())
+    setNow(Date.now())
+  }
+
+  return (
+    <div className="mb-4 flex items-center gap-3 rounded-xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+      <Clock size={16} className="flex-shrink-0" />
+      <p className="flex-1">
+        Your session expires in <span className="font-semibold tabular-nums">{formatRemaining(remaining)}</span>.
+        {!canRefreshToken() && ' Save your work — you will need to sign in again.'}
+      </p>
+      {canRefreshToken() && (
+        <button
+          onClick={handleRefresh}
+          disabled={refreshing}
+          className="rounded-lg bg-amber-600 px-3 py-1.5 text-xs font-semibold text-white hover:bg-amber-700 disabled:opacity-50"
+        >
+          {refreshing ? 'Extending…' : 'Stay signed in'}
+        </button>
+      )}
+    </div>
+  )
+}
@@ -8,29 +8,31 @@ import {
   Clock, BarChart3, Settings, LogOut, ChevronLeft, ChevronRight,
   Calendar, FolderOpen, HeadphonesIcon, Receipt, UserCog
 } from 'lucide-react'
-import type { UserRole } from '@/types'
+import { usePermissions } from '@/hooks/usePermissions'
+import type { Permission } from '@/lib/permissions'
 
 interface NavItem {
   label: string
   icon: React.ReactNode
   path: string
-  roles: UserRole[]
+  /** Omit for pages every signed-in user can open */
+  permission?: Permission
   badge?: number | string
 }
 
 const navItems: NavItem[] = [
-  { label: 'Dashboard',           icon: <LayoutDashboard size={20} />, path: '/dashboard',  roles: ['employee', 'manager', 'admin'] },
-  { label: 'User Management',     icon: <UserCog size={20} />,         path: '/users',       roles: ['manager', 'admin'] },
-  { label: 'Client Management',   icon: <Building2 size={20} />,       path: '/clients',     roles: ['manager', 'admin'] },
-  { label: 'Jobs',                icon: <Briefcase size={20} />,       path: '/jobs',        roles: ['employee', 'manager', 'admin'] },
-  { label: 'Tasks',               icon: <CheckSquare size={20} />,     path: '/tasks',       roles: ['employee', 'manager', 'admin'] },
-  { label: 'Time Sheets', icon: <Clock size={20} />,           path: '/timesheets',  roles: ['employee', 'manager', 'admin'] },
-  { label: 'Billing or Invoice',  icon: <Receipt size={20} />,         path: '/invoices',    roles: ['manager', 'admin'] },
-  { label: 'Reports',             icon: <BarChart3 size={20} />,       path: '/reports',     roles: ['manager', 'admin'] },
-  { label: 'Calendar',            icon: <Calendar size={20} />,        path: '/calendar',    roles: ['employee', 'manager', 'admin'] },
-  { label: 'Documents',           icon: <FolderOpen size={20} />,      path: '/documents',   roles: ['employee', 'manager', 'admin'] },
-  { label: 'Settings',            icon: <Settings size={20} />,        path: '/settings',    roles: ['admin'] },
-  { label: 'Support',             icon: <HeadphonesIcon size={20} />,  path: '/support',     roles: ['employee', 'manager', 'admin'] },
+  { label: 'Dashboard',           icon: <LayoutDashboard size={20} />, path: '/dashboard' },
+  { label: 'User Management',     icon: <UserCog size={20} />,         path: '/users',       permission: 'users.view' },
+  { label: 'Client Management',   icon: <Building2 size={20} />,       path: '/clients',     permission: 'clients.view' },
+  { label: 'Jobs',                icon: <Briefcase size={20} />,       path: '/jobs' },
+  { label: 'Tasks',               icon: <CheckSquare size={20} />,     path: '/tasks' },
+  { label: 'Time Sheets', icon: <Clock size={20} />,           path: '/timesheets' },
+  { label: 'Billing or Invoice',  icon: <Receipt size={20} />,         path: '/invoices',    permission: 'invoices.view' },
+  { label: 'Reports',             icon: <BarChart3 size={20} />,       path: '/reports',     permission: 'reports.view' },
+  { label: 'Calendar',            icon: <Calendar size={20} />,        path: '/calendar' },
+  { label: 'Documents',           icon: <FolderOpen size={20} />,      path: '/documents' },
+  { label: 'Settings',            icon: <Settings size={20} />,        path: '/settings',    permission: 'settings.manage' },
+  { label: 'Support',             icon: <HeadphonesIcon size={20} />,  path: '/support' },
 ]
 
 const SIDEBAR_BG = '#0f172a'
@@ -42,9 +44,10 @@ export function Sidebar() {
   const { sidebarCollapsed, toggleCollapsed } = useUIStore()
   const navigate = useNavigate()
 
-  const filtered = navItems.filter(item => user?.role && item.roles.includes(user.role))
+  const can = usePermissions()
+  const filtered = navItems.filter(item => !item.permission || can(item.permission))
 
-  const handleLogout = () => { logout(); navigate('/login') }
+  const handleLogout = async () => { await logout(); navigate('/login') }
 
   return (
     <aside
@@ -137,14 +140,16 @@ export function Sidebar() {
 
       {/* User footer - more vertical padding */}
       {user && (
-        <div
+        <NavLink
+          to="/profile"
+          title="My profile"
           className={cn(
-            'flex items-center gap-3 px-4 py-6 border-t border-white/8 flex-shrink-0',
+            'flex items-center gap-3 px-4 py-6 border-t border-white/8 flex-shrink-0 hover:bg-white/5 transition-colors',
             sidebarCollapsed && 'justify-center px-2 py-5'
           )}
         >
           <div className="relative flex-shrink-0">
-            <Avatar name={user.name} size="sm" />
+            <Avatar name={user.name} src={user.avatar} size="sm" />
             <div className="absolute -bottom-0.5 -right-0.5 w-2.5 h-2.5 bg-emerald-500 rounded-full border-2 border-[#0f172a]" />
           </div>
 
@@ -154,7 +159,7 @@ export function Sidebar() {
               <div className="text-slate-500 text-[10px] truncate mt-0.5">{user.email}</div>
             </div>
           )}
-        </div>
+        </NavLink>
       )}
     </aside>
   )
@@ -0,0 +1,109 @@
+import { useEffect, useState } from 'react'
+import { CloudOff, RefreshCw, AlertTriangle, Trash2, RotateCcw } from 'lucide-react'
+import { useAuthStore } from '@/store/authStore'
+import { useOutboxStore } from '@/store/outboxStore'
+import { cn } from '@/lib/utils'
+
+function formatQueuedAt(iso: string) {
+  return new Date(iso).toLocaleString('en-AU', { day: 'numeric', month: 'short', hour: 'numeric', minute: '2-digit' })
+}
+
+/**
+ * Topbar pill for the offline outbox: how many of this user's changes are
+ * waiting to sync, plus a panel to force a sync and resolve rejected ones.
+ */
+export function SyncIndicator() {
+  // The queue's owner, as in the outbox store: an admin viewing as someone else still sees their own changes
+  const userId = useAuthStore(s => (s.realUser ?? s.user)?.id)
+  const { items, online, syncing, flush, retry, discard } = useOutboxStore()
+  const [open, setOpen] = useState(false)
+
+  // Changes queued in an earlier session replay once their owner is signed in again
+  useEffect(() => {
+    if (userId) void flush()
+  }, [userId, flush])
+
+  const mine = items.filter(i => i.userId === userId)
+  const conflicts = mine.filter(i => i.status === 'conflict').length
+
+  if (mine.length === 0 && online) return null
+
+  const label = mine.length === 0
+    ? 'Offline'
+    : conflicts > 0
+      ? `${conflicts} change${conflicts === 1 ? '' : 's'} need${conflicts === 1 ? 's' : ''} attention`
+      : `${mine.length} change${mine.length === 1 ? '' : 's'} pending sync`
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(v => !v)}
+        className={cn(
+          'flex items-center gap-1.5 h-8 px-3 rounded-full text-xs font-semibold ring-1 transition-colors',
+          conflicts > 0
+            ? 'bg-red-50 text-red-700 ring-red-200 hover:bg-red-100'
+            : 'bg-amber-50 text-amber-700 ring-amber-200 hover:bg-amber-100',
+        )}
+      >
+        {conflicts > 0
+          ? <AlertTriangle size={13} />
+          : online ? <RefreshCw size={13} className={cn(syncing && 'animate-spin')} /> : <CloudOff size={13} />}
+        {label}
+      </button>
+
+      {open && (
+        <>
+          <div className="fixed inset-0 z-10" onClick={() => setOpen(false)} />
+          <div className="absolute right-0 top-[calc(100%+8px)] z-20 w-96 overflow-hidden rounded-xl border border-slate-200 bg-white shadow-xl ring-1 ring-black/5">
+            <div className="flex items-center justify-between border-b border-slate-100 bg-slate-50/60 px-4 py-3">
+              <div>
+                <p className="text-sm font-semibold text-slate-800">Offline changes</p>
+                <p className="text-xs text-slate-500">
+                  {online ? 'Replayed in the order they were made.' : 'You are offline — these will sync when you reconnect.'}
+                </p>
+              </div>
+              <button
+                onClick={() => void flush()}
+                disabled={!online || syncing || mine.length === 0}
+                className="rounded-lg bg-blue-600 px-3 py-1.5 text-xs font-semibold text-white hover:bg-blue-700 disabled:opacity-50"
+              >
+                {syncing ? 'Syncing…' : 'Sync now'}
+              </button>
+            </div>
+            {mine.length === 0 ? (
+              <p className="px-4 py-6 text-center text-sm text-slate-400">Nothing waiting to sync.</p>
+            ) : (
+              <ul className="max-h-80 divide-y divide-slate-50 overflow-y-auto">
+                {mine.map(item => (
+                  <li key={item.id} className={cn('px-4 py-3', item.status === 'conflict' && 'bg-red-50/50')}>
+                    <p className="text-sm text-slate-700 leading-snug">{item.label}</p>
+                    <p className="mt-0.5 text-xs text-slate-400">Queued {formatQueuedAt(item.createdAt)}</p>
+                    {item.status === 'conflict' && (
+                      <div className="mt-2 flex items-start gap-2">
+                        <p className="flex-1 text-xs text-red-600">The server rejected this change: {item.error}</p>
+                        <button
+                          onClick={() => void retry(item.id)}
+                          title="Try again"
+                          className="rounded p-1 text-slate-500 hover:bg-white hover:text-blue-600"
+                        >
+                          <RotateCcw size={14} />
+                        </button>
+                        <button
+                          onClick={() => void discard(item.id)}
+                          title="Discard this change"
+                          className="rounded p-1 text-slate-500 hover:bg-white hover:text-red-600"
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -1,19 +1,15 @@
 import { Bell, Search, LogOut } from 'lucide-react'
 import { useState } from 'react'
-import { useNavigate } from 'react-router-dom'
+import { Link, useNavigate } from 'react-router-dom'
 import { useAuthStore } from '@/store/authStore'
 import { useUIStore } from '@/store/uiStore'
 import { Avatar } from '@/components/ui/Avatar'
 import { Badge } from '@/components/ui/Badge'
-import { cn } from '@/lib/utils'
+import { SyncIndicator } from './SyncIndicator'
+import { ViewAsMenu } from './ViewAsMenu'
+import { cn, roleLabels } from '@/lib/utils'
 import type { UserRole } from '@/types'
 
-const roleLabels: Record<UserRole, string> = {
-  employee: 'Processor',
-  manager:  'Manager',
-  admin:    'Senior Manager',
-}
-
 const roleBadgeVariants: Record<UserRole, 'secondary' | 'default' | 'danger'> = {
   employee: 'secondary',
   manager:  'default',
@@ -42,8 +38,8 @@ export function Topbar({ pageTitle }: { pageTitle?: string }) {
   const sidebarW = sidebarCollapsed ? 76 : 260
   const unreadCount = notifications.filter(n => n.unread).length
 
-  const handleLogout = () => {
-    logout()
+  const handleLogout = async () => {
+    await logout()
     navigate('/login')
   }
 
@@ -77,6 +73,9 @@ export function Topbar({ pageTitle }: { pageTitle?: string }) {
         />
       </div>
 
+      <ViewAsMenu />
+      <SyncIndicator />
+
       {/* Notifications */}
       <div className="relative">
         <button
@@ -125,13 +124,15 @@ export function Topbar({ pageTitle }: { pageTitle?: string }) {
       {/* User + Logout */}
       {user && (
         <div className="flex items-center gap-2 pl-3 border-l border-slate-200">
-          <Avatar name={user.name} size="sm" />
-          <div className="hidden sm:block">
-            <p className="text-xs font-semibold text-slate-800 leading-none">{user.name}</p>
-            <div className="mt-0.5">
-              <Badge variant={roleBadgeVariants[user.role]}>{roleLabels[user.role]}</Badge>
+          <Link to="/profile" title="My profile" className="flex items-center gap-2 rounded-lg hover:opacity-80 transition-opacity">
+            <Avatar name={user.name} src={user.avatar} size="sm" />
+            <div className="hidden sm:block">
+              <p className="text-xs font-semibold text-slate-800 leading-none">{user.name}</p>
+              <div className="mt-0.5">
+                <Badge variant={roleBadgeVariants[user.role]}>{roleLabels[user.role]}</Badge>
+              </div>
             </div>
-          </div>
+          </Link>
           <button
             onClick={handleLogout}
             title="Sign out"
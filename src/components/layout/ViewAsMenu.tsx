@@ -0,0 +1,150 @@
+import { useState } from 'react'
+import { Eye, Search, Loader2 } from 'lucide-react'
+import { useAuthStore } from '@/store/authStore'
+import { useUsers } from '@/hooks/useUsers'
+import { useDebouncedValue } from '@/hooks/useDebouncedValue'
+import { getImpersonationAudit } from '@/lib/impersonationAudit'
+import { Avatar } from '@/components/ui/Avatar'
+import { cn, roleLabels } from '@/lib/utils'
+import { can } from '@/lib/permissions'
+import type { UserRole } from '@/types'
+
+const VIEW_ROLES: UserRole[] = ['employee', 'manager']
+const RECENT_AUDIT = 5
+
+function formatAuditTime(iso: string) {
+  return new Date(iso).toLocaleString('en-AU', { day: 'numeric', month: 'short', hour: 'numeric', minute: '2-digit' })
+}
+
+/** Body of the menu — only mounted while open, so the user search doesn't run in the background. */
+function ViewAsPanel({ onDone }: { onDone: () => void }) {
+  const { realUser, user, impersonating, switchRole, impersonate, stopImpersonation } = useAuthStore()
+  const [search, setSearch] = useState('')
+  const debounced = useDebouncedValue(search.trim())
+  const admin = realUser ?? user
+  // While impersonating, requests carry the target's identity — pick someone new only as the admin
+  const { users, loading, refreshing } = useUsers({ status: 'active', search: debounced })
+  const candidates = (impersonating ? [] : users).filter(u => u.id !== admin?.id)
+  const recent = getImpersonationAudit().filter(e => e.action === 'start').slice(-RECENT_AUDIT).reverse()
+
+  const pick = (run: () => void) => {
+    run()
+    onDone()
+  }
+
+  return (
+    <div className="absolute right-0 top-[calc(100%+8px)] z-20 w-80 overflow-hidden rounded-xl border border-slate-200 bg-white shadow-xl ring-1 ring-black/5">
+      <div className="border-b border-slate-100 bg-slate-50/60 px-4 py-3">
+        <p className="text-sm font-semibold text-slate-800">View as</p>
+        <p className="text-xs text-slate-500">See the app as a role or a specific person. Every action is recorded.</p>
+      </div>
+
+      <div className="flex gap-2 px-4 py-3">
+        {VIEW_ROLES.map(role => (
+          <button
+            key={role}
+            onClick={() => pick(() => switchRole(role))}
+            className={cn(
+              'flex-1 rounded-lg border px-3 py-1.5 text-xs font-semibold transition-colors',
+              impersonating?.role === role && !impersonating.userId
+                ? 'border-violet-300 bg-violet-50 text-violet-700'
+                : 'border-slate-200 text-slate-600 hover:bg-slate-50',
+            )}
+          >
+            Any {roleLabels[role]}
+          </button>
+        ))}
+      </div>
+
+      {impersonating ? (
+        <div className="border-t border-slate-100 px-4 py-3">
+          <button
+            onClick={() => pick(stopImpersonation)}
+            className="w-full rounded-lg bg-violet-600 px-3 py-2 text-xs font-semibold text-white hover:bg-violet-700"
+          >
+            Exit and return to {admin?.name}
+          </button>
+        </div>
+      ) : (
+        <div className="border-t border-slate-100">
+          <div className="mx-4 my-3 flex h-9 items-center gap-2 rounded-lg bg-slate-50 px-3 ring-1 ring-slate-200 focus-within:ring-2 focus-within:ring-blue-500/40">
+            {refreshing ? <Loader2 size={14} className="animate-spin text-slate-400" /> : <Search size={14} className="text-slate-400" />}
+            <input
+              autoFocus
+              value={search}
+              onChange={e => setSearch(e.target.value)}
+              placeholder="Find a person…"
+              className="w-full bg-transparent text-sm text-slate-600 placeholder:text-slate-400 focus:outline-none"
+            />
+          </div>
+          <ul className="max-h-64 overflow-y-auto pb-2">
+            {loading && <li className="px-4 py-3 text-center text-xs text-slate-400">Loading…</li>}
+            {!loading && candidates.length === 0 && (
+              <li className="px-4 py-3 text-center text-xs text-slate-400">No matching people.</li>
+            )}
+            {candidates.map(u => (
+              <li key={u.id}>
+                <button
+                  onClick={() => pick(() => impersonate(u))}
+                  className="flex w-full items-center gap-3 px-4 py-2 text-left hover:bg-slate-50"
+                >
+                  <Avatar name={u.name} size="sm" />
+                  <span className="min-w-0 flex-1">
+                    <span className="block truncate text-sm text-slate-700">{u.name}</span>
+                    <span className="block truncate text-xs text-slate-400">{roleLabels[u.role]} · {u.email}</span>
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {recent.length > 0 && (
+        <div className="border-t border-slate-100 px-4 py-3">
+          <p className="mb-1.5 text-[11px] font-semibold uppercase tracking-wide text-slate-400">Recent sessions</p>
+          <ul className="space-y-1">
+            {recent.map(e => (
+              <li key={e.id} className="flex justify-between gap-2 text-xs text-slate-500">
+                <span className="truncate">{e.actorName} → {e.targetName}</span>
+                <span className="flex-shrink-0 text-slate-400">{formatAuditTime(e.at)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
+
+/** Topbar control letting admins impersonate a role or user, e.g. to reproduce "I can't see job X". */
+export function ViewAsMenu() {
+  const { realUser, user, impersonating } = useAuthStore()
+  const [open, setOpen] = useState(false)
+
+  // Checked against the signed-in admin, not whoever they're currently viewing as
+  if (!can((realUser ?? user)?.role, 'users.impersonate')) return null
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(v => !v)}
+        className={cn(
+          'flex items-center gap-1.5 h-8 px-3 rounded-full text-xs font-semibold ring-1 transition-colors',
+          impersonating
+            ? 'bg-violet-50 text-violet-700 ring-violet-200 hover:bg-violet-100'
+            : 'bg-white text-slate-600 ring-slate-200 hover:bg-slate-50',
+        )}
+      >
+        <Eye size={13} />
+        {impersonating ? `Viewing as ${impersonating.name}` : 'View as'}
+      </button>
+      {open && (
+        <>
+          <div className="fixed inset-0 z-10" onClick={() => setOpen(false)} />
+          <ViewAsPanel onDone={() => setOpen(false)} />
+        </>
+      )}
+    </div>
+  )
+}
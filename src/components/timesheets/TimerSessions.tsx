@@ -0,0 +1,152 @@
+import { useState } from 'react'
+import { Timer, X } from 'lucide-react'
+import { useAuthStore } from '@/store/authStore'
+import { Button } from '@/components/ui/Button'
+import { Modal } from '@/components/ui/Modal'
+import { useTimerSessions } from '@/hooks/useTimerSessions'
+import type { TimerSession } from '@/hooks/useTimerSessions'
+
+// Local YYYY-MM-DD, the day the session started on the user's clock
+function localYmd(iso: string): string {
+  const d = new Date(iso)
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`
+}
+
+function formatDuration(seconds: number): string {
+  const h = Math.floor(seconds / 3600)
+  const m = Math.floor((seconds % 3600) / 60)
+  return h > 0 ? `${h}h ${m}m` : `${m}m`
+}
+
+function formatSpan(session: TimerSession): string {
+  const time = (iso: string) => new Date(iso).toLocaleTimeString('en-AU', { hour: 'numeric', minute: '2-digit' })
+  const day = new Date(session.startedAt).toLocaleDateString('en-AU', { weekday: 'short', day: 'numeric', month: 'short' })
+  return `${day}, ${time(session.startedAt)} – ${time(session.endedAt)}`
+}
+
+/**
+ * "Log this time" for one stopped timer session, with the date, hours
+ * (rounded by the client's or firm's policy), job and task filled in. Used
+ * after a pause on the Tasks page and from the unlogged-time reminder.
+ */
+export function LogSessionModal({ session, onClose }: { session: TimerSession; onClose: () => void }) {
+  const user = useAuthStore(s => s.user)
+  const { logSession, mutationError, resetMutationError } = useTimerSessions()
+  const [date, setDate] = useState(() => localYmd(session.startedAt))
+  const [hours, setHours] = useState(() => String(session.roundedHours))
+  const [description, setDescription] = useState(session.taskName)
+  const [busy, setBusy] = useState(false)
+
+  const close = () => { resetMutationError(); onClose() }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!user) return
+    setBusy(true)
+    const logged = await logSession(session, { date, hours: Number(hours), description: description.trim() || undefined }, user.id)
+    setBusy(false)
+    if (logged) onClose()
+  }
+
+  const inputClass = 'h-10 w-full rounded-lg border border-slate-200 bg-white px-3 text-sm text-slate-900 focus:outline-none focus:ring-2 focus:ring-blue-500/30 focus:border-blue-500'
+  const labelClass = 'block text-xs font-medium text-slate-600 mb-1'
+
+  return (
+    <Modal open onClose={close} title="Log this time" description={`Timer ran ${formatDuration(session.seconds)} — ${formatSpan(session)}`} size="md" hideFooter>
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <div className="rounded-lg bg-slate-50 border border-slate-200 px-3 py-2 text-sm">
+          <span className="text-xs font-bold text-blue-700 bg-blue-100 px-2 py-0.5 rounded mr-2">{session.jobIdDisplay}</span>
+          <span className="font-medium text-slate-700">{session.jobTitle}</span>
+          <p className="text-xs text-slate-500 mt-1">{session.taskName}</p>
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className={labelClass} htmlFor="session-date">Date</label>
+            <input id="session-date" type="date" value={date} onChange={e => setDate(e.target.value)} required className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass} htmlFor="session-hours">Hours</label>
+            <input id="session-hours" type="number" min={0} max={24} step="any" value={hours} onChange={e => setHours(e.target.value)} required className={inputClass} />
+            <p className="text-xs text-slate-400 mt-1">
+              {session.roundedHours > 0
+                ? `Rounded from ${formatDuration(session.seconds)} on the timer`
+                : `${formatDuration(session.seconds)} rounds to nothing; enter hours to log it anyway`}
+            </p>
+          </div>
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="session-notes">Notes</label>
+          <input id="session-notes" value={description} onChange={e => setDescription(e.target.value)} className={inputClass} />
+        </div>
+        {mutationError && <p role="alert" className="text-xs text-red-600">{mutationError.message}</p>}
+        <div className="flex justify-end gap-2 pt-1">
+          <Button type="button" variant="outline" onClick={close}>Not now</Button>
+          <Button type="submit" disabled={busy || !(Number(hours) > 0)}>{busy ? 'Logging...' : 'Log time'}</Button>
+        </div>
+      </form>
+    </Modal>
+  )
+}
+
+const SNOOZE_KEY = 'top_timer_reminder_snoozed'
+
+/**
+ * Once a day, lists timer sessions that never made it onto the timesheet.
+ * "Remind me tomorrow" hides it until the date changes.
+ */
+export function UnloggedTimeReminder() {
+  const { sessions, dismissSession } = useTimerSessions()
+  const today = localYmd(new Date().toISOString())
+  const [snoozedOn, setSnoozedOn] = useState(() => localStorage.getItem(SNOOZE_KEY))
+  const [expanded, setExpanded] = useState(false)
+  const [logging, setLogging] = useState<TimerSession | null>(null)
+
+  const snooze = () => {
+    localStorage.setItem(SNOOZE_KEY, today)
+    setSnoozedOn(today)
+  }
+
+  const visible = sessions.length > 0 && snoozedOn !== today
+  const totalSeconds = sessions.reduce((s, t) => s + t.seconds, 0)
+
+  return (
+    <>
+      {visible && (
+        <div className="mb-4 rounded-xl border border-sky-200 bg-sky-50 px-4 py-3 text-sm text-sky-900">
+          <div className="flex items-center gap-3">
+            <Timer size={16} className="flex-shrink-0" />
+            <p className="flex-1">
+              {sessions.length} timer {sessions.length === 1 ? 'session' : 'sessions'}{' '}
+              (<span className="font-semibold">{formatDuration(totalSeconds)}</span>) not on your timesheet yet.
+            </p>
+            <button onClick={() => setExpanded(e => !e)} className="rounded-lg bg-sky-600 px-3 py-1.5 text-xs font-semibold text-white hover:bg-sky-700">
+              {expanded ? 'Hide' : 'Review'}
+            </button>
+            <button onClick={snooze} className="text-xs font-medium text-sky-700 hover:underline">Remind me tomorrow</button>
+          </div>
+          {expanded && (
+            <ul className="mt-3 divide-y divide-sky-100 rounded-lg border border-sky-100 bg-white">
+              {sessions.map(s => (
+                <li key={s.id} className="flex items-center gap-3 px-3 py-2">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-slate-800 truncate">{s.taskName} <span className="text-slate-400 font-normal">· {s.jobTitle}</span></p>
+                    <p className="text-xs text-slate-500">{formatSpan(s)} · {formatDuration(s.seconds)}</p>
+                  </div>
+                  <Button size="sm" onClick={() => setLogging(s)}>Log {s.roundedHours}h</Button>
+                  <button
+                    onClick={() => void dismissSession(s.id)}
+                    title="Don't log this session"
+                    className="p-1.5 rounded-md text-slate-400 hover:text-slate-600 hover:bg-slate-100"
+                  >
+                    <X size={14} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+      {logging && <LogSessionModal session={logging} onClose={() => setLogging(null)} />}
+    </>
+  )
+}
@@ -0,0 +1,107 @@
+import { useState } from 'react'
+import { BookmarkPlus, Trash2 } from 'lucide-react'
+import { useTimesheetTemplates } from '@/hooks/useTimesheetTemplates'
+import type { TemplateItem, TemplateItemDetail } from '@/hooks/useTimesheetTemplates'
+
+// Matches the dark Log Daily Time modal it sits in
+const control: React.CSSProperties = { padding: '7px 10px', background: '#1e2d4a', border: '1px solid #2d4068', borderRadius: 8, color: '#fff', fontSize: 13, outline: 'none' }
+const smallButton: React.CSSProperties = { padding: '7px 12px', borderRadius: 8, background: 'transparent', border: '1px solid #2d4068', color: '#94a3b8', fontWeight: 600, fontSize: 12, cursor: 'pointer', display: 'flex', alignItems: 'center', gap: 5 }
+
+/**
+ * Apply a saved template to the day being logged, or save the entries
+ * added so far as a new one. Items whose task has been completed (or whose
+ * job has closed) since the template was saved are left out.
+ */
+export function TemplateBar({ entries, disabled, onApply }: {
+  /** The entries added in the modal so far, offered for saving */
+  entries: TemplateItem[]
+  /** The chosen day can't take new entries */
+  disabled?: boolean
+  onApply: (items: TemplateItemDetail[]) => void
+}) {
+  const { templates, saveTemplate, deleteTemplate, mutationError, resetMutationError } = useTimesheetTemplates()
+  const [selectedId, setSelectedId] = useState('')
+  const [naming, setNaming] = useState(false)
+  const [name, setName] = useState('')
+  const [note, setNote] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  const selected = templates.find(t => t.id === selectedId)
+
+  const apply = () => {
+    if (!selected) return
+    const usable = selected.items.filter(i => !i.closed)
+    const skipped = selected.items.length - usable.length
+    onApply(usable)
+    setNote(skipped > 0
+      ? `Skipped ${skipped} ${skipped === 1 ? 'entry' : 'entries'} on a completed task or closed job.`
+      : null)
+  }
+
+  const save = async () => {
+    setBusy(true)
+    const saved = await saveTemplate(name.trim(), entries)
+    setBusy(false)
+    if (saved) {
+      setNaming(false)
+      setName('')
+      setNote('Template saved.')
+    }
+  }
+
+  const remove = async () => {
+    if (!selected) return
+    if (await deleteTemplate(selected.id)) setSelectedId('')
+  }
+
+  return (
+    <div style={{ marginBottom: 18 }}>
+      {naming ? (
+        <div style={{ display: 'flex', gap: 8 }}>
+          <input
+            autoFocus
+            value={name}
+            onChange={e => setName(e.target.value)}
+            onKeyDown={e => { if (e.key === 'Enter' && name.trim()) void save() }}
+            placeholder="e.g. Standard Monday"
+            aria-label="Template name"
+            style={{ ...control, flex: 1 }}
+          />
+          <button onClick={() => void save()} disabled={busy || !name.trim()} style={{ ...smallButton, background: '#2563eb', border: 'none', color: '#fff', opacity: busy || !name.trim() ? 0.6 : 1 }}>
+            {busy ? 'Saving...' : 'Save'}
+          </button>
+          <button onClick={() => { setNaming(false); resetMutationError() }} style={smallButton}>Cancel</button>
+        </div>
+      ) : (
+        <div style={{ display: 'flex', gap: 8 }}>
+          <select
+            value={selectedId}
+            onChange={e => { setSelectedId(e.target.value); setNote(null) }}
+            aria-label="Template"
+            style={{ ...control, flex: 1, color: selectedId ? '#fff' : '#64748b', cursor: 'pointer' }}
+          >
+            <option value="">{templates.length > 0 ? 'Apply a template...' : 'No saved templates'}</option>
+            {templates.map(t => (
+              <option key={t.id} value={t.id}>
+                {t.name} ({t.items.reduce((s, i) => s + i.hours, 0)}h)
+              </option>
+            ))}
+          </select>
+          <button onClick={apply} disabled={!selected || disabled} style={{ ...smallButton, opacity: !selected || disabled ? 0.5 : 1 }}>Apply</button>
+          {selected && (
+            <button onClick={() => void remove()} title={`Delete "${selected.name}"`} aria-label={`Delete template ${selected.name}`} style={smallButton}>
+              <Trash2 size={12} />
+            </button>
+          )}
+          {entries.length > 0 && (
+            <button onClick={() => { setNaming(true); setNote(null) }} title="Save these entries as a template" style={smallButton}>
+              <BookmarkPlus size={13} /> Save as template
+            </button>
+          )}
+        </div>
+      )}
+      {mutationError && <p role="alert" style={{ fontSize: 12, color: '#fca5a5', marginTop: 6 }}>{mutationError.fieldErrors.name ?? mutationError.fieldErrors.items ?? mutationError.message}</p>}
+      {!mutationError && note && <p style={{ fontSize: 12, color: '#94a3b8', marginTop: 6 }}>{note}</p>}
+    </div>
+  )
+}
@@ -19,6 +19,8 @@ function getPalette(name: string) {
 
 interface AvatarProps {
   name: string
+  /** Image URL; falls back to coloured initials when absent */
+  src?: string
   size?: 'xs' | 'sm' | 'md' | 'lg' | 'xl'
   className?: string
 }
@@ -31,8 +33,17 @@ const sizes = {
   xl: 'w-14 h-14 text-lg',
 }
 
-export function Avatar({ name, size = 'md', className }: AvatarProps) {
+export function Avatar({ name, src, size = 'md', className }: AvatarProps) {
   const p = getPalette(name)
+  if (src) {
+    return (
+      <img
+        src={src}
+        alt={name}
+        className={cn('rounded-full object-cover flex-shrink-0 ring-2', p.ring, sizes[size], className)}
+      />
+    )
+  }
   return (
     <div className={cn(
       'rounded-full flex items-center justify-center text-white font-semibold flex-shrink-0 ring-2',
@@ -0,0 +1,41 @@
+import { AlertCircle } from 'lucide-react'
+import type { ApiError } from '@/lib/api'
+
+interface FieldErrorProps {
+  error?: ApiError | null
+  /** Request-body field name(s) as sent to the API — the first rejected one is shown */
+  field: string | string[]
+}
+
+/** Inline message under a form input for a field the backend rejected. */
+export function FieldError({ error, field }: FieldErrorProps) {
+  const fields = Array.isArray(field) ? field : [field]
+  const message = fields.map(f => error?.fieldErrors[f]).find(Boolean)
+  if (!message) return null
+  return (
+    <p role="alert" style={{ fontSize: 12, color: '#f87171', marginTop: 5 }}>
+      {message}
+    </p>
+  )
+}
+
+/** Banner at the top of a modal for the overall save failure. */
+export function FormError({ error }: { error?: ApiError | null }) {
+  if (!error) return null
+  return (
+    <div
+      role="alert"
+      style={{
+        display: 'flex', alignItems: 'flex-start', gap: 8, marginBottom: 18, padding: '10px 12px',
+        background: 'rgba(239,68,68,.12)', border: '1px solid rgba(239,68,68,.35)', borderRadius: 8,
+        color: '#fca5a5', fontSize: 13,
+      }}
+    >
+      <AlertCircle size={15} style={{ flexShrink: 0, marginTop: 1 }} />
+      <span>
+        {error.message}
+        {error.hasFieldErrors && ' Check the highlighted fields.'}
+      </span>
+    </div>
+  )
+}
@@ -0,0 +1,51 @@
+import { useEffect, useRef } from 'react'
+import { Loader2 } from 'lucide-react'
+
+interface LoadMoreProps {
+  shown: number
+  total: number
+  hasMore: boolean
+  loading: boolean
+  onLoadMore: () => void
+  /** Plural noun for the footer, e.g. "jobs" */
+  noun?: string
+}
+
+/**
+ * Table footer for paged lists: loads the next page when it scrolls into
+ * view, with a button as a fallback, and shows how much of the total is loaded.
+ */
+export function LoadMore({ shown, total, hasMore, loading, onLoadMore, noun = 'items' }: LoadMoreProps) {
+  const sentinel = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    const el = sentinel.current
+    if (!el || !hasMore || loading) return
+    const observer = new IntersectionObserver(
+      ([entry]) => { if (entry?.isIntersecting) onLoadMore() },
+      { rootMargin: '200px' },
+    )
+    observer.observe(el)
+    return () => observer.disconnect()
+  }, [hasMore, loading, onLoadMore])
+
+  if (total === 0) return null
+
+  return (
+    <div ref={sentinel} className="flex items-center justify-between gap-3 border-t border-slate-100 px-5 py-3 text-xs text-slate-500">
+      <span>
+        Showing {shown} of {total} {noun}
+      </span>
+      {hasMore && (
+        <button
+          onClick={onLoadMore}
+          disabled={loading}
+          className="flex items-center gap-1.5 rounded-lg border border-slate-200 px-3 py-1.5 font-semibold text-slate-600 hover:bg-slate-50 disabled:opacity-60"
+        >
+          {loading && <Loader2 size={12} className="animate-spin" />}
+          {loading ? 'Loading…' : 'Load more'}
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,37 @@
+import { useMemo } from 'react'
+import { encodeQr } from '@/lib/qrCode'
+import { cn } from '@/lib/utils'
+
+interface QrCodeProps {
+  value: string
+  /** Rendered width and height in pixels */
+  size?: number
+  className?: string
+}
+
+// Scanners need a light margin of four modules around the symbol
+const QUIET_ZONE = 4
+
+export function QrCode({ value, size = 176, className }: QrCodeProps) {
+  const { path, extent } = useMemo(() => {
+    const modules = encodeQr(value)
+    const d = modules.flatMap((row, y) =>
+      row.flatMap((dark, x) => dark ? [`M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z`] : []),
+    ).join('')
+    return { path: d, extent: modules.length + QUIET_ZONE * 2 }
+  }, [value])
+
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox={`0 0 ${extent} ${extent}`}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label="QR code"
+      className={cn('bg-white', className)}
+    >
+      <path d={path} fill="#0f172a" />
+    </svg>
+  )
+}
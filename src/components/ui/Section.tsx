@@ -0,0 +1,25 @@
+import { Check } from 'lucide-react'
+import type { ApiError } from '@/lib/api'
+
+/** A titled card for one group of settings on the profile and settings pages. */
+export function Section({ title, description, children }: { title: string; description: string; children: React.ReactNode }) {
+  return (
+    <section className="bg-white rounded-xl border border-slate-200 shadow-sm">
+      <div className="px-6 py-4 border-b border-slate-100">
+        <h2 className="text-sm font-semibold text-slate-800">{title}</h2>
+        <p className="text-xs text-slate-500 mt-0.5">{description}</p>
+      </div>
+      <div className="p-6">{children}</div>
+    </section>
+  )
+}
+
+export function Saved({ show }: { show: boolean }) {
+  if (!show) return null
+  return <span className="flex items-center gap-1 text-xs font-semibold text-green-600"><Check size={13} /> Saved</span>
+}
+
+export function FormAlert({ error }: { error: ApiError | null }) {
+  if (!error || error.hasFieldErrors) return null
+  return <p role="alert" className="bg-red-50 border border-red-200 text-red-600 text-xs px-3 py-2.5 rounded-lg">{error.message}</p>
+}
@@ -1,6 +1,13 @@
-import { useState, useEffect, useCallback } from 'react'
-import { api, normStr, getToken } from '@/lib/api'
-import type { ApiResponse } from '@/lib/api'
+import { useState } from 'react'
+import { useMutation } from '@tanstack/react-query'
+import { api, toApiError } from '@/lib/api'
+import type { ApiResponse, ApiError } from '@/lib/api'
+import { queryKeys, invalidate, errorMessage } from '@/lib/queryClient'
+import { readPayload } from '@/lib/schema'
+import type { PayloadReader } from '@/lib/schema'
+import { isRoundingPolicy } from '@/lib/timeRounding'
+import type { RoundingPolicy } from '@/lib/timeRounding'
+import { usePagedQuery } from './usePagedQuery'
 import type { Client, ClientFormData } from '@/types'
 
 interface ApiClient {
@@ -13,21 +20,34 @@ interface ApiClient {
   address: string
   status: string
   createdAt: string
+  rounding?: RoundingPolicy | null
   _count?: { jobs: number }
 }
 
+const CLIENT_STATUSES: readonly Client['status'][] = ['active', 'inactive']
+
+// Read as is rather than through r.enum: the directions stay upper case, as the rounding helpers and the API expect
+function roundingOf(r: PayloadReader | undefined): RoundingPolicy | null {
+  if (!r) return null
+  const policy = { increment: r.number('increment'), direction: r.string('direction') }
+  return isRoundingPolicy(policy) ? policy : null
+}
+
 function normaliseClient(c: ApiClient): Client {
+  const r = readPayload('Client', c)
+  const company = r.string('company')
   return {
-    id: c.id,
-    name: c.name || c.company,     // Use name if available, fallback to company
-    email: c.email,
-    phone: c.phone,
-    company: c.company,
-    industry: c.industry,
-    status: normStr(c.status) as 'active' | 'inactive',
-    address: c.address,
-    createdAt: c.createdAt,
-    totalJobs: c._count?.jobs ?? 0,
+    id: r.string('id'),
+    name: r.optionalString('name') || company,     // Use name if available, fallback to company
+    email: r.string('email'),
+    phone: r.optionalString('phone') ?? '',
+    company,
+    industry: r.optionalString('industry') ?? '',
+    status: r.enum('status', CLIENT_STATUSES, 'active'),
+    address: r.optionalString('address') ?? '',
+    createdAt: r.string('createdAt'),
+    rounding: roundingOf(r.optionalObject('rounding')),
+    totalJobs: r.optionalObject('_count')?.number('jobs') ?? 0,
     totalRevenue: 0,
     billingRate: 0,
   }
@@ -36,85 +56,96 @@ function normaliseClient(c: ApiClient): Client {
 interface UseClientsOptions {
   status?: string
   search?: string
+  /** Load every page (client pickers) instead of paging through the table */
+  all?: boolean
+}
+
+const NO_CLIENTS: Client[] = []
+
+function toPayload(data: ClientFormData) {
+  return {
+    name: data.name,           // Contact person name
+    company: data.company,      // Company name
+    industry: data.industry,
+    email: data.email,
+    phone: data.phone,
+    address: data.address,
+    status: data.status ? data.status.toUpperCase() : undefined,
+    rounding: data.rounding,
+  }
 }
 
+// Company names are embedded in jobs, tasks and timesheets
+const afterClientChange = () =>
+  invalidate(queryKeys.clients.all, queryKeys.jobs.all, queryKeys.tasks.all, queryKeys.timesheets.all, queryKeys.dashboard.all)
+
 export function useClients(options: UseClientsOptions = {}) {
-  const [clients, setClients] = useState<Client[]>([])
-  const [loading, setLoading] = useState(false)
-  const [error, setError] = useState<string | null>(null)
+  const [mutationError, setMutationError] = useState<ApiError | null>(null)
+  const { status, search, all } = options
 
-  const fetchClients = useCallback(async () => {
-    if (!getToken()) { return }
-    try {
-      setLoading(true)
-      setError(null)
-      const params = new URLSearchParams({ limit: '100' })
-      if (options.status && options.status !== 'all') params.set('status', options.status.toUpperCase())
-      if (options.search) params.set('search', options.search)
-
-      const res = await api.get<ApiResponse<ApiClient[]>>(`/clients?${params}`)
-      setClients((res.data ?? []).map(normaliseClient))
-    } catch (e: unknown) {
-      setError(e instanceof Error ? e.message : 'Failed to load clients')
-    } finally {
-      setLoading(false)
-    }
-  }, [options.status, options.search])
+  const params = new URLSearchParams()
+  if (status && status !== 'all') params.set('status', status.toUpperCase())
+  if (search) params.set('search', search)
 
-  useEffect(() => { fetchClients() }, [fetchClients])
+  const query = usePagedQuery({
+    queryKey: queryKeys.clients.list({ status, search }),
+    path: '/clients',
+    params,
+    map: normaliseClient,
+    all,
+  })
 
-  const createClient = async (data: ClientFormData): Promise<Client | null> => {
-    try {
-      // Send both name and company to the API
-      const payload = {
-        name: data.name,           // Contact person name
-        company: data.company,      // Company name
+  const createMutation = useMutation({
+    mutationFn: (data: ClientFormData) =>
+      api.post<ApiResponse<ApiClient>>('/clients', {
+        ...toPayload(data),
         industry: data.industry || '',
-        email: data.email,
-        phone: data.phone,
         address: data.address || '',
         status: data.status?.toUpperCase() ?? 'ACTIVE',
-      }
-      
-      const res = await api.post<ApiResponse<ApiClient>>('/clients', payload)
-      const newClient = normaliseClient(res.data)
-      setClients(prev => [newClient, ...prev])
-      return newClient
+      }).then(res => normaliseClient(res.data)),
+    onSuccess: afterClientChange,
+  })
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: ClientFormData }) =>
+      api.put<ApiResponse<ApiClient>>(`/clients/${id}`, toPayload(data)),
+    onSuccess: afterClientChange,
+  })
+
+  const createClient = async (data: ClientFormData): Promise<Client | null> => {
+    try {
+      setMutationError(null)
+      return await createMutation.mutateAsync(data)
     } catch (e: unknown) {
-      setError(e instanceof Error ? e.message : 'Failed to create client')
+      setMutationError(toApiError(e, 'Failed to create client'))
       return null
     }
   }
 
   const updateClient = async (id: string, data: ClientFormData): Promise<boolean> => {
     try {
-      // Send both name and company to the API
-      const payload = {
-        name: data.name,           // Contact person name
-        company: data.company,      // Company name
-        industry: data.industry,
-        email: data.email,
-        phone: data.phone,
-        address: data.address,
-        status: data.status ? data.status.toUpperCase() : undefined,
-      }
-      
-      const res = await api.put<ApiResponse<ApiClient>>(`/clients/${id}`, payload)
-      const updated = normaliseClient(res.data)
-      setClients(prev => prev.map(c => c.id === id ? updated : c))
+      setMutationError(null)
+      await updateMutation.mutateAsync({ id, data })
       return true
     } catch (e: unknown) {
-      setError(e instanceof Error ? e.message : 'Failed to update client')
+      setMutationError(toApiError(e, 'Failed to update client'))
       return false
     }
   }
 
   return { 
-    clients, 
-    loading, 
-    error, 
-    refetch: fetchClients, 
+    clients: query.items ?? NO_CLIENTS, 
+    total: query.total,
+    hasMore: query.hasMore,
+    loadingMore: query.loadingMore,
+    loadMore: query.loadMore,
+    refreshing: query.refreshing,
+    loading: query.loading, 
+    error: query.error ? errorMessage(query.error, 'Failed to load clients') : null,
+    mutationError,
+    resetMutationError: () => setMutationError(null), 
+    refetch: query.refetch, 
     createClient, 
     updateClient 
   }
-}
\ No newline at end of file
+}
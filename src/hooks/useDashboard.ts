@@ -1,6 +1,11 @@
-import { useState, useEffect } from 'react'
+import { useQuery } from '@tanstack/react-query'
 import { api, getToken } from '@/lib/api'
 import type { ApiResponse } from '@/lib/api'
+import { queryKeys, errorMessage } from '@/lib/queryClient'
+
+function fetchData<T>(path: string) {
+  return ({ signal }: { signal: AbortSignal }) => api.get<ApiResponse<T>>(path, { signal }).then(res => res.data)
+}
 
 // ── Employee Dashboard ────────────────────────────────────────────────────────
 
@@ -26,20 +31,17 @@ export interface EmployeeDashboardData {
 }
 
 export function useEmployeeDashboard() {
-  const [data, setData] = useState<EmployeeDashboardData | null>(null)
-  const [loading, setLoading] = useState(!!getToken())
-  const [error, setError] = useState<string | null>(null)
-
-  useEffect(() => {
-    if (!getToken()) { setLoading(false); return }
-    setLoading(true)
-    api.get<ApiResponse<EmployeeDashboardData>>('/dashboard/employee')
-      .then(res => setData(res.data))
-      .catch(e => setError(e instanceof Error ? e.message : 'Failed to load dashboard'))
-      .finally(() => setLoading(false))
-  }, [])
-
-  return { data, loading, error }
+  const query = useQuery({
+    queryKey: queryKeys.dashboard.employee,
+    queryFn: fetchData<EmployeeDashboardData>('/dashboard/employee'),
+    enabled: !!getToken(),
+  })
+
+  return {
+    data: query.data ?? null,
+    loading: query.isLoading,
+    error: query.error ? errorMessage(query.error, 'Failed to load dashboard') : null,
+  }
 }
 
 // ── Manager Dashboard ─────────────────────────────────────────────────────────
@@ -67,20 +69,17 @@ export interface ManagerDashboardData {
 }
 
 export function useManagerDashboard() {
-  const [data, setData] = useState<ManagerDashboardData | null>(null)
-  const [loading, setLoading] = useState(!!getToken())
-  const [error, setError] = useState<string | null>(null)
-
-  useEffect(() => {
-    if (!getToken()) { setLoading(false); return }
-    setLoading(true)
-    api.get<ApiResponse<ManagerDashboardData>>('/dashboard/manager')
-      .then(res => setData(res.data))
-      .catch(e => setError(e instanceof Error ? e.message : 'Failed to load dashboard'))
-      .finally(() => setLoading(false))
-  }, [])
-
-  return { data, loading, error }
+  const query = useQuery({
+    queryKey: queryKeys.dashboard.manager,
+    queryFn: fetchData<ManagerDashboardData>('/dashboard/manager'),
+    enabled: !!getToken(),
+  })
+
+  return {
+    data: query.data ?? null,
+    loading: query.isLoading,
+    error: query.error ? errorMessage(query.error, 'Failed to load dashboard') : null,
+  }
 }
 
 // ── Admin Dashboard ───────────────────────────────────────────────────────────
@@ -113,20 +112,17 @@ export interface AdminDashboardData {
 }
 
 export function useAdminDashboard() {
-  const [data, setData] = useState<AdminDashboardData | null>(null)
-  const [loading, setLoading] = useState(!!getToken())
-  const [error, setError] = useState<string | null>(null)
-
-  useEffect(() => {
-    if (!getToken()) { setLoading(false); return }
-    setLoading(true)
-    api.get<ApiResponse<AdminDashboardData>>('/dashboard/admin')
-      .then(res => setData(res.data))
-      .catch(e => setError(e instanceof Error ? e.message : 'Failed to load dashboard'))
-      .finally(() => setLoading(false))
-  }, [])
-
-  return { data, loading, error }
+  const query = useQuery({
+    queryKey: queryKeys.dashboard.admin,
+    queryFn: fetchData<AdminDashboardData>('/dashboard/admin'),
+    enabled: !!getToken(),
+  })
+
+  return {
+    data: query.data ?? null,
+    loading: query.isLoading,
+    error: query.error ? errorMessage(query.error, 'Failed to load dashboard') : null,
+  }
 }
 
 // ── Revenue & Team Stats ──────────────────────────────────────────────────────
@@ -137,19 +133,13 @@ export interface RevenueStats {
 }
 
 export function useRevenueStats() {
-  const [data, setData] = useState<RevenueStats | null>(null)
-  const [loading, setLoading] = useState(!!getToken())
-
-  useEffect(() => {
-    if (!getToken()) { setLoading(false); return }
-    setLoading(true)
-    api.get<ApiResponse<RevenueStats>>('/dashboard/stats/revenue')
-      .then(res => setData(res.data))
-      .catch(() => {/* silent fail */})
-      .finally(() => setLoading(false))
-  }, [])
-
-  return { data, loading }
+  const query = useQuery({
+    queryKey: queryKeys.dashboard.revenue,
+    queryFn: fetchData<RevenueStats>('/dashboard/stats/revenue'),
+    enabled: !!getToken(),
+  })
+
+  return { data: query.data ?? null, loading: query.isLoading }
 }
 
 export interface TeamStats {
@@ -162,17 +152,11 @@ export interface TeamStats {
 }
 
 export function useTeamStats() {
-  const [data, setData] = useState<TeamStats | null>(null)
-  const [loading, setLoading] = useState(!!getToken())
-
-  useEffect(() => {
-    if (!getToken()) { setLoading(false); return }
-    setLoading(true)
-    api.get<ApiResponse<TeamStats>>('/dashboard/stats/team')
-      .then(res => setData(res.data))
-      .catch(() => {/* silent fail */})
-      .finally(() => setLoading(false))
-  }, [])
-
-  return { data, loading }
+  const query = useQuery({
+    queryKey: queryKeys.dashboard.team,
+    queryFn: fetchData<TeamStats>('/dashboard/stats/team'),
+    enabled: !!getToken(),
+  })
+
+  return { data: query.data ?? null, loading: query.isLoading }
 }
@@ -1,7 +1,11 @@
-import { useState, useEffect, useCallback } from 'react'
-import { api, normStr, getToken } from '@/lib/api'
-import type { ApiResponse } from '@/lib/api'
-import type { Job, JobStatus, Priority } from '@/types'
+import { useState } from 'react'
+import { useMutation } from '@tanstack/react-query'
+import { api, toApiError } from '@/lib/api'
+import type { ApiResponse, ApiError } from '@/lib/api'
+import { queryKeys, invalidate, errorMessage } from '@/lib/queryClient'
+import { readPayload } from '@/lib/schema'
+import { usePagedQuery } from './usePagedQuery'
+import type { Job, JobStatus, Priority, BillingType } from '@/types'
 
 // ── Shape returned by the backend ────────────────────────────────────────────
 
@@ -32,29 +36,34 @@ interface ApiJob {
 
 // ── Normalise backend → frontend shape ───────────────────────────────────────
 
+const JOB_STATUSES: readonly JobStatus[] = ['open', 'in_progress', 'on_hold', 'completed', 'invoiced', 'closed']
+const PRIORITIES: readonly Priority[] = ['low', 'medium', 'high', 'urgent']
+const BILLING_TYPES: readonly BillingType[] = ['hourly', 'fixed']
+
 function normaliseJob(j: ApiJob): Job {
+  const r = readPayload('Job', j)
   return {
-    id: j.id,
-    jobId: j.jobId,
-    title: j.title,
-    clientId: j.clientId,
-    clientName: j.client?.company ?? '',
-    jobType: j.jobType,
-    billingType: normStr(j.billingType) as 'hourly' | 'fixed',
-    billingRate: j.billingRate,
-    quotedHours: j.quotedHours,
-    actualHours: j.actualHours,
-    status: normStr(j.status) as JobStatus,
-    priority: normStr(j.priority) as Priority,
-    quoteApprovedDate: j.quoteApprovedDate ?? '',
-    startDate: j.startDate ?? '',
-    deadline: j.deadline ?? '',
-    revenue: j.revenue ?? undefined,
-    totalCost: j.totalCost ?? undefined,
-    profit: j.profit ?? undefined,
-    margin: j.margin ?? undefined,
-    jobScore: j.jobScore ?? undefined,
-    assignedManager: j.assignedManager ?? '',
+    id: r.string('id'),
+    jobId: r.string('jobId'),
+    title: r.string('title'),
+    clientId: r.string('clientId'),
+    clientName: r.object('client').string('company'),
+    jobType: r.string('jobType'),
+    billingType: r.enum('billingType', BILLING_TYPES, 'hourly'),
+    billingRate: r.number('billingRate'),
+    quotedHours: r.number('quotedHours'),
+    actualHours: r.number('actualHours'),
+    status: r.enum('status', JOB_STATUSES, 'open'),
+    priority: r.enum('priority', PRIORITIES, 'medium'),
+    quoteApprovedDate: r.optionalString('quoteApprovedDate') ?? '',
+    startDate: r.optionalString('startDate') ?? '',
+    deadline: r.optionalString('deadline') ?? '',
+    revenue: r.optionalNumber('revenue'),
+    totalCost: r.optionalNumber('totalCost'),
+    profit: r.optionalNumber('profit'),
+    margin: r.optionalNumber('margin'),
+    jobScore: r.optionalNumber('jobScore'),
+    assignedManager: r.optionalString('assignedManager') ?? '',
   }
 }
 
@@ -65,82 +74,107 @@ interface UseJobsOptions {
   clientId?: string
   priority?: string
   search?: string
+  /** Load every page (job pickers) instead of paging through the table */
+  all?: boolean
+}
+
+const NO_JOBS: Job[] = []
+
+function toPayload(data: Partial<Job>) {
+  return {
+    ...data,
+    billingType: data.billingType ? data.billingType.toUpperCase() : undefined,
+    priority: data.priority ? data.priority.toUpperCase() : undefined,
+    status: data.status ? data.status.toUpperCase() : undefined,
+  }
 }
 
+// Job edits move the dashboard figures and the job titles embedded in tasks/timesheets
+const afterJobChange = () =>
+  invalidate(queryKeys.jobs.all, queryKeys.tasks.all, queryKeys.timesheets.all, queryKeys.dashboard.all)
+
 export function useJobs(options: UseJobsOptions = {}) {
-  const [jobs, setJobs] = useState<Job[]>([])
-  const [loading, setLoading] = useState(false)
-  const [error, setError] = useState<string | null>(null)
+  const [mutationError, setMutationError] = useState<ApiError | null>(null)
+  const { status, clientId, priority, search, all } = options
 
-  const fetchJobs = useCallback(async () => {
-    if (!getToken()) { return }
-    try {
-      setLoading(true)
-      setError(null)
-      const params = new URLSearchParams({ limit: '100' })
-      if (options.status && options.status !== 'all') params.set('status', options.status.toUpperCase())
-      if (options.clientId) params.set('clientId', options.clientId)
-      if (options.priority) params.set('priority', options.priority.toUpperCase())
-      if (options.search) params.set('search', options.search)
-
-      const res = await api.get<ApiResponse<ApiJob[]>>(`/jobs?${params}`)
-      setJobs((res.data ?? []).map(normaliseJob))
-    } catch (e: unknown) {
-      setError(e instanceof Error ? e.message : 'Failed to load jobs')
-    } finally {
-      setLoading(false)
-    }
-  }, [options.status, options.clientId, options.priority, options.search])
+  const params = new URLSearchParams()
+  if (status && status !== 'all') params.set('status', status.toUpperCase())
+  if (clientId) params.set('clientId', clientId)
+  if (priority) params.set('priority', priority.toUpperCase())
+  if (search) params.set('search', search)
+
+  const query = usePagedQuery({
+    queryKey: queryKeys.jobs.list({ status, clientId, priority, search }),
+    path: '/jobs',
+    params,
+    map: normaliseJob,
+    all,
+  })
+
+  const createMutation = useMutation({
+    mutationFn: (data: Partial<Job>) =>
+      api.post<ApiResponse<ApiJob>>('/jobs', toPayload(data)).then(res => normaliseJob(res.data)),
+    onSuccess: afterJobChange,
+  })
 
-  useEffect(() => { fetchJobs() }, [fetchJobs])
+  const updateMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<Job> }) =>
+      api.put<ApiResponse<ApiJob>>(`/jobs/${id}`, toPayload(data)),
+    onSuccess: afterJobChange,
+  })
+
+  const statusMutation = useMutation({
+    mutationFn: ({ id, status }: { id: string; status: JobStatus }) =>
+      api.patch<ApiResponse<ApiJob>>(`/jobs/${id}/status`, { status: status.toUpperCase() }),
+    onSuccess: afterJobChange,
+  })
 
   const createJob = async (data: Partial<Job>): Promise<Job | null> => {
     try {
-      const payload = {
-        ...data,
-        billingType: data.billingType?.toUpperCase(),
-        priority: data.priority?.toUpperCase(),
-        status: data.status?.toUpperCase(),
-      }
-      const res = await api.post<ApiResponse<ApiJob>>('/jobs', payload)
-      const newJob = normaliseJob(res.data)
-      setJobs(prev => [newJob, ...prev])
-      return newJob
+      setMutationError(null)
+      return await createMutation.mutateAsync(data)
     } catch (e: unknown) {
-      setError(e instanceof Error ? e.message : 'Failed to create job')
+      setMutationError(toApiError(e, 'Failed to create job'))
       return null
     }
   }
 
   const updateJob = async (id: string, data: Partial<Job>): Promise<boolean> => {
     try {
-      const payload = {
-        ...data,
-        billingType: data.billingType ? data.billingType.toUpperCase() : undefined,
-        priority: data.priority ? data.priority.toUpperCase() : undefined,
-        status: data.status ? data.status.toUpperCase() : undefined,
-      }
-      const res = await api.put<ApiResponse<ApiJob>>(`/jobs/${id}`, payload)
-      const updated = normaliseJob(res.data)
-      setJobs(prev => prev.map(j => j.id === id ? updated : j))
+      setMutationError(null)
+      await updateMutation.mutateAsync({ id, data })
       return true
     } catch (e: unknown) {
-      setError(e instanceof Error ? e.message : 'Failed to update job')
+      setMutationError(toApiError(e, 'Failed to update job'))
       return false
     }
   }
 
   const updateStatus = async (id: string, status: JobStatus): Promise<boolean> => {
     try {
-      const res = await api.patch<ApiResponse<ApiJob>>(`/jobs/${id}/status`, { status: status.toUpperCase() })
-      const updated = normaliseJob(res.data)
-      setJobs(prev => prev.map(j => j.id === id ? updated : j))
+      setMutationError(null)
+      await statusMutation.mutateAsync({ id, status })
       return true
     } catch (e: unknown) {
-      setError(e instanceof Error ? e.message : 'Failed to update job status')
+      setMutationError(toApiError(e, 'Failed to update job status'))
       return false
     }
   }
 
-  return { jobs, loading, error, refetch: fetchJobs, createJob, updateJob, updateStatus }
+  return {
+    jobs: query.items ?? NO_JOBS,
+    total: query.total,
+    hasMore: query.hasMore,
+    loadingMore: query.loadingMore,
+    loadMore: query.loadMore,
+    refreshing: query.refreshing,
+    loading: query.loading,
+    error: query.error ? errorMessage(query.error, 'Failed to load jobs') : null,
+    mutationError,
+    resetMutationError: () => setMutationError(null),
+    refetch: query.refetch,
+    createJob,
+    updateJob,
+    updateStatus,
+  }
 }
@@ -0,0 +1,179 @@
+import { useState } from 'react'
+import { useQuery, useMutation } from '@tanstack/react-query'
+import { api, getToken, toApiError } from '@/lib/api'
+import type { ApiResponse, ApiError } from '@/lib/api'
+import { queryKeys, invalidate, errorMessage } from '@/lib/queryClient'
+import { readPayload } from '@/lib/schema'
+
+export type LeaveType = 'annual' | 'personal' | 'long_service' | 'unpaid' | 'other'
+export type LeaveStatus = 'pending' | 'approved' | 'rejected'
+
+export interface LeaveBooking {
+  id: string
+  userId: string
+  userName: string
+  startDate: string  // YYYY-MM-DD, inclusive
+  endDate: string
+  type: LeaveType
+  status: LeaveStatus
+  note?: string
+  reviewedByName?: string
+}
+
+export interface LeaveInput {
+  startDate: string
+  endDate: string
+  type: LeaveType
+  note?: string
+  /** Managers may record leave for someone else; it's approved straight away */
+  userId?: string
+}
+
+const LEAVE_TYPES = ['annual', 'personal', 'long_service', 'unpaid', 'other'] as const
+const LEAVE_STATUSES = ['pending', 'approved', 'rejected'] as const
+
+export const leaveTypeLabels: Record<LeaveType, string> = {
+  annual: 'Annual leave',
+  personal: "Personal/carer's leave",
+  long_service: 'Long service leave',
+  unpaid: 'Unpaid leave',
+  other: 'Other',
+}
+
+function normaliseLeave(raw: unknown): LeaveBooking {
+  const r = readPayload('Leave', raw)
+  const user = r.optionalObject('user')
+  const reviewer = r.optionalObject('reviewedBy')
+  return {
+    id: r.string('id'),
+    userId: r.string('userId'),
+    userName: user ? `${user.string('firstName')} ${user.string('lastName')}`.trim() : '',
+    startDate: r.string('startDate'),
+    endDate: r.string('endDate'),
+    type: r.enum('type', LEAVE_TYPES, 'other'),
+    status: r.enum('status', LEAVE_STATUSES, 'pending'),
+    note: r.optionalString('note'),
+    reviewedByName: reviewer ? `${reviewer.string('firstName')} ${reviewer.string('lastName')}`.trim() : undefined,
+  }
+}
+
+interface UseLeaveOptions {
+  /** Managers only; employees always get their own */
+  userId?: string
+  from?: string
+  to?: string
+  /** Also load every request waiting for review (managers only) */
+  includePending?: boolean
+}
+
+const NO_LEAVE: LeaveBooking[] = []
+
+// Approved leave changes expected hours, so timesheet flags and stats follow it
+const afterLeaveChange = () => invalidate(queryKeys.leave.all, queryKeys.timesheets.all)
+
+function fetchLeave(params: URLSearchParams) {
+  return ({ signal }: { signal: AbortSignal }) =>
+    api.get<ApiResponse<unknown[]>>(`/leave?${params}`, { signal })
+      .then(res => (res.data ?? []).map(normaliseLeave))
+}
+
+export function useLeave(options: UseLeaveOptions = {}) {
+  const [mutationError, setMutationError] = useState<ApiError | null>(null)
+  const { userId, from, to, includePending } = options
+
+  const params = new URLSearchParams()
+  if (userId) params.set('userId', userId)
+  if (from) params.set('from', from)
+  if (to) params.set('to', to)
+
+  const query = useQuery({
+    queryKey: queryKeys.leave.list({ userId, from, to }),
+    queryFn: fetchLeave(params),
+    enabled: !!getToken(),
+  })
+
+  const pendingQuery = useQuery({
+    queryKey: queryKeys.leave.list({ status: 'PENDING' }),
+    queryFn: fetchLeave(new URLSearchParams({ status: 'PENDING' })),
+    enabled: !!getToken() && !!includePending,
+    retry: false,
+  })
+
+  const requestMutation = useMutation({
+    mutationFn: (input: LeaveInput) =>
+      api.post<ApiResponse<unknown>>('/leave', { ...input, type: input.type.toUpperCase() }),
+    onSuccess: afterLeaveChange,
+  })
+
+  const approveMutation = useMutation({
+    mutationFn: (id: string) => api.patch<ApiResponse<unknown>>(`/leave/${id}/approve`, {}),
+    onSuccess: afterLeaveChange,
+  })
+
+  const rejectMutation = useMutation({
+    mutationFn: (id: string) => api.patch<ApiResponse<unknown>>(`/leave/${id}/reject`, {}),
+    onSuccess: afterLeaveChange,
+  })
+
+  const cancelMutation = useMutation({
+    mutationFn: (id: string) => api.delete(`/leave/${id}`),
+    onSuccess: afterLeaveChange,
+  })
+
+  const requestLeave = async (input: LeaveInput): Promise<boolean> => {
+    try {
+      setMutationError(null)
+      await requestMutation.mutateAsync(input)
+      return true
+    } catch (e: unknown) {
+      setMutationError(toApiError(e, 'Failed to save leave'))
+      return false
+    }
+  }
+
+  const approveLeave = async (id: string): Promise<boolean> => {
+    try {
+      setMutationError(null)
+      await approveMutation.mutateAsync(id)
+      return true
+    } catch (e: unknown) {
+      setMutationError(toApiError(e, 'Failed to approve leave'))
+      return false
+    }
+  }
+
+  const rejectLeave = async (id: string): Promise<boolean> => {
+    try {
+      setMutationError(null)
+      await rejectMutation.mutateAsync(id)
+      return true
+    } catch (e: unknown) {
+      setMutationError(toApiError(e, 'Failed to reject leave'))
+      return false
+    }
+  }
+
+  const cancelLeave = async (id: string): Promise<boolean> => {
+    try {
+      setMutationError(null)
+      await cancelMutation.mutateAsync(id)
+      return true
+    } catch (e: unknown) {
+      setMutationError(toApiError(e, 'Failed to cancel leave'))
+      return false
+    }
+  }
+
+  return {
+    leave: query.data ?? NO_LEAVE,
+    pendingLeave: pendingQuery.data ?? NO_LEAVE,
+    loading: query.isLoading,
+    error: query.error ? errorMessage(query.error, 'Failed to load leave') : null,
+    mutationError,
+    resetMutationError: () => setMutationError(null),
+    requestLeave,
+    approveLeave,
+    rejectLeave,
+    cancelLeave,
+  }
+}
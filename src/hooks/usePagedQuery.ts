@@ -0,0 +1,91 @@
+import { useEffect } from 'react'
+import { useInfiniteQuery, keepPreviousData } from '@tanstack/react-query'
+import type { InfiniteData, QueryKey } from '@tanstack/react-query'
+import { api, getToken } from '@/lib/api'
+import type { ApiResponse } from '@/lib/api'
+import { queryClient } from '@/lib/queryClient'
+
+export const PAGE_SIZE = 50
+
+export interface Page<T> {
+  items: T[]
+  total: number
+  nextOffset: number | null
+}
+
+export type PagedData<T> = InfiniteData<Page<T>, number>
+
+interface PagedQueryOptions<TRaw, T> {
+  queryKey: QueryKey
+  path: string
+  /** Filters only — limit/offset are added per page */
+  params: URLSearchParams
+  map: (raw: TRaw) => T
+  /** Keep fetching until every page is in — for pickers and lookups that need the whole set */
+  all?: boolean
+  enabled?: boolean
+}
+
+function flatten<T>(data: PagedData<T>) {
+  return {
+    items: data.pages.flatMap(p => p.items),
+    total: data.pages[0]?.total ?? 0,
+  }
+}
+
+/**
+ * Offset-paginated list backed by `useInfiniteQuery`. Reads `pagination.total`
+ * from the envelope; a backend that omits the block is treated as one page
+ * per response, ending at the first short page.
+ */
+export function usePagedQuery<TRaw, T>({ queryKey, path, params, map, all = false, enabled = true }: PagedQueryOptions<TRaw, T>) {
+  const query = useInfiniteQuery({
+    queryKey,
+    queryFn: async ({ pageParam, signal }): Promise<Page<T>> => {
+      const search = new URLSearchParams(params)
+      search.set('limit', String(PAGE_SIZE))
+      search.set('offset', String(pageParam))
+      const res = await api.get<ApiResponse<TRaw[]>>(`${path}?${search}`, { signal })
+      const items = (res.data ?? []).map(map)
+      const loaded = pageParam + items.length
+      const total = res.pagination?.total ?? (items.length < PAGE_SIZE ? loaded : loaded + 1)
+      return { items, total, nextOffset: items.length > 0 && loaded < total ? loaded : null }
+    },
+    initialPageParam: 0,
+    getNextPageParam: last => last.nextOffset ?? undefined,
+    select: flatten<T>,
+    // Keep showing the previous filter's rows while the next one loads (search-as-you-type)
+    placeholderData: keepPreviousData,
+    enabled: enabled && !!getToken(),
+  })
+
+  const { hasNextPage, isFetchingNextPage, fetchNextPage, isPlaceholderData } = query
+  // Placeholder pages belong to the previous key — never page on from them
+  const canLoadMore = !!hasNextPage && !isFetchingNextPage && !isPlaceholderData
+
+  useEffect(() => {
+    if (all && canLoadMore) void fetchNextPage()
+  }, [all, canLoadMore, fetchNextPage])
+
+  return {
+    items: query.data?.items,
+    total: query.data?.total ?? 0,
+    loading: query.isLoading,
+    /** A new filter/search is loading while the previous results are still shown */
+    refreshing: isPlaceholderData,
+    error: query.error,
+    hasMore: !!hasNextPage && !isPlaceholderData,
+    loadingMore: isFetchingNextPage,
+    // fetchNextPage cancels an in-flight page by default, so don't re-trigger mid-fetch
+    loadMore: () => { if (canLoadMore) void fetchNextPage() },
+    refetch: query.refetch,
+  }
+}
+
+/** Apply an update to the loaded items of every cached paged list under `queryKey`. */
+export function updatePagedQueries<T>(queryKey: QueryKey, update: (items: T[]) => T[]) {
+  queryClient.setQueriesData<PagedData<T>>({ queryKey }, prev => prev && {
+    ...prev,
+    pages: prev.pages.map(p => ({ ...p, items: update(p.items) })),
+  })
+}
@@ -0,0 +1,100 @@
+import { useState } from 'react'
+import { useQuery, useMutation } from '@tanstack/react-query'
+import { api, getToken, toApiError } from '@/lib/api'
+import type { ApiResponse, ApiError } from '@/lib/api'
+import { queryKeys, invalidate } from '@/lib/queryClient'
+import { readPayload } from '@/lib/schema'
+import type { LockedPeriod } from '@/lib/periodLocks'
+
+export interface PeriodLock extends LockedPeriod {
+  id: string
+  note?: string
+  lockedAt: string
+  lockedByName: string
+  unlockedByName?: string
+  unlockReason?: string
+}
+
+export interface PeriodLockInput {
+  startDate: string
+  endDate: string
+  note?: string
+}
+
+function normaliseLock(raw: unknown): PeriodLock {
+  const r = readPayload('PeriodLock', raw)
+  const lockedBy = r.optionalObject('lockedBy')
+  const unlockedBy = r.optionalObject('unlockedBy')
+  return {
+    id: r.string('id'),
+    startDate: r.string('startDate'),
+    endDate: r.string('endDate'),
+    note: r.optionalString('note'),
+    lockedAt: r.string('lockedAt'),
+    lockedByName: lockedBy ? `${lockedBy.string('firstName')} ${lockedBy.string('lastName')}`.trim() : '',
+    unlockedAt: r.optionalString('unlockedAt') ?? null,
+    unlockedByName: unlockedBy ? `${unlockedBy.string('firstName')} ${unlockedBy.string('lastName')}`.trim() : undefined,
+    unlockReason: r.optionalString('unlockReason'),
+  }
+}
+
+const NO_LOCKS: PeriodLock[] = []
+
+// Entries in the period change between editable and read-only
+const afterLockChange = () => invalidate(queryKeys.settings.periodLocks, queryKeys.timesheets.all)
+
+/** Closed timesheet periods, newest first, including ones since unlocked. */
+export function usePeriodLocks() {
+  const [mutationError, setMutationError] = useState<ApiError | null>(null)
+
+  const query = useQuery({
+    queryKey: queryKeys.settings.periodLocks,
+    queryFn: ({ signal }) =>
+      api.get<ApiResponse<unknown[]>>('/settings/period-locks', { signal })
+        .then(res => (res.data ?? []).map(normaliseLock)),
+    enabled: !!getToken(),
+    staleTime: 5 * 60_000,
+  })
+
+  const lockMutation = useMutation({
+    mutationFn: (input: PeriodLockInput) => api.post<ApiResponse<unknown>>('/settings/period-locks', input),
+    onSuccess: afterLockChange,
+  })
+
+  const unlockMutation = useMutation({
+    mutationFn: ({ id, reason }: { id: string; reason: string }) =>
+      api.patch<ApiResponse<unknown>>(`/settings/period-locks/${id}/unlock`, { reason }),
+    onSuccess: afterLockChange,
+  })
+
+  const lockPeriod = async (input: PeriodLockInput): Promise<boolean> => {
+    try {
+      setMutationError(null)
+      await lockMutation.mutateAsync(input)
+      return true
+    } catch (e: unknown) {
+      setMutationError(toApiError(e, 'Failed to lock period'))
+      return false
+    }
+  }
+
+  const unlockPeriod = async (id: string, reason: string): Promise<boolean> => {
+    try {
+      setMutationError(null)
+      await unlockMutation.mutateAsync({ id, reason })
+      return true
+    } catch (e: unknown) {
+      setMutationError(toApiError(e, 'Failed to unlock period'))
+      return false
+    }
+  }
+
+  return {
+    locks: query.data ?? NO_LOCKS,
+    loading: query.isLoading,
+    mutationError,
+    resetMutationError: () => setMutationError(null),
+    lockPeriod,
+    unlockPeriod,
+  }
+}
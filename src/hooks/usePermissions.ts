@@ -0,0 +1,13 @@
+import { useCallback } from 'react'
+import { useAuthStore } from '@/store/authStore'
+import { can } from '@/lib/permissions'
+import type { Permission } from '@/lib/permissions'
+
+/**
+ * `can(permission)` for the effective user — while an admin is viewing as
+ * someone else, this answers for the impersonated user.
+ */
+export function usePermissions() {
+  const role = useAuthStore(s => s.user?.role)
+  return useCallback((permission: Permission) => can(role, permission), [role])
+}
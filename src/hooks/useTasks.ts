@@ -1,6 +1,12 @@
-import { useState, useEffect, useCallback } from 'react'
-import { api, normStr, getToken } from '@/lib/api'
-import type { ApiResponse } from '@/lib/api'
+import { useState } from 'react'
+import { useMutation } from '@tanstack/react-query'
+import { api, toApiError, isNetworkError } from '@/lib/api'
+import type { ApiResponse, ApiError } from '@/lib/api'
+import { queryKeys, invalidate, errorMessage } from '@/lib/queryClient'
+import { readPayload } from '@/lib/schema'
+import { timerBody } from '@/lib/taskTimers'
+import { useOutboxStore } from '@/store/outboxStore'
+import { usePagedQuery, updatePagedQueries } from './usePagedQuery'
 import type { Task, TaskStatus } from '@/types'
 
 interface ApiTask {
@@ -40,33 +46,40 @@ interface ApiTask {
  * If timer is running, compute the live seconds = DB_timerSeconds + (now - lastStartedAt)
  * so that page refresh shows the correct time without waiting for the next tick.
  */
+const TASK_STATUSES: readonly TaskStatus[] = ['todo', 'in_progress', 'completed']
+
 function normaliseTask(t: ApiTask): Task {
-  let timerSeconds = t.timerSeconds || 0
-  if (t.timerRunning && t.lastStartedAt) {
-    const elapsed = Math.floor((Date.now() - new Date(t.lastStartedAt).getTime()) / 1000)
-    timerSeconds = (t.timerSeconds || 0) + Math.max(0, elapsed)
+  const r = readPayload('Task', t)
+  const timerRunning = r.boolean('timerRunning')
+  const lastStartedAt = r.optionalString('lastStartedAt')
+  let timerSeconds = r.number('timerSeconds')
+  if (timerRunning && lastStartedAt) {
+    const elapsed = Math.floor((Date.now() - new Date(lastStartedAt).getTime()) / 1000)
+    timerSeconds += Math.max(0, elapsed)
   }
 
+  const job = r.object('job')
+  const createdBy = r.optionalObject('createdBy')
   return {
-    id: t.id,
-    name: t.title,
-    type: t.type,
-    jobId: t.jobId,
-    jobTitle: t.job?.title ?? '',
-    clientName: t.job?.client?.company ?? '',
-    assignedToNames: t.assignedUsers?.map(u => `${u.firstName} ${u.lastName}`).join(', ') || '',
-    assignedToIds: t.assignedUserIds || [],
-    createdByName: t.createdBy ? `${t.createdBy.firstName} ${t.createdBy.lastName}` : undefined,
-    createdByEmail: t.createdBy?.email ?? undefined,
-    estimatedHours: t.estimatedHours,
-    actualHours: t.actualHours,
-    billable: t.billable,
-    status: normStr(t.status) as TaskStatus,
-    startedAt: t.startedAt ?? undefined,
-    completedAt: t.completedAt ?? undefined,
-    timerRunning: t.timerRunning || false,
+    id: r.string('id'),
+    name: r.string('title'),
+    type: r.optionalString('type') ?? '',
+    jobId: r.string('jobId'),
+    jobTitle: job.string('title'),
+    clientName: job.object('client').string('company'),
+    assignedToNames: r.objects('assignedUsers').map(u => `${u.string('firstName')} ${u.string('lastName')}`).join(', '),
+    assignedToIds: r.strings('assignedUserIds'),
+    createdByName: createdBy ? `${createdBy.string('firstName')} ${createdBy.string('lastName')}` : undefined,
+    createdByEmail: createdBy?.optionalString('email'),
+    estimatedHours: r.number('estimatedHours'),
+    actualHours: r.number('actualHours'),
+    billable: r.boolean('billable', true),
+    status: r.enum('status', TASK_STATUSES, 'todo'),
+    startedAt: r.optionalString('startedAt'),
+    completedAt: r.optionalString('completedAt'),
+    timerRunning,
     timerSeconds,
-    description: t.description ?? undefined,
+    description: r.optionalString('description'),
   }
 }
 
@@ -75,38 +88,45 @@ interface UseTasksOptions {
   status?: string
   search?: string
   assignedUserId?: string
+  /** Load every page (dashboards, per-job rollups) instead of paging through the table */
+  all?: boolean
+}
+
+const NO_TASKS: Task[] = []
+
+/** Apply an update to every cached task list, whatever its filters. */
+function updateCachedTasks(update: (prev: Task[]) => Task[]) {
+  updatePagedQueries(queryKeys.tasks.all, update)
+}
+
+function replaceCachedTask(updated: Task) {
+  updateCachedTasks(prev => prev.map(t => t.id === updated.id ? updated : t))
 }
 
+// Task changes feed the job's actual hours and the employee dashboard's active jobs
+const afterTaskChange = () => invalidate(queryKeys.tasks.all, queryKeys.jobs.all, queryKeys.dashboard.all)
+
 export function useTasks(options: UseTasksOptions = {}) {
-  const [tasks, setTasks] = useState<Task[]>([])
-  const [loading, setLoading] = useState(!!getToken())
-  const [error, setError] = useState<string | null>(null)
+  const [mutationError, setMutationError] = useState<ApiError | null>(null)
+  const { jobId, status, search, assignedUserId, all } = options
 
-  const fetchTasks = useCallback(async () => {
-    if (!getToken()) { setLoading(false); return }
-    try {
-      setLoading(true)
-      setError(null)
-      const params = new URLSearchParams({ limit: '200' })
-      if (options.jobId) params.set('jobId', options.jobId)
-      if (options.status && options.status !== 'all') params.set('status', options.status.toUpperCase())
-      if (options.search) params.set('search', options.search)
-      if (options.assignedUserId) params.set('assignedUserId', options.assignedUserId)
-
-      const res = await api.get<ApiResponse<ApiTask[]>>(`/tasks?${params}`)
-      setTasks((res.data ?? []).map(normaliseTask))
-    } catch (e: unknown) {
-      setError(e instanceof Error ? e.message : 'Failed to load tasks')
-    } finally {
-      setLoading(false)
-    }
-  }, [options.jobId, options.status, options.search, options.assignedUserId])
+  const params = new URLSearchParams()
+  if (jobId) params.set('jobId', jobId)
+  if (status && status !== 'all') params.set('status', status.toUpperCase())
+  if (search) params.set('search', search)
+  if (assignedUserId) params.set('assignedUserId', assignedUserId)
 
-  useEffect(() => { fetchTasks() }, [fetchTasks])
+  const query = usePagedQuery({
+    queryKey: queryKeys.tasks.list({ jobId, status, search, assignedUserId }),
+    path: '/tasks',
+    params,
+    map: normaliseTask,
+    all,
+  })
 
-  const createTask = async (data: Partial<Task> & { jobId: string }): Promise<Task | null> => {
-    try {
-      const res = await api.post<ApiResponse<ApiTask>>('/tasks', {
+  const createMutation = useMutation({
+    mutationFn: (data: Partial<Task> & { jobId: string }) =>
+      api.post<ApiResponse<ApiTask>>('/tasks', {
         jobId: data.jobId,
         title: data.name,
         type: data.type,
@@ -115,18 +135,12 @@ export function useTasks(options: UseTasksOptions = {}) {
         billable: data.billable ?? true,
         description: data.description,
         status: (data.status ?? 'todo').toUpperCase(),
-      })
-      const created = normaliseTask(res.data)
-      setTasks(prev => [created, ...prev])
-      return created
-    } catch (e: unknown) {
-      setError(e instanceof Error ? e.message : 'Failed to create task')
-      return null
-    }
-  }
+      }).then(res => normaliseTask(res.data)),
+    onSuccess: afterTaskChange,
+  })
 
-  const updateTask = async (id: string, data: Partial<Task>): Promise<boolean> => {
-    try {
+  const updateMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<Task> }) => {
       const payload: Record<string, unknown> = {}
       if (data.name !== undefined) payload.title = data.name
       if (data.type !== undefined) payload.type = data.type
@@ -137,40 +151,101 @@ export function useTasks(options: UseTasksOptions = {}) {
       if (data.status !== undefined) payload.status = data.status.toUpperCase()
       if (data.description !== undefined) payload.description = data.description
 
-      const res = await api.put<ApiResponse<ApiTask>>(`/tasks/${id}`, payload)
-      const updated = normaliseTask(res.data)
-      // Preserve live timer state when editing other fields
-      setTasks(prev => prev.map(t => t.id === id ? { ...updated, timerRunning: t.timerRunning, timerSeconds: t.timerSeconds } : t))
+      return api.put<ApiResponse<ApiTask>>(`/tasks/${id}`, payload)
+    },
+    onSuccess: afterTaskChange,
+  })
+
+  const statusMutation = useMutation({
+    mutationFn: ({ id, status }: { id: string; status: TaskStatus }) =>
+      api.patch<ApiResponse<ApiTask>>(`/tasks/${id}/status`, { status: status.toUpperCase() }),
+    // Completing a task stops its timer
+    onSuccess: () => invalidate(queryKeys.tasks.all, queryKeys.jobs.all, queryKeys.dashboard.all, queryKeys.timesheets.timerSessions),
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => api.delete(`/tasks/${id}`),
+    onSuccess: () => invalidate(queryKeys.tasks.all, queryKeys.jobs.all, queryKeys.timesheets.all, queryKeys.dashboard.all),
+  })
+
+  // Timer responses carry the authoritative timerSeconds — write them straight into the cache
+  const timerMutation = useMutation({
+    mutationFn: ({ id, running }: { id: string; running: boolean }) =>
+      api.patch<ApiResponse<ApiTask>>(`/tasks/${id}/timer`, timerBody(running))
+        .then(res => normaliseTask(res.data)),
+    onSuccess: (task: Task) => {
+      replaceCachedTask(task)
+      // A pause leaves a session to log
+      if (!task.timerRunning) void invalidate(queryKeys.timesheets.timerSessions)
+    },
+  })
+
+  // Offline (or behind earlier queued changes): keep the optimistic state and replay later
+  const queueTimer = async (id: string, running: boolean) => {
+    const name = query.items?.find(t => t.id === id)?.name ?? 'task'
+    const outbox = useOutboxStore.getState()
+    await outbox.enqueue({
+      kind: 'task.timer',
+      method: 'PATCH',
+      path: `/tasks/${id}/timer`,
+      body: timerBody(running),
+      label: `${running ? 'Start' : 'Pause'} timer — ${name}`,
+    })
+    void outbox.flush()
+  }
+
+  const shouldQueue = () => !navigator.onLine || useOutboxStore.getState().hasPending()
+
+  // Straight to the server when possible; rejects if it could neither be sent nor queued
+  const sendTimer = async (id: string, running: boolean) => {
+    if (shouldQueue()) return queueTimer(id, running)
+    try {
+      await timerMutation.mutateAsync({ id, running })
+    } catch (e: unknown) {
+      if (!isNetworkError(e)) throw e
+      await queueTimer(id, running)
+    }
+  }
+
+  const createTask = async (data: Partial<Task> & { jobId: string }): Promise<Task | null> => {
+    try {
+      setMutationError(null)
+      return await createMutation.mutateAsync(data)
+    } catch (e: unknown) {
+      setMutationError(toApiError(e, 'Failed to create task'))
+      return null
+    }
+  }
+
+  const updateTask = async (id: string, data: Partial<Task>): Promise<boolean> => {
+    try {
+      setMutationError(null)
+      await updateMutation.mutateAsync({ id, data })
       return true
     } catch (e: unknown) {
-      setError(e instanceof Error ? e.message : 'Failed to update task')
+      setMutationError(toApiError(e, 'Failed to update task'))
       return false
     }
   }
 
   const updateStatus = async (id: string, status: TaskStatus): Promise<boolean> => {
     try {
-      await api.patch<ApiResponse<ApiTask>>(`/tasks/${id}/status`, { status: status.toUpperCase() })
-      setTasks(prev => prev.map(t => t.id === id ? {
-        ...t,
-        status,
-        startedAt: status === 'in_progress' && !t.startedAt ? new Date().toISOString() : t.startedAt,
-        completedAt: status === 'completed' ? new Date().toISOString() : t.completedAt,
-      } : t))
+      setMutationError(null)
+      await statusMutation.mutateAsync({ id, status })
       return true
     } catch (e: unknown) {
-      setError(e instanceof Error ? e.message : 'Failed to update task status')
+      setMutationError(toApiError(e, 'Failed to update task status'))
       return false
     }
   }
 
   const deleteTask = async (id: string): Promise<boolean> => {
     try {
-      await api.delete(`/tasks/${id}`)
-      setTasks(prev => prev.filter(t => t.id !== id))
+      setMutationError(null)
+      await deleteMutation.mutateAsync(id)
       return true
     } catch (e: unknown) {
-      setError(e instanceof Error ? e.message : 'Failed to delete task')
+      setMutationError(toApiError(e, 'Failed to delete task'))
       return false
     }
   }
@@ -182,18 +257,16 @@ export function useTasks(options: UseTasksOptions = {}) {
   const startTimer = async (id: string): Promise<boolean> => {
     try {
       // Optimistically mark running in UI
-      setTasks(prev => prev.map(t => ({
+      updateCachedTasks(prev => prev.map(t => ({
         ...t,
         timerRunning: t.id === id ? true : false, // only one at a time
       })))
-      const res = await api.patch<ApiResponse<ApiTask>>(`/tasks/${id}/timer`, { timerRunning: true })
-      const updated = normaliseTask(res.data)
-      setTasks(prev => prev.map(t => t.id === id ? updated : t))
+      await sendTimer(id, true)
       return true
     } catch (e: unknown) {
       // Revert optimistic update
-      setTasks(prev => prev.map(t => t.id === id ? { ...t, timerRunning: false } : t))
-      setError(e instanceof Error ? e.message : 'Failed to start timer')
+      updateCachedTasks(prev => prev.map(t => t.id === id ? { ...t, timerRunning: false } : t))
+      setMutationError(toApiError(e, 'Failed to start timer'))
       return false
     }
   }
@@ -206,30 +279,28 @@ export function useTasks(options: UseTasksOptions = {}) {
   const pauseTimer = async (id: string): Promise<boolean> => {
     try {
       // Optimistically stop in UI
-      setTasks(prev => prev.map(t => t.id === id ? { ...t, timerRunning: false } : t))
-      const res = await api.patch<ApiResponse<ApiTask>>(`/tasks/${id}/timer`, { timerRunning: false })
-      const updated = normaliseTask(res.data)
-      setTasks(prev => prev.map(t => t.id === id ? updated : t))
+      updateCachedTasks(prev => prev.map(t => t.id === id ? { ...t, timerRunning: false } : t))
+      await sendTimer(id, false)
       return true
     } catch (e: unknown) {
-      setError(e instanceof Error ? e.message : 'Failed to pause timer')
+      setMutationError(toApiError(e, 'Failed to pause timer'))
       return false
     }
   }
 
   // Tick the local timer every second for running tasks (UI only)
   const setTimerSeconds = (id: string, seconds: number) => {
-    setTasks(prev => prev.map(t => t.id === id ? { ...t, timerSeconds: seconds } : t))
+    updateCachedTasks(prev => prev.map(t => t.id === id ? { ...t, timerSeconds: seconds } : t))
   }
 
   // Tick timer by 1 second — uses functional update so never reads stale state
   const tickTimer = (id: string) => {
-    setTasks(prev => prev.map(t => t.id === id ? { ...t, timerSeconds: t.timerSeconds + 1 } : t))
+    updateCachedTasks(prev => prev.map(t => t.id === id ? { ...t, timerSeconds: t.timerSeconds + 1 } : t))
   }
 
   // Legacy setTimerRunning (kept for compat — startTimer/pauseTimer preferred)
   const setTimerRunning = (id: string, running: boolean) => {
-    setTasks(prev => prev.map(t => ({
+    updateCachedTasks(prev => prev.map(t => ({
       ...t,
       timerRunning: t.id === id ? running : (running ? false : t.timerRunning),
     })))
@@ -246,7 +317,17 @@ export function useTasks(options: UseTasksOptions = {}) {
   }
 
   return {
-    tasks, setTasks, loading, error, refetch: fetchTasks,
+    tasks: query.items ?? NO_TASKS,
+    total: query.total,
+    hasMore: query.hasMore,
+    loadingMore: query.loadingMore,
+    loadMore: query.loadMore,
+    refreshing: query.refreshing,
+    loading: query.loading,
+    error: query.error ? errorMessage(query.error, 'Failed to load tasks') : null,
+    mutationError,
+    resetMutationError: () => setMutationError(null),
+    refetch: query.refetch,
     createTask, updateTask, updateStatus, deleteTask,
     startTimer, pauseTimer,
     setTimerSeconds, tickTimer, setTimerRunning, updateTimer,
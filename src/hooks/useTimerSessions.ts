@@ -0,0 +1,110 @@
+import { useState } from 'react'
+import { useQuery, useMutation } from '@tanstack/react-query'
+import { api, getToken, toApiError } from '@/lib/api'
+import type { ApiResponse, ApiError } from '@/lib/api'
+import { queryKeys, invalidate } from '@/lib/queryClient'
+import { readPayload } from '@/lib/schema'
+
+/** Task-timer time, from a start to the pause that ended it, not yet on the user's timesheet. */
+export interface TimerSession {
+  id: string
+  taskId: string
+  taskName: string
+  jobId: string
+  jobIdDisplay: string
+  jobTitle: string
+  startedAt: string
+  endedAt: string
+  seconds: number
+  /** The timer time in hours, rounded by the job's client (or the firm's) policy; what logging it offers */
+  roundedHours: number
+}
+
+export interface LogSessionInput {
+  date: string
+  hours: number
+  description?: string
+}
+
+function normaliseSession(raw: unknown): TimerSession {
+  const r = readPayload('TimerSession', raw)
+  const task = r.optionalObject('task')
+  const job = r.optionalObject('job')
+  return {
+    id: r.string('id'),
+    taskId: r.string('taskId'),
+    taskName: task?.string('title') ?? '',
+    jobId: r.string('jobId'),
+    jobIdDisplay: job?.string('jobId') ?? '',
+    jobTitle: job?.string('title') ?? '',
+    startedAt: r.string('startedAt'),
+    endedAt: r.string('endedAt'),
+    seconds: r.number('seconds'),
+    roundedHours: r.number('roundedHours'),
+  }
+}
+
+const NO_SESSIONS: TimerSession[] = []
+
+// Logging a session is logging time: everything a new entry touches moves with it
+const afterLog = () =>
+  invalidate(queryKeys.timesheets.all, queryKeys.tasks.all, queryKeys.jobs.all, queryKeys.dashboard.all)
+
+export function useTimerSessions() {
+  const [mutationError, setMutationError] = useState<ApiError | null>(null)
+
+  const query = useQuery({
+    queryKey: queryKeys.timesheets.timerSessions,
+    queryFn: ({ signal }) =>
+      api.get<ApiResponse<unknown[]>>('/timesheets/timer-sessions', { signal })
+        .then(res => (res.data ?? []).map(normaliseSession)),
+    enabled: !!getToken(),
+  })
+
+  const logMutation = useMutation({
+    mutationFn: ({ session, input, userId }: { session: TimerSession; input: LogSessionInput; userId: string }) =>
+      api.post<ApiResponse<unknown>>('/timesheets', {
+        ...input,
+        userId,
+        jobId: session.jobId,
+        taskId: session.taskId,
+        timerSessionId: session.id,
+      }),
+    onSuccess: afterLog,
+  })
+
+  const dismissMutation = useMutation({
+    mutationFn: (id: string) => api.patch<ApiResponse<null>>(`/timesheets/timer-sessions/${id}/dismiss`, {}),
+    onSuccess: () => invalidate(queryKeys.timesheets.timerSessions),
+  })
+
+  const logSession = async (session: TimerSession, input: LogSessionInput, userId: string): Promise<boolean> => {
+    try {
+      setMutationError(null)
+      await logMutation.mutateAsync({ session, input, userId })
+      return true
+    } catch (e: unknown) {
+      setMutationError(toApiError(e, 'Failed to log timer time'))
+      return false
+    }
+  }
+
+  const dismissSession = async (id: string): Promise<boolean> => {
+    try {
+      setMutationError(null)
+      await dismissMutation.mutateAsync(id)
+      return true
+    } catch (e: unknown) {
+      setMutationError(toApiError(e, 'Failed to dismiss timer session'))
+      return false
+    }
+  }
+
+  return {
+    sessions: query.data ?? NO_SESSIONS,
+    mutationError,
+    resetMutationError: () => setMutationError(null),
+    logSession,
+    dismissSession,
+  }
+}
@@ -0,0 +1,49 @@
+import { useState } from 'react'
+import { useQuery, useMutation } from '@tanstack/react-query'
+import { api, getToken, toApiError } from '@/lib/api'
+import type { ApiResponse, ApiError } from '@/lib/api'
+import { queryKeys, invalidate } from '@/lib/queryClient'
+import { DEFAULT_TIMESHEET_RULES } from '@/lib/timesheetRules'
+import type { TimesheetRules } from '@/lib/timesheetRules'
+
+/**
+ * The firm's timesheet flagging rules. Until they load (or if they can't),
+ * callers get the defaults, so indicators never block on the request.
+ */
+export function useTimesheetRules() {
+  const [mutationError, setMutationError] = useState<ApiError | null>(null)
+
+  const query = useQuery({
+    queryKey: queryKeys.settings.timesheetRules,
+    queryFn: ({ signal }) =>
+      api.get<ApiResponse<TimesheetRules>>('/settings/timesheet-rules', { signal })
+        .then(res => ({ ...DEFAULT_TIMESHEET_RULES, ...res.data })),
+    enabled: !!getToken(),
+    staleTime: 5 * 60_000,
+  })
+
+  const saveMutation = useMutation({
+    mutationFn: (rules: TimesheetRules) => api.put<ApiResponse<TimesheetRules>>('/settings/timesheet-rules', rules),
+    // Existing flags are only recomputed as entries change, but the live indicators follow at once,
+    // as do the rounded hours offered for unlogged timer time
+    onSuccess: () => invalidate(queryKeys.settings.all, queryKeys.timesheets.timerSessions),
+  })
+
+  const saveRules = async (rules: TimesheetRules): Promise<boolean> => {
+    try {
+      setMutationError(null)
+      await saveMutation.mutateAsync(rules)
+      return true
+    } catch (e: unknown) {
+      setMutationError(toApiError(e, 'Failed to save timesheet rules'))
+      return false
+    }
+  }
+
+  return {
+    rules: query.data ?? DEFAULT_TIMESHEET_RULES,
+    loading: query.isLoading,
+    mutationError,
+    saveRules,
+  }
+}
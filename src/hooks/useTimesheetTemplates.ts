@@ -0,0 +1,111 @@
+import { useState } from 'react'
+import { useQuery, useMutation } from '@tanstack/react-query'
+import { api, getToken, toApiError } from '@/lib/api'
+import type { ApiResponse, ApiError } from '@/lib/api'
+import { queryKeys, invalidate } from '@/lib/queryClient'
+import { readPayload } from '@/lib/schema'
+import { canLogTime } from '@/lib/loggableWork'
+
+export interface TemplateItem {
+  jobId: string
+  taskId?: string
+  hours: number
+  description?: string
+}
+
+/** A template item as loaded, with enough of its job and task to tell whether it can still be logged. */
+export interface TemplateItemDetail extends TemplateItem {
+  jobTitle: string
+  jobIdDisplay: string
+  taskName?: string
+  billable: boolean
+  /** The task has been completed or the job closed or put on hold since the template was saved */
+  closed: boolean
+}
+
+export interface TimesheetTemplate {
+  id: string
+  name: string
+  items: TemplateItemDetail[]
+}
+
+function normaliseTemplate(raw: unknown): TimesheetTemplate {
+  const r = readPayload('TimesheetTemplate', raw)
+  return {
+    id: r.string('id'),
+    name: r.string('name'),
+    items: r.objects('items').map(item => {
+      const job = item.optionalObject('job')
+      const task = item.optionalObject('task')
+      const taskId = item.optionalString('taskId')
+      return {
+        jobId: item.string('jobId'),
+        taskId,
+        hours: item.number('hours'),
+        description: item.optionalString('description'),
+        jobTitle: job?.string('title') ?? '',
+        jobIdDisplay: job?.string('jobId') ?? '—',
+        taskName: task?.string('title'),
+        billable: task?.optionalBoolean('billable') ?? true,
+        closed: !canLogTime(job?.string('status').toLowerCase(), task?.string('status').toLowerCase())
+          || (!!taskId && !task),
+      }
+    }),
+  }
+}
+
+const NO_TEMPLATES: TimesheetTemplate[] = []
+
+/** The signed-in user's saved days of work for Log Daily Time. */
+export function useTimesheetTemplates() {
+  const [mutationError, setMutationError] = useState<ApiError | null>(null)
+
+  const query = useQuery({
+    queryKey: queryKeys.timesheets.templates,
+    queryFn: ({ signal }) =>
+      api.get<ApiResponse<unknown[]>>('/timesheets/templates', { signal })
+        .then(res => (res.data ?? []).map(normaliseTemplate)),
+    enabled: !!getToken(),
+  })
+
+  const saveMutation = useMutation({
+    mutationFn: (data: { name: string; items: TemplateItem[] }) =>
+      api.post<ApiResponse<unknown>>('/timesheets/templates', data),
+    onSuccess: () => invalidate(queryKeys.timesheets.templates),
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => api.delete(`/timesheets/templates/${id}`),
+    onSuccess: () => invalidate(queryKeys.timesheets.templates),
+  })
+
+  const saveTemplate = async (name: string, items: TemplateItem[]): Promise<boolean> => {
+    try {
+      setMutationError(null)
+      await saveMutation.mutateAsync({ name, items })
+      return true
+    } catch (e: unknown) {
+      setMutationError(toApiError(e, 'Failed to save template'))
+      return false
+    }
+  }
+
+  const deleteTemplate = async (id: string): Promise<boolean> => {
+    try {
+      setMutationError(null)
+      await deleteMutation.mutateAsync(id)
+      return true
+    } catch (e: unknown) {
+      setMutationError(toApiError(e, 'Failed to delete template'))
+      return false
+    }
+  }
+
+  return {
+    templates: query.data ?? NO_TEMPLATES,
+    mutationError,
+    resetMutationError: () => setMutationError(null),
+    saveTemplate,
+    deleteTemplate,
+  }
+}
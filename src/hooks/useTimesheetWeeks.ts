@@ -0,0 +1,154 @@
+import { useState } from 'react'
+import { useQuery, useMutation } from '@tanstack/react-query'
+import { api, getToken, toApiError } from '@/lib/api'
+import type { ApiResponse, ApiError } from '@/lib/api'
+import { queryKeys, invalidate, errorMessage } from '@/lib/queryClient'
+import { readPayload } from '@/lib/schema'
+
+export type WeekStatus = 'draft' | 'submitted' | 'approved' | 'rejected'
+
+/** A user's week as submitted for approval; the entries inside it move with it. */
+export interface TimesheetWeek {
+  id: string
+  userId: string
+  userName: string
+  weekStart: string  // YYYY-MM-DD
+  weekEnd: string
+  status: WeekStatus
+  submittedAt?: string
+  reviewedAt?: string
+  reviewedByName?: string
+  rejectionNote?: string
+  totalHours: number
+  entryCount: number
+  flaggedCount: number
+}
+
+const WEEK_STATUSES = ['draft', 'submitted', 'approved', 'rejected'] as const
+
+function normaliseWeek(raw: unknown): TimesheetWeek {
+  const r = readPayload('TimesheetWeek', raw)
+  const user = r.optionalObject('user')
+  const reviewer = r.optionalObject('reviewedBy')
+  return {
+    id: r.string('id'),
+    userId: r.string('userId'),
+    userName: user ? `${user.string('firstName')} ${user.string('lastName')}`.trim() : '',
+    weekStart: r.string('weekStart'),
+    weekEnd: r.string('weekEnd'),
+    status: r.enum('status', WEEK_STATUSES, 'draft'),
+    submittedAt: r.optionalString('submittedAt'),
+    reviewedAt: r.optionalString('reviewedAt'),
+    reviewedByName: reviewer ? `${reviewer.string('firstName')} ${reviewer.string('lastName')}`.trim() : undefined,
+    rejectionNote: r.optionalString('rejectionNote'),
+    totalHours: r.number('totalHours'),
+    entryCount: r.number('entryCount'),
+    flaggedCount: r.number('flaggedCount'),
+  }
+}
+
+interface UseTimesheetWeeksOptions {
+  userId?: string
+  startDate?: string
+  endDate?: string
+  /** Also load every week waiting for review (managers only) */
+  includeSubmitted?: boolean
+}
+
+const NO_WEEKS: TimesheetWeek[] = []
+
+// Submitting or reviewing a week changes every entry status inside it
+const afterWeekChange = () => invalidate(queryKeys.timesheets.all, queryKeys.dashboard.all)
+
+function fetchWeeks(params: URLSearchParams) {
+  return ({ signal }: { signal: AbortSignal }) =>
+    api.get<ApiResponse<unknown[]>>(`/timesheets/weeks?${params}`, { signal })
+      .then(res => (res.data ?? []).map(normaliseWeek))
+}
+
+export function useTimesheetWeeks(options: UseTimesheetWeeksOptions = {}) {
+  const [mutationError, setMutationError] = useState<ApiError | null>(null)
+  const { userId, startDate, endDate, includeSubmitted } = options
+
+  const params = new URLSearchParams()
+  if (userId) params.set('userId', userId)
+  if (startDate) params.set('from', startDate)
+  if (endDate) params.set('to', endDate)
+
+  const query = useQuery({
+    queryKey: queryKeys.timesheets.weeks({ userId, startDate, endDate }),
+    queryFn: fetchWeeks(params),
+    enabled: !!getToken() && !!userId,
+  })
+
+  const submittedQuery = useQuery({
+    queryKey: queryKeys.timesheets.weeks({ status: 'SUBMITTED' }),
+    queryFn: fetchWeeks(new URLSearchParams({ status: 'SUBMITTED' })),
+    enabled: !!getToken() && !!includeSubmitted,
+    retry: false,
+  })
+
+  const submitMutation = useMutation({
+    mutationFn: (data: { weekStart: string; userId?: string }) =>
+      api.post<ApiResponse<unknown>>('/timesheets/weeks/submit', data).then(res => normaliseWeek(res.data)),
+    onSuccess: afterWeekChange,
+  })
+
+  const approveMutation = useMutation({
+    mutationFn: (id: string) => api.patch<ApiResponse<unknown>>(`/timesheets/weeks/${id}/approve`, {}),
+    onSuccess: afterWeekChange,
+  })
+
+  const rejectMutation = useMutation({
+    mutationFn: ({ id, rejectionNote }: { id: string; rejectionNote: string }) =>
+      api.patch<ApiResponse<unknown>>(`/timesheets/weeks/${id}/reject`, { rejectionNote }),
+    onSuccess: afterWeekChange,
+  })
+
+  const submitWeek = async (weekStart: string, forUserId?: string): Promise<boolean> => {
+    try {
+      setMutationError(null)
+      await submitMutation.mutateAsync({ weekStart, userId: forUserId })
+      return true
+    } catch (e: unknown) {
+      setMutationError(toApiError(e, 'Failed to submit timesheet'))
+      return false
+    }
+  }
+
+  const approveWeek = async (id: string): Promise<boolean> => {
+    try {
+      setMutationError(null)
+      await approveMutation.mutateAsync(id)
+      return true
+    } catch (e: unknown) {
+      setMutationError(toApiError(e, 'Failed to approve timesheet'))
+      return false
+    }
+  }
+
+  const rejectWeek = async (id: string, rejectionNote: string): Promise<boolean> => {
+    try {
+      setMutationError(null)
+      await rejectMutation.mutateAsync({ id, rejectionNote })
+      return true
+    } catch (e: unknown) {
+      setMutationError(toApiError(e, 'Failed to reject timesheet'))
+      return false
+    }
+  }
+
+  const weeks = query.data ?? NO_WEEKS
+
+  return {
+    weeks,
+    submittedWeeks: submittedQuery.data ?? NO_WEEKS,
+    loading: query.isLoading,
+    error: query.error ? errorMessage(query.error, 'Failed to load timesheet weeks') : null,
+    mutationError,
+    resetMutationError: () => setMutationError(null),
+    submitWeek,
+    approveWeek,
+    rejectWeek,
+  }
+}
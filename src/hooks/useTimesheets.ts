@@ -1,6 +1,12 @@
-import { useState, useEffect, useCallback } from 'react'
-import { api, getToken } from '@/lib/api'
-import type { ApiResponse } from '@/lib/api'
+import { useState } from 'react'
+import { useQuery, useMutation } from '@tanstack/react-query'
+import { api, getToken, toApiError, isNetworkError } from '@/lib/api'
+import type { ApiResponse, ApiError } from '@/lib/api'
+import { queryKeys, invalidate, errorMessage } from '@/lib/queryClient'
+import { readPayload } from '@/lib/schema'
+import { useOutboxStore } from '@/store/outboxStore'
+import { usePagedQuery } from './usePagedQuery'
+import type { EntryTimes } from '@/lib/entryTimes'
 
 export interface TimesheetEntry {
   id: string
@@ -13,11 +19,26 @@ export interface TimesheetEntry {
   taskName?: string
   date: string
   hours: number
+  /** Only on entries logged with start/finish times; `hours` is derived from them */
+  times?: EntryTimes
+  /** The timer's unrounded reading, on entries logged from a timer session */
+  rawHours?: number
+  /** `hours` rounded to the client's (or firm's) billing unit */
+  billedHours: number
   description: string
   billable: boolean
-  status: string  // 'pending_normal' | 'pending_approval' | 'approved' | 'rejected'
+  status: string  // 'draft' | 'pending_normal' | 'pending_approval' | 'approved' | 'rejected'
   flagReason?: string
   rejectionNote?: string
+  /** Edits and reviews, oldest first — keeps old rejection notes after a resubmit */
+  history: TimesheetEvent[]
+}
+
+export interface TimesheetEvent {
+  at: string
+  action: 'edited' | 'rejected' | 'approved' | 'resubmitted'
+  byName: string
+  note?: string
 }
 
 interface ApiTimesheetEntry {
@@ -30,35 +51,64 @@ interface ApiTimesheetEntry {
   task?: { id: string; title: string; billable?: boolean } | null
   date: string
   hours: number
+  startTime?: string | null
+  endTime?: string | null
+  breakMinutes?: number | null
+  rawHours?: number | null
+  billedHours?: number
   description: string | null
   status: string
   flagReason?: string | null
   rejectionNote?: string | null
+  history?: Array<{ at: string; action: string; note: string | null; by: { firstName: string; lastName: string } | null }>
 }
 
+const ENTRY_STATUSES = ['draft', 'pending_normal', 'pending_approval', 'approved', 'rejected'] as const
+const EVENT_ACTIONS = ['edited', 'rejected', 'approved', 'resubmitted'] as const
+
 function normaliseEntry(t: ApiTimesheetEntry): TimesheetEntry {
+  const r = readPayload('TimesheetEntry', t)
   // Parse date in local time to avoid UTC timezone shift (e.g. AEST UTC+10)
-  const rawDate = t.date ? new Date(t.date) : null
-  const localDate = rawDate
-    ? `${rawDate.getFullYear()}-${String(rawDate.getMonth() + 1).padStart(2, '0')}-${String(rawDate.getDate()).padStart(2, '0')}`
+  const rawDate = r.string('date')
+  const parsed = rawDate ? new Date(rawDate) : null
+  const localDate = parsed && !isNaN(parsed.getTime())
+    ? `${parsed.getFullYear()}-${String(parsed.getMonth() + 1).padStart(2, '0')}-${String(parsed.getDate()).padStart(2, '0')}`
     : ''
+  const user = r.object('user')
+  const job = r.object('job')
+  const task = r.optionalObject('task')
+  const startTime = r.optionalString('startTime')
+  const endTime = r.optionalString('endTime')
+  const hours = r.number('hours')
   return {
-    id: t.id,
-    userId: t.userId,
-    userName: `${t.user?.firstName ?? ''} ${t.user?.lastName ?? ''}`.trim(),
-    jobId: t.jobId,
-    jobTitle: t.job?.title ?? '',
-    clientName: t.job?.client?.company ?? '',
-    taskId: t.taskId ?? undefined,
-    taskName: t.task?.title ?? undefined,
+    id: r.string('id'),
+    userId: r.string('userId'),
+    userName: `${user.string('firstName')} ${user.string('lastName')}`.trim(),
+    jobId: r.string('jobId'),
+    jobTitle: job.string('title'),
+    clientName: job.optionalObject('client')?.string('company') ?? '',
+    taskId: r.optionalString('taskId'),
+    taskName: task?.string('title'),
     date: localDate,
-    hours: t.hours,
-    description: t.description ?? '',
+    hours,
+    times: startTime && endTime ? { startTime, endTime, breakMinutes: r.optionalNumber('breakMinutes') ?? 0 } : undefined,
+    rawHours: r.optionalNumber('rawHours'),
+    billedHours: r.optionalNumber('billedHours') ?? hours,
+    description: r.optionalString('description') ?? '',
     // billable is stored on Task, not on Timesheet — derive from linked task
-    billable: t.task?.billable ?? false,
-    status: (t.status ?? 'PENDING_NORMAL').toLowerCase() as string,
-    flagReason: t.flagReason ?? undefined,
-    rejectionNote: t.rejectionNote ?? undefined,
+    billable: task?.optionalBoolean('billable') ?? false,
+    status: r.enum('status', ENTRY_STATUSES, 'pending_normal'),
+    flagReason: r.optionalString('flagReason'),
+    rejectionNote: r.optionalString('rejectionNote'),
+    history: r.objects('history').map(h => {
+      const by = h.optionalObject('by')
+      return {
+        at: h.string('at'),
+        action: h.enum('action', EVENT_ACTIONS, 'edited'),
+        byName: by ? `${by.string('firstName')} ${by.string('lastName')}`.trim() : '',
+        note: h.optionalString('note'),
+      }
+    }),
   }
 }
 
@@ -67,117 +117,236 @@ interface UseTimesheetsOptions {
   jobId?: string
   startDate?: string
   endDate?: string
+  /** Also load the manager approval queue (403 for employees, so leave off for them) */
+  includePending?: boolean
+  /** Load every page (weekly totals, dashboards) instead of paging through the table */
+  all?: boolean
+}
+
+const NO_ENTRIES: TimesheetEntry[] = []
+
+interface LogTimeInput {
+  userId: string
+  jobId: string
+  taskId?: string
+  date: string
+  /** Derived from the times by the server when they're sent */
+  hours: number
+  startTime?: string
+  endTime?: string
+  breakMinutes?: number
+  description?: string
 }
 
+export interface EditEntryInput {
+  hours?: number
+  /** New times set the hours; null clears them */
+  startTime?: string | null
+  endTime?: string | null
+  breakMinutes?: number
+  jobId?: string
+  /** Empty string clears the task */
+  taskId?: string
+  description?: string
+}
+
+/** Outcome for one entry of an approve/reject-selected run. */
+export interface BatchReviewResult {
+  id: string
+  success: boolean
+  message?: string
+}
+
+interface ApiBatchReview {
+  results: Array<{ id: string; success: boolean; error?: string; message?: string }>
+  succeeded: number
+  failed: number
+}
+
+// Logged hours roll up into task/job actuals and every dashboard
+const afterEntryChange = () =>
+  invalidate(queryKeys.timesheets.all, queryKeys.tasks.all, queryKeys.jobs.all, queryKeys.dashboard.all)
+
+// Reviews only move the approval queue and the dashboards
+const afterReview = () => invalidate(queryKeys.timesheets.all, queryKeys.dashboard.all)
+
 export function useTimesheets(options: UseTimesheetsOptions = {}) {
-  const [entries, setEntries] = useState<TimesheetEntry[]>([])
-  const [pendingEntries, setPendingEntries] = useState<TimesheetEntry[]>([])
-  const [loading, setLoading] = useState(false)
-  const [error, setError] = useState<string | null>(null)
+  const [mutationError, setMutationError] = useState<ApiError | null>(null)
+  const { userId, jobId, startDate, endDate, includePending, all } = options
 
-  const fetchTimesheets = useCallback(async () => {
-    if (!getToken()) { return }
-    try {
-      setLoading(true)
-      setError(null)
-      const params = new URLSearchParams({ limit: '200' })
-      if (options.userId) params.set('userId', options.userId)
-      if (options.jobId) params.set('jobId', options.jobId)
-      if (options.startDate) params.set('startDate', options.startDate)
-      if (options.endDate) params.set('endDate', options.endDate)
-
-      const res = await api.get<ApiResponse<ApiTimesheetEntry[]>>(`/timesheets?${params}`)
-      setEntries((res.data ?? []).map(normaliseEntry))
-    } catch (e: unknown) {
-      setError(e instanceof Error ? e.message : 'Failed to load timesheets')
-    } finally {
-      setLoading(false)
-    }
-  }, [options.userId, options.jobId, options.startDate, options.endDate])
+  const params = new URLSearchParams()
+  if (userId) params.set('userId', userId)
+  if (jobId) params.set('jobId', jobId)
+  if (startDate) params.set('startDate', startDate)
+  if (endDate) params.set('endDate', endDate)
+
+  const query = usePagedQuery({
+    queryKey: queryKeys.timesheets.list({ userId, jobId, startDate, endDate }),
+    path: '/timesheets',
+    params,
+    map: normaliseEntry,
+    all,
+  })
+
+  const pendingQuery = useQuery({
+    queryKey: queryKeys.timesheets.pending,
+    queryFn: async ({ signal }) => {
+      const res = await api.get<ApiResponse<ApiTimesheetEntry[]>>('/timesheets/pending', { signal })
+      return (res.data ?? []).map(normaliseEntry)
+    },
+    enabled: !!getToken() && !!includePending,
+    retry: false,
+  })
+
+  const logMutation = useMutation({
+    mutationFn: (data: LogTimeInput) => api.post<ApiResponse<ApiTimesheetEntry>>('/timesheets', data).then(res => normaliseEntry(res.data)),
+    onSuccess: afterEntryChange,
+  })
+
+  const editMutation = useMutation({
+    mutationFn: ({ id, ...data }: EditEntryInput & { id: string }) =>
+      api.put<ApiResponse<ApiTimesheetEntry>>(`/timesheets/${id}`, data).then(res => normaliseEntry(res.data)),
+    onSuccess: afterEntryChange,
+  })
 
-  useEffect(() => { fetchTimesheets() }, [fetchTimesheets])
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => api.delete(`/timesheets/${id}`),
+    onSuccess: afterEntryChange,
+  })
+
+  const approveMutation = useMutation({
+    mutationFn: (id: string) => api.patch<ApiResponse<ApiTimesheetEntry>>(`/timesheets/${id}/approve`, {}),
+    onSuccess: afterReview,
+  })
+
+  const rejectMutation = useMutation({
+    mutationFn: ({ id, rejectionNote }: { id: string; rejectionNote: string }) =>
+      api.patch<ApiResponse<ApiTimesheetEntry>>(`/timesheets/${id}/reject`, { rejectionNote }),
+    onSuccess: afterReview,
+  })
+
+  const batchMutation = useMutation({
+    mutationFn: (data: { ids: string[]; action: 'APPROVE' | 'REJECT'; rejectionNote?: string }) =>
+      api.post<ApiResponse<ApiBatchReview>>('/timesheets/batch-review', data)
+        .then(res => res.data.results.map(r => ({ id: r.id, success: r.success, message: r.message }))),
+    onSuccess: afterReview,
+  })
+
+  const queueLog = async (data: LogTimeInput): Promise<'queued'> => {
+    const outbox = useOutboxStore.getState()
+    await outbox.enqueue({
+      kind: 'timesheet.log',
+      method: 'POST',
+      path: '/timesheets',
+      body: data,
+      label: `Log ${data.hours}h on ${data.date}${data.description ? ` — ${data.description}` : ''}`,
+    })
+    void outbox.flush()
+    return 'queued'
+  }
 
-  const fetchPending = useCallback(async () => {
-    if (!getToken()) return
+  /**
+   * Resolves to the saved entry, `'queued'` when it went to the offline outbox
+   * (no connection, or earlier changes still waiting to sync), or null on failure.
+   */
+  const logTime = async (data: LogTimeInput): Promise<TimesheetEntry | 'queued' | null> => {
+    setMutationError(null)
     try {
-      const res = await api.get<ApiResponse<ApiTimesheetEntry[]>>('/timesheets/pending')
-      setPendingEntries((res.data ?? []).map(normaliseEntry))
-    } catch {
-      // Non-managers will get 403 — silently ignore
+      if (!navigator.onLine || useOutboxStore.getState().hasPending()) return await queueLog(data)
+      try {
+        return await logMutation.mutateAsync(data)
+      } catch (e: unknown) {
+        if (!isNetworkError(e)) throw e
+        return await queueLog(data)
+      }
+    } catch (e: unknown) {
+      // Includes a change the outbox couldn't take, so the modal stays open with the error
+      setMutationError(toApiError(e, 'Failed to log time'))
+      return null
     }
-  }, [])
-
-  const logTime = async (data: {
-    userId: string
-    jobId: string
-    taskId?: string
-    date: string
-    hours: number
-    description?: string
-  }): Promise<TimesheetEntry | null> => {
+  }
+
+  const editEntry = async (id: string, data: EditEntryInput): Promise<TimesheetEntry | null> => {
     try {
-      const res = await api.post<ApiResponse<ApiTimesheetEntry>>('/timesheets', data)
-      const entry = normaliseEntry(res.data)
-      setEntries(prev => [entry, ...prev])
-      return entry
+      setMutationError(null)
+      return await editMutation.mutateAsync({ id, ...data })
     } catch (e: unknown) {
-      setError(e instanceof Error ? e.message : 'Failed to log time')
+      setMutationError(toApiError(e, 'Failed to update entry'))
       return null
     }
   }
 
   const deleteEntry = async (id: string): Promise<boolean> => {
     try {
-      await api.delete(`/timesheets/${id}`)
-      setEntries(prev => prev.filter(e => e.id !== id))
+      setMutationError(null)
+      await deleteMutation.mutateAsync(id)
       return true
     } catch (e: unknown) {
-      setError(e instanceof Error ? e.message : 'Failed to delete entry')
+      setMutationError(toApiError(e, 'Failed to delete entry'))
       return false
     }
   }
 
   const approveEntry = async (id: string): Promise<boolean> => {
     try {
-      const res = await api.patch<ApiResponse<ApiTimesheetEntry>>(`/timesheets/${id}/approve`, {})
-      const updated = normaliseEntry(res.data)
-      setEntries(prev => prev.map(e => e.id === id ? updated : e))
-      setPendingEntries(prev => prev.filter(e => e.id !== id))
+      setMutationError(null)
+      await approveMutation.mutateAsync(id)
       return true
     } catch (e: unknown) {
-      setError(e instanceof Error ? e.message : 'Failed to approve entry')
+      setMutationError(toApiError(e, 'Failed to approve entry'))
       return false
     }
   }
 
   const rejectEntry = async (id: string, rejectionNote: string): Promise<boolean> => {
     try {
-      const res = await api.patch<ApiResponse<ApiTimesheetEntry>>(`/timesheets/${id}/reject`, { rejectionNote })
-      const updated = normaliseEntry(res.data)
-      setEntries(prev => prev.map(e => e.id === id ? updated : e))
-      setPendingEntries(prev => prev.filter(e => e.id !== id))
+      setMutationError(null)
+      await rejectMutation.mutateAsync({ id, rejectionNote })
       return true
     } catch (e: unknown) {
-      setError(e instanceof Error ? e.message : 'Failed to reject entry')
+      setMutationError(toApiError(e, 'Failed to reject entry'))
       return false
     }
   }
 
+  /** Resolves to one result per entry, or null when the whole request failed. */
+  const reviewEntries = async (ids: string[], action: 'APPROVE' | 'REJECT', rejectionNote?: string): Promise<BatchReviewResult[] | null> => {
+    try {
+      setMutationError(null)
+      return await batchMutation.mutateAsync({ ids, action, rejectionNote })
+    } catch (e: unknown) {
+      setMutationError(toApiError(e, action === 'APPROVE' ? 'Failed to approve entries' : 'Failed to reject entries'))
+      return null
+    }
+  }
+
+  const entries = query.items ?? NO_ENTRIES
+
   // Aggregate total hours for a specific user
   const totalHoursForUser = (userId: string) =>
     entries.filter(e => e.userId === userId).reduce((sum, e) => sum + e.hours, 0)
 
   return {
     entries,
-    pendingEntries,
-    loading,
-    error,
-    refetch: fetchTimesheets,
-    fetchPending,
+    total: query.total,
+    hasMore: query.hasMore,
+    loadingMore: query.loadingMore,
+    loadMore: query.loadMore,
+    refreshing: query.refreshing,
+    pendingEntries: pendingQuery.data ?? NO_ENTRIES,
+    loading: query.loading,
+    error: query.error ? errorMessage(query.error, 'Failed to load timesheets') : null,
+    mutationError,
+    resetMutationError: () => setMutationError(null),
+    refetch: query.refetch,
+    fetchPending: pendingQuery.refetch,
     logTime,
+    editEntry,
     deleteEntry,
     approveEntry,
     rejectEntry,
+    approveEntries: (ids: string[]) => reviewEntries(ids, 'APPROVE'),
+    rejectEntries: (ids: string[], rejectionNote: string) => reviewEntries(ids, 'REJECT', rejectionNote),
     totalHoursForUser,
   }
 }
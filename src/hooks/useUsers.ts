@@ -1,6 +1,11 @@
-import { useState, useEffect, useCallback } from 'react'
-import { api, normStr, getToken } from '@/lib/api'
-import type { ApiResponse } from '@/lib/api'
+import { useState } from 'react'
+import { useMutation } from '@tanstack/react-query'
+import { api, toApiError } from '@/lib/api'
+import type { ApiResponse, ApiError } from '@/lib/api'
+import { queryKeys, invalidate, errorMessage } from '@/lib/queryClient'
+import { readPayload } from '@/lib/schema'
+import { randomPassword, requestPasswordReset, sendPasswordSetupLink } from '@/lib/passwords'
+import { usePagedQuery } from './usePagedQuery'
 import type { User, UserRole } from '@/types'
 
 interface ApiUser {
@@ -12,20 +17,28 @@ interface ApiUser {
   status: string
   department?: string
   phone?: string
+  mfaEnabled?: boolean
+  mfaRequired?: boolean
   createdAt: string
 }
 
+const USER_ROLES: readonly UserRole[] = ['employee', 'manager', 'admin']
+const USER_STATUSES: readonly User['status'][] = ['active', 'inactive']
+
 function normaliseUser(u: ApiUser): User {
+  const r = readPayload('User', u)
   return {
-    id: u.id,
-    name: `${u.firstName} ${u.lastName}`,
-    email: u.email,
-    role: normStr(u.role) as UserRole,
-    status: normStr(u.status) as 'active' | 'inactive',
-    department: u.department || '',
-    joinedDate: u.createdAt?.slice(0, 10) ?? '',
-    phone: u.phone || '',
+    id: r.string('id'),
+    name: `${r.string('firstName')} ${r.optionalString('lastName') ?? ''}`.trim(),
+    email: r.string('email'),
+    role: r.enum('role', USER_ROLES, 'employee'),
+    status: r.enum('status', USER_STATUSES, 'active'),
+    department: r.optionalString('department') ?? '',
+    joinedDate: r.string('createdAt').slice(0, 10),
+    phone: r.optionalString('phone') ?? '',
     costRate: 0,
+    mfaEnabled: r.optionalBoolean('mfaEnabled') ?? false,
+    mfaRequired: r.optionalBoolean('mfaRequired') ?? false,
   }
 }
 
@@ -33,47 +46,41 @@ interface UseUsersOptions {
   role?: string
   status?: string
   search?: string
+  /** Load every page (assignee pickers, name lookups) instead of paging through the table */
+  all?: boolean
 }
 
+const NO_USERS: User[] = []
+
+// User names appear on tasks, timesheets and the team stats
+const afterUserChange = () =>
+  invalidate(queryKeys.users.all, queryKeys.tasks.all, queryKeys.timesheets.all, queryKeys.dashboard.all)
+
 export function useUsers(options: UseUsersOptions = {}) {
-  const [users, setUsers] = useState<User[]>([])
-  const [loading, setLoading] = useState(false)
-  const [error, setError] = useState<string | null>(null)
+  const [mutationError, setMutationError] = useState<ApiError | null>(null)
+  const { role, status, search, all } = options
 
-  const fetchUsers = useCallback(async () => {
-    if (!getToken()) { return }
-    try {
-      setLoading(true)
-      setError(null)
-      const params = new URLSearchParams({ limit: '100' })
-      if (options.role && options.role !== 'all') params.set('role', options.role.toUpperCase())
-      if (options.status && options.status !== 'all') params.set('status', options.status.toUpperCase())
-      if (options.search) params.set('search', options.search)
-
-      const res = await api.get<ApiResponse<ApiUser[]>>(`/users?${params}`)
-      setUsers((res.data ?? []).map(normaliseUser))
-    } catch (e: unknown) {
-      setError(e instanceof Error ? e.message : 'Failed to load users')
-    } finally {
-      setLoading(false)
-    }
-  }, [options.role, options.status, options.search])
+  const params = new URLSearchParams()
+  if (role && role !== 'all') params.set('role', role.toUpperCase())
+  if (status && status !== 'all') params.set('status', status.toUpperCase())
+  if (search) params.set('search', search)
 
-  useEffect(() => { fetchUsers() }, [fetchUsers])
+  const query = usePagedQuery({
+    queryKey: queryKeys.users.list({ role, status, search }),
+    path: '/users',
+    params,
+    map: normaliseUser,
+    all,
+  })
 
-  const updateUserRole = async (id: string, role: UserRole): Promise<boolean> => {
-    try {
-      await api.put<ApiResponse<ApiUser>>(`/users/${id}/role`, { role: role.toUpperCase() })
-      setUsers(prev => prev.map(u => u.id === id ? { ...u, role } : u))
-      return true
-    } catch (e: unknown) {
-      setError(e instanceof Error ? e.message : 'Failed to update role')
-      return false
-    }
-  }
+  const roleMutation = useMutation({
+    mutationFn: ({ id, role }: { id: string; role: UserRole }) =>
+      api.put<ApiResponse<ApiUser>>(`/users/${id}/role`, { role: role.toUpperCase() }),
+    onSuccess: afterUserChange,
+  })
 
-  const updateUser = async (id: string, data: Partial<User>): Promise<boolean> => {
-    try {
+  const updateMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<User> }) => {
       // Transform the data to match Prisma schema
       const payload: any = { ...data };
       
@@ -96,52 +103,42 @@ export function useUsers(options: UseUsersOptions = {}) {
       // Remove fields that don't exist in Prisma schema
       delete payload.joinedDate;
       delete payload.costRate;
+      // Only an admin reset turns two-factor off — see resetMfa
+      delete payload.mfaEnabled;
+      delete payload.recoveryCodesRemaining;
       
-      console.log('Sending update payload:', payload);
-      
-      const res = await api.put<ApiResponse<ApiUser>>(`/users/${id}`, payload)
-      const updated = normaliseUser(res.data)
-      
-      setUsers(prev => prev.map(u => u.id === id ? updated : u))
-      return true
-    } catch (e: unknown) {
-      setError(e instanceof Error ? e.message : 'Failed to update user')
-      return false
-    }
-  }
+      return api.put<ApiResponse<ApiUser>>(`/users/${id}`, payload)
+    },
+    onSuccess: afterUserChange,
+  })
 
-  const deactivateUser = async (id: string): Promise<boolean> => {
-    try {
-      await api.delete(`/users/${id}/deactivate`)
-      setUsers(prev => prev.map(u => u.id === id ? { ...u, status: 'inactive' as const } : u))
-      return true
-    } catch (e: unknown) {
-      setError(e instanceof Error ? e.message : 'Failed to deactivate user')
-      return false
-    }
-  }
+  const deactivateMutation = useMutation({
+    mutationFn: (id: string) => api.delete(`/users/${id}/deactivate`),
+    onSuccess: afterUserChange,
+  })
 
-  const deleteUser = async (id: string): Promise<boolean> => {
-    try {
-      await api.delete(`/users/${id}`)
-      setUsers(prev => prev.filter(u => u.id !== id))
-      return true
-    } catch (e: unknown) {
-      setError(e instanceof Error ? e.message : 'Failed to delete user')
-      return false
-    }
-  }
+  const resetMfaMutation = useMutation({
+    mutationFn: (id: string) => api.delete(`/users/${id}/mfa`),
+    onSuccess: afterUserChange,
+  })
 
-  const createUser = async (data: {
-    firstName: string
-    lastName: string
-    email: string
-    password: string
-    role: UserRole
-    department?: string
-    phone?: string
-  }): Promise<boolean> => {
-    try {
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => api.delete(`/users/${id}`),
+    onSuccess: afterUserChange,
+  })
+
+  const createMutation = useMutation({
+    mutationFn: async (data: {
+      firstName: string
+      lastName: string
+      email: string
+      /** `invite` emails a set-password link; `temporary` uses `password` and forces a change on first login */
+      passwordSetup: 'invite' | 'temporary'
+      password?: string
+      role: UserRole
+      department?: string
+      phone?: string
+    }) => {
       // Step 1: Create via /auth/signup
       const res = await api.post<{ success: boolean; data: { user: ApiUser; token: string } }>(
         '/auth/signup',
@@ -149,15 +146,18 @@ export function useUsers(options: UseUsersOptions = {}) {
           firstName: data.firstName, 
           lastName: data.lastName, 
           email: data.email, 
-          password: data.password 
+          password: data.passwordSetup === 'invite' ? randomPassword() : data.password,
         }
       )
       
       const newUser = normaliseUser(res.data.user)
       
       // Step 2: Update with additional fields if needed
-      if (data.role !== 'employee' || data.department || data.phone) {
+      if (data.role !== 'employee' || data.department || data.phone || data.passwordSetup === 'temporary') {
         const updatePayload: any = {};
+        if (data.passwordSetup === 'temporary') {
+          updatePayload.mustChangePassword = true;
+        }
         if (data.role !== 'employee') {
           updatePayload.role = data.role.toUpperCase();
         }
@@ -168,29 +168,65 @@ export function useUsers(options: UseUsersOptions = {}) {
           updatePayload.phone = data.phone;
         }
         
-        const updateRes = await api.put<ApiResponse<ApiUser>>(`/users/${newUser.id}`, updatePayload);
-        const updatedUser = normaliseUser(updateRes.data);
-        setUsers(prev => [updatedUser, ...prev]);
-      } else {
-        setUsers(prev => [newUser, ...prev]);
+        await api.put<ApiResponse<ApiUser>>(`/users/${newUser.id}`, updatePayload);
       }
-      
+
+      if (data.passwordSetup === 'invite') await sendPasswordSetupLink(data.email)
+    },
+    onSuccess: afterUserChange,
+  })
+
+  // Wrap a mutation so callers keep the boolean contract and errors land in `error`
+  const run = async (action: () => Promise<unknown>, fallback: string): Promise<boolean> => {
+    try {
+      setMutationError(null)
+      await action()
       return true
     } catch (e: unknown) {
-      setError(e instanceof Error ? e.message : 'Failed to create user')
+      setMutationError(toApiError(e, fallback))
       return false
     }
   }
 
+  const updateUserRole = (id: string, role: UserRole) =>
+    run(() => roleMutation.mutateAsync({ id, role }), 'Failed to update role')
+
+  const updateUser = (id: string, data: Partial<User>) =>
+    run(() => updateMutation.mutateAsync({ id, data }), 'Failed to update user')
+
+  const deactivateUser = (id: string) =>
+    run(() => deactivateMutation.mutateAsync(id), 'Failed to deactivate user')
+
+  const deleteUser = (id: string) =>
+    run(() => deleteMutation.mutateAsync(id), 'Failed to delete user')
+
+  const createUser = (data: Parameters<typeof createMutation.mutateAsync>[0]) =>
+    run(() => createMutation.mutateAsync(data), 'Failed to create user')
+
+  const resetMfa = (id: string) =>
+    run(() => resetMfaMutation.mutateAsync(id), 'Failed to reset two-factor authentication')
+
+  const sendPasswordReset = (email: string) =>
+    run(() => requestPasswordReset(email), 'Failed to send reset link')
+
   return { 
-    users, 
-    loading, 
-    error, 
-    refetch: fetchUsers, 
+    users: query.items ?? NO_USERS, 
+    total: query.total,
+    hasMore: query.hasMore,
+    loadingMore: query.loadingMore,
+    loadMore: query.loadMore,
+    refreshing: query.refreshing,
+    loading: query.loading, 
+    error: query.error ? errorMessage(query.error, 'Failed to load users') : null,
+    mutationError,
+    resetMutationError: () => setMutationError(null), 
+    refetch: query.refetch, 
     updateUserRole, 
     updateUser, 
     deactivateUser, 
     deleteUser,
-    createUser 
+    createUser,
+    sendPasswordReset,
+    resetMfa,
   }
-}
\ No newline at end of file
+}
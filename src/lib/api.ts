@@ -3,8 +3,13 @@
  * the JWT token from localStorage and normalises responses.
  */
 
+import { broadcastSession } from '@/lib/sessionSync'
+
 const BASE_URL = (import.meta.env.VITE_API_URL as string) || 'https://top-backend-l2ax.onrender.com/api'
 
+// Serve every request from the in-browser mock backend (src/mocks) instead of BASE_URL
+export const USE_MOCK_API = import.meta.env.VITE_USE_MOCK_API === 'true'
+
 // ── Token helpers ─────────────────────────────────────────────────────────────
 
 export const TOKEN_KEY = 'top_jwt_token'
@@ -21,6 +26,111 @@ export function clearToken(): void {
   localStorage.removeItem(TOKEN_KEY)
 }
 
+interface TokenClaims {
+  sub?: string
+  exp?: number
+  iat?: number
+}
+
+/** Read the (unverified) claims from a JWT — only used for client-side expiry hints. */
+export function decodeToken(token: string): TokenClaims | null {
+  try {
+    const payload = token.split('.')[1]
+    if (!payload) return null
+    const b64 = payload.replace(/-/g, '+').replace(/_/g, '/')
+    return JSON.parse(atob(b64 + '='.repeat((4 - (b64.length % 4)) % 4))) as TokenClaims
+  } catch {
+    return null
+  }
+}
+
+/** Expiry of the stored token in epoch ms, or null if there is none / it has no `exp`. */
+export function getTokenExpiry(): number | null {
+  const token = getToken()
+  const exp = token ? decodeToken(token)?.exp : undefined
+  return exp ? exp * 1000 : null
+}
+
+// ── Session expiry ────────────────────────────────────────────────────────────
+// authStore registers a handler so a 401 anywhere resets the session globally
+// without api.ts having to import the store.
+
+export const SESSION_EXPIRED_MESSAGE = 'Your session has expired. Please sign in again.'
+
+let unauthorizedHandler: (() => void) | null = null
+
+export function setUnauthorizedHandler(handler: (() => void) | null): void {
+  unauthorizedHandler = handler
+}
+
+// Same idea for a 403 saying required two-factor hasn't been set up yet, so
+// the app can send the user to set it up.
+
+export const MFA_SETUP_REQUIRED = 'MFA_SETUP_REQUIRED'
+
+let mfaSetupRequiredHandler: (() => void) | null = null
+
+export function setMfaSetupRequiredHandler(handler: (() => void) | null): void {
+  mfaSetupRequiredHandler = handler
+}
+
+// Flipped off after the first 404 so we stop asking a backend without /auth/refresh
+let refreshSupported = true
+
+export function canRefreshToken(): boolean {
+  return refreshSupported
+}
+
+const REFRESH_PATH = '/auth/refresh'
+
+// Requests that 401 together share one refresh
+let refreshInFlight: Promise<boolean> | null = null
+
+/**
+ * Swap the current token for a fresh one via POST /auth/refresh.
+ * Resolves false (without throwing) if the backend doesn't offer refresh
+ * or won't renew this token.
+ */
+export function refreshToken(): Promise<boolean> {
+  if (!refreshSupported || !getToken()) return Promise.resolve(false)
+  refreshInFlight ??= (async () => {
+    try {
+      const res = await request<ApiResponse<{ token: string }>>(REFRESH_PATH, { method: 'POST', body: {} })
+      if (!res.data?.token) return false
+      setToken(res.data.token)
+      broadcastSession({ type: 'token' })
+      return true
+    } catch (e: unknown) {
+      if (e instanceof ApiError && e.status === 404) refreshSupported = false
+      return false
+    } finally {
+      refreshInFlight = null
+    }
+  })()
+  return refreshInFlight
+}
+
+// ── Impersonation ─────────────────────────────────────────────────────────────
+// While an admin is viewing as someone else, every request carries headers the
+// backend can use to act as that user/role. authStore owns the state and gets
+// told about each write so it can be audited.
+
+export interface ImpersonationTarget {
+  userId?: string
+  role?: string
+}
+
+let impersonation: ImpersonationTarget | null = null
+let impersonatedWriteHandler: ((method: string, path: string, status: number) => void) | null = null
+
+export function setImpersonation(target: ImpersonationTarget | null): void {
+  impersonation = target
+}
+
+export function setImpersonatedWriteHandler(handler: ((method: string, path: string, status: number) => void) | null): void {
+  impersonatedWriteHandler = handler
+}
+
 // ── Enum normalisation ────────────────────────────────────────────────────────
 // Backend stores enums as UPPER_SNAKE_CASE, frontend uses lower_snake_case
 
@@ -32,13 +142,89 @@ export function upperStr(s: string): string {
   return s.toUpperCase()
 }
 
+// ── Errors ────────────────────────────────────────────────────────────────────
+
+/**
+ * Every non-OK response is thrown as an ApiError so callers can branch on
+ * the HTTP status / backend error code and show per-field validation
+ * messages next to the inputs that caused them.
+ */
+export class ApiError extends Error {
+  readonly status: number
+  readonly code: string
+  /** Field name (as sent in the request body) → first message for that field */
+  readonly fieldErrors: Record<string, string>
+
+  constructor(message: string, status: number, code = 'UNKNOWN', fieldErrors: Record<string, string> = {}) {
+    super(message)
+    this.name = 'ApiError'
+    this.status = status
+    this.code = code
+    this.fieldErrors = fieldErrors
+  }
+
+  get hasFieldErrors(): boolean {
+    return Object.keys(this.fieldErrors).length > 0
+  }
+
+  /** True if any of the given request fields were rejected. */
+  hasFieldError(...fields: string[]): boolean {
+    return fields.some(f => f in this.fieldErrors)
+  }
+}
+
+/** Normalise anything caught from a request into an ApiError; request() has already turned network failures into one. */
+export function toApiError(e: unknown, fallback: string): ApiError {
+  if (e instanceof ApiError) return e
+  return new ApiError(e instanceof Error && e.message ? e.message : fallback, 0, 'CLIENT_ERROR')
+}
+
+/**
+ * The request never got an HTTP response (offline, DNS, CORS, server
+ * unreachable). Aborts and errors thrown after a response arrived don't
+ * count: the server may already have applied the change.
+ */
+export function isNetworkError(e: unknown): boolean {
+  return e instanceof ApiError && e.code === 'NETWORK_ERROR'
+}
+
+type RawFieldErrors =
+  | Array<{ field?: string; path?: string | Array<string | number>; param?: string; message?: string; msg?: string }>
+  | Record<string, string | string[]>
+
+/**
+ * Accepts both shapes the backend has used: an array of
+ * `{ field|path|param, message|msg }` (express-validator / zod issues) or an
+ * object keyed by field name.
+ */
+function parseFieldErrors(raw: RawFieldErrors | undefined): Record<string, string> {
+  const out: Record<string, string> = {}
+  if (!raw || typeof raw !== 'object') return out
+  if (Array.isArray(raw)) {
+    for (const item of raw) {
+      const path = Array.isArray(item.path) ? item.path.join('.') : item.path
+      const field = item.field ?? path ?? item.param
+      const message = item.message ?? item.msg
+      if (field && message && !(field in out)) out[field] = message
+    }
+    return out
+  }
+  for (const [field, message] of Object.entries(raw)) {
+    const first = Array.isArray(message) ? message[0] : message
+    if (first) out[field] = first
+  }
+  return out
+}
+
 // ── Core fetch ────────────────────────────────────────────────────────────────
 
 interface RequestOptions extends Omit<RequestInit, 'body'> {
   body?: unknown
+  /** Set on the one retry after a 401, so a second 401 ends the session */
+  retried?: boolean
 }
 
-async function request<T>(path: string, options: RequestOptions = {}): Promise<T> {
+async function request<T>(path: string, { retried, ...options }: RequestOptions = {}): Promise<T> {
   const token = getToken()
   const headers: Record<string, string> = {
     'Content-Type': 'application/json',
@@ -47,27 +233,128 @@ async function request<T>(path: string, options: RequestOptions = {}): Promise<T
   if (token) {
     headers['Authorization'] = `Bearer ${token}`
   }
+  if (impersonation?.userId) headers['X-Impersonate-User'] = impersonation.userId
+  else if (impersonation?.role) headers['X-Impersonate-Role'] = impersonation.role.toUpperCase()
 
-  const res = await fetch(`${BASE_URL}${path}`, {
+  const init: RequestInit = {
     ...options,
     headers,
     body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
-  })
+  }
+
+  let res: Response
+  try {
+    res = USE_MOCK_API
+      ? await import('@/mocks').then(m => m.mockFetch(path, init))
+      : await fetch(`${BASE_URL}${path}`, init)
+  } catch (e: unknown) {
+    // fetch rejects (with a TypeError) only when no response came back; aborts stay aborts
+    if (isAbortError(e)) throw e
+    throw new ApiError(e instanceof Error && e.message ? e.message : 'Network request failed', 0, 'NETWORK_ERROR')
+  }
 
   const data = await res.json().catch(() => ({}))
 
+  const method = (options.method ?? 'GET').toUpperCase()
+  if (impersonation && method !== 'GET' && !path.startsWith('/audit')) {
+    impersonatedWriteHandler?.(method, path, res.status)
+  }
+
+  // A rejected token gets one refresh and retry (or a retry with a token another
+  // tab has just refreshed); after that the session is over. A failed refresh
+  // is left to whoever asked for it.
+  if (res.status === 401 && token && path !== REFRESH_PATH) {
+    if (!retried) {
+      const current = getToken()
+      if ((current && current !== token) || await refreshToken()) {
+        return request<T>(path, { ...options, retried: true })
+      }
+    }
+    clearToken()
+    unauthorizedHandler?.()
+    throw new ApiError(SESSION_EXPIRED_MESSAGE, 401, 'UNAUTHORIZED')
+  }
+
+  if (res.status === 403 && data?.error === MFA_SETUP_REQUIRED) mfaSetupRequiredHandler?.()
+
   if (!res.ok) {
     const message = data?.message || data?.error || `Request failed with status ${res.status}`
-    throw new Error(message)
+    throw new ApiError(message, res.status, data?.error ?? data?.code, parseFieldErrors(data?.errors ?? data?.details))
   }
 
   return data as T
 }
 
+// ── In-flight GET de-duplication ──────────────────────────────────────────────
+// Identical GETs issued while one is still running share its response. The
+// shared fetch has its own AbortController and is only aborted once every
+// caller that passed a signal has aborted.
+
+interface InFlightGet {
+  promise: Promise<unknown>
+  controller: AbortController
+  waiting: number
+}
+
+const inFlightGets = new Map<string, InFlightGet>()
+
+function abortError(): DOMException {
+  return new DOMException('The request was aborted', 'AbortError')
+}
+
+export function isAbortError(e: unknown): boolean {
+  return e instanceof DOMException && e.name === 'AbortError'
+}
+
+function dedupedGet<T>(path: string, signal?: AbortSignal): Promise<T> {
+  if (signal?.aborted) return Promise.reject(abortError())
+
+  // Token is part of the key so a response is never shared across sessions
+  const key = `${getToken() ?? ''} ${path}`
+  let entry = inFlightGets.get(key)
+  if (!entry) {
+    const controller = new AbortController()
+    const created: InFlightGet = {
+      promise: request<T>(path, { method: 'GET', signal: controller.signal }).finally(() => {
+        if (inFlightGets.get(key) === created) inFlightGets.delete(key)
+      }),
+      controller,
+      waiting: 0,
+    }
+    inFlightGets.set(key, created)
+    entry = created
+  }
+
+  const shared = entry
+  shared.waiting++
+  if (!signal) return shared.promise as Promise<T>
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      shared.waiting--
+      if (shared.waiting === 0) {
+        shared.controller.abort()
+        if (inFlightGets.get(key) === shared) inFlightGets.delete(key)
+      }
+      reject(abortError())
+    }
+    signal.addEventListener('abort', onAbort, { once: true })
+    shared.promise.then(
+      value => { signal.removeEventListener('abort', onAbort); resolve(value as T) },
+      (e: unknown) => { signal.removeEventListener('abort', onAbort); reject(e) },
+    )
+  })
+}
+
 // ── HTTP verb helpers ─────────────────────────────────────────────────────────
 
+interface GetOptions {
+  /** Abort this caller's interest in the response (e.g. TanStack Query's `signal`) */
+  signal?: AbortSignal
+}
+
 export const api = {
-  get: <T>(path: string) => request<T>(path, { method: 'GET' }),
+  get: <T>(path: string, { signal }: GetOptions = {}) => dedupedGet<T>(path, signal),
   post: <T>(path: string, body: unknown) => request<T>(path, { method: 'POST', body }),
   put: <T>(path: string, body: unknown) => request<T>(path, { method: 'PUT', body }),
   patch: <T>(path: string, body: unknown) => request<T>(path, { method: 'PATCH', body }),
@@ -87,9 +374,3 @@ export interface ApiResponse<T> {
     pages: number
   }
 }
-
-export interface ApiError {
-  success: false
-  error: string
-  message: string
-}
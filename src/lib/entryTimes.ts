@@ -0,0 +1,49 @@
+/**
+ * Start and finish times on a timesheet entry. They're optional: most
+ * entries are just hours. Some clients want times on their invoices, and
+ * award compliance needs breaks recorded. When an entry has times, its hours
+ * are always derived from them, on the client and in the mock backend alike.
+ */
+
+export interface EntryTimes {
+  startTime: string     // HH:MM, 24-hour
+  endTime: string
+  breakMinutes: number
+}
+
+const CLOCK = /^([01]\d|2[0-3]):[0-5]\d$/
+
+function clockMinutes(clock: string): number {
+  return Number(clock.slice(0, 2)) * 60 + Number(clock.slice(3, 5))
+}
+
+/** Hours worked between start and finish, less the break, to two decimals. */
+export function workedHours(times: EntryTimes): number {
+  const minutes = clockMinutes(times.endTime) - clockMinutes(times.startTime) - times.breakMinutes
+  return Math.round((minutes / 60) * 100) / 100
+}
+
+/** What's wrong with these times, keyed by the field to show it on — or null if they're fine. */
+export function timesProblem(times: EntryTimes): { field: 'startTime' | 'endTime' | 'breakMinutes'; message: string } | null {
+  if (!CLOCK.test(times.startTime)) return { field: 'startTime', message: 'Enter a start time' }
+  if (!CLOCK.test(times.endTime)) return { field: 'endTime', message: 'Enter a finish time' }
+  if (clockMinutes(times.endTime) <= clockMinutes(times.startTime)) {
+    return { field: 'endTime', message: "Finish must be after start (entries can't run past midnight)" }
+  }
+  if (!Number.isInteger(times.breakMinutes) || times.breakMinutes < 0) {
+    return { field: 'breakMinutes', message: 'Break must be whole minutes' }
+  }
+  if (workedHours(times) <= 0) return { field: 'breakMinutes', message: 'The break is as long as the time worked' }
+  return null
+}
+
+/** True when the two spans share any time; back-to-back entries don't overlap. */
+export function timesOverlap(a: EntryTimes, b: EntryTimes): boolean {
+  return clockMinutes(a.startTime) < clockMinutes(b.endTime) && clockMinutes(b.startTime) < clockMinutes(a.endTime)
+}
+
+/** "09:00–17:00" plus the break, if any, e.g. "09:00–17:30 (30m break)". */
+export function formatTimes(times: EntryTimes): string {
+  const span = `${times.startTime}–${times.endTime}`
+  return times.breakMinutes > 0 ? `${span} (${times.breakMinutes}m break)` : span
+}
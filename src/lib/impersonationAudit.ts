@@ -0,0 +1,90 @@
+/**
+ * Audit trail for admin "view as" sessions. Every start/stop, page view and
+ * write made while impersonating is kept locally (so support can always see
+ * it) and posted to the backend on a best-effort basis. An entry recorded
+ * once the token is gone (the "stop" when a session expires) waits until that
+ * admin next signs in.
+ */
+import { api, ApiError, getToken, isNetworkError } from '@/lib/api'
+import type { UserRole } from '@/types'
+
+const STORAGE_KEY = 'top_impersonation_audit'
+const UNSENT_KEY = 'top_impersonation_audit_unsent'
+const MAX_ENTRIES = 500
+
+export type ImpersonationAction = 'start' | 'stop' | 'view' | 'write'
+
+export interface ImpersonationAuditEntry {
+  id: string
+  at: string
+  actorId: string
+  actorName: string
+  targetUserId?: string
+  /** User's name, or the role label for a role-only session */
+  targetName: string
+  targetRole: UserRole
+  action: ImpersonationAction
+  /** Page path for views, "METHOD /path → status" for writes */
+  detail: string
+}
+
+// Flipped off after the first 404 so a backend without the endpoint isn't hit on every action
+let remoteEnabled = true
+
+function readEntries(key: string): ImpersonationAuditEntry[] {
+  try {
+    const raw = localStorage.getItem(key)
+    return raw ? (JSON.parse(raw) as ImpersonationAuditEntry[]) : []
+  } catch {
+    return []
+  }
+}
+
+function writeEntries(key: string, entries: ImpersonationAuditEntry[]): void {
+  try {
+    if (entries.length > 0) localStorage.setItem(key, JSON.stringify(entries.slice(-MAX_ENTRIES)))
+    else localStorage.removeItem(key)
+  } catch {
+    // Storage full or unavailable — the remote copy is still attempted
+  }
+}
+
+export function getImpersonationAudit(): ImpersonationAuditEntry[] {
+  return readEntries(STORAGE_KEY)
+}
+
+function holdUntilSignIn(entry: ImpersonationAuditEntry): void {
+  writeEntries(UNSENT_KEY, [...readEntries(UNSENT_KEY), entry])
+}
+
+function post(entry: ImpersonationAuditEntry): void {
+  if (!remoteEnabled) return
+  // Without a token the backend can't tell who's recording it
+  if (!getToken()) {
+    holdUntilSignIn(entry)
+    return
+  }
+  api.post('/audit/impersonation', entry).catch((e: unknown) => {
+    if (e instanceof ApiError && e.status === 404) remoteEnabled = false
+    else if (isNetworkError(e) || (e instanceof ApiError && e.status === 401)) holdUntilSignIn(entry)
+  })
+}
+
+/** Post the entries held back for this admin; call once they have a token again. */
+export function sendUnsentImpersonationAudit(actorId: string): void {
+  const unsent = readEntries(UNSENT_KEY)
+  if (unsent.length === 0) return
+  // Another admin's entries have to wait for them, since the backend records the poster as the actor
+  writeEntries(UNSENT_KEY, unsent.filter(e => e.actorId !== actorId))
+  unsent.filter(e => e.actorId === actorId).forEach(post)
+}
+
+export function recordImpersonation(entry: Omit<ImpersonationAuditEntry, 'id' | 'at'>): void {
+  const full: ImpersonationAuditEntry = {
+    ...entry,
+    id: `aud-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    at: new Date().toISOString(),
+  }
+  writeEntries(STORAGE_KEY, [...getImpersonationAudit(), full])
+  post(full)
+}
@@ -0,0 +1,14 @@
+/**
+ * Which jobs and tasks still take new time. Work on hold, finished or billed
+ * doesn't, so the job pickers, "Copy last week" and saved templates all
+ * decide it here.
+ */
+
+import type { JobStatus } from '@/types'
+
+export const LOGGABLE_JOB_STATUSES: readonly JobStatus[] = ['open', 'in_progress']
+
+/** Whether time can go on this job (and task, if there is one); statuses are lower_snake_case. */
+export function canLogTime(jobStatus: string | undefined, taskStatus?: string): boolean {
+  return LOGGABLE_JOB_STATUSES.includes(jobStatus as JobStatus) && taskStatus !== 'completed'
+}
@@ -0,0 +1,42 @@
+/**
+ * Two-factor enrolment helpers that don't touch the session. Turning
+ * two-factor on or off changes the signed-in user, so those actions live in
+ * authStore next to changePassword.
+ */
+import { api } from '@/lib/api'
+import type { ApiResponse } from '@/lib/api'
+
+export interface MfaSetup {
+  /** Base32 key, shown for typing in when the QR code can't be scanned */
+  secret: string
+  /** otpauth:// URI encoded into the QR code */
+  otpauthUrl: string
+}
+
+/** Generate a fresh, unconfirmed secret; it only takes effect once a code from it is verified. */
+export async function startMfaSetup(): Promise<MfaSetup> {
+  const res = await api.post<ApiResponse<MfaSetup>>('/auth/mfa/setup', {})
+  return res.data
+}
+
+/** Group the base32 key in fours so it's easier to type into an authenticator app. */
+export function formatSecret(secret: string): string {
+  return secret.replace(/(.{4})/g, '$1 ').trim()
+}
+
+/** Plain-text file of recovery codes for the user to keep somewhere safe. */
+export function downloadRecoveryCodes(codes: string[], email: string): void {
+  const text = [
+    `TOP Internal recovery codes for ${email}`,
+    'Each code can be used once, instead of an authenticator code, to sign in.',
+    '',
+    ...codes,
+    '',
+  ].join('\n')
+  const url = URL.createObjectURL(new Blob([text], { type: 'text/plain' }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = 'top-recovery-codes.txt'
+  link.click()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,102 @@
+/**
+ * IndexedDB-backed outbox for mutations made while offline. Records are
+ * keyed by an auto-increment id so they replay in the order they were made;
+ * src/store/outboxStore.ts owns the replay loop and the in-memory mirror.
+ */
+
+const DB_NAME = 'top_offline'
+const DB_VERSION = 1
+const STORE = 'outbox'
+
+export type OutboxMethod = 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+
+export interface OutboxItem {
+  id: number
+  /** Owner of the queued change — only replayed under that user's token */
+  userId: string
+  kind: 'timesheet.log' | 'task.timer'
+  method: OutboxMethod
+  path: string
+  body: unknown
+  /** Human-readable summary for the sync panel, e.g. "Log 2h on JOB-004 (12 Mar)" */
+  label: string
+  createdAt: string
+  /** `conflict` = the server rejected it on replay and the user must retry or discard */
+  status: 'pending' | 'conflict'
+  error?: string
+  attempts: number
+  /** Set while a tab is sending it, so no other tab sends it too */
+  claimedAt?: string
+}
+
+export type NewOutboxItem = Omit<OutboxItem, 'id' | 'createdAt' | 'status' | 'attempts' | 'claimedAt'>
+
+// A claim older than this was left by a tab that closed mid-send
+const CLAIM_TTL_MS = 60_000
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDb(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION)
+    req.onupgradeneeded = () => {
+      req.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true })
+    }
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+  return dbPromise
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb()
+  return new Promise((resolve, reject) => {
+    const req = run(db.transaction(STORE, mode).objectStore(STORE))
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+export async function addOutboxItem(item: NewOutboxItem): Promise<OutboxItem> {
+  const record = { ...item, createdAt: new Date().toISOString(), status: 'pending' as const, attempts: 0 }
+  const id = await withStore('readwrite', store => store.add(record))
+  return { ...record, id: Number(id) }
+}
+
+/** Every queued item, oldest first. */
+export async function getOutboxItems(): Promise<OutboxItem[]> {
+  const items = await withStore<OutboxItem[]>('readonly', store => store.getAll())
+  return items.sort((a, b) => a.id - b.id)
+}
+
+/**
+ * Mark a pending item as being sent by this tab. The read and the write share
+ * one transaction, so two tabs can't both claim it. Null when it's gone, in
+ * conflict or already claimed.
+ */
+export async function claimOutboxItem(id: number): Promise<OutboxItem | null> {
+  const db = await openDb()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, 'readwrite')
+    const store = tx.objectStore(STORE)
+    let claimed: OutboxItem | null = null
+    const req = store.get(id)
+    req.onsuccess = () => {
+      const item = req.result as OutboxItem | undefined
+      if (!item || item.status !== 'pending') return
+      if (item.claimedAt && Date.now() - Date.parse(item.claimedAt) < CLAIM_TTL_MS) return
+      claimed = { ...item, claimedAt: new Date().toISOString() }
+      store.put(claimed)
+    }
+    tx.oncomplete = () => resolve(claimed)
+    tx.onerror = () => reject(tx.error)
+  })
+}
+
+export async function putOutboxItem(item: OutboxItem): Promise<void> {
+  await withStore('readwrite', store => store.put(item))
+}
+
+export async function deleteOutboxItem(id: number): Promise<void> {
+  await withStore('readwrite', store => store.delete(id))
+}
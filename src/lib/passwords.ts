@@ -0,0 +1,46 @@
+/**
+ * Self-service password endpoints: forgot/reset (no session needed) and the
+ * rules shared by every form that sets a new password. Changing the password
+ * of the signed-in user lives in authStore, since it updates the session.
+ */
+import { api } from '@/lib/api'
+import type { ApiResponse } from '@/lib/api'
+
+export const MIN_PASSWORD_LENGTH = 8
+
+/** Client-side check before a new password is sent; the backend re-validates. */
+export function passwordProblem(password: string, confirm: string): string | null {
+  if (password.length < MIN_PASSWORD_LENGTH) return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`
+  if (!/[A-Za-z]/.test(password) || !/\d/.test(password)) return 'Use at least one letter and one number'
+  if (password !== confirm) return 'Passwords do not match'
+  return null
+}
+
+/**
+ * Email a reset link. The backend answers the same way whether or not the
+ * address has an account, so this never reveals who is registered.
+ */
+export async function requestPasswordReset(email: string): Promise<void> {
+  await api.post<ApiResponse<null>>('/auth/forgot-password', { email: email.trim() })
+}
+
+/** Email a new user a link to choose their own password (same token flow as a reset). */
+export async function sendPasswordSetupLink(email: string): Promise<void> {
+  await api.post<ApiResponse<null>>('/auth/forgot-password', { email: email.trim(), invite: true })
+}
+
+/** Whether a reset token is still usable, and which account it belongs to. */
+export async function checkResetToken(token: string): Promise<{ email: string }> {
+  const res = await api.get<ApiResponse<{ email: string }>>(`/auth/reset-password/${encodeURIComponent(token)}`)
+  return { email: res.data?.email ?? '' }
+}
+
+export async function resetPassword(token: string, password: string): Promise<void> {
+  await api.post<ApiResponse<null>>('/auth/reset-password', { token, password })
+}
+
+/** Unguessable throwaway password for accounts that will set their own via a setup link. */
+export function randomPassword(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(18))
+  return `${btoa(String.fromCharCode(...bytes))}1a`
+}
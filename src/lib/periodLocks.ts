@@ -0,0 +1,27 @@
+/**
+ * Closed accounting periods. Once a month is invoiced an admin locks it, and
+ * entries dated inside it are read-only for everyone else until an admin
+ * unlocks it again with a reason. The mock backend and the timesheet screens
+ * both decide "is this day locked?" here.
+ */
+
+/** The part of a lock that decides which days it covers; both ends inclusive, YYYY-MM-DD. */
+export interface LockedPeriod {
+  startDate: string
+  endDate: string
+  /** Set once an admin reopens the period; the lock is kept as history */
+  unlockedAt: string | null
+}
+
+/** The active lock covering this day, if any. */
+export function lockFor<T extends LockedPeriod>(locks: readonly T[], ymd: string): T | undefined {
+  const day = ymd.slice(0, 10)
+  return locks.find(l => !l.unlockedAt && day >= l.startDate && day <= l.endDate)
+}
+
+/** First and last day of a YYYY-MM month. */
+export function monthRange(month: string): { startDate: string; endDate: string } {
+  const [year, m] = month.split('-').map(Number)
+  const last = new Date(Date.UTC(year, m, 0)).getUTCDate()
+  return { startDate: `${month}-01`, endDate: `${month}-${String(last).padStart(2, '0')}` }
+}
@@ -0,0 +1,56 @@
+/**
+ * Central permission model. Pages, routes and nav items ask `can(role, …)`
+ * instead of comparing roles, so moving a capability between roles is one
+ * edit to ROLE_PERMISSIONS. The backend still enforces its own checks.
+ */
+import type { UserRole } from '@/types'
+
+export type Permission =
+  | 'dashboard.team'
+  | 'dashboard.firm'
+  | 'users.view'
+  | 'users.create'
+  | 'users.edit'
+  | 'users.delete'
+  | 'users.impersonate'
+  | 'users.manageMfa'
+  | 'clients.view'
+  | 'clients.manage'
+  | 'jobs.viewAll'
+  | 'jobs.manage'
+  | 'jobs.financials.view'
+  | 'tasks.viewAll'
+  | 'tasks.manage'
+  | 'timesheets.viewTeam'
+  | 'timesheets.approve'
+  | 'timesheets.editLocked'
+  | 'reports.view'
+  | 'invoices.view'
+  | 'performance.view'
+  | 'settings.manage'
+
+const MANAGER_PERMISSIONS: readonly Permission[] = [
+  'dashboard.team',
+  'users.view', 'users.edit',
+  'clients.view', 'clients.manage',
+  'jobs.viewAll', 'jobs.manage', 'jobs.financials.view',
+  'tasks.viewAll', 'tasks.manage',
+  'timesheets.viewTeam', 'timesheets.approve',
+  'reports.view', 'invoices.view',
+]
+
+const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  // Processors see their own work: assigned tasks, the jobs behind them and their own time
+  employee: [],
+  manager: MANAGER_PERMISSIONS,
+  admin: [
+    ...MANAGER_PERMISSIONS,
+    'dashboard.firm',
+    'users.create', 'users.delete', 'users.impersonate', 'users.manageMfa',
+    'performance.view', 'settings.manage', 'timesheets.editLocked',
+  ],
+}
+
+export function can(role: UserRole | null | undefined, permission: Permission): boolean {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission)
+}
@@ -0,0 +1,33 @@
+import { api } from '@/lib/api'
+import type { ApiResponse } from '@/lib/api'
+import { readPayload } from '@/lib/schema'
+import type { TimesheetView, UserPreferences } from '@/types'
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  timesheetView: 'weekly',
+  weekStartsOn: 1,
+  sidebarCollapsed: false,
+}
+
+const TIMESHEET_VIEWS: readonly TimesheetView[] = ['daily', 'weekly', 'monthly']
+
+// Missing keys fall back to the defaults, so preferences added later need no migration
+function normalisePreferences(raw: unknown): UserPreferences {
+  const r = readPayload('UserPreferences', raw ?? {})
+  return {
+    timesheetView: r.enum('timesheetView', TIMESHEET_VIEWS, DEFAULT_PREFERENCES.timesheetView),
+    weekStartsOn: r.optionalNumber('weekStartsOn') === 0 ? 0 : 1,
+    sidebarCollapsed: r.optionalBoolean('sidebarCollapsed') ?? DEFAULT_PREFERENCES.sidebarCollapsed,
+  }
+}
+
+export async function fetchPreferences(): Promise<UserPreferences> {
+  const res = await api.get<ApiResponse<unknown>>('/auth/preferences')
+  return normalisePreferences(res.data)
+}
+
+/** Save a partial update; the backend merges it and returns the full set. */
+export async function savePreferences(patch: Partial<UserPreferences>): Promise<UserPreferences> {
+  const res = await api.put<ApiResponse<unknown>>('/auth/preferences', patch)
+  return normalisePreferences(res.data)
+}
@@ -0,0 +1,154 @@
+/**
+ * Australian public holidays, computed per state rather than kept as a list
+ * that goes stale each year. Covers the state-wide gazetted days; regional
+ * show days and part-day holidays aren't included.
+ */
+
+export const AU_STATES = [
+  { value: 'ACT', label: 'Australian Capital Territory' },
+  { value: 'NSW', label: 'New South Wales' },
+  { value: 'NT',  label: 'Northern Territory' },
+  { value: 'QLD', label: 'Queensland' },
+  { value: 'SA',  label: 'South Australia' },
+  { value: 'TAS', label: 'Tasmania' },
+  { value: 'VIC', label: 'Victoria' },
+  { value: 'WA',  label: 'Western Australia' },
+] as const
+
+export type AuState = typeof AU_STATES[number]['value']
+
+export interface PublicHoliday {
+  date: string  // YYYY-MM-DD
+  name: string
+}
+
+// All arithmetic is in UTC so a YYYY-MM-DD never shifts with the local timezone
+const ymd = (d: Date) => d.toISOString().slice(0, 10)
+const utc = (year: number, month: number, day: number) => new Date(Date.UTC(year, month, day))
+
+function plusDays(d: Date, n: number): Date {
+  const next = new Date(d)
+  next.setUTCDate(next.getUTCDate() + n)
+  return next
+}
+
+/** The nth (1-based) given weekday of a month; n = -1 is the last one. */
+function nthWeekday(year: number, month: number, weekday: number, n: number): Date {
+  if (n < 0) {
+    const last = utc(year, month + 1, 0)
+    return plusDays(last, -((last.getUTCDay() - weekday + 7) % 7))
+  }
+  const first = utc(year, month, 1)
+  return plusDays(first, (weekday - first.getUTCDay() + 7) % 7 + (n - 1) * 7)
+}
+
+/** Easter Sunday (anonymous Gregorian algorithm). */
+function easterSunday(year: number): Date {
+  const a = year % 19
+  const b = Math.floor(year / 100)
+  const c = year % 100
+  const d = Math.floor(b / 4)
+  const e = b % 4
+  const f = Math.floor((b + 8) / 25)
+  const g = Math.floor((b - f + 1) / 3)
+  const h = (19 * a + b - d - g + 15) % 30
+  const i = Math.floor(c / 4)
+  const k = c % 4
+  const l = (32 + 2 * e + 2 * i - h - k) % 7
+  const m = Math.floor((a + 11 * h + 22 * l) / 451)
+  const month = Math.floor((h + l - 7 * m + 114) / 31)
+  const day = ((h + l - 7 * m + 114) % 31) + 1
+  return utc(year, month - 1, day)
+}
+
+const MONDAY = 1
+const TUESDAY = 2
+
+/** The day itself, plus the following Monday when it lands on a weekend. */
+function withWeekendSubstitute(date: Date, name: string): PublicHoliday[] {
+  const day = date.getUTCDay()
+  if (day !== 0 && day !== 6) return [{ date: ymd(date), name }]
+  return [
+    { date: ymd(date), name },
+    { date: ymd(plusDays(date, day === 6 ? 2 : 1)), name: `${name} (observed)` },
+  ]
+}
+
+/** Christmas and Boxing Day, with the Monday/Tuesday substitutes when either falls on a weekend. */
+function christmas(year: number, boxingDayName: string): PublicHoliday[] {
+  const christmasDay = utc(year, 11, 25)
+  const days: PublicHoliday[] = [
+    { date: ymd(christmasDay), name: 'Christmas Day' },
+    { date: ymd(plusDays(christmasDay, 1)), name: boxingDayName },
+  ]
+  const weekday = christmasDay.getUTCDay()
+  if (weekday === 6) {
+    days.push({ date: `${year}-12-27`, name: 'Christmas Day (observed)' }, { date: `${year}-12-28`, name: `${boxingDayName} (observed)` })
+  } else if (weekday === 5) {
+    days.push({ date: `${year}-12-28`, name: `${boxingDayName} (observed)` })
+  } else if (weekday === 0) {
+    days.push({ date: `${year}-12-27`, name: 'Christmas Day (observed)' })
+  }
+  return days
+}
+
+export function publicHolidays(state: AuState, year: number): PublicHoliday[] {
+  const easter = easterSunday(year)
+  const days: PublicHoliday[] = [
+    ...withWeekendSubstitute(utc(year, 0, 1), "New Year's Day"),
+    ...withWeekendSubstitute(utc(year, 0, 26), 'Australia Day'),
+    { date: ymd(plusDays(easter, -2)), name: 'Good Friday' },
+    { date: ymd(plusDays(easter, 1)), name: 'Easter Monday' },
+    // Only WA and the ACT move Anzac Day off a weekend
+    ...(state === 'WA' || state === 'ACT'
+      ? withWeekendSubstitute(utc(year, 3, 25), 'Anzac Day')
+      : [{ date: `${year}-04-25`, name: 'Anzac Day' }]),
+    ...christmas(year, state === 'SA' ? 'Proclamation Day' : 'Boxing Day'),
+  ]
+
+  const add = (date: Date, name: string) => days.push({ date: ymd(date), name })
+  switch (state) {
+    case 'NSW':
+      add(nthWeekday(year, 5, MONDAY, 2), "King's Birthday")
+      add(nthWeekday(year, 9, MONDAY, 1), 'Labour Day')
+      break
+    case 'VIC':
+      add(nthWeekday(year, 2, MONDAY, 2), 'Labour Day')
+      add(nthWeekday(year, 5, MONDAY, 2), "King's Birthday")
+      add(nthWeekday(year, 10, TUESDAY, 1), 'Melbourne Cup')
+      break
+    case 'QLD':
+      add(nthWeekday(year, 4, MONDAY, 1), 'Labour Day')
+      add(nthWeekday(year, 9, MONDAY, 1), "King's Birthday")
+      break
+    case 'SA':
+      add(nthWeekday(year, 2, MONDAY, 2), 'Adelaide Cup Day')
+      add(nthWeekday(year, 5, MONDAY, 2), "King's Birthday")
+      add(nthWeekday(year, 9, MONDAY, 1), 'Labour Day')
+      break
+    case 'WA':
+      add(nthWeekday(year, 2, MONDAY, 1), 'Labour Day')
+      add(nthWeekday(year, 5, MONDAY, 1), 'Western Australia Day')
+      add(nthWeekday(year, 8, MONDAY, -1), "King's Birthday")
+      break
+    case 'TAS':
+      add(nthWeekday(year, 2, MONDAY, 2), 'Eight Hours Day')
+      add(nthWeekday(year, 5, MONDAY, 2), "King's Birthday")
+      break
+    case 'ACT': {
+      add(nthWeekday(year, 2, MONDAY, 2), 'Canberra Day')
+      // First Monday on or after 27 May
+      const may27 = utc(year, 4, 27)
+      add(plusDays(may27, (MONDAY - may27.getUTCDay() + 7) % 7), 'Reconciliation Day')
+      add(nthWeekday(year, 5, MONDAY, 2), "King's Birthday")
+      add(nthWeekday(year, 9, MONDAY, 1), 'Labour Day')
+      break
+    }
+    case 'NT':
+      add(nthWeekday(year, 4, MONDAY, 1), 'May Day')
+      add(nthWeekday(year, 5, MONDAY, 2), "King's Birthday")
+      add(nthWeekday(year, 7, MONDAY, 1), 'Picnic Day')
+      break
+  }
+  return days.sort((a, b) => a.date.localeCompare(b.date))
+}
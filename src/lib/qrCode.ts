@@ -0,0 +1,308 @@
+/**
+ * Minimal QR code encoder — byte mode, error correction level M — used to
+ * show authenticator enrolment links. Follows ISO/IEC 18004 as laid out in
+ * Project Nayuki's reference implementation, trimmed to what we need.
+ * Secrets never leave the browser, which rules out an image service.
+ */
+
+// Indexed by version (1–40); index 0 is unused
+const ECC_CODEWORDS_PER_BLOCK = [
+  -1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26,
+  26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28,
+]
+const NUM_ERROR_CORRECTION_BLOCKS = [
+  -1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16,
+  17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49,
+]
+// Format bits for level M
+const ECL_FORMAT_BITS = 0
+
+function getBit(x: number, i: number): boolean {
+  return ((x >>> i) & 1) !== 0
+}
+
+function numRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2
+    result -= (25 * numAlign - 10) * numAlign - 55
+    if (version >= 7) result -= 36
+  }
+  return result
+}
+
+function numDataCodewords(version: number): number {
+  return Math.floor(numRawDataModules(version) / 8) - ECC_CODEWORDS_PER_BLOCK[version] * NUM_ERROR_CORRECTION_BLOCKS[version]
+}
+
+// ── Reed–Solomon over GF(2^8) ─────────────────────────────────────────────────
+
+function gfMultiply(x: number, y: number): number {
+  let z = 0
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d)
+    z ^= ((y >>> i) & 1) * x
+  }
+  return z
+}
+
+function rsDivisor(degree: number): number[] {
+  const result = new Array<number>(degree - 1).fill(0)
+  result.push(1)
+  let root = 1
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root)
+      if (j + 1 < result.length) result[j] ^= result[j + 1]
+    }
+    root = gfMultiply(root, 0x02)
+  }
+  return result
+}
+
+function rsRemainder(data: number[], divisor: number[]): number[] {
+  const result = divisor.map(() => 0)
+  for (const b of data) {
+    const factor = b ^ (result.shift() as number)
+    result.push(0)
+    divisor.forEach((coef, i) => { result[i] ^= gfMultiply(coef, factor) })
+  }
+  return result
+}
+
+// ── Symbol construction ───────────────────────────────────────────────────────
+
+class QrMatrix {
+  readonly size: number
+  readonly modules: boolean[][]
+  private readonly isFunction: boolean[][]
+  private readonly version: number
+
+  constructor(version: number) {
+    this.version = version
+    this.size = version * 4 + 17
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false))
+    this.isFunction = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false))
+    this.drawFunctionPatterns()
+  }
+
+  private set(x: number, y: number, dark: boolean) {
+    this.modules[y][x] = dark
+    this.isFunction[y][x] = true
+  }
+
+  private drawFunctionPatterns() {
+    for (let i = 0; i < this.size; i++) {
+      this.set(6, i, i % 2 === 0)
+      this.set(i, 6, i % 2 === 0)
+    }
+    this.drawFinder(3, 3)
+    this.drawFinder(this.size - 4, 3)
+    this.drawFinder(3, this.size - 4)
+
+    const positions = this.alignmentPositions()
+    const last = positions.length - 1
+    positions.forEach((py, i) => positions.forEach((px, j) => {
+      // Skip the three corners taken by finder patterns
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) this.set(px + dx, py + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1)
+      }
+    }))
+
+    this.drawFormatBits(0) // Reserve the area; overwritten once the mask is chosen
+    this.drawVersion()
+  }
+
+  private drawFinder(x: number, y: number) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const dist = Math.max(Math.abs(dx), Math.abs(dy))
+        const xx = x + dx
+        const yy = y + dy
+        if (xx >= 0 && xx < this.size && yy >= 0 && yy < this.size) this.set(xx, yy, dist !== 2 && dist !== 4)
+      }
+    }
+  }
+
+  private alignmentPositions(): number[] {
+    if (this.version === 1) return []
+    const numAlign = Math.floor(this.version / 7) + 2
+    const step = Math.floor((this.version * 8 + numAlign * 3 + 5) / (numAlign * 4 - 4)) * 2
+    const result = [6]
+    for (let pos = this.size - 7; result.length < numAlign; pos -= step) result.splice(1, 0, pos)
+    return result
+  }
+
+  drawFormatBits(mask: number) {
+    const data = (ECL_FORMAT_BITS << 3) | mask
+    let rem = data
+    for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537)
+    const bits = ((data << 10) | rem) ^ 0x5412
+
+    for (let i = 0; i <= 5; i++) this.set(8, i, getBit(bits, i))
+    this.set(8, 7, getBit(bits, 6))
+    this.set(8, 8, getBit(bits, 7))
+    this.set(7, 8, getBit(bits, 8))
+    for (let i = 9; i < 15; i++) this.set(14 - i, 8, getBit(bits, i))
+
+    for (let i = 0; i < 8; i++) this.set(this.size - 1 - i, 8, getBit(bits, i))
+    for (let i = 8; i < 15; i++) this.set(8, this.size - 15 + i, getBit(bits, i))
+    this.set(8, this.size - 8, true) // Always dark
+  }
+
+  private drawVersion() {
+    if (this.version < 7) return
+    let rem = this.version
+    for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25)
+    const bits = (this.version << 12) | rem
+    for (let i = 0; i < 18; i++) {
+      const a = this.size - 11 + (i % 3)
+      const b = Math.floor(i / 3)
+      this.set(a, b, getBit(bits, i))
+      this.set(b, a, getBit(bits, i))
+    }
+  }
+
+  /** Zig-zag the codewords into every non-function module, two columns at a time. */
+  drawCodewords(data: number[]) {
+    let i = 0
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5 // Skip the vertical timing pattern
+      for (let vert = 0; vert < this.size; vert++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j
+          const upward = ((right + 1) & 2) === 0
+          const y = upward ? this.size - 1 - vert : vert
+          if (!this.isFunction[y][x] && i < data.length * 8) {
+            this.modules[y][x] = getBit(data[i >>> 3], 7 - (i & 7))
+            i++
+          }
+        }
+      }
+    }
+  }
+
+  /** XOR a mask pattern over the data modules; applying it twice undoes it. */
+  applyMask(mask: number) {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        let invert: boolean
+        switch (mask) {
+          case 0: invert = (x + y) % 2 === 0; break
+          case 1: invert = y % 2 === 0; break
+          case 2: invert = x % 3 === 0; break
+          case 3: invert = (x + y) % 3 === 0; break
+          case 4: invert = (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0; break
+          case 5: invert = ((x * y) % 2) + ((x * y) % 3) === 0; break
+          case 6: invert = (((x * y) % 2) + ((x * y) % 3)) % 2 === 0; break
+          default: invert = (((x + y) % 2) + ((x * y) % 3)) % 2 === 0
+        }
+        if (invert && !this.isFunction[y][x]) this.modules[y][x] = !this.modules[y][x]
+      }
+    }
+  }
+
+  /**
+   * Rough penalty for picking a mask: long runs, 2×2 blocks and dark/light
+   * imbalance. The finder-lookalike rule is left out — every mask still
+   * produces a valid symbol, this only nudges towards easier scanning.
+   */
+  penalty(): number {
+    let score = 0
+    let dark = 0
+    for (let a = 0; a < this.size; a++) {
+      let rowRun = 1
+      let colRun = 1
+      for (let b = 1; b < this.size; b++) {
+        if (this.modules[a][b] === this.modules[a][b - 1]) rowRun++
+        else { if (rowRun >= 5) score += rowRun - 2; rowRun = 1 }
+        if (this.modules[b][a] === this.modules[b - 1][a]) colRun++
+        else { if (colRun >= 5) score += colRun - 2; colRun = 1 }
+      }
+      if (rowRun >= 5) score += rowRun - 2
+      if (colRun >= 5) score += colRun - 2
+    }
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        const c = this.modules[y][x]
+        if (c) dark++
+        if (x > 0 && y > 0 && c === this.modules[y][x - 1] && c === this.modules[y - 1][x] && c === this.modules[y - 1][x - 1]) score += 3
+      }
+    }
+    const total = this.size * this.size
+    return score + (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10
+  }
+}
+
+function addEccAndInterleave(data: number[], version: number): number[] {
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[version]
+  const blockEccLen = ECC_CODEWORDS_PER_BLOCK[version]
+  const rawCodewords = Math.floor(numRawDataModules(version) / 8)
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks)
+  const shortBlockLen = Math.floor(rawCodewords / numBlocks)
+
+  const divisor = rsDivisor(blockEccLen)
+  const blocks: number[][] = []
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const dat = data.slice(k, k + shortBlockLen - blockEccLen + (i < numShortBlocks ? 0 : 1))
+    k += dat.length
+    const ecc = rsRemainder(dat, divisor)
+    if (i < numShortBlocks) dat.push(0) // Padding so every block has the same length; skipped below
+    blocks.push(dat.concat(ecc))
+  }
+
+  const result: number[] = []
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLen - blockEccLen || j >= numShortBlocks) result.push(block[i])
+    })
+  }
+  return result
+}
+
+/**
+ * Encode text as a QR code. Returns rows of modules, `true` for dark,
+ * without the quiet zone. Throws if the text won't fit in a version 40 symbol.
+ */
+export function encodeQr(text: string): boolean[][] {
+  const bytes = Array.from(new TextEncoder().encode(text))
+
+  let version = 1
+  for (; ; version++) {
+    if (version > 40) throw new RangeError('Text is too long for a QR code')
+    const countBits = version < 10 ? 8 : 16
+    if (4 + countBits + bytes.length * 8 <= numDataCodewords(version) * 8) break
+  }
+
+  const capacity = numDataCodewords(version) * 8
+  const bits: number[] = []
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1)
+  }
+  append(0x4, 4) // Byte mode
+  append(bytes.length, version < 10 ? 8 : 16)
+  bytes.forEach(b => append(b, 8))
+  append(0, Math.min(4, capacity - bits.length)) // Terminator
+  append(0, (8 - (bits.length % 8)) % 8)
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) append(pad, 8)
+
+  const codewords: number[] = []
+  for (let i = 0; i < bits.length; i += 8) codewords.push(bits.slice(i, i + 8).reduce((acc, bit) => (acc << 1) | bit, 0))
+
+  const qr = new QrMatrix(version)
+  qr.drawCodewords(addEccAndInterleave(codewords, version))
+
+  let bestMask = 0
+  let bestPenalty = Infinity
+  for (let mask = 0; mask < 8; mask++) {
+    qr.applyMask(mask)
+    qr.drawFormatBits(mask)
+    const penalty = qr.penalty()
+    if (penalty < bestPenalty) { bestMask = mask; bestPenalty = penalty }
+    qr.applyMask(mask)
+  }
+  qr.applyMask(bestMask)
+  qr.drawFormatBits(bestMask)
+  return qr.modules
+}
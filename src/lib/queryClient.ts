@@ -0,0 +1,68 @@
+/**
+ * Shared TanStack Query client and query-key factory. Every data hook in
+ * src/hooks reads through these keys so pages share one cache, and
+ * mutations invalidate by the top-level key of whatever they touch.
+ */
+
+import { QueryClient } from '@tanstack/react-query'
+
+export const queryClient = new QueryClient({
+  defaultOptions: { queries: { staleTime: 60_000, retry: 1 } },
+})
+
+// ── Query keys ────────────────────────────────────────────────────────────────
+// Filters are part of the key, so each filter combination is cached separately
+// while `invalidateQueries({ queryKey: queryKeys.jobs.all })` still hits them all.
+
+export const queryKeys = {
+  jobs: {
+    all: ['jobs'] as const,
+    list: (filters: object) => ['jobs', 'list', filters] as const,
+  },
+  clients: {
+    all: ['clients'] as const,
+    list: (filters: object) => ['clients', 'list', filters] as const,
+  },
+  tasks: {
+    all: ['tasks'] as const,
+    list: (filters: object) => ['tasks', 'list', filters] as const,
+  },
+  users: {
+    all: ['users'] as const,
+    list: (filters: object) => ['users', 'list', filters] as const,
+  },
+  timesheets: {
+    all: ['timesheets'] as const,
+    list: (filters: object) => ['timesheets', 'list', filters] as const,
+    pending: ['timesheets', 'pending'] as const,
+    weeks: (filters: object) => ['timesheets', 'weeks', filters] as const,
+    timerSessions: ['timesheets', 'timerSessions'] as const,
+    templates: ['timesheets', 'templates'] as const,
+  },
+  leave: {
+    all: ['leave'] as const,
+    list: (filters: object) => ['leave', 'list', filters] as const,
+  },
+  settings: {
+    all: ['settings'] as const,
+    timesheetRules: ['settings', 'timesheetRules'] as const,
+    periodLocks: ['settings', 'periodLocks'] as const,
+  },
+  dashboard: {
+    all: ['dashboard'] as const,
+    employee: ['dashboard', 'employee'] as const,
+    manager: ['dashboard', 'manager'] as const,
+    admin: ['dashboard', 'admin'] as const,
+    revenue: ['dashboard', 'stats', 'revenue'] as const,
+    team: ['dashboard', 'stats', 'team'] as const,
+  },
+}
+
+/** Invalidate several top-level keys at once after a mutation. */
+export function invalidate(...keys: ReadonlyArray<readonly unknown[]>): Promise<void[]> {
+  return Promise.all(keys.map(queryKey => queryClient.invalidateQueries({ queryKey })))
+}
+
+export function errorMessage(e: unknown, fallback: string): string {
+  return e instanceof Error ? e.message : fallback
+}
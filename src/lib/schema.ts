@@ -0,0 +1,154 @@
+/**
+ * Runtime checks for backend payloads. The normalise functions in src/hooks
+ * read every field through a PayloadReader instead of casting, so a value of
+ * the wrong type, an unknown enum member or a missing nested relation falls
+ * back to a safe default and is reported as schema drift (console warning
+ * plus the dev-only drift panel) instead of rendering as a blank cell.
+ */
+
+import { useDiagnosticsStore } from '@/store/diagnosticsStore'
+
+type Json = Record<string, unknown>
+
+function isObject(value: unknown): value is Json {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null'
+  if (value === undefined) return 'missing'
+  if (Array.isArray(value)) return 'array'
+  if (typeof value === 'string') return value.length > 24 ? 'string' : `"${value}"`
+  return typeof value
+}
+
+const warned = new Set<string>()
+
+function report(entity: string, field: string, expected: string, value: unknown, sampleId?: string) {
+  const received = describe(value)
+  useDiagnosticsStore.getState().reportDrift({ entity, field, expected, received, sampleId })
+  const key = `${entity}.${field}:${expected}:${received}`
+  if (import.meta.env.DEV && !warned.has(key)) {
+    warned.add(key)
+    console.warn(`[schema drift] ${entity}.${field}: expected ${expected}, received ${received}`, sampleId ? `(id ${sampleId})` : '')
+  }
+}
+
+export class PayloadReader {
+  readonly entity: string
+  readonly id: string | undefined
+  private readonly data: Json
+  private readonly prefix: string
+  // Set when the parent already reported this relation as missing
+  private readonly muted: boolean
+
+  constructor(entity: string, raw: unknown, prefix = '', id?: string, muted = false) {
+    this.entity = entity
+    this.prefix = prefix
+    this.muted = muted
+    this.data = isObject(raw) ? raw : {}
+    this.id = id ?? (typeof this.data.id === 'string' ? this.data.id : undefined)
+    if (!prefix && !isObject(raw)) report(entity, '(root)', 'object', raw)
+  }
+
+  private drift(field: string, expected: string, value: unknown) {
+    if (this.muted) return
+    report(this.entity, this.prefix + field, expected, value, this.id)
+  }
+
+  /** Required string — anything else is reported and replaced with `fallback`. */
+  string(field: string, fallback = ''): string {
+    const value = this.data[field]
+    if (typeof value === 'string') return value
+    this.drift(field, 'string', value)
+    return fallback
+  }
+
+  /** String that the backend may legitimately send as null or omit. */
+  optionalString(field: string): string | undefined {
+    const value = this.data[field]
+    if (value === null || value === undefined) return undefined
+    if (typeof value === 'string') return value
+    this.drift(field, 'string | null', value)
+    return undefined
+  }
+
+  /** Required number. Numeric strings (Prisma Decimal) are accepted. */
+  number(field: string, fallback = 0): number {
+    const value = this.data[field]
+    if (typeof value === 'number' && Number.isFinite(value)) return value
+    if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) return Number(value)
+    this.drift(field, 'number', value)
+    return fallback
+  }
+
+  optionalNumber(field: string): number | undefined {
+    const value = this.data[field]
+    if (value === null || value === undefined) return undefined
+    return this.number(field)
+  }
+
+  boolean(field: string, fallback = false): boolean {
+    const value = this.data[field]
+    if (typeof value === 'boolean') return value
+    this.drift(field, 'boolean', value)
+    return fallback
+  }
+
+  optionalBoolean(field: string): boolean | undefined {
+    const value = this.data[field]
+    if (value === null || value === undefined) return undefined
+    return this.boolean(field)
+  }
+
+  /**
+   * Backend UPPER_SNAKE enum → one of the frontend's lower_snake values.
+   * Unknown members are reported and mapped to `fallback`.
+   */
+  enum<T extends string>(field: string, allowed: readonly T[], fallback: T): T {
+    const value = this.data[field]
+    const normalised = typeof value === 'string' ? value.toLowerCase() : undefined
+    if (normalised !== undefined && (allowed as readonly string[]).includes(normalised)) return normalised as T
+    this.drift(field, allowed.join(' | '), value)
+    return fallback
+  }
+
+  /** Nested relation that must be present (e.g. `job.client`). */
+  object(field: string): PayloadReader {
+    const value = this.data[field]
+    const valid = isObject(value)
+    if (!valid) this.drift(field, 'object', value)
+    return new PayloadReader(this.entity, value, `${this.prefix}${field}.`, this.id, this.muted || !valid)
+  }
+
+  /** Nested relation that may be null or omitted. */
+  optionalObject(field: string): PayloadReader | undefined {
+    const value = this.data[field]
+    if (value === null || value === undefined) return undefined
+    return this.object(field)
+  }
+
+  /** Array of nested records; a null/missing list reads as empty. */
+  objects(field: string): PayloadReader[] {
+    const value = this.data[field]
+    if (value === null || value === undefined) return []
+    if (!Array.isArray(value)) {
+      this.drift(field, 'array', value)
+      return []
+    }
+    return value.map(item => new PayloadReader(this.entity, item, `${this.prefix}${field}[].`, this.id, this.muted))
+  }
+
+  strings(field: string): string[] {
+    const value = this.data[field]
+    if (value === null || value === undefined) return []
+    if (Array.isArray(value) && value.every(v => typeof v === 'string')) return value
+    this.drift(field, 'string[]', value)
+    return []
+  }
+}
+
+/** Start reading one backend record of the given entity type. */
+export function readPayload(entity: string, raw: unknown): PayloadReader {
+  return new PayloadReader(entity, raw)
+}
@@ -0,0 +1,56 @@
+/**
+ * Keeps every open tab on the same session. Login, logout and token refreshes
+ * are broadcast to the other tabs, and user activity is shared through
+ * localStorage so the idle timeout only fires when *no* tab is in use.
+ */
+import type { User } from '@/types'
+
+export type SessionMessage =
+  | { type: 'login'; user: User }
+  /** The signed-in user's own details changed (profile, two-factor); the session carries on */
+  | { type: 'user-updated'; user: User }
+  /** `expired` = the token lapsed, rather than the user signing out */
+  | { type: 'logout'; expired?: boolean }
+  | { type: 'token' }
+
+const CHANNEL_NAME = 'top-session'
+const ACTIVITY_KEY = 'top_last_activity'
+// Writing on every mousemove would hammer storage — once per interval is plenty for a minutes-long timeout
+const ACTIVITY_WRITE_INTERVAL_MS = 10_000
+
+const channel = typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(CHANNEL_NAME)
+const listeners = new Set<(message: SessionMessage) => void>()
+
+channel?.addEventListener('message', (e: MessageEvent<SessionMessage>) => {
+  listeners.forEach(listener => listener(e.data))
+})
+
+/** Tell the other tabs; the sending tab is not notified. */
+export function broadcastSession(message: SessionMessage): void {
+  channel?.postMessage(message)
+}
+
+export function onSessionMessage(listener: (message: SessionMessage) => void): () => void {
+  listeners.add(listener)
+  return () => { listeners.delete(listener) }
+}
+
+let lastWritten = 0
+
+/** Record that the user did something in this tab. */
+export function markActivity(force = false): void {
+  const now = Date.now()
+  if (!force && now - lastWritten < ACTIVITY_WRITE_INTERVAL_MS) return
+  lastWritten = now
+  try {
+    localStorage.setItem(ACTIVITY_KEY, String(now))
+  } catch {
+    // Private mode / storage full — this tab still tracks its own activity
+  }
+}
+
+/** Most recent activity in any tab (ms since epoch). */
+export function lastActivity(): number {
+  const stored = Number(localStorage.getItem(ACTIVITY_KEY))
+  return Math.max(lastWritten, Number.isFinite(stored) ? stored : 0)
+}
@@ -0,0 +1,60 @@
+/**
+ * Timer requests shared by useTasks and the sign-out path, which has to stop
+ * a user's running timers without any page (or cached task list) mounted.
+ */
+import { api, isNetworkError } from '@/lib/api'
+import type { ApiResponse } from '@/lib/api'
+import { useOutboxStore } from '@/store/outboxStore'
+
+// `at` lets a replayed start/pause count from when it actually happened, not when it synced
+export function timerBody(running: boolean) {
+  return { timerRunning: running, at: new Date().toISOString() }
+}
+
+interface RunningTask {
+  id: string
+  title?: string
+  timerRunning?: boolean
+}
+
+const MAX_TASKS = 200
+
+/**
+ * Pause every running timer on tasks assigned to `userId`. A pause that
+ * can't reach the server is queued in the offline outbox. Never rejects, so
+ * signing out is never blocked; resolves to the titles of timers that could
+ * be neither paused nor queued, for the caller to report.
+ */
+export async function pauseRunningTimers(userId: string): Promise<string[]> {
+  let running: RunningTask[]
+  try {
+    const res = await api.get<ApiResponse<RunningTask[]>>(`/tasks?assignedUserId=${encodeURIComponent(userId)}&limit=${MAX_TASKS}`)
+    running = (res.data ?? []).filter(t => t.timerRunning)
+  } catch {
+    return []
+  }
+
+  const failed = await Promise.all(running.map(async task => {
+    const path = `/tasks/${task.id}/timer`
+    const body = timerBody(false)
+    try {
+      await api.patch(path, body)
+      return null
+    } catch (e: unknown) {
+      if (!isNetworkError(e)) return task.title ?? 'task'
+    }
+    try {
+      await useOutboxStore.getState().enqueue({
+        kind: 'task.timer',
+        method: 'PATCH',
+        path,
+        body,
+        label: `Pause timer — ${task.title ?? 'task'} (signed out)`,
+      })
+      return null
+    } catch {
+      return task.title ?? 'task'
+    }
+  }))
+  return failed.filter((title): title is string => title !== null)
+}
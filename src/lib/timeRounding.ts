@@ -0,0 +1,58 @@
+/**
+ * Time rounding for billing. Firms bill in units (most often six minutes), so
+ * the timesheet rules carry a firm-wide policy and a client's engagement
+ * terms can override it. Timer time is rounded as it becomes a timesheet
+ * entry, and each entry's hours are rounded again when it's billed. The
+ * unrounded hours are kept next to the rounded ones for audit.
+ */
+
+export type RoundingDirection = 'UP' | 'NEAREST' | 'DOWN'
+export type RoundingIncrement = 6 | 10 | 15
+
+export interface RoundingPolicy {
+  /** Minutes per billing unit */
+  increment: RoundingIncrement
+  direction: RoundingDirection
+}
+
+export const ROUNDING_INCREMENTS: readonly RoundingIncrement[] = [6, 10, 15]
+export const ROUNDING_DIRECTIONS: readonly RoundingDirection[] = ['UP', 'NEAREST', 'DOWN']
+
+export const DEFAULT_ROUNDING: RoundingPolicy = { increment: 6, direction: 'UP' }
+
+export function isRoundingPolicy(value: unknown): value is RoundingPolicy {
+  const p = value as RoundingPolicy | null
+  return !!p && typeof p === 'object'
+    && ROUNDING_INCREMENTS.includes(p.increment) && ROUNDING_DIRECTIONS.includes(p.direction)
+}
+
+/** The client's own policy if it has one, otherwise the firm's. */
+export function roundingFor(firm: RoundingPolicy, client: RoundingPolicy | null | undefined): RoundingPolicy {
+  return client ?? firm
+}
+
+/**
+ * Hours rounded to whole units of the policy, to four decimals (a 10-minute
+ * unit isn't a whole number of hundredths). Only rounding up turns a sliver
+ * of time into a full unit; down or to the nearest, it can round to nothing.
+ */
+export function roundHours(hours: number, policy: RoundingPolicy): number {
+  if (!(hours > 0)) return 0
+  // Trim float noise first, so 0.1h is exactly one 6-minute unit rather than a hair over
+  const units = Math.round(((hours * 60) / policy.increment) * 1e6) / 1e6
+  const whole = policy.direction === 'UP' ? Math.ceil(units)
+    : policy.direction === 'DOWN' ? Math.floor(units)
+    : Math.round(units)
+  return Math.round(((whole * policy.increment) / 60) * 10000) / 10000
+}
+
+const DIRECTION_LABELS: Record<RoundingDirection, string> = {
+  UP: 'Round up',
+  NEAREST: 'Round to the nearest',
+  DOWN: 'Round down',
+}
+
+/** e.g. "Round up to 6 minutes". */
+export function describeRounding(policy: RoundingPolicy): string {
+  return `${DIRECTION_LABELS[policy.direction]} ${policy.direction === 'NEAREST' ? '' : 'to '}${policy.increment} minutes`
+}
@@ -0,0 +1,49 @@
+import type { TimesheetEntry } from '@/hooks/useTimesheets'
+
+const COLUMNS = ['Date', 'Employee', 'Client', 'Job', 'Task', 'Start', 'Finish', 'Break (min)', 'Hours', 'Timer hours', 'Billed hours', 'Billable', 'Status', 'Notes']
+
+// Text a spreadsheet would run as a formula (notes, names) starts with one of these
+const FORMULA_START = /^[=+\-@\t\r]/
+
+// Quote every field so commas, quotes and line breaks in notes survive, and
+// prefix formula-like text with ' so it opens as plain text
+const cell = (value: string | number) => {
+  const text = typeof value === 'string' && FORMULA_START.test(value) ? `'${value}` : String(value)
+  return `"${text.replace(/"/g, '""')}"`
+}
+
+/**
+ * CSV of timesheet entries, oldest first. Start, finish and break are blank
+ * for hours-only entries. Timer hours (before rounding) are blank for entries
+ * that weren't logged from the timer.
+ */
+export function timesheetCsv(entries: TimesheetEntry[]): string {
+  const rows = [...entries]
+    .sort((a, b) => a.date.localeCompare(b.date) || (a.times?.startTime ?? '').localeCompare(b.times?.startTime ?? ''))
+    .map(e => [
+      e.date,
+      e.userName,
+      e.clientName,
+      e.jobTitle,
+      e.taskName ?? '',
+      e.times?.startTime ?? '',
+      e.times?.endTime ?? '',
+      e.times ? e.times.breakMinutes : '',
+      e.hours,
+      e.rawHours ?? '',
+      e.billedHours,
+      e.billable ? 'Yes' : 'No',
+      e.status.replace(/_/g, ' '),
+      e.description,
+    ].map(cell).join(','))
+  return [COLUMNS.map(cell).join(','), ...rows].join('\r\n') + '\r\n'
+}
+
+export function downloadTimesheetCsv(entries: TimesheetEntry[], filename: string): void {
+  const url = URL.createObjectURL(new Blob([timesheetCsv(entries)], { type: 'text/csv' }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,67 @@
+/**
+ * Timesheet flagging rules. The live hour indicators in the UI and the mock
+ * backend's auto-flagging both read them through these helpers, so a day is
+ * flagged the same way on screen as it is once saved. Day totals are judged
+ * through the working calendar (src/lib/workingCalendar.ts), which also knows
+ * about public holidays and leave.
+ */
+import type { AuState } from '@/lib/publicHolidays'
+import { DEFAULT_ROUNDING } from '@/lib/timeRounding'
+import type { RoundingPolicy } from '@/lib/timeRounding'
+
+export interface TimesheetRules {
+  /** Expected hours per weekday, Sunday first (Date#getDay order) */
+  standardHours: number[]
+  /** Per-user weekday hours (part-timers); replaces standardHours for that user */
+  userHours: Record<string, number[]>
+  /** A day total within this many hours of the expected total isn't flagged */
+  toleranceHours: number
+  underHours: boolean
+  overHours: boolean
+  jobOvertime: boolean
+  /** Flag once a job's actual hours pass its quote by this percentage */
+  jobOvertimePercent: number
+  /** Whose public holidays are days off; null for none */
+  holidayState: AuState | null
+  /** How timer time and billed hours are rounded, unless the client has its own policy */
+  rounding: RoundingPolicy
+}
+
+export type FlagReason = 'UNDER_HOURS' | 'OVER_HOURS' | 'JOB_OVERTIME' | 'MULTIPLE'
+
+export const DEFAULT_TIMESHEET_RULES: TimesheetRules = {
+  standardHours: [0, 8, 8, 8, 8, 8, 0],
+  userHours: {},
+  toleranceHours: 0,
+  underHours: true,
+  overHours: true,
+  jobOvertime: true,
+  jobOvertimePercent: 0,
+  holidayState: 'NSW',
+  rounding: DEFAULT_ROUNDING,
+}
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+/** Weekday of a YYYY-MM-DD date, read without any timezone shift. */
+function weekdayOf(ymd: string): number {
+  return new Date(`${ymd.slice(0, 10)}T00:00:00Z`).getUTCDay()
+}
+
+export function weekHoursFor(rules: TimesheetRules, userId: string): number[] {
+  return rules.userHours[userId] ?? rules.standardHours
+}
+
+/** Hours by weekday alone, before holidays and leave. */
+export function scheduledHours(rules: TimesheetRules, userId: string, ymd: string): number {
+  return weekHoursFor(rules, userId)[weekdayOf(ymd)] ?? 0
+}
+
+export function jobOverQuote(rules: TimesheetRules, quotedHours: number, actualHours: number): boolean {
+  return rules.jobOvertime && quotedHours > 0 && actualHours > quotedHours * (1 + rules.jobOvertimePercent / 100)
+}
+
+export function combineFlags(hoursFlag: 'UNDER_HOURS' | 'OVER_HOURS' | null, overQuote: boolean): FlagReason | null {
+  if (hoursFlag && overQuote) return 'MULTIPLE'
+  return hoursFlag ?? (overQuote ? 'JOB_OVERTIME' : null)
+}
@@ -1,10 +1,18 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
+import type { UserRole } from "@/types"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
 
+// Display names for roles — the firm calls employees "Processors"
+export const roleLabels: Record<UserRole, string> = {
+  employee: "Processor",
+  manager: "Manager",
+  admin: "Senior Manager",
+}
+
 // ✅ Avatar initials
 export function getInitials(name: string) {
   if (!name) return ""
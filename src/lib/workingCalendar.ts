@@ -0,0 +1,90 @@
+/**
+ * Working calendar: which days someone is expected to work and for how long,
+ * after public holidays and approved leave. Timesheet stats, the hour
+ * indicators and the mock backend's flagging all ask this module, never the
+ * weekday rules directly.
+ */
+import { publicHolidays } from '@/lib/publicHolidays'
+import type { PublicHoliday } from '@/lib/publicHolidays'
+import { scheduledHours } from '@/lib/timesheetRules'
+import type { TimesheetRules } from '@/lib/timesheetRules'
+
+/** An approved leave booking; both ends inclusive, YYYY-MM-DD. */
+export interface LeavePeriod {
+  userId: string
+  startDate: string
+  endDate: string
+}
+
+export interface WorkingCalendar {
+  rules: TimesheetRules
+  /** Approved leave only — pending requests don't change anyone's hours */
+  leave: LeavePeriod[]
+}
+
+export interface DayOff {
+  kind: 'holiday' | 'leave'
+  name: string
+}
+
+// Holidays are computed once per state and year
+const holidayCache = new Map<string, Map<string, string>>()
+
+function holidaysFor(state: TimesheetRules['holidayState'], year: number): Map<string, string> {
+  if (!state) return new Map()
+  const key = `${state}:${year}`
+  let days = holidayCache.get(key)
+  if (!days) {
+    days = new Map<string, string>()
+    for (const h of publicHolidays(state, year)) if (!days.has(h.date)) days.set(h.date, h.name)
+    holidayCache.set(key, days)
+  }
+  return days
+}
+
+export function holidaysInRange(calendar: WorkingCalendar, from: string, to: string): PublicHoliday[] {
+  const result: PublicHoliday[] = []
+  for (let year = Number(from.slice(0, 4)); year <= Number(to.slice(0, 4)); year++) {
+    for (const [date, name] of holidaysFor(calendar.rules.holidayState, year)) {
+      if (date >= from && date <= to) result.push({ date, name })
+    }
+  }
+  return result
+}
+
+/** Why this person isn't expected at work on this day, if they aren't. */
+export function dayOff(calendar: WorkingCalendar, userId: string, ymd: string): DayOff | null {
+  const day = ymd.slice(0, 10)
+  const holiday = holidaysFor(calendar.rules.holidayState, Number(day.slice(0, 4))).get(day)
+  if (holiday) return { kind: 'holiday', name: holiday }
+  if (calendar.leave.some(l => l.userId === userId && day >= l.startDate && day <= l.endDate)) {
+    return { kind: 'leave', name: 'On leave' }
+  }
+  return null
+}
+
+export function expectedHours(calendar: WorkingCalendar, userId: string, ymd: string): number {
+  return dayOff(calendar, userId, ymd) ? 0 : scheduledHours(calendar.rules, userId, ymd)
+}
+
+/** Expected hours over a date range, both ends inclusive. */
+export function expectedHoursBetween(calendar: WorkingCalendar, userId: string, from: string, to: string): number {
+  let total = 0
+  for (let day = from; day <= to; day = nextDay(day)) total += expectedHours(calendar, userId, day)
+  return total
+}
+
+/** The hours flag for one person's day total, if any rule trips. */
+export function dayHoursFlag(calendar: WorkingCalendar, userId: string, ymd: string, total: number): 'UNDER_HOURS' | 'OVER_HOURS' | null {
+  const { rules } = calendar
+  const expected = expectedHours(calendar, userId, ymd)
+  if (rules.underHours && total < expected - rules.toleranceHours) return 'UNDER_HOURS'
+  if (rules.overHours && total > expected + rules.toleranceHours) return 'OVER_HOURS'
+  return null
+}
+
+function nextDay(ymd: string): string {
+  const d = new Date(`${ymd}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + 1)
+  return d.toISOString().slice(0, 10)
+}
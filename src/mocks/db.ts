@@ -0,0 +1,498 @@
+/**
+ * Mock DB — in-memory store for the local mock backend, seeded from
+ * src/data/mockData.ts and persisted to localStorage so mutations survive
+ * a page reload. Records are kept in the backend (Prisma) shape, i.e.
+ * UPPER_SNAKE_CASE enums and firstName/lastName, so the hooks exercise the
+ * same normalisation code they use against the real API.
+ */
+
+import { mockUsers, mockClients, mockJobs, mockTasks } from '@/data/mockData'
+import { DEFAULT_TIMESHEET_RULES } from '@/lib/timesheetRules'
+import type { TimesheetRules } from '@/lib/timesheetRules'
+import type { RoundingPolicy } from '@/lib/timeRounding'
+
+export const MOCK_DB_KEY = 'top_mock_db'
+export const MOCK_PASSWORD = 'password'
+
+// ── Record shapes ─────────────────────────────────────────────────────────────
+
+export interface MockUser {
+  id: string
+  email: string
+  password: string
+  firstName: string
+  lastName: string
+  role: string
+  status: string
+  department: string
+  phone: string
+  /** Set when an admin chose a temporary password; cleared once the user picks their own */
+  mustChangePassword?: boolean
+  /** Data URL — the real API stores an uploaded file and returns its URL */
+  avatar?: string | null
+  preferences?: Record<string, unknown>
+  mfaEnabled?: boolean
+  /** Set by an admin — the user can't reach the app until they enrol */
+  mfaRequired?: boolean
+  mfaSecret?: string | null
+  /** Generated by /auth/mfa/setup, promoted to mfaSecret once a code confirms it */
+  mfaPendingSecret?: string | null
+  /** Last accepted TOTP time step, so a code can't be replayed */
+  mfaLastStep?: number
+  /** Unused recovery codes — the real API stores hashes */
+  recoveryCodes?: string[]
+  createdAt: string
+  updatedAt: string
+}
+
+export interface MockClient {
+  id: string
+  name: string
+  company: string
+  industry: string
+  email: string
+  phone: string
+  address: string
+  status: string
+  createdAt: string
+  /** Billing rounding from the engagement terms; null or absent follows the firm's policy */
+  rounding?: RoundingPolicy | null
+}
+
+export interface MockJob {
+  id: string
+  jobId: string
+  title: string
+  clientId: string
+  jobType: string
+  billingType: string
+  billingRate: number
+  quotedHours: number
+  actualHours: number
+  status: string
+  priority: string
+  quoteApprovedDate: string | null
+  startDate: string | null
+  deadline: string | null
+  revenue: number | null
+  totalCost: number | null
+  profit: number | null
+  margin: number | null
+  jobScore: number | null
+  assignedManager: string | null
+  createdAt: string
+}
+
+export interface MockTask {
+  id: string
+  jobId: string
+  title: string
+  type: string
+  assignedUserIds: string[]
+  estimatedHours: number
+  actualHours: number
+  billable: boolean
+  status: string
+  description: string | null
+  startedAt: string | null
+  completedAt: string | null
+  createdAt: string
+  timerRunning: boolean
+  timerSeconds: number
+  lastStartedAt: string | null
+  /** Who started the running timer; its session is theirs to log */
+  timerUserId?: string | null
+  createdById: string | null
+}
+
+export interface MockTimesheet {
+  id: string
+  userId: string
+  jobId: string
+  taskId: string | null
+  date: string
+  hours: number
+  description: string | null
+  status: string
+  flagReason: string | null
+  rejectionNote: string | null
+  createdAt: string
+  /** Review and edit trail, oldest first; absent on entries saved before it existed */
+  history?: MockTimesheetEvent[]
+  /** HH:MM, only on entries logged with start/finish times; hours are derived from them */
+  startTime?: string | null
+  endTime?: string | null
+  breakMinutes?: number | null
+  /** Timer time before rounding, only on entries logged from a timer session */
+  rawHours?: number | null
+  /** `hours` rounded by the client's (or the firm's) policy as it stood when the entry was last saved */
+  billedHours?: number | null
+}
+
+export interface MockTimesheetEvent {
+  at: string
+  byId: string
+  /** EDITED | REJECTED | APPROVED | RESUBMITTED */
+  action: string
+  note: string | null
+}
+
+/** A stretch of task-timer time, from start to pause, waiting to be logged as a timesheet entry */
+export interface MockTimerSession {
+  id: string
+  userId: string
+  taskId: string
+  jobId: string
+  startedAt: string
+  endedAt: string
+  seconds: number
+  /** The entry it was logged as, once it has been */
+  timesheetId: string | null
+  /** The user chose not to log it */
+  dismissed: boolean
+}
+
+/** A user's saved day of work, applied from Log Daily Time */
+export interface MockTimesheetTemplate {
+  id: string
+  userId: string
+  name: string
+  items: Array<{ jobId: string; taskId: string | null; hours: number; description: string | null }>
+  createdAt: string
+}
+
+/** One user's week as a unit of submission: DRAFT → SUBMITTED → APPROVED, or REJECTED back to them */
+export interface MockTimesheetWeek {
+  id: string
+  userId: string
+  /** YYYY-MM-DD; the week runs for seven days from here */
+  weekStart: string
+  status: string
+  submittedAt: string | null
+  reviewedAt: string | null
+  reviewedById: string | null
+  rejectionNote: string | null
+}
+
+/** A leave booking. Only APPROVED leave comes off anyone's expected hours */
+export interface MockLeave {
+  id: string
+  userId: string
+  /** YYYY-MM-DD, both inclusive */
+  startDate: string
+  endDate: string
+  /** ANNUAL | PERSONAL | LONG_SERVICE | UNPAID | OTHER */
+  type: string
+  /** PENDING | APPROVED | REJECTED */
+  status: string
+  note: string | null
+  createdAt: string
+  reviewedAt: string | null
+  reviewedById: string | null
+}
+
+/** A closed period. Unlocking keeps the row, with who reopened it and why */
+export interface MockPeriodLock {
+  id: string
+  /** YYYY-MM-DD, both inclusive */
+  startDate: string
+  endDate: string
+  note: string | null
+  lockedAt: string
+  lockedById: string
+  unlockedAt: string | null
+  unlockedById: string | null
+  unlockReason: string | null
+}
+
+export interface MockAuditEntry {
+  id: string
+  at: string
+  actorId: string
+  actorName: string
+  targetUserId: string | null
+  targetName: string
+  targetRole: string
+  action: string
+  detail: string
+}
+
+export interface MockPasswordReset {
+  token: string
+  userId: string
+  expiresAt: string
+  usedAt: string | null
+}
+
+/** Password accepted, second factor still owed */
+export interface MockMfaChallenge {
+  token: string
+  userId: string
+  expiresAt: string
+  attempts: number
+}
+
+export interface MockDb {
+  users: MockUser[]
+  clients: MockClient[]
+  jobs: MockJob[]
+  tasks: MockTask[]
+  timesheets: MockTimesheet[]
+  timesheetWeeks: MockTimesheetWeek[]
+  timerSessions: MockTimerSession[]
+  timesheetTemplates: MockTimesheetTemplate[]
+  /** Singleton, edited from Settings */
+  timesheetRules: TimesheetRules
+  leave: MockLeave[]
+  periodLocks: MockPeriodLock[]
+  auditLog: MockAuditEntry[]
+  passwordResets: MockPasswordReset[]
+  mfaChallenges: MockMfaChallenge[]
+}
+
+/** Tables added after the first release — merged into older snapshots so they don't need a reseed */
+function withNewTables(snapshot: MockDb): MockDb {
+  return {
+    ...snapshot,
+    auditLog: snapshot.auditLog ?? [],
+    passwordResets: snapshot.passwordResets ?? [],
+    mfaChallenges: snapshot.mfaChallenges ?? [],
+    timesheetWeeks: snapshot.timesheetWeeks ?? [],
+    timerSessions: snapshot.timerSessions ?? [],
+    timesheetTemplates: snapshot.timesheetTemplates ?? [],
+    // Spread over the defaults so rules saved before a setting existed pick it up
+    timesheetRules: { ...DEFAULT_TIMESHEET_RULES, ...snapshot.timesheetRules },
+    leave: snapshot.leave ?? [],
+    periodLocks: snapshot.periodLocks ?? [],
+  }
+}
+
+// ── Seeding ───────────────────────────────────────────────────────────────────
+
+function toIso(date: string | undefined): string | null {
+  return date ? new Date(date).toISOString() : null
+}
+
+function splitName(name: string): { firstName: string; lastName: string } {
+  const [firstName = '', ...rest] = name.split(' ')
+  return { firstName, lastName: rest.join(' ') }
+}
+
+// Local YYYY-MM-DD at UTC midnight, matching what parseDateForAPI sends
+function dayIso(d: Date): string {
+  return new Date(Date.UTC(d.getFullYear(), d.getMonth(), d.getDate())).toISOString()
+}
+
+/**
+ * A fortnight of entries for the active employees, relative to today, so the
+ * weekly and monthly timesheet views have something to show on first load.
+ */
+function seedTimesheets(db: MockDb): MockTimesheet[] {
+  const entries: MockTimesheet[] = []
+  const openTasks = db.tasks.filter(t => t.status !== 'COMPLETED')
+  const today = new Date()
+  const thisMonday = mondayOf(today)
+  let n = 1
+
+  for (let back = 13; back >= 1; back--) {
+    const day = new Date(today)
+    day.setDate(today.getDate() - back)
+    if (day.getDay() === 0 || day.getDay() === 6) continue
+
+    for (const task of openTasks) {
+      for (const userId of task.assignedUserIds) {
+        const hours = back % 4 === 0 ? 6.5 : 8
+        entries.push({
+          id: `ts${n++}`,
+          userId,
+          jobId: task.jobId,
+          taskId: task.id,
+          date: dayIso(day),
+          hours,
+          description: task.title,
+          // This week is still being filled in; earlier weeks have been submitted
+          status: day >= thisMonday ? 'DRAFT' : back > 7 ? 'APPROVED' : hours === 8 ? 'PENDING_NORMAL' : 'PENDING_APPROVAL',
+          flagReason: hours === 8 ? null : 'UNDER_HOURS',
+          rejectionNote: null,
+          createdAt: day.toISOString(),
+        })
+      }
+    }
+  }
+  return entries
+}
+
+function mondayOf(d: Date): Date {
+  const monday = new Date(d.getFullYear(), d.getMonth(), d.getDate())
+  monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7))
+  return monday
+}
+
+/** Week records for the seeded entries that are no longer drafts. */
+function seedTimesheetWeeks(db: MockDb): MockTimesheetWeek[] {
+  const weeks = new Map<string, MockTimesheetWeek>()
+  for (const entry of db.timesheets) {
+    if (entry.status === 'DRAFT') continue
+    const weekStart = dayIso(mondayOf(new Date(entry.date.slice(0, 10) + 'T00:00:00'))).slice(0, 10)
+    const key = `${entry.userId}:${weekStart}`
+    const week = weeks.get(key) ?? {
+      id: `tw${weeks.size + 1}`,
+      userId: entry.userId,
+      weekStart,
+      status: 'APPROVED',
+      submittedAt: entry.createdAt,
+      reviewedAt: entry.createdAt,
+      reviewedById: '2',
+      rejectionNote: null,
+    }
+    if (entry.status !== 'APPROVED') Object.assign(week, { status: 'SUBMITTED', reviewedAt: null, reviewedById: null })
+    weeks.set(key, week)
+  }
+  return [...weeks.values()]
+}
+
+/** A week of approved leave next month and a pending request, so the calendar has something to show. */
+function seedLeave(db: MockDb): MockLeave[] {
+  const staff = db.users.filter(u => u.role === 'EMPLOYEE' && u.status === 'ACTIVE')
+  const nextMonday = mondayOf(new Date())
+  nextMonday.setDate(nextMonday.getDate() + 21)
+  const friday = new Date(nextMonday)
+  friday.setDate(nextMonday.getDate() + 4)
+  const now = new Date().toISOString()
+  const leave: MockLeave[] = []
+  if (staff[0]) {
+    leave.push({
+      id: 'lv1', userId: staff[0].id, startDate: dayIso(nextMonday).slice(0, 10), endDate: dayIso(friday).slice(0, 10),
+      type: 'ANNUAL', status: 'APPROVED', note: null, createdAt: now, reviewedAt: now, reviewedById: '2',
+    })
+  }
+  if (staff[1]) {
+    leave.push({
+      id: 'lv2', userId: staff[1].id, startDate: dayIso(friday).slice(0, 10), endDate: dayIso(friday).slice(0, 10),
+      type: 'PERSONAL', status: 'PENDING', note: 'Medical appointment', createdAt: now, reviewedAt: null, reviewedById: null,
+    })
+  }
+  return leave
+}
+
+function seed(): MockDb {
+  const now = new Date().toISOString()
+  const db: MockDb = {
+    users: mockUsers.map(u => ({
+      id: u.id,
+      email: u.email,
+      password: MOCK_PASSWORD,
+      ...splitName(u.name),
+      role: u.role.toUpperCase(),
+      status: u.status.toUpperCase(),
+      department: u.department ?? '',
+      phone: u.phone ?? '',
+      createdAt: toIso(u.joinedDate) ?? now,
+      updatedAt: now,
+    })),
+    clients: mockClients.map(c => ({
+      id: c.id,
+      name: c.name,
+      company: c.company,
+      industry: c.industry,
+      email: c.email,
+      phone: c.phone,
+      address: c.address,
+      status: c.status.toUpperCase(),
+      createdAt: toIso(c.createdAt) ?? now,
+    })),
+    jobs: mockJobs.map(j => ({
+      id: j.id,
+      jobId: j.jobId,
+      title: j.title,
+      clientId: j.clientId,
+      jobType: j.jobType,
+      billingType: j.billingType.toUpperCase(),
+      billingRate: j.billingRate,
+      quotedHours: j.quotedHours,
+      actualHours: j.actualHours,
+      status: j.status.toUpperCase(),
+      priority: j.priority.toUpperCase(),
+      quoteApprovedDate: toIso(j.quoteApprovedDate),
+      startDate: toIso(j.startDate),
+      deadline: toIso(j.deadline),
+      revenue: j.revenue ?? null,
+      totalCost: j.totalCost ?? null,
+      profit: j.profit ?? null,
+      margin: j.margin ?? null,
+      jobScore: j.jobScore ?? null,
+      assignedManager: j.assignedManager || null,
+      createdAt: toIso(j.quoteApprovedDate) ?? now,
+    })),
+    tasks: mockTasks.map(t => ({
+      id: t.id,
+      jobId: t.jobId,
+      title: t.name,
+      type: t.type,
+      assignedUserIds: t.assignedToIds,
+      estimatedHours: t.estimatedHours,
+      actualHours: t.actualHours,
+      billable: t.billable,
+      status: t.status.toUpperCase(),
+      description: t.description ?? null,
+      startedAt: toIso(t.startedAt),
+      completedAt: toIso(t.completedAt),
+      createdAt: toIso(t.startedAt) ?? now,
+      // Seed data has a "running" timer from 2024 — start everything paused
+      timerRunning: false,
+      timerSeconds: t.timerSeconds,
+      lastStartedAt: null,
+      createdById: '2',
+    })),
+    timesheets: [],
+    timesheetWeeks: [],
+    timerSessions: [],
+    timesheetTemplates: [],
+    timesheetRules: DEFAULT_TIMESHEET_RULES,
+    leave: [],
+    periodLocks: [],
+    auditLog: [],
+    passwordResets: [],
+    mfaChallenges: [],
+  }
+  db.timesheets = seedTimesheets(db)
+  db.timesheetWeeks = seedTimesheetWeeks(db)
+  db.leave = seedLeave(db)
+  return db
+}
+
+// ── Persistence ───────────────────────────────────────────────────────────────
+
+function load(): MockDb {
+  try {
+    const raw = localStorage.getItem(MOCK_DB_KEY)
+    if (raw) return withNewTables(JSON.parse(raw) as MockDb)
+  } catch {
+    // Corrupt snapshot — fall through and reseed
+  }
+  const fresh = seed()
+  localStorage.setItem(MOCK_DB_KEY, JSON.stringify(fresh))
+  return fresh
+}
+
+let db: MockDb | null = null
+
+export function getDb(): MockDb {
+  if (!db) db = load()
+  return db
+}
+
+/** Persist the current state. Call after every mutation. */
+export function saveDb(): void {
+  if (db) localStorage.setItem(MOCK_DB_KEY, JSON.stringify(db))
+}
+
+/** Drop all local changes and reseed from mockData. */
+export function resetDb(): void {
+  db = seed()
+  saveDb()
+}
+
+export function nextId(prefix: string): string {
+  return `${prefix}${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`
+}
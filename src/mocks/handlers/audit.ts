@@ -0,0 +1,30 @@
+import { getDb, saveDb, nextId } from '../db'
+import type { MockAuditEntry } from '../db'
+import { route, ok, forbidden, paginate } from '../router'
+
+export const auditRoutes = [
+  // Recorded against the real (admin) user — resolve() never swaps identity for /audit paths
+  route('POST', '/audit/impersonation', ({ body, user }) => {
+    if (user.role !== 'ADMIN') return forbidden()
+    const entry: MockAuditEntry = {
+      id: String(body.id ?? nextId('aud')),
+      at: String(body.at ?? new Date().toISOString()),
+      actorId: user.id,
+      actorName: String(body.actorName ?? ''),
+      targetUserId: body.targetUserId ? String(body.targetUserId) : null,
+      targetName: String(body.targetName ?? ''),
+      targetRole: String(body.targetRole ?? '').toUpperCase(),
+      action: String(body.action ?? ''),
+      detail: String(body.detail ?? ''),
+    }
+    getDb().auditLog.push(entry)
+    saveDb()
+    return ok(entry, {}, 201)
+  }),
+
+  route('GET', '/audit/impersonation', ({ query, user }) => {
+    if (user.role !== 'ADMIN') return forbidden()
+    const entries = [...getDb().auditLog].sort((a, b) => b.at.localeCompare(a.at))
+    return paginate(entries, query)
+  }),
+]
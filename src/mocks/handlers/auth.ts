@@ -0,0 +1,308 @@
+import { getDb, saveDb, nextId } from '../db'
+import type { MockUser } from '../db'
+import { route, ok, fail, validationError, isEmail } from '../router'
+import { generateTotpSecret, matchTotp, otpauthUrl, generateRecoveryCodes } from '../totp'
+
+const TOKEN_TTL_SECONDS = 8 * 60 * 60
+const RESET_TTL_MS = 60 * 60 * 1000
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000
+const MIN_PASSWORD_LENGTH = 8
+const MFA_CHALLENGE_TTL_MS = 5 * 60 * 1000
+const MAX_MFA_ATTEMPTS = 5
+const MFA_ISSUER = 'TOP Internal'
+
+function passwordError(password: unknown): string | false {
+  const value = String(password ?? '')
+  if (!value) return 'Password is required'
+  if (value.length < MIN_PASSWORD_LENGTH) return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`
+  return !/[A-Za-z]/.test(value) || !/\d/.test(value) ? 'Use at least one letter and one number' : false
+}
+
+function findReset(token: string) {
+  const reset = getDb().passwordResets.find(r => r.token === token)
+  return reset && !reset.usedAt && reset.expiresAt > new Date().toISOString() ? reset : null
+}
+
+function findChallenge(token: string) {
+  const challenge = getDb().mfaChallenges.find(c => c.token === token)
+  return challenge && challenge.expiresAt > new Date().toISOString() ? challenge : null
+}
+
+const compactCode = (code: string) => code.trim().toLowerCase().replace(/[\s-]/g, '')
+
+/**
+ * Check a sign-in code against the user's authenticator or recovery codes,
+ * consuming whichever matched. Caller saves the db.
+ */
+function consumeSecondFactor(user: MockUser, code: string): 'totp' | 'recovery' | null {
+  const step = user.mfaSecret ? matchTotp(user.mfaSecret, code) : null
+  if (step !== null && step > (user.mfaLastStep ?? -1)) {
+    user.mfaLastStep = step
+    return 'totp'
+  }
+  const index = (user.recoveryCodes ?? []).findIndex(c => compactCode(c) === compactCode(code))
+  if (index < 0) return null
+  user.recoveryCodes?.splice(index, 1)
+  return 'recovery'
+}
+
+function b64url(input: string): string {
+  return btoa(input).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromB64url(input: string): string {
+  const padded = input.replace(/-/g, '+').replace(/_/g, '/')
+  return atob(padded + '='.repeat((4 - (padded.length % 4)) % 4))
+}
+
+/** Unsigned JWT-shaped token so the client can decode `sub` and `exp` as usual. */
+export function issueToken(user: MockUser): string {
+  const header = b64url(JSON.stringify({ alg: 'none', typ: 'JWT' }))
+  const payload = b64url(JSON.stringify({
+    sub: user.id,
+    role: user.role,
+    iat: Math.floor(Date.now() / 1000),
+    exp: Math.floor(Date.now() / 1000) + TOKEN_TTL_SECONDS,
+  }))
+  return `${header}.${payload}.mock`
+}
+
+/** Resolve the user behind an `Authorization: Bearer …` header, or null if missing/expired. */
+export function userFromAuthHeader(header: string | undefined): MockUser | null {
+  const token = header?.startsWith('Bearer ') ? header.slice(7) : null
+  if (!token) return null
+  try {
+    const payload = JSON.parse(fromB64url(token.split('.')[1] ?? '')) as { sub?: string; exp?: number }
+    if (!payload.exp || payload.exp * 1000 < Date.now()) return null
+    const user = getDb().users.find(u => u.id === payload.sub)
+    return user && user.status === 'ACTIVE' ? user : null
+  } catch {
+    return null
+  }
+}
+
+type SecretField = 'password' | 'mfaSecret' | 'mfaPendingSecret' | 'mfaLastStep' | 'recoveryCodes'
+
+export function serializeUser(u: MockUser): Omit<MockUser, SecretField> & { recoveryCodesRemaining?: number } {
+  const rest: Partial<MockUser> = { ...u }
+  delete rest.password
+  delete rest.mfaSecret
+  delete rest.mfaPendingSecret
+  delete rest.mfaLastStep
+  delete rest.recoveryCodes
+  return { ...(rest as Omit<MockUser, SecretField>), recoveryCodesRemaining: u.mfaEnabled ? u.recoveryCodes?.length ?? 0 : undefined }
+}
+
+export const authRoutes = [
+  route('POST', '/auth/login', ({ body }) => {
+    const email = String(body.email ?? '').trim().toLowerCase()
+    const user = getDb().users.find(u => u.email.toLowerCase() === email)
+    if (!user || user.password !== body.password) {
+      return fail(401, 'INVALID_CREDENTIALS', 'Invalid email or password')
+    }
+    if (user.status !== 'ACTIVE') {
+      return fail(403, 'ACCOUNT_INACTIVE', 'This account has been deactivated')
+    }
+    if (user.mfaEnabled && user.mfaSecret) {
+      const db = getDb()
+      const now = new Date().toISOString()
+      const token = `${nextId('mfa')}${nextId('')}`
+      db.mfaChallenges = db.mfaChallenges.filter(c => c.expiresAt > now)
+      db.mfaChallenges.push({ token, userId: user.id, expiresAt: new Date(Date.now() + MFA_CHALLENGE_TTL_MS).toISOString(), attempts: 0 })
+      saveDb()
+      // No session yet — the client trades this token plus a code for one at /auth/mfa/verify
+      return ok({ status: 'mfa_required', mfaToken: token }, { message: 'Enter the code from your authenticator app' })
+    }
+    return ok({ user: serializeUser(user), token: issueToken(user) }, { message: 'Login successful' })
+  }, { public: true }),
+
+  route('POST', '/auth/mfa/verify', ({ body }) => {
+    const db = getDb()
+    const challenge = findChallenge(String(body.mfaToken ?? ''))
+    const user = challenge && db.users.find(u => u.id === challenge.userId && u.status === 'ACTIVE')
+    if (!challenge || !user) {
+      return fail(410, 'MFA_CHALLENGE_EXPIRED', 'Your sign-in attempt has expired. Enter your password again.')
+    }
+    if (challenge.attempts >= MAX_MFA_ATTEMPTS) {
+      db.mfaChallenges = db.mfaChallenges.filter(c => c !== challenge)
+      saveDb()
+      return fail(429, 'TOO_MANY_ATTEMPTS', 'Too many incorrect codes. Enter your password again.')
+    }
+    const method = consumeSecondFactor(user, String(body.code ?? ''))
+    if (!method) challenge.attempts++
+    const invalid = validationError({ code: !method && 'That code is incorrect or has already been used' })
+    if (invalid) {
+      saveDb()
+      return invalid
+    }
+    db.mfaChallenges = db.mfaChallenges.filter(c => c !== challenge)
+    saveDb()
+    const remaining = user.recoveryCodes?.length ?? 0
+    return ok({ user: serializeUser(user), token: issueToken(user) }, {
+      message: method === 'recovery' ? `Recovery code accepted — ${remaining} left` : 'Login successful',
+    })
+  }, { public: true }),
+
+  // Always 200 so the response can't be used to probe which emails have accounts
+  route('POST', '/auth/forgot-password', ({ body }) => {
+    const db = getDb()
+    const email = String(body.email ?? '').trim().toLowerCase()
+    const invalid = validationError({ email: !isEmail(email) && 'Enter a valid email address' })
+    if (invalid) return invalid
+    const user = db.users.find(u => u.email.toLowerCase() === email && u.status === 'ACTIVE')
+    if (user) {
+      const token = `${nextId('rst')}${nextId('')}`
+      const ttl = body.invite ? INVITE_TTL_MS : RESET_TTL_MS
+      db.passwordResets.push({ token, userId: user.id, expiresAt: new Date(Date.now() + ttl).toISOString(), usedAt: null })
+      saveDb()
+      // No mail server in the mock — surface the link so the flow can be followed by hand
+      console.info(`[mock api] Password ${body.invite ? 'setup' : 'reset'} link for ${user.email}: /reset-password/${token}`)
+    }
+    return ok(null, { message: 'If that address has an account, a reset link is on its way.' })
+  }, { public: true }),
+
+  route('GET', '/auth/reset-password/:token', ({ params }) => {
+    const reset = findReset(params.token)
+    const user = reset && getDb().users.find(u => u.id === reset.userId)
+    if (!user) return fail(410, 'RESET_TOKEN_INVALID', 'This link has expired or has already been used')
+    return ok({ email: user.email })
+  }, { public: true }),
+
+  route('POST', '/auth/reset-password', ({ body }) => {
+    const reset = findReset(String(body.token ?? ''))
+    const user = reset && getDb().users.find(u => u.id === reset.userId)
+    if (!reset || !user) return fail(410, 'RESET_TOKEN_INVALID', 'This link has expired or has already been used')
+    const invalid = validationError({ password: passwordError(body.password) })
+    if (invalid) return invalid
+    user.password = String(body.password)
+    user.mustChangePassword = false
+    user.updatedAt = new Date().toISOString()
+    reset.usedAt = user.updatedAt
+    saveDb()
+    return ok(null, { message: 'Password updated' })
+  }, { public: true }),
+
+  route('POST', '/auth/change-password', ({ body, user }) => {
+    const invalid = validationError({
+      currentPassword: body.currentPassword !== user.password && 'Current password is incorrect',
+      newPassword: passwordError(body.newPassword) || (body.newPassword === user.password && 'Choose a password you have not used here before'),
+    })
+    if (invalid) return invalid
+    user.password = String(body.newPassword)
+    user.mustChangePassword = false
+    user.updatedAt = new Date().toISOString()
+    saveDb()
+    return ok(serializeUser(user), { message: 'Password updated' })
+  }),
+
+  route('GET', '/auth/profile', ({ user }) => ok(serializeUser(user))),
+
+  // Self-service fields only — role, status and email stay with User Management
+  route('PUT', '/auth/profile', ({ body, user }) => {
+    const invalid = validationError({
+      firstName: !String(body.firstName ?? '').trim() && 'First name is required',
+      avatar: typeof body.avatar === 'string' && !body.avatar.startsWith('data:image/') && 'Upload a PNG, JPEG or WebP image',
+    })
+    if (invalid) return invalid
+    user.firstName = String(body.firstName).trim()
+    if (body.lastName !== undefined) user.lastName = String(body.lastName).trim()
+    if (body.phone !== undefined) user.phone = String(body.phone).trim()
+    if (body.avatar !== undefined) user.avatar = body.avatar ? String(body.avatar) : null
+    user.updatedAt = new Date().toISOString()
+    saveDb()
+    return ok(serializeUser(user))
+  }),
+
+  route('GET', '/auth/preferences', ({ user }) => ok(user.preferences ?? {})),
+
+  route('PUT', '/auth/preferences', ({ body, user }) => {
+    user.preferences = { ...user.preferences, ...body }
+    saveDb()
+    return ok(user.preferences)
+  }),
+
+  // ── Two-factor enrolment ────────────────────────────────────────────────────
+
+  route('POST', '/auth/mfa/setup', ({ user }) => {
+    if (user.mfaEnabled) return fail(409, 'MFA_ALREADY_ENABLED', 'Two-factor authentication is already on')
+    user.mfaPendingSecret = generateTotpSecret()
+    saveDb()
+    return ok({ secret: user.mfaPendingSecret, otpauthUrl: otpauthUrl(user.mfaPendingSecret, MFA_ISSUER, user.email) })
+  }),
+
+  route('POST', '/auth/mfa/enable', ({ body, user }) => {
+    if (!user.mfaPendingSecret) return fail(400, 'MFA_SETUP_REQUIRED', 'Start two-factor setup again')
+    const step = matchTotp(user.mfaPendingSecret, String(body.code ?? ''))
+    if (step === null) {
+      return fail(400, 'VALIDATION_ERROR', 'Some fields need attention', {
+        errors: [{ field: 'code', message: 'That code is incorrect — check the time on your device and try again' }],
+      })
+    }
+    const recoveryCodes = generateRecoveryCodes()
+    user.mfaSecret = user.mfaPendingSecret
+    user.mfaPendingSecret = null
+    user.mfaLastStep = step
+    user.mfaEnabled = true
+    user.recoveryCodes = recoveryCodes
+    user.updatedAt = new Date().toISOString()
+    saveDb()
+    return ok({ user: serializeUser(user), recoveryCodes }, { message: 'Two-factor authentication enabled' })
+  }),
+
+  route('POST', '/auth/mfa/disable', ({ body, user }) => {
+    const invalid = validationError({ password: body.password !== user.password && 'Password is incorrect' })
+    if (invalid) return invalid
+    if (user.mfaRequired) return fail(403, 'MFA_REQUIRED', 'Your administrator requires two-factor authentication on this account')
+    user.mfaEnabled = false
+    user.mfaSecret = null
+    user.recoveryCodes = []
+    user.updatedAt = new Date().toISOString()
+    saveDb()
+    return ok(serializeUser(user), { message: 'Two-factor authentication disabled' })
+  }),
+
+  route('POST', '/auth/mfa/recovery-codes', ({ body, user }) => {
+    if (!user.mfaEnabled) return fail(400, 'MFA_NOT_ENABLED', 'Turn on two-factor authentication first')
+    const invalid = validationError({ password: body.password !== user.password && 'Password is incorrect' })
+    if (invalid) return invalid
+    user.recoveryCodes = generateRecoveryCodes()
+    saveDb()
+    return ok({ user: serializeUser(user), recoveryCodes: user.recoveryCodes })
+  }),
+
+  // Only reachable with a still-valid token, so an expired session can't be revived
+  route('POST', '/auth/refresh', ({ user }) => ok({ token: issueToken(user) })),
+
+  route('POST', '/auth/signup', ({ body }) => {
+    const db = getDb()
+    const email = String(body.email ?? '').trim()
+    const invalid = validationError({
+      firstName: !body.firstName && 'First name is required',
+      email: !email ? 'Email is required' : !isEmail(email) && 'Enter a valid email address',
+      password: passwordError(body.password),
+    })
+    if (invalid) return invalid
+    if (db.users.some(u => u.email.toLowerCase() === email.toLowerCase())) {
+      return fail(409, 'EMAIL_EXISTS', 'A user with this email already exists', {
+        errors: [{ field: 'email', message: 'This email is already in use' }],
+      })
+    }
+    const now = new Date().toISOString()
+    const user: MockUser = {
+      id: nextId('u'),
+      email,
+      password: String(body.password),
+      firstName: String(body.firstName),
+      lastName: String(body.lastName ?? ''),
+      role: 'EMPLOYEE',
+      status: 'ACTIVE',
+      department: '',
+      phone: '',
+      createdAt: now,
+      updatedAt: now,
+    }
+    db.users.push(user)
+    saveDb()
+    return ok({ user: serializeUser(user), token: issueToken(user) }, {}, 201)
+  }),
+]
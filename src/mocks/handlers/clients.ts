@@ -0,0 +1,80 @@
+import { getDb, saveDb, nextId } from '../db'
+import type { MockClient } from '../db'
+import { route, ok, notFound, forbidden, paginate, isManagerRole, matchesSearch, validationError, isEmail } from '../router'
+import { isRoundingPolicy } from '@/lib/timeRounding'
+import type { RoundingPolicy } from '@/lib/timeRounding'
+
+const EDITABLE_FIELDS = ['name', 'company', 'industry', 'email', 'phone', 'address', 'status'] as const
+
+const ROUNDING_MESSAGE = 'Choose a rounding direction and a 6, 10 or 15-minute unit'
+
+// null (or nothing) means the client follows the firm's policy
+function roundingFrom(value: unknown): RoundingPolicy | null {
+  if (!value) return null
+  const { increment, direction } = value as RoundingPolicy
+  return { increment, direction }
+}
+
+function serializeClient(c: MockClient) {
+  return { ...c, _count: { jobs: getDb().jobs.filter(j => j.clientId === c.id).length } }
+}
+
+export const clientRoutes = [
+  route('GET', '/clients', ({ query }) => {
+    const status = query.get('status')
+    const search = query.get('search')
+    const clients = getDb().clients
+      .filter(c => !status || c.status === status)
+      .filter(c => matchesSearch(search, c.name, c.company, c.industry, c.email))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    return paginate(clients, query, serializeClient)
+  }),
+
+  route('GET', '/clients/:id', ({ params }) => {
+    const client = getDb().clients.find(c => c.id === params.id)
+    return client ? ok(serializeClient(client)) : notFound('Client')
+  }),
+
+  route('POST', '/clients', ({ body, user }) => {
+    if (!isManagerRole(user)) return forbidden()
+    const invalid = validationError({
+      company: !body.company && 'Company is required',
+      email: !body.email ? 'Email is required' : !isEmail(body.email) && 'Enter a valid email address',
+      rounding: !!body.rounding && !isRoundingPolicy(body.rounding) && ROUNDING_MESSAGE,
+    })
+    if (invalid) return invalid
+    const client: MockClient = {
+      id: nextId('c'),
+      name: String(body.name ?? ''),
+      company: String(body.company),
+      industry: String(body.industry ?? ''),
+      email: String(body.email),
+      phone: String(body.phone ?? ''),
+      address: String(body.address ?? ''),
+      status: String(body.status ?? 'ACTIVE'),
+      createdAt: new Date().toISOString(),
+      rounding: roundingFrom(body.rounding),
+    }
+    getDb().clients.push(client)
+    saveDb()
+    return ok(serializeClient(client), {}, 201)
+  }),
+
+  route('PUT', '/clients/:id', ({ params, body, user }) => {
+    if (!isManagerRole(user)) return forbidden()
+    const client = getDb().clients.find(c => c.id === params.id)
+    if (!client) return notFound('Client')
+    const invalid = validationError({
+      company: body.company !== undefined && !body.company && 'Company is required',
+      email: body.email !== undefined && !isEmail(body.email) && 'Enter a valid email address',
+      rounding: !!body.rounding && !isRoundingPolicy(body.rounding) && ROUNDING_MESSAGE,
+    })
+    if (invalid) return invalid
+    for (const key of EDITABLE_FIELDS) {
+      if (body[key] !== undefined) client[key] = String(body[key])
+    }
+    if (body.rounding !== undefined) client.rounding = roundingFrom(body.rounding)
+    saveDb()
+    return ok(serializeClient(client))
+  }),
+]
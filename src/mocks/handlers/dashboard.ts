@@ -0,0 +1,187 @@
+import { getDb } from '../db'
+import type { MockJob, MockUser } from '../db'
+import { route, ok, forbidden, isManagerRole, fullName } from '../router'
+import { serializeJob } from './jobs'
+import { billedHours } from './timesheets'
+
+const JOB_STATUSES = ['OPEN', 'IN_PROGRESS', 'ON_HOLD', 'COMPLETED', 'INVOICED', 'CLOSED'] as const
+const PRIORITIES = ['LOW', 'MEDIUM', 'HIGH', 'URGENT'] as const
+const ACTIVE_JOB_STATUSES = ['OPEN', 'IN_PROGRESS']
+
+function countBy<K extends string>(keys: readonly K[], values: string[]): Record<K, number> {
+  const out = Object.fromEntries(keys.map(k => [k, 0])) as Record<K, number>
+  for (const v of values) if (v in out) out[v as K]++
+  return out
+}
+
+function sum(values: Array<number | null | undefined>): number {
+  return values.reduce<number>((s, v) => s + (v ?? 0), 0)
+}
+
+function monthPrefix(): string {
+  const d = new Date()
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`
+}
+
+function hoursFor(userId: string) {
+  const entries = getDb().timesheets.filter(t => t.userId === userId)
+  const month = monthPrefix()
+  return {
+    totalHours: sum(entries.map(e => e.hours)),
+    thisMonthHours: sum(entries.filter(e => e.date.startsWith(month)).map(e => e.hours)),
+    entries: entries.length,
+  }
+}
+
+// Actual hours with each timesheet entry on the job rounded to its billing unit
+function jobBilledHours(j: MockJob): number {
+  const rounding = sum(getDb().timesheets.filter(t => t.jobId === j.id).map(t => billedHours(t) - t.hours))
+  return Math.max(0, j.actualHours + rounding)
+}
+
+function jobRevenue(j: MockJob): number {
+  return j.revenue ?? (j.billingType === 'FIXED' ? j.billingRate : j.billingRate * jobBilledHours(j))
+}
+
+function teamMembers(): MockUser[] {
+  return getDb().users.filter(u => u.status === 'ACTIVE')
+}
+
+export const dashboardRoutes = [
+  route('GET', '/dashboard/employee', ({ user }) => {
+    const db = getDb()
+    const taskJobIds = new Set(db.tasks.filter(t => t.assignedUserIds.includes(user.id)).map(t => t.jobId))
+    const activeJobs = db.jobs.filter(j => taskJobIds.has(j.id) && ACTIVE_JOB_STATUSES.includes(j.status))
+    const { totalHours, thisMonthHours, entries } = hoursFor(user.id)
+    const recentTimesheets = db.timesheets
+      .filter(t => t.userId === user.id)
+      .sort((a, b) => b.date.localeCompare(a.date))
+      .slice(0, 10)
+      .map(t => {
+        const job = db.jobs.find(j => j.id === t.jobId)
+        return {
+          id: t.id,
+          date: t.date,
+          hours: t.hours,
+          description: t.description,
+          job: job ? serializeJob(job) : null,
+        }
+      })
+    return ok({
+      user: { id: user.id, firstName: user.firstName, lastName: user.lastName, email: user.email, role: user.role },
+      stats: { totalHours, thisMonthHours, activeJobs: activeJobs.length, totalTimesheetEntries: entries },
+      recentTimesheets,
+      activeJobs: activeJobs.map(serializeJob),
+    })
+  }),
+
+  route('GET', '/dashboard/manager', ({ user }) => {
+    if (!isManagerRole(user)) return forbidden()
+    const db = getDb()
+    const completed = db.jobs.filter(j => j.status === 'COMPLETED' || j.status === 'INVOICED')
+    const members = teamMembers().map(u => ({ userId: u.id, name: fullName(u), hours: hoursFor(u.id).totalHours }))
+    return ok({
+      manager: { id: user.id, firstName: user.firstName, lastName: user.lastName },
+      jobStats: { total: db.jobs.length, byStatus: countBy(JOB_STATUSES, db.jobs.map(j => j.status)) },
+      revenue: {
+        total: sum(completed.map(jobRevenue)),
+        cost: sum(completed.map(j => j.totalCost)),
+        profit: sum(completed.map(j => j.profit)),
+        completedJobs: completed.length,
+      },
+      teamStats: { totalTeamHours: sum(members.map(m => m.hours)), teamMembers: members },
+      recentJobs: [...db.jobs].sort((a, b) => b.createdAt.localeCompare(a.createdAt)).slice(0, 5).map(serializeJob),
+    })
+  }),
+
+  route('GET', '/dashboard/admin', ({ user }) => {
+    if (user.role !== 'ADMIN') return forbidden()
+    const db = getDb()
+    const completed = db.jobs.filter(j => j.status === 'COMPLETED')
+    const invoiced = db.jobs.filter(j => j.status === 'INVOICED')
+    const billed = [...completed, ...invoiced]
+    const totalRevenue = sum(billed.map(jobRevenue))
+    const totalProfit = sum(billed.map(j => j.profit))
+    const totalHours = sum(db.timesheets.map(t => t.hours))
+    const topClients = db.clients
+      .map(c => {
+        const jobs = db.jobs.filter(j => j.clientId === c.id)
+        return { clientId: c.id, company: c.company, revenue: sum(jobs.map(jobRevenue)), jobs: jobs.length }
+      })
+      .sort((a, b) => b.revenue - a.revenue)
+      .slice(0, 5)
+    return ok({
+      userStats: {
+        total: db.users.length,
+        byRole: countBy(['ADMIN', 'MANAGER', 'EMPLOYEE'] as const, db.users.map(u => u.role)),
+        byStatus: countBy(['ACTIVE', 'INACTIVE'] as const, db.users.map(u => u.status)),
+      },
+      jobStats: {
+        total: db.jobs.length,
+        byStatus: countBy(JOB_STATUSES, db.jobs.map(j => j.status)),
+        byPriority: countBy(PRIORITIES, db.jobs.map(j => j.priority)),
+      },
+      financial: {
+        totalRevenue,
+        totalCost: sum(billed.map(j => j.totalCost)),
+        totalProfit,
+        profitMargin: totalRevenue ? Math.round((totalProfit / totalRevenue) * 1000) / 10 : 0,
+        completedJobs: completed.length,
+        invoicedJobs: invoiced.length,
+      },
+      timesheetStats: {
+        totalEntries: db.timesheets.length,
+        totalHours,
+        averageHours: db.timesheets.length ? Math.round((totalHours / db.timesheets.length) * 10) / 10 : 0,
+      },
+      clientStats: {
+        total: db.clients.length,
+        active: db.clients.filter(c => c.status === 'ACTIVE').length,
+        topClients,
+      },
+    })
+  }),
+
+  route('GET', '/dashboard/stats/revenue', ({ user }) => {
+    if (!isManagerRole(user)) return forbidden()
+    const db = getDb()
+    const byStatus = (statuses: string[]) => db.jobs.filter(j => statuses.includes(j.status))
+    const completed = byStatus(['COMPLETED'])
+    const invoiced = byStatus(['INVOICED'])
+    const pending = byStatus(['OPEN', 'IN_PROGRESS', 'ON_HOLD'])
+    const totals = [completed, invoiced, pending].map(jobs => sum(jobs.map(jobRevenue)))
+    return ok({
+      completed: totals[0],
+      invoiced: totals[1],
+      pending: totals[2],
+      total: sum(totals),
+      breakdown: { completedJobs: completed.length, invoicedJobs: invoiced.length, pendingJobs: pending.length },
+    })
+  }),
+
+  route('GET', '/dashboard/stats/team', ({ user }) => {
+    if (!isManagerRole(user)) return forbidden()
+    const data = teamMembers().map(u => {
+      const h = hoursFor(u.id)
+      return {
+        userId: u.id,
+        name: fullName(u),
+        email: u.email,
+        role: u.role,
+        totalHours: h.totalHours,
+        thisMonthHours: h.thisMonthHours,
+        timesheetEntries: h.entries,
+      }
+    })
+    const totalTeamHours = sum(data.map(d => d.totalHours))
+    return ok({
+      totalTeamMembers: data.length,
+      data,
+      aggregate: {
+        totalTeamHours,
+        averageHoursPerPerson: data.length ? Math.round((totalTeamHours / data.length) * 10) / 10 : 0,
+        totalTimesheetEntries: sum(data.map(d => d.timesheetEntries)),
+      },
+    })
+  }),
+]
@@ -0,0 +1,114 @@
+import { getDb, saveDb, nextId } from '../db'
+import type { MockJob } from '../db'
+import { route, ok, fail, notFound, forbidden, paginate, isManagerRole, matchesSearch, validationError } from '../router'
+
+const JOB_STATUSES = ['OPEN', 'IN_PROGRESS', 'ON_HOLD', 'COMPLETED', 'INVOICED', 'CLOSED']
+
+export function serializeJob(j: MockJob) {
+  const client = getDb().clients.find(c => c.id === j.clientId)
+  return { ...j, client: client ? { id: client.id, company: client.company } : null }
+}
+
+function dateOrNull(v: unknown): string | null {
+  return v ? new Date(String(v)).toISOString() : null
+}
+
+function nextJobId(): string {
+  const max = getDb().jobs.reduce((m, j) => Math.max(m, Number(j.jobId.replace(/\D/g, '')) || 0), 0)
+  return `JOB-${String(max + 1).padStart(3, '0')}`
+}
+
+function applyJobFields(job: MockJob, body: Record<string, unknown>) {
+  if (body.title !== undefined) job.title = String(body.title)
+  if (body.clientId !== undefined) job.clientId = String(body.clientId)
+  if (body.jobType !== undefined) job.jobType = String(body.jobType)
+  if (body.billingType !== undefined) job.billingType = String(body.billingType)
+  if (body.billingRate !== undefined) job.billingRate = Number(body.billingRate)
+  if (body.quotedHours !== undefined) job.quotedHours = Number(body.quotedHours)
+  if (body.status !== undefined) job.status = String(body.status)
+  if (body.priority !== undefined) job.priority = String(body.priority)
+  if (body.quoteApprovedDate !== undefined) job.quoteApprovedDate = dateOrNull(body.quoteApprovedDate)
+  if (body.startDate !== undefined) job.startDate = dateOrNull(body.startDate)
+  if (body.deadline !== undefined) job.deadline = dateOrNull(body.deadline)
+  if (body.assignedManager !== undefined) job.assignedManager = String(body.assignedManager) || null
+}
+
+export const jobRoutes = [
+  route('GET', '/jobs', ({ query }) => {
+    const status = query.get('status')
+    const clientId = query.get('clientId')
+    const priority = query.get('priority')
+    const search = query.get('search')
+    const db = getDb()
+    const jobs = db.jobs
+      .filter(j => !status || j.status === status)
+      .filter(j => !clientId || j.clientId === clientId)
+      .filter(j => !priority || j.priority === priority)
+      .filter(j => matchesSearch(search, j.title, j.jobId, j.jobType, db.clients.find(c => c.id === j.clientId)?.company))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    return paginate(jobs, query, serializeJob)
+  }),
+
+  route('GET', '/jobs/:id', ({ params }) => {
+    const job = getDb().jobs.find(j => j.id === params.id)
+    return job ? ok(serializeJob(job)) : notFound('Job')
+  }),
+
+  route('POST', '/jobs', ({ body, user }) => {
+    if (!isManagerRole(user)) return forbidden()
+    const invalid = validationError({
+      title: !body.title && 'Title is required',
+      clientId: !body.clientId ? 'Select a client' : !getDb().clients.some(c => c.id === body.clientId) && 'Client no longer exists',
+      deadline: !!body.startDate && !!body.deadline && String(body.deadline) < String(body.startDate) && 'Deadline must be after the start date',
+    })
+    if (invalid) return invalid
+    const job: MockJob = {
+      id: nextId('j'),
+      jobId: nextJobId(),
+      title: '',
+      clientId: '',
+      jobType: '',
+      billingType: 'HOURLY',
+      billingRate: 0,
+      quotedHours: 0,
+      actualHours: 0,
+      status: 'OPEN',
+      priority: 'MEDIUM',
+      quoteApprovedDate: null,
+      startDate: null,
+      deadline: null,
+      revenue: null,
+      totalCost: null,
+      profit: null,
+      margin: null,
+      jobScore: null,
+      assignedManager: null,
+      createdAt: new Date().toISOString(),
+    }
+    applyJobFields(job, body)
+    getDb().jobs.push(job)
+    saveDb()
+    return ok(serializeJob(job), {}, 201)
+  }),
+
+  route('PUT', '/jobs/:id', ({ params, body, user }) => {
+    if (!isManagerRole(user)) return forbidden()
+    const job = getDb().jobs.find(j => j.id === params.id)
+    if (!job) return notFound('Job')
+    applyJobFields(job, body)
+    saveDb()
+    return ok(serializeJob(job))
+  }),
+
+  route('PATCH', '/jobs/:id/status', ({ params, body, user }) => {
+    if (!isManagerRole(user)) return forbidden()
+    const job = getDb().jobs.find(j => j.id === params.id)
+    if (!job) return notFound('Job')
+    if (!JOB_STATUSES.includes(String(body.status))) {
+      return fail(400, 'VALIDATION_ERROR', 'Invalid job status')
+    }
+    job.status = String(body.status)
+    saveDb()
+    return ok(serializeJob(job))
+  }),
+]
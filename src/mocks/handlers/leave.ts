@@ -0,0 +1,112 @@
+import { getDb, saveDb, nextId } from '../db'
+import type { MockLeave, MockUser } from '../db'
+import { route, ok, fail, notFound, forbidden, isManagerRole, validationError } from '../router'
+import type { WorkingCalendar } from '@/lib/workingCalendar'
+
+const LEAVE_TYPES = ['ANNUAL', 'PERSONAL', 'LONG_SERVICE', 'UNPAID', 'OTHER']
+const YMD = /^\d{4}-\d{2}-\d{2}$/
+
+/** The calendar the timesheet rules are judged against: public holidays plus approved leave. */
+export function workingCalendar(): WorkingCalendar {
+  const db = getDb()
+  return { rules: db.timesheetRules, leave: db.leave.filter(l => l.status === 'APPROVED') }
+}
+
+function serializeLeave(l: MockLeave) {
+  const db = getDb()
+  const user = db.users.find(u => u.id === l.userId)
+  const reviewer = db.users.find(u => u.id === l.reviewedById)
+  return {
+    ...l,
+    user: user ? { id: user.id, firstName: user.firstName, lastName: user.lastName } : null,
+    reviewedBy: reviewer ? { id: reviewer.id, firstName: reviewer.firstName, lastName: reviewer.lastName } : null,
+  }
+}
+
+function reviewLeave(id: string, user: MockUser, status: 'APPROVED' | 'REJECTED') {
+  if (!isManagerRole(user)) return forbidden()
+  const leave = getDb().leave.find(l => l.id === id)
+  if (!leave) return notFound('Leave')
+  if (leave.status !== 'PENDING') return fail(400, 'NOT_PENDING', 'This leave has already been reviewed')
+  if (leave.userId === user.id) return fail(403, 'OWN_LEAVE', 'Someone else has to review your own leave')
+  Object.assign(leave, { status, reviewedAt: new Date().toISOString(), reviewedById: user.id })
+  saveDb()
+  return ok(serializeLeave(leave))
+}
+
+export const leaveRoutes = [
+  route('GET', '/leave', ({ query, user }) => {
+    // Employees only ever see their own leave
+    const userId = isManagerRole(user) ? query.get('userId') : user.id
+    const status = query.get('status')
+    const from = query.get('from')
+    const to = query.get('to')
+    const leave = getDb().leave
+      .filter(l => !userId || l.userId === userId)
+      .filter(l => !status || l.status === status)
+      .filter(l => !from || l.endDate >= from.slice(0, 10))
+      .filter(l => !to || l.startDate <= to.slice(0, 10))
+      .sort((a, b) => a.startDate.localeCompare(b.startDate))
+    return ok(leave.map(serializeLeave))
+  }),
+
+  route('POST', '/leave', ({ body, user }) => {
+    const db = getDb()
+    const userId = String(body.userId ?? user.id)
+    if (userId !== user.id && !isManagerRole(user)) return forbidden()
+    const startDate = String(body.startDate ?? '').slice(0, 10)
+    const endDate = String(body.endDate ?? body.startDate ?? '').slice(0, 10)
+    const type = String(body.type ?? 'ANNUAL')
+    const invalid = validationError({
+      userId: !db.users.some(u => u.id === userId) && 'Choose who the leave is for',
+      startDate: !YMD.test(startDate) && 'Start date is required',
+      endDate: YMD.test(startDate) && (!YMD.test(endDate) || endDate < startDate) && 'End date must be on or after the start date',
+      type: !LEAVE_TYPES.includes(type) && 'Choose a leave type',
+    })
+    if (invalid) return invalid
+
+    const overlap = db.leave.find(l =>
+      l.userId === userId && l.status !== 'REJECTED' && l.startDate <= endDate && l.endDate >= startDate)
+    if (overlap) {
+      return fail(409, 'LEAVE_OVERLAP', `This overlaps leave from ${overlap.startDate} to ${overlap.endDate}`)
+    }
+
+    // A manager booking leave for someone else is recording it, not asking for it
+    const approved = userId !== user.id
+    const now = new Date().toISOString()
+    const leave: MockLeave = {
+      id: nextId('lv'),
+      userId,
+      startDate,
+      endDate,
+      type,
+      status: approved ? 'APPROVED' : 'PENDING',
+      note: body.note ? String(body.note).trim() || null : null,
+      createdAt: now,
+      reviewedAt: approved ? now : null,
+      reviewedById: approved ? user.id : null,
+    }
+    db.leave.push(leave)
+    saveDb()
+    return ok(serializeLeave(leave), { message: approved ? 'Leave recorded' : 'Leave requested' }, 201)
+  }),
+
+  route('PATCH', '/leave/:id/approve', ({ params, user }) => reviewLeave(params.id, user, 'APPROVED')),
+
+  route('PATCH', '/leave/:id/reject', ({ params, user }) => reviewLeave(params.id, user, 'REJECTED')),
+
+  route('DELETE', '/leave/:id', ({ params, user }) => {
+    const db = getDb()
+    const leave = db.leave.find(l => l.id === params.id)
+    if (!leave) return notFound('Leave')
+    if (!isManagerRole(user)) {
+      if (leave.userId !== user.id) return forbidden()
+      if (leave.status !== 'PENDING') {
+        return fail(400, 'LEAVE_REVIEWED', 'Approved leave can only be cancelled by a manager')
+      }
+    }
+    db.leave = db.leave.filter(l => l !== leave)
+    saveDb()
+    return ok(null, { message: 'Leave cancelled' })
+  }),
+]
@@ -0,0 +1,110 @@
+import { getDb, saveDb, nextId } from '../db'
+import type { MockPeriodLock } from '../db'
+import { route, ok, fail, notFound, forbidden, validationError } from '../router'
+import type { TimesheetRules } from '@/lib/timesheetRules'
+import { AU_STATES } from '@/lib/publicHolidays'
+import type { AuState } from '@/lib/publicHolidays'
+import { isRoundingPolicy } from '@/lib/timeRounding'
+import type { RoundingPolicy } from '@/lib/timeRounding'
+
+const YMD = /^\d{4}-\d{2}-\d{2}$/
+
+function serializeLock(l: MockPeriodLock) {
+  const db = getDb()
+  const person = (id: string | null) => {
+    const u = db.users.find(u => u.id === id)
+    return u ? { id: u.id, firstName: u.firstName, lastName: u.lastName } : null
+  }
+  return { ...l, lockedBy: person(l.lockedById), unlockedBy: person(l.unlockedById) }
+}
+
+const isWeekHours = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.length === 7 && value.every(h => typeof h === 'number' && h >= 0 && h <= 24)
+
+export const settingsRoutes = [
+  // Everyone reads the rules: the timesheet screens flag days live with them
+  route('GET', '/settings/timesheet-rules', () => ok(getDb().timesheetRules)),
+
+  route('PUT', '/settings/timesheet-rules', ({ body, user }) => {
+    if (user.role !== 'ADMIN') return forbidden()
+    const db = getDb()
+    const userHours = (body.userHours ?? {}) as Record<string, unknown>
+    const tolerance = Number(body.toleranceHours)
+    const percent = Number(body.jobOvertimePercent)
+    const holidayState = body.holidayState ? String(body.holidayState) : null
+    const invalid = validationError({
+      standardHours: !isWeekHours(body.standardHours) && 'Enter 0–24 hours for each day',
+      userHours: (typeof userHours !== 'object' || Object.entries(userHours).some(([id, hours]) =>
+        !db.users.some(u => u.id === id) || !isWeekHours(hours))) && 'Enter 0–24 hours for each day',
+      toleranceHours: !(tolerance >= 0 && tolerance <= 4) && 'Tolerance must be between 0 and 4 hours',
+      jobOvertimePercent: !(percent >= 0 && percent <= 1000) && 'Threshold must be between 0% and 1000%',
+      holidayState: !!holidayState && !AU_STATES.some(s => s.value === holidayState) && 'Choose an Australian state or territory',
+      rounding: !isRoundingPolicy(body.rounding) && 'Choose a rounding direction and a 6, 10 or 15-minute unit',
+    })
+    if (invalid) return invalid
+
+    const { increment, direction } = body.rounding as RoundingPolicy
+    const rules: TimesheetRules = {
+      standardHours: body.standardHours as number[],
+      userHours: userHours as Record<string, number[]>,
+      toleranceHours: tolerance,
+      underHours: body.underHours !== false,
+      overHours: body.overHours !== false,
+      jobOvertime: body.jobOvertime !== false,
+      jobOvertimePercent: percent,
+      holidayState: holidayState as AuState | null,
+      rounding: { increment, direction },
+    }
+    db.timesheetRules = rules
+    saveDb()
+    return ok(rules, { message: 'Timesheet rules saved' })
+  }),
+
+  // Everyone reads the locks: the timesheet screens mark locked days read-only
+  route('GET', '/settings/period-locks', () =>
+    ok([...getDb().periodLocks].sort((a, b) => b.startDate.localeCompare(a.startDate)).map(serializeLock))),
+
+  route('POST', '/settings/period-locks', ({ body, user }) => {
+    if (user.role !== 'ADMIN') return forbidden()
+    const db = getDb()
+    const startDate = String(body.startDate ?? '').slice(0, 10)
+    const endDate = String(body.endDate ?? '').slice(0, 10)
+    const invalid = validationError({
+      startDate: !YMD.test(startDate) && 'Start date is required',
+      endDate: YMD.test(startDate) && (!YMD.test(endDate) || endDate < startDate) && 'End date must be on or after the start date',
+    })
+    if (invalid) return invalid
+
+    const overlap = db.periodLocks.find(l => !l.unlockedAt && l.startDate <= endDate && l.endDate >= startDate)
+    if (overlap) {
+      return fail(409, 'PERIOD_OVERLAP', `This overlaps the locked period ${overlap.startDate} to ${overlap.endDate}`)
+    }
+    const lock: MockPeriodLock = {
+      id: nextId('pl'),
+      startDate,
+      endDate,
+      note: body.note ? String(body.note).trim() || null : null,
+      lockedAt: new Date().toISOString(),
+      lockedById: user.id,
+      unlockedAt: null,
+      unlockedById: null,
+      unlockReason: null,
+    }
+    db.periodLocks.push(lock)
+    saveDb()
+    return ok(serializeLock(lock), { message: 'Period locked' }, 201)
+  }),
+
+  route('PATCH', '/settings/period-locks/:id/unlock', ({ params, body, user }) => {
+    if (user.role !== 'ADMIN') return forbidden()
+    const lock = getDb().periodLocks.find(l => l.id === params.id)
+    if (!lock) return notFound('Period lock')
+    if (lock.unlockedAt) return fail(400, 'NOT_LOCKED', 'This period has already been unlocked')
+    const reason = body.reason ? String(body.reason).trim() : ''
+    const invalid = validationError({ reason: !reason && 'Say why the period is being reopened' })
+    if (invalid) return invalid
+    Object.assign(lock, { unlockedAt: new Date().toISOString(), unlockedById: user.id, unlockReason: reason })
+    saveDb()
+    return ok(serializeLock(lock), { message: 'Period unlocked' })
+  }),
+]
@@ -0,0 +1,178 @@
+import { getDb, saveDb, nextId } from '../db'
+import type { MockTask } from '../db'
+import { route, ok, fail, notFound, forbidden, paginate, isManagerRole, matchesSearch, findUser, validationError } from '../router'
+
+const TASK_STATUSES = ['TODO', 'IN_PROGRESS', 'COMPLETED']
+// Shorter runs (a start clicked by mistake) still count on the task, but aren't offered for logging
+const MIN_SESSION_SECONDS = 60
+
+function userRef(id: string | null) {
+  const u = findUser(id)
+  return u ? { id: u.id, firstName: u.firstName, lastName: u.lastName, email: u.email } : null
+}
+
+export function serializeTask(t: MockTask) {
+  const db = getDb()
+  const job = db.jobs.find(j => j.id === t.jobId)
+  const client = db.clients.find(c => c.id === job?.clientId)
+  return {
+    ...t,
+    job: job
+      ? { id: job.id, jobId: job.jobId, title: job.title, client: { id: client?.id ?? '', company: client?.company ?? '' } }
+      : null,
+    assignedUsers: t.assignedUserIds.map(userRef).filter(Boolean),
+    createdBy: userRef(t.createdById),
+  }
+}
+
+/**
+ * Fold the running session into timerSeconds and stop the clock. The session
+ * is kept for whoever started it so it can be logged on their timesheet.
+ */
+export function stopTimer(task: MockTask, at = Date.now()) {
+  if (!task.timerRunning) return
+  const started = task.lastStartedAt ? new Date(task.lastStartedAt).getTime() : at
+  const seconds = Math.max(0, Math.floor((at - started) / 1000))
+  task.timerSeconds += seconds
+  if (task.timerUserId && seconds >= MIN_SESSION_SECONDS) {
+    getDb().timerSessions.push({
+      id: nextId('tm'),
+      userId: task.timerUserId,
+      taskId: task.id,
+      jobId: task.jobId,
+      startedAt: new Date(started).toISOString(),
+      endedAt: new Date(at).toISOString(),
+      seconds,
+      timesheetId: null,
+      dismissed: false,
+    })
+  }
+  task.timerRunning = false
+  task.lastStartedAt = null
+  task.timerUserId = null
+}
+
+function setStatus(task: MockTask, status: string) {
+  task.status = status
+  if (status === 'IN_PROGRESS' && !task.startedAt) task.startedAt = new Date().toISOString()
+  if (status === 'COMPLETED') {
+    task.completedAt = new Date().toISOString()
+    stopTimer(task)
+  }
+}
+
+function canTouch(task: MockTask, user: { id: string; role: string }) {
+  return user.role !== 'EMPLOYEE' || task.assignedUserIds.includes(user.id)
+}
+
+export const taskRoutes = [
+  route('GET', '/tasks', ({ query }) => {
+    const jobId = query.get('jobId')
+    const status = query.get('status')
+    const assignedUserId = query.get('assignedUserId')
+    const search = query.get('search')
+    const db = getDb()
+    const tasks = db.tasks
+      .filter(t => !jobId || t.jobId === jobId)
+      .filter(t => !status || t.status === status)
+      .filter(t => !assignedUserId || t.assignedUserIds.includes(assignedUserId))
+      .filter(t => matchesSearch(search, t.title, t.type, db.jobs.find(j => j.id === t.jobId)?.title))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    return paginate(tasks, query, serializeTask)
+  }),
+
+  route('GET', '/tasks/:id', ({ params }) => {
+    const task = getDb().tasks.find(t => t.id === params.id)
+    return task ? ok(serializeTask(task)) : notFound('Task')
+  }),
+
+  route('POST', '/tasks', ({ body, user }) => {
+    if (!isManagerRole(user)) return forbidden()
+    const invalid = validationError({
+      title: !body.title && 'Title is required',
+      jobId: !body.jobId ? 'Select a job' : !getDb().jobs.some(j => j.id === body.jobId) && 'Job no longer exists',
+      estimatedHours: Number(body.estimatedHours ?? 0) < 0 && 'Estimated hours cannot be negative',
+    })
+    if (invalid) return invalid
+    const task: MockTask = {
+      id: nextId('t'),
+      jobId: String(body.jobId),
+      title: String(body.title),
+      type: String(body.type ?? ''),
+      assignedUserIds: Array.isArray(body.assignedUserIds) ? body.assignedUserIds.map(String) : [],
+      estimatedHours: Number(body.estimatedHours ?? 0),
+      actualHours: 0,
+      billable: body.billable !== false,
+      status: 'TODO',
+      description: body.description ? String(body.description) : null,
+      startedAt: null,
+      completedAt: null,
+      createdAt: new Date().toISOString(),
+      timerRunning: false,
+      timerSeconds: 0,
+      lastStartedAt: null,
+      createdById: user.id,
+    }
+    setStatus(task, String(body.status ?? 'TODO'))
+    getDb().tasks.push(task)
+    saveDb()
+    return ok(serializeTask(task), {}, 201)
+  }),
+
+  route('PUT', '/tasks/:id', ({ params, body, user }) => {
+    if (!isManagerRole(user)) return forbidden()
+    const task = getDb().tasks.find(t => t.id === params.id)
+    if (!task) return notFound('Task')
+    if (body.title !== undefined) task.title = String(body.title)
+    if (body.type !== undefined) task.type = String(body.type)
+    if (Array.isArray(body.assignedUserIds)) task.assignedUserIds = body.assignedUserIds.map(String)
+    if (body.estimatedHours !== undefined) task.estimatedHours = Number(body.estimatedHours)
+    if (body.actualHours !== undefined) task.actualHours = Number(body.actualHours)
+    if (body.billable !== undefined) task.billable = !!body.billable
+    if (body.description !== undefined) task.description = body.description ? String(body.description) : null
+    if (body.status !== undefined && body.status !== task.status) setStatus(task, String(body.status))
+    saveDb()
+    return ok(serializeTask(task))
+  }),
+
+  route('PATCH', '/tasks/:id/status', ({ params, body, user }) => {
+    const task = getDb().tasks.find(t => t.id === params.id)
+    if (!task) return notFound('Task')
+    if (!canTouch(task, user)) return forbidden()
+    if (!TASK_STATUSES.includes(String(body.status))) return fail(400, 'VALIDATION_ERROR', 'Invalid task status')
+    setStatus(task, String(body.status))
+    saveDb()
+    return ok(serializeTask(task))
+  }),
+
+  route('PATCH', '/tasks/:id/timer', ({ params, body, user }) => {
+    const task = getDb().tasks.find(t => t.id === params.id)
+    if (!task) return notFound('Task')
+    if (!canTouch(task, user)) return forbidden()
+    // Replayed offline changes carry the client time they happened at (never in the future)
+    const at = Math.min(Date.parse(String(body.at ?? '')) || Date.now(), Date.now())
+    if (body.timerRunning) {
+      if (task.status === 'COMPLETED') return fail(400, 'TASK_COMPLETED', 'Cannot start a timer on a completed task')
+      if (!task.timerRunning) {
+        task.timerRunning = true
+        task.lastStartedAt = new Date(at).toISOString()
+        task.timerUserId = user.id
+        if (task.status === 'TODO') setStatus(task, 'IN_PROGRESS')
+      }
+    } else {
+      stopTimer(task, at)
+    }
+    saveDb()
+    return ok(serializeTask(task))
+  }),
+
+  route('DELETE', '/tasks/:id', ({ params, user }) => {
+    if (!isManagerRole(user)) return forbidden()
+    const db = getDb()
+    const before = db.tasks.length
+    db.tasks = db.tasks.filter(t => t.id !== params.id)
+    if (db.tasks.length === before) return notFound('Task')
+    saveDb()
+    return ok(null, { message: 'Task deleted' })
+  }),
+]
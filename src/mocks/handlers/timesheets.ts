@@ -0,0 +1,602 @@
+import { getDb, saveDb, nextId } from '../db'
+import type { MockTimesheet, MockTimesheetEvent, MockTimesheetTemplate, MockTimesheetWeek, MockUser } from '../db'
+import { route, ok, fail, notFound, forbidden, paginate, isManagerRole, validationError } from '../router'
+import { jobOverQuote, combineFlags } from '@/lib/timesheetRules'
+import { dayHoursFlag, expectedHours } from '@/lib/workingCalendar'
+import { lockFor } from '@/lib/periodLocks'
+import { workedHours, timesProblem, timesOverlap } from '@/lib/entryTimes'
+import type { EntryTimes } from '@/lib/entryTimes'
+import { roundHours, roundingFor } from '@/lib/timeRounding'
+import type { RoundingPolicy } from '@/lib/timeRounding'
+import { workingCalendar } from './leave'
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+// Weeks in these states can't be changed until a manager sends them back
+const LOCKED_WEEK_STATUSES = ['SUBMITTED', 'APPROVED']
+const MAX_BATCH = 200
+const MAX_TEMPLATE_ITEMS = 20
+
+function sameDay(a: string, b: string) {
+  return a.slice(0, 10) === b.slice(0, 10)
+}
+
+/** The billing rounding for time on this job: its client's policy, or the firm's. */
+function roundingForJob(jobId: string): RoundingPolicy {
+  const db = getDb()
+  const job = db.jobs.find(j => j.id === jobId)
+  return roundingFor(db.timesheetRules.rounding, db.clients.find(c => c.id === job?.clientId)?.rounding)
+}
+
+/** Hours an entry bills: as rounded when it was saved, or by today's policy if it predates rounding. */
+export function billedHours(t: MockTimesheet): number {
+  return t.billedHours ?? roundHours(t.hours, roundingForJob(t.jobId))
+}
+
+export function serializeTimesheet(t: MockTimesheet) {
+  const db = getDb()
+  const user = db.users.find(u => u.id === t.userId)
+  const job = db.jobs.find(j => j.id === t.jobId)
+  const client = db.clients.find(c => c.id === job?.clientId)
+  const task = db.tasks.find(k => k.id === t.taskId)
+  return {
+    ...t,
+    billedHours: billedHours(t),
+    history: (t.history ?? []).map(h => {
+      const by = db.users.find(u => u.id === h.byId)
+      return { ...h, by: by ? { id: by.id, firstName: by.firstName, lastName: by.lastName } : null }
+    }),
+    user: user ? { id: user.id, firstName: user.firstName, lastName: user.lastName } : null,
+    job: job
+      ? { id: job.id, jobId: job.jobId, title: job.title, clientId: job.clientId, client: { company: client?.company ?? '' } }
+      : null,
+    task: task ? { id: task.id, title: task.title, billable: task.billable } : null,
+  }
+}
+
+/**
+ * Mirror the backend's auto-flagging: an entry goes to approval when the
+ * user's day total is off their expected hours (after holidays and leave),
+ * or when its job has run past quote — both as configured in the timesheet rules.
+ */
+function flagFor(entry: MockTimesheet): string | null {
+  const db = getDb()
+  const dayTotal = db.timesheets
+    .filter(t => t.userId === entry.userId && sameDay(t.date, entry.date))
+    .reduce((sum, t) => sum + t.hours, 0)
+  const job = db.jobs.find(j => j.id === entry.jobId)
+  return combineFlags(
+    dayHoursFlag(workingCalendar(), entry.userId, entry.date, dayTotal),
+    !!job && jobOverQuote(db.timesheetRules, job.quotedHours, job.actualHours),
+  )
+}
+
+// ── Start/finish times ────────────────────────────────────────────────────────
+
+/** Times from a request body: undefined when none were sent, null when they're being cleared. */
+function timesFrom(body: Record<string, unknown>): EntryTimes | null | undefined {
+  if (body.startTime === undefined && body.endTime === undefined) return undefined
+  if (!body.startTime && !body.endTime) return null
+  return { startTime: String(body.startTime ?? ''), endTime: String(body.endTime ?? ''), breakMinutes: Number(body.breakMinutes ?? 0) }
+}
+
+function timesChecks(times: EntryTimes) {
+  const problem = timesProblem(times)
+  return problem ? { [problem.field]: problem.message } : {}
+}
+
+function entryTimes(t: MockTimesheet): EntryTimes | null {
+  return t.startTime && t.endTime ? { startTime: t.startTime, endTime: t.endTime, breakMinutes: t.breakMinutes ?? 0 } : null
+}
+
+/** Another timed entry of this user's on the same day that these times run into. */
+function overlappingEntry(userId: string, date: string, times: EntryTimes, exceptId?: string) {
+  return getDb().timesheets.find(t => {
+    const other = entryTimes(t)
+    return t.id !== exceptId && t.userId === userId && sameDay(t.date, date) && !!other && timesOverlap(times, other)
+  })
+}
+
+const timeOverlap = (other: MockTimesheet) =>
+  fail(409, 'TIME_OVERLAP', `These times overlap ${other.startTime}–${other.endTime}, already logged that day`)
+
+// ── Weeks ─────────────────────────────────────────────────────────────────────
+
+function addDays(ymd: string, n: number): string {
+  const d = new Date(`${ymd}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + n)
+  return d.toISOString().slice(0, 10)
+}
+
+const weekEnd = (week: Pick<MockTimesheetWeek, 'weekStart'>) => addDays(week.weekStart, 6)
+
+function inWeek(entry: MockTimesheet, week: MockTimesheetWeek) {
+  const day = entry.date.slice(0, 10)
+  return entry.userId === week.userId && day >= week.weekStart && day <= weekEnd(week)
+}
+
+function weekEntries(week: MockTimesheetWeek) {
+  return getDb().timesheets.filter(t => inWeek(t, week))
+}
+
+/** The submitted or approved week covering this user's day, if any. */
+function lockedWeek(userId: string, date: string) {
+  const day = date.slice(0, 10)
+  return getDb().timesheetWeeks.find(w =>
+    w.userId === userId && LOCKED_WEEK_STATUSES.includes(w.status) && day >= w.weekStart && day <= weekEnd(w))
+}
+
+const weekLocked = () =>
+  fail(409, 'WEEK_LOCKED', 'This week has been submitted. Ask your manager to send it back if it needs changes.')
+
+/** The closed period covering this day, unless the user is an admin (who can still correct it). */
+function closedPeriod(user: MockUser, date: string) {
+  return user.role === 'ADMIN' ? undefined : lockFor(getDb().periodLocks, date)
+}
+
+const periodLocked = (lock: { startDate: string; endDate: string }) =>
+  fail(409, 'PERIOD_LOCKED', `${lock.startDate} to ${lock.endDate} is a closed period. Ask an admin to unlock it if this needs changes.`)
+
+function serializeWeek(w: MockTimesheetWeek) {
+  const db = getDb()
+  const user = db.users.find(u => u.id === w.userId)
+  const reviewer = db.users.find(u => u.id === w.reviewedById)
+  const entries = weekEntries(w)
+  return {
+    ...w,
+    weekEnd: weekEnd(w),
+    user: user ? { id: user.id, firstName: user.firstName, lastName: user.lastName } : null,
+    reviewedBy: reviewer ? { id: reviewer.id, firstName: reviewer.firstName, lastName: reviewer.lastName } : null,
+    totalHours: entries.reduce((sum, t) => sum + t.hours, 0),
+    entryCount: entries.length,
+    flaggedCount: entries.filter(t => t.status === 'PENDING_APPROVAL').length,
+  }
+}
+
+/** Days of the week this user is expected to work, after holidays and leave. */
+function workingDays(userId: string, weekStart: string) {
+  const calendar = workingCalendar()
+  return Array.from({ length: 7 }, (_, i) => addDays(weekStart, i)).filter(day => expectedHours(calendar, userId, day) > 0)
+}
+
+/** Working days in the week with nothing logged, as "Mon 3" labels. */
+function missingWorkingDays(userId: string, weekStart: string): string[] {
+  const entries = getDb().timesheets.filter(t => t.userId === userId)
+  return workingDays(userId, weekStart)
+    .filter(day => !entries.some(t => sameDay(t.date, day) && t.hours > 0))
+    .map(day => `${DAY_NAMES[new Date(`${day}T00:00:00Z`).getUTCDay()]} ${Number(day.slice(8))}`)
+}
+
+function reviewWeek(id: string, user: MockUser, status: 'APPROVED' | 'REJECTED', rejectionNote: string | null) {
+  if (!isManagerRole(user)) return forbidden()
+  const week = getDb().timesheetWeeks.find(w => w.id === id)
+  if (!week) return notFound('Timesheet week')
+  if (week.status !== 'SUBMITTED') return fail(400, 'NOT_SUBMITTED', 'Only submitted weeks can be reviewed')
+  if (week.userId === user.id) return fail(403, 'OWN_TIMESHEET', 'Someone else has to review your own timesheet')
+  const entries = weekEntries(week)
+  const closed = entries.map(t => t.status !== 'APPROVED' && closedPeriod(user, t.date)).find(Boolean)
+  if (closed) return periodLocked(closed)
+  if (status === 'APPROVED' && entries.some(t => t.status === 'REJECTED')) {
+    return fail(400, 'ENTRIES_REJECTED', 'This week has rejected entries — send the week back so they can be corrected')
+  }
+  for (const entry of entries) {
+    if (entry.status === 'APPROVED') continue
+    entry.status = status
+    entry.rejectionNote = status === 'REJECTED' ? rejectionNote : null
+    record(entry, user.id, status, entry.rejectionNote)
+  }
+  week.status = status
+  week.rejectionNote = rejectionNote
+  week.reviewedAt = new Date().toISOString()
+  week.reviewedById = user.id
+  saveDb()
+  return ok(serializeWeek(week))
+}
+
+function adjustActuals(entry: MockTimesheet, delta: number) {
+  const db = getDb()
+  const job = db.jobs.find(j => j.id === entry.jobId)
+  const task = db.tasks.find(t => t.id === entry.taskId)
+  if (job) job.actualHours = Math.max(0, job.actualHours + delta)
+  if (task) task.actualHours = Math.max(0, task.actualHours + delta)
+}
+
+function record(entry: MockTimesheet, byId: string, action: string, note: string | null = null) {
+  const event: MockTimesheetEvent = { at: new Date().toISOString(), byId, action, note }
+  entry.history = [...(entry.history ?? []), event]
+}
+
+function canSee(entry: MockTimesheet, user: MockUser) {
+  return isManagerRole(user) || entry.userId === user.id
+}
+
+function review(id: string, user: MockUser, status: 'APPROVED' | 'REJECTED', rejectionNote: string | null) {
+  if (!isManagerRole(user)) return forbidden()
+  const entry = getDb().timesheets.find(t => t.id === id)
+  if (!entry) return notFound('Timesheet')
+  if (entry.status === 'APPROVED' || entry.status === 'REJECTED') {
+    return fail(400, 'ALREADY_REVIEWED', 'This entry has already been reviewed')
+  }
+  if (entry.status === 'DRAFT') return fail(400, 'NOT_SUBMITTED', 'This entry has not been submitted yet')
+  if (entry.userId === user.id) return fail(403, 'OWN_TIMESHEET', 'Someone else has to review your own time')
+  const closed = closedPeriod(user, entry.date)
+  if (closed) return periodLocked(closed)
+  entry.status = status
+  entry.rejectionNote = rejectionNote
+  record(entry, user.id, status, rejectionNote)
+  // A rejected entry can only be fixed once its week is editable again
+  const week = status === 'REJECTED' ? lockedWeek(entry.userId, entry.date) : undefined
+  if (week?.status === 'SUBMITTED') {
+    Object.assign(week, { status: 'REJECTED', rejectionNote, reviewedAt: new Date().toISOString(), reviewedById: user.id })
+  }
+  saveDb()
+  return ok(serializeTimesheet(entry))
+}
+
+// ── Templates ─────────────────────────────────────────────────────────────────
+
+/** Items carry their job and task so the client can tell which have since closed. */
+function serializeTemplate(t: MockTimesheetTemplate) {
+  const db = getDb()
+  return {
+    ...t,
+    items: t.items.map(item => {
+      const job = db.jobs.find(j => j.id === item.jobId)
+      const task = db.tasks.find(k => k.id === item.taskId)
+      return {
+        ...item,
+        job: job ? { id: job.id, jobId: job.jobId, title: job.title, status: job.status } : null,
+        task: task ? { id: task.id, title: task.title, status: task.status, billable: task.billable } : null,
+      }
+    }),
+  }
+}
+
+export const timesheetRoutes = [
+  route('GET', '/timesheets', ({ query, user }) => {
+    // Employees only ever see their own entries, whatever they ask for
+    const userId = isManagerRole(user) ? query.get('userId') : user.id
+    const jobId = query.get('jobId')
+    const startDate = query.get('startDate')
+    const endDate = query.get('endDate')
+    const entries = getDb().timesheets
+      .filter(t => !userId || t.userId === userId)
+      .filter(t => !jobId || t.jobId === jobId)
+      .filter(t => !startDate || t.date.slice(0, 10) >= startDate.slice(0, 10))
+      .filter(t => !endDate || t.date.slice(0, 10) <= endDate.slice(0, 10))
+      .sort((a, b) => b.date.localeCompare(a.date) || b.createdAt.localeCompare(a.createdAt))
+    return paginate(entries, query, serializeTimesheet)
+  }),
+
+  route('GET', '/timesheets/pending', ({ user }) => {
+    if (!isManagerRole(user)) return forbidden()
+    // A reviewer's own entries go to someone else
+    const pending = getDb().timesheets
+      .filter(t => t.status === 'PENDING_APPROVAL' && t.userId !== user.id)
+      .sort((a, b) => b.date.localeCompare(a.date))
+    return ok(pending.map(serializeTimesheet))
+  }),
+
+  // One call per approval run; each entry succeeds or fails on its own
+  route('POST', '/timesheets/batch-review', ({ body, user }) => {
+    if (!isManagerRole(user)) return forbidden()
+    const ids = Array.isArray(body.ids) ? body.ids.map(String) : []
+    const action = String(body.action ?? '')
+    const rejectionNote = body.rejectionNote ? String(body.rejectionNote).trim() : ''
+    const invalid = validationError({
+      ids: (ids.length === 0 || ids.length > MAX_BATCH) && `Choose between 1 and ${MAX_BATCH} entries`,
+      action: !['APPROVE', 'REJECT'].includes(action) && 'Action must be APPROVE or REJECT',
+      rejectionNote: action === 'REJECT' && !rejectionNote && 'A rejection note is required',
+    })
+    if (invalid) return invalid
+
+    const results = [...new Set<string>(ids)].map(id => {
+      const result = review(id, user, action === 'APPROVE' ? 'APPROVED' : 'REJECTED', action === 'REJECT' ? rejectionNote : null)
+      if (result.status === 200) return { id, success: true }
+      const { error, message } = result.body as { error: string; message: string }
+      return { id, success: false, error, message }
+    })
+    const succeeded = results.filter(r => r.success).length
+    return ok({ results, succeeded, failed: results.length - succeeded })
+  }),
+
+  // Timer time the user hasn't logged or dismissed yet, oldest first
+  route('GET', '/timesheets/timer-sessions', ({ user }) => {
+    const db = getDb()
+    const sessions = db.timerSessions
+      .filter(s => s.userId === user.id && !s.timesheetId && !s.dismissed)
+      .sort((a, b) => a.startedAt.localeCompare(b.startedAt))
+    return ok(sessions.map(s => {
+      const task = db.tasks.find(t => t.id === s.taskId)
+      const job = db.jobs.find(j => j.id === s.jobId)
+      return {
+        ...s,
+        // What logging it will put on the timesheet, by the job's rounding policy
+        roundedHours: roundHours(s.seconds / 3600, roundingForJob(s.jobId)),
+        task: task ? { id: task.id, title: task.title } : null,
+        job: job ? { id: job.id, jobId: job.jobId, title: job.title } : null,
+      }
+    }))
+  }),
+
+  route('PATCH', '/timesheets/timer-sessions/:id/dismiss', ({ params, user }) => {
+    const session = getDb().timerSessions.find(s => s.id === params.id && s.userId === user.id)
+    if (!session) return notFound('Timer session')
+    session.dismissed = true
+    saveDb()
+    return ok(null, { message: 'Timer session dismissed' })
+  }),
+
+  // The user's own templates only — they're personal, not shared with the team
+  route('GET', '/timesheets/templates', ({ user }) => {
+    const templates = getDb().timesheetTemplates
+      .filter(t => t.userId === user.id)
+      .sort((a, b) => a.name.localeCompare(b.name))
+    return ok(templates.map(serializeTemplate))
+  }),
+
+  route('POST', '/timesheets/templates', ({ body, user }) => {
+    const db = getDb()
+    const name = String(body.name ?? '').trim()
+    const items = Array.isArray(body.items) ? body.items as Array<Record<string, unknown>> : []
+    const badItem = items.some(item => {
+      const job = db.jobs.find(j => j.id === item.jobId)
+      const task = item.taskId ? db.tasks.find(t => t.id === item.taskId) : undefined
+      const hours = Number(item.hours)
+      return !job || (!!item.taskId && task?.jobId !== job.id) || !(hours > 0) || hours > 24
+    })
+    const invalid = validationError({
+      name: (!name && 'Give the template a name')
+        || (db.timesheetTemplates.some(t => t.userId === user.id && t.name.toLowerCase() === name.toLowerCase()) && 'You already have a template with this name'),
+      items: ((items.length === 0 || items.length > MAX_TEMPLATE_ITEMS) && `A template holds between 1 and ${MAX_TEMPLATE_ITEMS} entries`)
+        || (badItem && 'Each entry needs a job, a task on that job (optional) and 0–24 hours'),
+    })
+    if (invalid) return invalid
+
+    const template: MockTimesheetTemplate = {
+      id: nextId('tt'),
+      userId: user.id,
+      name,
+      items: items.map(item => ({
+        jobId: String(item.jobId),
+        taskId: item.taskId ? String(item.taskId) : null,
+        hours: Number(item.hours),
+        description: item.description ? String(item.description) : null,
+      })),
+      createdAt: new Date().toISOString(),
+    }
+    db.timesheetTemplates.push(template)
+    saveDb()
+    return ok(serializeTemplate(template), { message: 'Template saved' }, 201)
+  }),
+
+  route('DELETE', '/timesheets/templates/:id', ({ params, user }) => {
+    const db = getDb()
+    const template = db.timesheetTemplates.find(t => t.id === params.id && t.userId === user.id)
+    if (!template) return notFound('Template')
+    db.timesheetTemplates = db.timesheetTemplates.filter(t => t !== template)
+    saveDb()
+    return ok(null, { message: 'Template deleted' })
+  }),
+
+  // Literal /weeks routes must stay ahead of /timesheets/:id
+  route('GET', '/timesheets/weeks', ({ query, user }) => {
+    const userId = isManagerRole(user) ? query.get('userId') : user.id
+    const status = query.get('status')
+    const from = query.get('from')
+    const to = query.get('to')
+    const weeks = getDb().timesheetWeeks
+      .filter(w => !userId || w.userId === userId)
+      .filter(w => !status || w.status === status)
+      .filter(w => !from || weekEnd(w) >= from.slice(0, 10))
+      .filter(w => !to || w.weekStart <= to.slice(0, 10))
+      .sort((a, b) => a.weekStart.localeCompare(b.weekStart))
+    return ok(weeks.map(serializeWeek))
+  }),
+
+  route('POST', '/timesheets/weeks/submit', ({ body, user }) => {
+    const db = getDb()
+    const userId = String(body.userId ?? user.id)
+    if (userId !== user.id && !isManagerRole(user)) return forbidden()
+    const weekStart = String(body.weekStart ?? '').slice(0, 10)
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(weekStart)) return fail(400, 'VALIDATION_ERROR', 'weekStart (YYYY-MM-DD) is required')
+    const end = addDays(weekStart, 6)
+    const lastWorkingDay = workingDays(userId, weekStart).pop() ?? weekStart
+    if (lastWorkingDay > new Date().toISOString().slice(0, 10)) {
+      return fail(400, 'WEEK_NOT_FINISHED', `This week can be submitted from ${lastWorkingDay}`)
+    }
+
+    const existing = db.timesheetWeeks.find(w => w.userId === userId && w.weekStart === weekStart)
+    if (existing && LOCKED_WEEK_STATUSES.includes(existing.status)) return weekLocked()
+    const overlap = db.timesheetWeeks.find(w =>
+      w !== existing && w.userId === userId && w.status !== 'REJECTED' && w.weekStart <= end && weekEnd(w) >= weekStart)
+    if (overlap) {
+      return fail(409, 'WEEK_OVERLAP', `This overlaps the week of ${overlap.weekStart}, which was already submitted`)
+    }
+
+    const closed = db.timesheets
+      .filter(t => t.userId === userId && t.date.slice(0, 10) >= weekStart && t.date.slice(0, 10) <= end)
+      .map(t => (t.status === 'DRAFT' || t.status === 'REJECTED') && closedPeriod(user, t.date))
+      .find(Boolean)
+    if (closed) return periodLocked(closed)
+
+    const missing = missingWorkingDays(userId, weekStart)
+    if (missing.length > 0) {
+      return fail(400, 'WEEK_INCOMPLETE', `Log hours for every working day before submitting. Missing: ${missing.join(', ')}`)
+    }
+
+    const week: MockTimesheetWeek = existing ?? {
+      id: nextId('tw'),
+      userId,
+      weekStart,
+      status: 'DRAFT',
+      submittedAt: null,
+      reviewedAt: null,
+      reviewedById: null,
+      rejectionNote: null,
+    }
+    if (!existing) db.timesheetWeeks.push(week)
+    // Day totals are final now, so flag with the whole week in place
+    for (const entry of weekEntries(week)) {
+      if (entry.status !== 'DRAFT' && entry.status !== 'REJECTED') continue
+      if (entry.status === 'REJECTED') record(entry, user.id, 'RESUBMITTED')
+      entry.flagReason = flagFor(entry)
+      entry.status = entry.flagReason ? 'PENDING_APPROVAL' : 'PENDING_NORMAL'
+      entry.rejectionNote = null
+    }
+    Object.assign(week, { status: 'SUBMITTED', submittedAt: new Date().toISOString(), reviewedAt: null, reviewedById: null, rejectionNote: null })
+    saveDb()
+    return ok(serializeWeek(week), { message: 'Timesheet submitted' })
+  }),
+
+  route('PATCH', '/timesheets/weeks/:id/approve', ({ params, user }) => reviewWeek(params.id, user, 'APPROVED', null)),
+
+  route('PATCH', '/timesheets/weeks/:id/reject', ({ params, body, user }) => {
+    if (!body.rejectionNote) return fail(400, 'VALIDATION_ERROR', 'A rejection note is required')
+    return reviewWeek(params.id, user, 'REJECTED', String(body.rejectionNote))
+  }),
+
+  route('GET', '/timesheets/:id', ({ params, user }) => {
+    const entry = getDb().timesheets.find(t => t.id === params.id)
+    if (!entry) return notFound('Timesheet')
+    return canSee(entry, user) ? ok(serializeTimesheet(entry)) : forbidden()
+  }),
+
+  route('POST', '/timesheets', ({ body, user }) => {
+    const db = getDb()
+    const userId = String(body.userId ?? user.id)
+    if (userId !== user.id && !isManagerRole(user)) return forbidden()
+    const times = timesFrom(body)
+    const invalidTimes = times ? validationError(timesChecks(times)) : null
+    if (invalidTimes) return invalidTimes
+    const hours = times ? workedHours(times) : Number(body.hours)
+    if (!body.jobId || !body.date || !(hours > 0) || hours > 24) {
+      return fail(400, 'VALIDATION_ERROR', 'Job, date and hours (0–24) are required')
+    }
+    if (!db.jobs.some(j => j.id === body.jobId)) return notFound('Job')
+    if (body.taskId && !db.tasks.some(t => t.id === body.taskId)) return notFound('Task')
+    // A closed period outranks the week lock: sending the week back wouldn't reopen it
+    const closed = closedPeriod(user, new Date(String(body.date)).toISOString())
+    if (closed) return periodLocked(closed)
+    if (lockedWeek(userId, new Date(String(body.date)).toISOString())) return weekLocked()
+    const session = body.timerSessionId ? db.timerSessions.find(s => s.id === body.timerSessionId) : undefined
+    if (body.timerSessionId && (!session || session.userId !== userId)) return notFound('Timer session')
+    if (session?.timesheetId) return fail(409, 'SESSION_LOGGED', 'This timer session is already on your timesheet')
+    const overlap = times && overlappingEntry(userId, String(body.date), times)
+    if (overlap) return timeOverlap(overlap)
+
+    const entry: MockTimesheet = {
+      id: nextId('ts'),
+      userId,
+      jobId: String(body.jobId),
+      taskId: body.taskId ? String(body.taskId) : null,
+      date: new Date(String(body.date)).toISOString(),
+      hours,
+      description: body.description ? String(body.description) : null,
+      // Stays a draft until its week is submitted
+      status: 'DRAFT',
+      flagReason: null,
+      rejectionNote: null,
+      createdAt: new Date().toISOString(),
+      startTime: times?.startTime ?? null,
+      endTime: times?.endTime ?? null,
+      breakMinutes: times?.breakMinutes ?? null,
+      // The timer's own reading, kept for audit next to the rounded hours logged
+      rawHours: session ? Math.round((session.seconds / 3600) * 10000) / 10000 : null,
+      billedHours: roundHours(hours, roundingForJob(String(body.jobId))),
+    }
+    db.timesheets.push(entry)
+    adjustActuals(entry, hours)
+    entry.flagReason = flagFor(entry)
+    if (session) session.timesheetId = entry.id
+    saveDb()
+    return ok(serializeTimesheet(entry), {}, 201)
+  }),
+
+  route('PUT', '/timesheets/:id', ({ params, body, user }) => {
+    const db = getDb()
+    const entry = db.timesheets.find(t => t.id === params.id)
+    if (!entry) return notFound('Timesheet')
+    if (!canSee(entry, user)) return forbidden()
+    if (entry.status === 'APPROVED' && !isManagerRole(user)) {
+      return fail(400, 'ALREADY_APPROVED', 'Approved entries cannot be changed')
+    }
+    const closed = closedPeriod(user, entry.date)
+    if (closed) return periodLocked(closed)
+    if (lockedWeek(entry.userId, entry.date)) return weekLocked()
+
+    // New times set the hours; new hours alone mean the old times no longer add up, so they go
+    const sentTimes = timesFrom(body)
+    const invalidTimes = sentTimes ? validationError(timesChecks(sentTimes)) : null
+    if (invalidTimes) return invalidTimes
+    const current = entryTimes(entry)
+    const times = sentTimes !== undefined
+      ? sentTimes
+      : current && body.hours !== undefined && Number(body.hours) !== entry.hours ? null : current
+    const hours = times ? workedHours(times) : body.hours === undefined ? entry.hours : Number(body.hours)
+    const jobId = body.jobId === undefined ? entry.jobId : String(body.jobId)
+    const taskId = body.taskId === undefined ? entry.taskId : body.taskId ? String(body.taskId) : null
+    const task = taskId ? db.tasks.find(t => t.id === taskId) : undefined
+    const invalid = validationError({
+      hours: (!(hours > 0) || hours > 24) && 'Hours must be between 0 and 24',
+      jobId: !db.jobs.some(j => j.id === jobId) && 'Choose a job',
+      taskId: !!taskId && (!task || task.jobId !== jobId) && 'Choose a task on this job',
+    })
+    if (invalid) return invalid
+    const overlap = times && overlappingEntry(entry.userId, entry.date, times, entry.id)
+    if (overlap) return timeOverlap(overlap)
+
+    const changes = [
+      hours !== entry.hours && `hours ${entry.hours} → ${hours}`,
+      JSON.stringify(times) !== JSON.stringify(current) && (times ? 'times' : 'times cleared'),
+      jobId !== entry.jobId && 'job',
+      taskId !== entry.taskId && 'task',
+      body.description !== undefined && (body.description || null) !== entry.description && 'notes',
+    ].filter(Boolean)
+    if (changes.length > 0) record(entry, user.id, 'EDITED', `Changed ${changes.join(', ')}`)
+
+    // Move the logged hours off the old job/task and onto the new ones
+    adjustActuals(entry, -entry.hours)
+    Object.assign(entry, { hours, jobId, taskId, startTime: times?.startTime ?? null, endTime: times?.endTime ?? null, breakMinutes: times?.breakMinutes ?? null })
+    entry.billedHours = roundHours(hours, roundingForJob(jobId))
+    if (body.description !== undefined) entry.description = body.description ? String(body.description) : null
+    adjustActuals(entry, hours)
+    entry.flagReason = flagFor(entry)
+
+    // Fixing a rejected entry puts it straight back in the review queue; its note lives on in the history
+    if (entry.status === 'REJECTED') {
+      entry.status = entry.flagReason ? 'PENDING_APPROVAL' : 'PENDING_NORMAL'
+      entry.rejectionNote = null
+      record(entry, user.id, 'RESUBMITTED')
+    }
+    saveDb()
+    return ok(serializeTimesheet(entry))
+  }),
+
+  route('DELETE', '/timesheets/:id', ({ params, user }) => {
+    const db = getDb()
+    const entry = db.timesheets.find(t => t.id === params.id)
+    if (!entry) return notFound('Timesheet')
+    if (!canSee(entry, user)) return forbidden()
+    if (entry.status === 'APPROVED' && !isManagerRole(user)) {
+      return fail(400, 'ALREADY_APPROVED', 'Approved entries cannot be deleted')
+    }
+    const closed = closedPeriod(user, entry.date)
+    if (closed) return periodLocked(closed)
+    if (lockedWeek(entry.userId, entry.date)) return weekLocked()
+    db.timesheets = db.timesheets.filter(t => t.id !== entry.id)
+    adjustActuals(entry, -entry.hours)
+    // Timer time logged as this entry goes back to waiting to be logged
+    for (const session of db.timerSessions) {
+      if (session.timesheetId === entry.id) session.timesheetId = null
+    }
+    saveDb()
+    return ok(null, { message: 'Timesheet entry deleted' })
+  }),
+
+  route('PATCH', '/timesheets/:id/approve', ({ params, user }) => review(params.id, user, 'APPROVED', null)),
+
+  route('PATCH', '/timesheets/:id/reject', ({ params, body, user }) => {
+    if (!body.rejectionNote) return fail(400, 'VALIDATION_ERROR', 'A rejection note is required')
+    return review(params.id, user, 'REJECTED', String(body.rejectionNote))
+  }),
+]
@@ -0,0 +1,92 @@
+import { getDb, saveDb } from '../db'
+import type { MockUser } from '../db'
+import { route, ok, fail, notFound, forbidden, paginate, isManagerRole, matchesSearch, validationError, isEmail } from '../router'
+import { serializeUser } from './auth'
+
+const EDITABLE_FIELDS = ['firstName', 'lastName', 'email', 'role', 'status', 'department', 'phone'] as const
+
+export const userRoutes = [
+  route('GET', '/users', ({ query }) => {
+    const role = query.get('role')
+    const status = query.get('status')
+    const search = query.get('search')
+    const users = getDb().users
+      .filter(u => !role || u.role === role)
+      .filter(u => !status || u.status === status)
+      .filter(u => matchesSearch(search, `${u.firstName} ${u.lastName}`, u.email, u.department))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    return paginate(users, query, serializeUser)
+  }),
+
+  route('GET', '/users/:id', ({ params }) => {
+    const user = getDb().users.find(u => u.id === params.id)
+    return user ? ok(serializeUser(user)) : notFound('User')
+  }),
+
+  route('PUT', '/users/:id', ({ params, body, user: me }) => {
+    if (!isManagerRole(me) && me.id !== params.id) return forbidden()
+    const user = getDb().users.find(u => u.id === params.id)
+    if (!user) return notFound('User')
+    const invalid = validationError({
+      email: body.email !== undefined && !isEmail(body.email) && 'Enter a valid email address',
+      firstName: body.firstName !== undefined && !body.firstName && 'First name is required',
+    })
+    if (invalid) return invalid
+    for (const key of EDITABLE_FIELDS) {
+      if (body[key] !== undefined) user[key] = String(body[key])
+    }
+    // Only staff can force a password change (after handing out a temporary password)
+    if (typeof body.mustChangePassword === 'boolean' && isManagerRole(me)) user.mustChangePassword = body.mustChangePassword
+    // Enforcing two-factor is an admin security policy, not a manager one
+    if (typeof body.mfaRequired === 'boolean' && me.role === 'ADMIN') user.mfaRequired = body.mfaRequired
+    user.updatedAt = new Date().toISOString()
+    saveDb()
+    return ok(serializeUser(user))
+  }),
+
+  route('PUT', '/users/:id/role', ({ params, body, user: me }) => {
+    if (me.role !== 'ADMIN') return forbidden()
+    const user = getDb().users.find(u => u.id === params.id)
+    if (!user) return notFound('User')
+    if (!['EMPLOYEE', 'MANAGER', 'ADMIN'].includes(String(body.role))) {
+      return fail(400, 'VALIDATION_ERROR', 'Invalid role')
+    }
+    user.role = String(body.role)
+    saveDb()
+    return ok(serializeUser(user))
+  }),
+
+  // For a lost phone: the user signs in with just a password and enrols again
+  route('DELETE', '/users/:id/mfa', ({ params, user: me }) => {
+    if (me.role !== 'ADMIN') return forbidden()
+    const user = getDb().users.find(u => u.id === params.id)
+    if (!user) return notFound('User')
+    user.mfaEnabled = false
+    user.mfaSecret = null
+    user.mfaPendingSecret = null
+    user.recoveryCodes = []
+    user.updatedAt = new Date().toISOString()
+    saveDb()
+    return ok(serializeUser(user), { message: 'Two-factor authentication reset' })
+  }),
+
+  route('DELETE', '/users/:id/deactivate', ({ params, user: me }) => {
+    if (!isManagerRole(me)) return forbidden()
+    const user = getDb().users.find(u => u.id === params.id)
+    if (!user) return notFound('User')
+    user.status = 'INACTIVE'
+    saveDb()
+    return ok(serializeUser(user), { message: 'User deactivated' })
+  }),
+
+  route('DELETE', '/users/:id', ({ params, user: me }) => {
+    if (me.role !== 'ADMIN') return forbidden()
+    if (me.id === params.id) return fail(400, 'VALIDATION_ERROR', 'You cannot delete your own account')
+    const db = getDb()
+    const before = db.users.length
+    db.users = db.users.filter((u: MockUser) => u.id !== params.id)
+    if (db.users.length === before) return notFound('User')
+    saveDb()
+    return ok(null, { message: 'User deleted' })
+  }),
+]
@@ -0,0 +1,107 @@
+/**
+ * Mock backend entry point — a drop-in for `fetch` used by src/lib/api.ts
+ * when VITE_USE_MOCK_API=true. Only loaded via dynamic import, so none of
+ * this ships in a production build that talks to the real API.
+ */
+
+import { matchRoute } from './router'
+import type { MockResult, MockRoute } from './router'
+import { authRoutes, userFromAuthHeader } from './handlers/auth'
+import { userRoutes } from './handlers/users'
+import { clientRoutes } from './handlers/clients'
+import { jobRoutes } from './handlers/jobs'
+import { taskRoutes } from './handlers/tasks'
+import { timesheetRoutes } from './handlers/timesheets'
+import { dashboardRoutes } from './handlers/dashboard'
+import { auditRoutes } from './handlers/audit'
+import { settingsRoutes } from './handlers/settings'
+import { leaveRoutes } from './handlers/leave'
+import type { MockUser } from './db'
+import { findUser } from './router'
+
+export { resetDb } from './db'
+
+const LATENCY_MS = 120
+
+// Order matters: literal segments (/timesheets/pending) before /:id
+const routes: MockRoute[] = [
+  ...authRoutes,
+  ...userRoutes,
+  ...clientRoutes,
+  ...jobRoutes,
+  ...taskRoutes,
+  ...timesheetRoutes,
+  ...dashboardRoutes,
+  ...auditRoutes,
+  ...settingsRoutes,
+  ...leaveRoutes,
+]
+
+/**
+ * Honour the X-Impersonate-* headers the way the real API does: only for
+ * admins, and never on auth or audit routes, which must see the real user.
+ */
+function effectiveUser(user: MockUser, pathname: string, headers: Record<string, string>): MockUser {
+  if (user.role !== 'ADMIN' || pathname.startsWith('/auth/') || pathname.startsWith('/audit/')) return user
+  const target = findUser(headers['X-Impersonate-User'])
+  if (target) return target
+  const role = headers['X-Impersonate-Role']
+  return role ? { ...user, role } : user
+}
+
+function resolve(path: string, init: RequestInit): MockResult {
+  const url = new URL(path, 'http://mock.local')
+  const method = (init.method ?? 'GET').toUpperCase()
+  const headers = (init.headers ?? {}) as Record<string, string>
+
+  const match = matchRoute(routes, method, url.pathname)
+  if (!match) {
+    return { status: 404, body: { success: false, error: 'NOT_FOUND', message: `No mock route for ${method} ${url.pathname}` } }
+  }
+
+  const user = userFromAuthHeader(headers['Authorization'])
+  if (!match.route.public && !user) {
+    return { status: 401, body: { success: false, error: 'UNAUTHORIZED', message: 'Invalid or expired token' } }
+  }
+  // Two-factor an admin requires has to be set up before anything outside /auth is reachable
+  if (user?.mfaRequired && !user.mfaEnabled && !url.pathname.startsWith('/auth/')) {
+    return { status: 403, body: { success: false, error: 'MFA_SETUP_REQUIRED', message: 'Set up two-factor authentication to continue' } }
+  }
+
+  let body: Record<string, unknown> = {}
+  if (typeof init.body === 'string') {
+    try {
+      body = JSON.parse(init.body) as Record<string, unknown>
+    } catch {
+      return { status: 400, body: { success: false, error: 'BAD_REQUEST', message: 'Malformed JSON body' } }
+    }
+  }
+
+  return match.route.handler({
+    method,
+    params: match.params,
+    query: url.searchParams,
+    body,
+    headers,
+    // Public routes never read `user`, so the cast only matters for them
+    user: user ? effectiveUser(user, url.pathname, headers) : user!,
+  })
+}
+
+export async function mockFetch(path: string, init: RequestInit = {}): Promise<Response> {
+  await new Promise(r => setTimeout(r, LATENCY_MS))
+  if (init.signal?.aborted) throw new DOMException('The request was aborted', 'AbortError')
+  // Behave like real fetch under DevTools' "Offline" throttling so the outbox can be exercised
+  if (!navigator.onLine) throw new TypeError('Failed to fetch')
+  let result: MockResult
+  try {
+    result = resolve(path, init)
+  } catch (e: unknown) {
+    console.error('[mock api]', e)
+    result = { status: 500, body: { success: false, error: 'INTERNAL_ERROR', message: 'Mock handler failed' } }
+  }
+  return new Response(JSON.stringify(result.body), {
+    status: result.status,
+    headers: { 'Content-Type': 'application/json' },
+  })
+}
@@ -0,0 +1,115 @@
+/**
+ * Minimal router for the mock backend — matches `METHOD /path/:param` routes
+ * and builds responses in the same envelope the real API uses.
+ */
+
+import { getDb } from './db'
+import type { MockUser } from './db'
+
+export interface MockRequest {
+  method: string
+  params: Record<string, string>
+  query: URLSearchParams
+  body: Record<string, unknown>
+  headers: Record<string, string>
+  /** Authenticated user, resolved from the Bearer token */
+  user: MockUser
+}
+
+export interface MockResult {
+  status: number
+  body: unknown
+}
+
+export type MockHandler = (req: MockRequest) => MockResult
+
+export interface MockRoute {
+  method: string
+  pattern: RegExp
+  keys: string[]
+  handler: MockHandler
+  /** Routes such as /auth/login are reachable without a token */
+  public: boolean
+}
+
+export function route(
+  method: string,
+  path: string,
+  handler: MockHandler,
+  opts: { public?: boolean } = {},
+): MockRoute {
+  const keys: string[] = []
+  const source = path.replace(/:(\w+)/g, (_, key: string) => {
+    keys.push(key)
+    return '([^/]+)'
+  })
+  return { method, pattern: new RegExp(`^${source}$`), keys, handler, public: !!opts.public }
+}
+
+export function matchRoute(routes: MockRoute[], method: string, pathname: string) {
+  for (const r of routes) {
+    if (r.method !== method) continue
+    const m = r.pattern.exec(pathname)
+    if (!m) continue
+    const params: Record<string, string> = {}
+    r.keys.forEach((k, i) => { params[k] = decodeURIComponent(m[i + 1]) })
+    return { route: r, params }
+  }
+  return null
+}
+
+// ── Response helpers ──────────────────────────────────────────────────────────
+
+export function ok(data: unknown, extra: Record<string, unknown> = {}, status = 200): MockResult {
+  return { status, body: { success: true, data, ...extra } }
+}
+
+export function fail(status: number, error: string, message: string, extra: Record<string, unknown> = {}): MockResult {
+  return { status, body: { success: false, error, message, ...extra } }
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+export const isEmail = (value: unknown) => EMAIL_PATTERN.test(String(value ?? '').trim())
+
+/**
+ * 400 VALIDATION_ERROR with an `errors: [{ field, message }]` list, or null
+ * when every check passed. Pass `false`/undefined for fields that are fine.
+ */
+export function validationError(checks: Record<string, string | false | undefined>): MockResult | null {
+  const errors = Object.entries(checks)
+    .filter((entry): entry is [string, string] => !!entry[1])
+    .map(([field, message]) => ({ field, message }))
+  if (errors.length === 0) return null
+  return fail(400, 'VALIDATION_ERROR', 'Some fields need attention', { errors })
+}
+
+export const notFound = (what: string) => fail(404, 'NOT_FOUND', `${what} not found`)
+export const forbidden = () => fail(403, 'FORBIDDEN', 'You do not have permission to perform this action')
+
+/** Slice a list by ?limit=&offset= and attach the pagination block. */
+export function paginate<T>(items: T[], query: URLSearchParams, map: (item: T) => unknown = i => i): MockResult {
+  const limit = Math.max(1, Number(query.get('limit')) || 50)
+  const offset = Math.max(0, Number(query.get('offset')) || 0)
+  return ok(items.slice(offset, offset + limit).map(map), {
+    pagination: { total: items.length, limit, offset, pages: Math.ceil(items.length / limit) },
+  })
+}
+
+export function isManagerRole(user: MockUser): boolean {
+  return user.role === 'MANAGER' || user.role === 'ADMIN'
+}
+
+export function fullName(u: { firstName: string; lastName: string }): string {
+  return `${u.firstName} ${u.lastName}`.trim()
+}
+
+export function findUser(id: string | null | undefined): MockUser | undefined {
+  return getDb().users.find(u => u.id === id)
+}
+
+export function matchesSearch(search: string | null, ...fields: Array<string | null | undefined>): boolean {
+  if (!search) return true
+  const q = search.toLowerCase()
+  return fields.some(f => (f ?? '').toLowerCase().includes(q))
+}
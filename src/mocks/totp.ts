@@ -0,0 +1,143 @@
+/**
+ * RFC 6238 TOTP for the mock backend, so two-factor sign-in can be tried
+ * offline with any authenticator app. Handlers are synchronous, which rules
+ * out WebCrypto — hence the small SHA-1 below. Never used by the real client.
+ */
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+const PERIOD_SECONDS = 30
+const DIGITS = 6
+// Accept the neighbouring steps to allow for clock drift between phone and server
+const DRIFT_STEPS = 1
+
+function sha1(message: Uint8Array): Uint8Array {
+  const bitLength = message.length * 8
+  const padded = new Uint8Array((((message.length + 8) >> 6) + 1) * 64)
+  padded.set(message)
+  padded[message.length] = 0x80
+  const view = new DataView(padded.buffer)
+  view.setUint32(padded.length - 4, bitLength >>> 0)
+  view.setUint32(padded.length - 8, Math.floor(bitLength / 0x100000000))
+
+  const h = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0]
+  const w = new Uint32Array(80)
+  for (let offset = 0; offset < padded.length; offset += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(offset + i * 4)
+    for (let i = 16; i < 80; i++) {
+      const x = w[i - 3] ^ w[i - 8] ^ w[i - 14] ^ w[i - 16]
+      w[i] = (x << 1) | (x >>> 31)
+    }
+    let [a, b, c, d, e] = h
+    for (let i = 0; i < 80; i++) {
+      const [f, k] = i < 20 ? [(b & c) | (~b & d), 0x5a827999]
+        : i < 40 ? [b ^ c ^ d, 0x6ed9eba1]
+        : i < 60 ? [(b & c) | (b & d) | (c & d), 0x8f1bbcdc]
+        : [b ^ c ^ d, 0xca62c1d6]
+      const temp = (((a << 5) | (a >>> 27)) + f + e + k + w[i]) >>> 0
+      e = d
+      d = c
+      c = ((b << 30) | (b >>> 2)) >>> 0
+      b = a
+      a = temp
+    }
+    h[0] = (h[0] + a) >>> 0
+    h[1] = (h[1] + b) >>> 0
+    h[2] = (h[2] + c) >>> 0
+    h[3] = (h[3] + d) >>> 0
+    h[4] = (h[4] + e) >>> 0
+  }
+
+  const out = new Uint8Array(20)
+  const outView = new DataView(out.buffer)
+  h.forEach((word, i) => outView.setUint32(i * 4, word))
+  return out
+}
+
+function hmacSha1(key: Uint8Array, message: Uint8Array): Uint8Array {
+  const block = new Uint8Array(64)
+  block.set(key.length > 64 ? sha1(key) : key)
+  const inner = new Uint8Array(64 + message.length)
+  const outer = new Uint8Array(64 + 20)
+  for (let i = 0; i < 64; i++) {
+    inner[i] = block[i] ^ 0x36
+    outer[i] = block[i] ^ 0x5c
+  }
+  inner.set(message, 64)
+  outer.set(sha1(inner), 64)
+  return sha1(outer)
+}
+
+function base32Decode(secret: string): Uint8Array {
+  const clean = secret.toUpperCase().replace(/[\s=]/g, '')
+  const bytes: number[] = []
+  let buffer = 0
+  let bits = 0
+  for (const char of clean) {
+    const value = BASE32_ALPHABET.indexOf(char)
+    if (value < 0) continue
+    buffer = (buffer << 5) | value
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((buffer >>> (bits - 8)) & 0xff)
+      bits -= 8
+    }
+  }
+  return new Uint8Array(bytes)
+}
+
+/** 160-bit random secret, base32-encoded as authenticator apps expect. */
+export function generateTotpSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(20))
+  let out = ''
+  let buffer = 0
+  let bits = 0
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  return out
+}
+
+function totpAt(secret: string, step: number): string {
+  const counter = new Uint8Array(8)
+  const view = new DataView(counter.buffer)
+  view.setUint32(0, Math.floor(step / 0x100000000))
+  view.setUint32(4, step >>> 0)
+  const hash = hmacSha1(base32Decode(secret), counter)
+  const offset = hash[19] & 0x0f
+  const binary = ((hash[offset] & 0x7f) << 24) | (hash[offset + 1] << 16) | (hash[offset + 2] << 8) | hash[offset + 3]
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, '0')
+}
+
+/**
+ * The time step a code matches, or null. Callers store the last accepted
+ * step so the same code can't be replayed within its window.
+ */
+export function matchTotp(secret: string, code: string, now = Date.now()): number | null {
+  const clean = code.replace(/\s/g, '')
+  if (!/^\d{6}$/.test(clean)) return null
+  const current = Math.floor(now / 1000 / PERIOD_SECONDS)
+  for (let drift = -DRIFT_STEPS; drift <= DRIFT_STEPS; drift++) {
+    if (totpAt(secret, current + drift) === clean) return current + drift
+  }
+  return null
+}
+
+export function otpauthUrl(secret: string, issuer: string, account: string): string {
+  // Built by hand: URLSearchParams writes spaces as "+", which some authenticator apps show literally
+  const enc = encodeURIComponent
+  return `otpauth://totp/${enc(issuer)}:${enc(account)}?secret=${secret}&issuer=${enc(issuer)}&algorithm=SHA1&digits=${DIGITS}&period=${PERIOD_SECONDS}`
+}
+
+/** Ten single-use codes in `xxxxx-xxxxx` form, avoiding look-alike characters. */
+export function generateRecoveryCodes(count = 10): string[] {
+  const alphabet = 'abcdefghjkmnpqrstuvwxyz23456789'
+  return Array.from({ length: count }, () => {
+    const chars = Array.from(crypto.getRandomValues(new Uint8Array(10)), b => alphabet[b % alphabet.length]).join('')
+    return `${chars.slice(0, 5)}-${chars.slice(5)}`
+  })
+}
@@ -0,0 +1,104 @@
+import { useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { Lock, KeyRound } from 'lucide-react'
+import { AuthLayout } from '@/components/layout/AuthLayout'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { useAuthStore } from '@/store/authStore'
+import { passwordProblem, MIN_PASSWORD_LENGTH } from '@/lib/passwords'
+import { toApiError } from '@/lib/api'
+import type { ApiError } from '@/lib/api'
+
+/**
+ * Forced first-login step for accounts created with a temporary password.
+ * RequireAuth keeps the user here until the change goes through.
+ */
+export function ChangePassword() {
+  const navigate = useNavigate()
+  const { user, changePassword, logout } = useAuthStore()
+  const [current,  setCurrent]  = useState('')
+  const [password, setPassword] = useState('')
+  const [confirm,  setConfirm]  = useState('')
+  const [problem,  setProblem]  = useState<string | null>(null)
+  const [error,    setError]    = useState<ApiError | null>(null)
+  const [loading,  setLoading]  = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    const local = passwordProblem(password, confirm)
+    setProblem(local)
+    if (local) return
+    setLoading(true)
+    try {
+      await changePassword(current, password)
+      navigate('/dashboard', { replace: true })
+    } catch (err: unknown) {
+      setError(toApiError(err, 'Could not update your password'))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <AuthLayout>
+      <div className="bg-white rounded-2xl border border-slate-200/80 shadow-sm p-8">
+        <div className="mb-6">
+          <div className="mb-4 w-11 h-11 rounded-2xl bg-blue-50 flex items-center justify-center text-blue-600">
+            <KeyRound size={20} />
+          </div>
+          <h1 className="text-xl font-bold text-slate-900">Set your own password</h1>
+          <p className="text-slate-500 text-sm mt-1">
+            {user?.name ? `Welcome, ${user.name.split(' ')[0]}. ` : ''}Your account was set up with a temporary password.
+            Choose a new one of at least {MIN_PASSWORD_LENGTH} characters to continue.
+          </p>
+        </div>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <Input
+            label="Temporary password"
+            type="password"
+            value={current}
+            onChange={e => setCurrent(e.target.value)}
+            leftIcon={<Lock size={14} />}
+            error={error?.fieldErrors.currentPassword}
+            required
+            autoComplete="current-password"
+            autoFocus
+          />
+          <Input
+            label="New password"
+            type="password"
+            value={password}
+            onChange={e => setPassword(e.target.value)}
+            leftIcon={<Lock size={14} />}
+            error={error?.fieldErrors.newPassword}
+            required
+            autoComplete="new-password"
+          />
+          <Input
+            label="Confirm new password"
+            type="password"
+            value={confirm}
+            onChange={e => setConfirm(e.target.value)}
+            leftIcon={<Lock size={14} />}
+            error={problem ?? undefined}
+            required
+            autoComplete="new-password"
+          />
+          {error && !error.hasFieldErrors && (
+            <p role="alert" className="bg-red-50 border border-red-200 text-red-600 text-xs px-3 py-2.5 rounded-lg">{error.message}</p>
+          )}
+          <Button type="submit" className="w-full" disabled={loading}>
+            {loading ? 'Saving...' : 'Update password'}
+          </Button>
+        </form>
+        <button
+          onClick={async () => { await logout(); navigate('/login', { replace: true }) }}
+          className="mt-6 w-full text-center text-sm text-slate-500 hover:text-slate-700 font-medium"
+        >
+          Sign out instead
+        </button>
+      </div>
+    </AuthLayout>
+  )
+}
@@ -3,22 +3,40 @@ import type { Client, ClientFormData } from '@/types'
 import { Modal } from '@/components/ui/Modal'
 import { Search, Plus, Edit2, Loader2 } from 'lucide-react'
 import { useClients } from '@/hooks/useClients'
+import { useDebouncedValue } from '@/hooks/useDebouncedValue'
+import { FieldError, FormError } from '@/components/ui/FieldError'
+import { LoadMore } from '@/components/ui/LoadMore'
+import type { ApiError } from '@/lib/api'
+import { useTimesheetRules } from '@/hooks/useTimesheetRules'
+import { ROUNDING_DIRECTIONS, ROUNDING_INCREMENTS, describeRounding } from '@/lib/timeRounding'
+import type { RoundingPolicy } from '@/lib/timeRounding'
+
+// Every direction and unit pairing, for the client's rounding override
+const ROUNDING_CHOICES: RoundingPolicy[] = ROUNDING_DIRECTIONS.flatMap(direction =>
+  ROUNDING_INCREMENTS.map(increment => ({ direction, increment })))
+
+const roundingKey = (p: RoundingPolicy | null) => (p ? `${p.direction}-${p.increment}` : '')
 
 export function Clients() {
   const [search, setSearch] = useState('')
+  const debouncedSearch = useDebouncedValue(search.trim())
   const [statusFilter, setStatusFilter] = useState<'all' | 'active' | 'inactive'>('all')
   const [showModal, setShowModal] = useState(false)
   const [selected, setSelected] = useState<Client | null>(null)
 
-  const { clients, loading, error, createClient, updateClient } = useClients()
+  const {
+    clients, total, hasMore, loadingMore, loadMore, loading, refreshing, error,
+    createClient, updateClient, mutationError, resetMutationError,
+  } = useClients({ search: debouncedSearch || undefined })
 
-  const filtered = clients.filter(c => {
-    const matchSearch = c.name.toLowerCase().includes(search.toLowerCase()) ||
-      c.company.toLowerCase().includes(search.toLowerCase()) ||
-      c.industry.toLowerCase().includes(search.toLowerCase())
-    const matchStatus = statusFilter === 'all' || c.status === statusFilter
-    return matchSearch && matchStatus
-  })
+  const openModal = (client: Client | null) => {
+    resetMutationError()
+    setSelected(client)
+    setShowModal(true)
+  }
+
+  // Search runs server-side; status is still filtered over the loaded rows
+  const filtered = clients.filter(c => statusFilter === 'all' || c.status === statusFilter)
 
   if (loading) return (
     <div className="flex items-center justify-center h-64 gap-3 text-slate-500">
@@ -39,7 +57,7 @@ export function Clients() {
       <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: 24 }}>
         <h1 style={{ fontSize: 22, fontWeight: 700, color: '#1a1f36', margin: 0 }}>Client Management</h1>
         <button
-          onClick={() => { setSelected(null); setShowModal(true) }}
+          onClick={() => openModal(null)}
           style={{ display: 'flex', alignItems: 'center', gap: 7, background: '#2563eb', color: '#fff', border: 'none', borderRadius: 8, padding: '9px 18px', fontWeight: 600, fontSize: 14, cursor: 'pointer' }}
         >
           <Plus size={16} /> Add client
@@ -70,7 +88,9 @@ export function Clients() {
             </div>
             {/* Search */}
             <div style={{ position: 'relative' }}>
-              <Search size={14} style={{ position: 'absolute', left: 10, top: '50%', transform: 'translateY(-50%)', color: '#9ca3af' }} />
+              {refreshing
+                ? <Loader2 size={14} className="animate-spin" style={{ position: 'absolute', left: 10, top: '50%', marginTop: -7, color: '#9ca3af' }} />
+                : <Search size={14} style={{ position: 'absolute', left: 10, top: '50%', transform: 'translateY(-50%)', color: '#9ca3af' }} />}
               <input
                 placeholder="Search..."
                 value={search}
@@ -108,7 +128,7 @@ export function Clients() {
                   </td>
                   <td style={{ padding: '13px 18px' }}>
                     <button
-                      onClick={() => { setSelected(client); setShowModal(true) }}
+                      onClick={() => openModal(client)}
                       style={{ padding: '5px 8px', border: '1px solid #e5e7eb', borderRadius: 6, background: '#fff', cursor: 'pointer', color: '#6b7280' }}
                       title="Edit"
                     >
@@ -120,19 +140,21 @@ export function Clients() {
             </tbody>
           </table>
         </div>
+        <LoadMore shown={clients.length} total={total} hasMore={hasMore} loading={loadingMore} onLoadMore={loadMore} noun="clients" />
       </div>
 
       <ClientModal
       open={showModal}
       onClose={() => setShowModal(false)}
       client={selected}
+      error={mutationError}
       onSave={async (formData: ClientFormData) => {
-        if (selected) {
-          await updateClient(selected.id, formData);
-        } else {
-          await createClient(formData);
-        }
-        setShowModal(false);
+        // Keep the modal open on failure so the field errors can be fixed
+        const ok = selected
+          ? await updateClient(selected.id, formData)
+          : !!(await createClient(formData));
+        if (ok) setShowModal(false);
+        return ok;
       }}
     />
     </div>
@@ -143,10 +165,12 @@ interface ClientModalProps {
   open: boolean
   onClose: () => void
   client: Client | null
-  onSave: (c: ClientFormData) => void
+  error?: ApiError | null
+  onSave: (c: ClientFormData) => Promise<boolean>
 }
 
-function ClientModal({ open, onClose, client, onSave }: ClientModalProps) {
+function ClientModal({ open, onClose, client, error, onSave }: ClientModalProps) {
+  const { rules } = useTimesheetRules()
   const [form, setForm] = useState<ClientFormData>({
     name: '',
     email: '',
@@ -156,6 +180,7 @@ function ClientModal({ open, onClose, client, onSave }: ClientModalProps) {
     status: 'active',
     address: '',
     createdAt: new Date().toISOString().split('T')[0],
+    rounding: null,
   });
 
   useEffect(() => {
@@ -170,6 +195,7 @@ function ClientModal({ open, onClose, client, onSave }: ClientModalProps) {
         status: client.status || 'active',
         address: client.address || '',
         createdAt: client.createdAt?.slice(0, 10) || new Date().toISOString().split('T')[0],
+        rounding: client.rounding ?? null,
       });
     } else {
       setForm({
@@ -181,6 +207,7 @@ function ClientModal({ open, onClose, client, onSave }: ClientModalProps) {
         status: 'active',
         address: '',
         createdAt: new Date().toISOString().split('T')[0],
+        rounding: null,
       });
     }
   }, [client]);
@@ -202,71 +229,81 @@ function ClientModal({ open, onClose, client, onSave }: ClientModalProps) {
     fontSize: 13, color: '#94a3b8', fontWeight: 500, marginBottom: 5, display: 'block' 
   };
 
+  const inputFor = (field: string): React.CSSProperties =>
+    error?.hasFieldError(field) ? { ...darkInput, borderColor: '#f87171' } : darkInput;
+
   return (
     <Modal open={open} onClose={onClose} title="" size="lg">
       <div style={{ background: '#152035', borderRadius: 12, margin: -24, padding: 32 }}>
         <h2 style={{ color: '#fff', fontWeight: 700, fontSize: 20, marginBottom: 28 }}>
           {client ? 'Edit Client' : 'Add New Client'}
         </h2>
+        <FormError error={error} />
         <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 18 }}>
           <div>
             <label style={label}>Contact Name *</label>
             <input 
-              style={darkInput} 
+              style={inputFor('name')} 
               value={form.name} 
               onChange={e => handleChange('name', e.target.value)} 
               placeholder="John Smith" 
               required
             />
+            <FieldError error={error} field="name" />
           </div>
           <div>
             <label style={label}>Company Name *</label>
             <input 
-              style={darkInput} 
+              style={inputFor('company')} 
               value={form.company} 
               onChange={e => handleChange('company', e.target.value)} 
               placeholder="Acme Pty Ltd" 
               required
             />
+            <FieldError error={error} field="company" />
           </div>
           <div>
             <label style={label}>Email *</label>
             <input 
-              style={darkInput} 
+              style={inputFor('email')} 
               type="email" 
               value={form.email} 
               onChange={e => handleChange('email', e.target.value)} 
               placeholder="contact@company.com" 
               required
             />
+            <FieldError error={error} field="email" />
           </div>
           <div>
             <label style={label}>Phone Number *</label>
             <input 
-              style={darkInput} 
+              style={inputFor('phone')} 
               value={form.phone} 
               onChange={e => handleChange('phone', e.target.value)} 
               placeholder="+61 400 000 000" 
               required
             />
+            <FieldError error={error} field="phone" />
           </div>
           <div>
             <label style={label}>Industry</label>
             <input 
-              style={darkInput} 
+              style={inputFor('industry')} 
               value={form.industry} 
               onChange={e => handleChange('industry', e.target.value)} 
               placeholder="Technology, Finance, etc." 
             />
+            <FieldError error={error} field="industry" />
           </div>
           <div>
             <label style={label}>Address</label>
             <input 
-              style={darkInput} 
+              style={inputFor('address')} 
               value={form.address} 
               onChange={e => handleChange('address', e.target.value)} 
               placeholder="123 Business St" 
             />
+            <FieldError error={error} field="address" />
           </div>
           <div>
             <label style={label}>Onboarding Date</label>
@@ -280,13 +317,28 @@ function ClientModal({ open, onClose, client, onSave }: ClientModalProps) {
           <div>
             <label style={label}>Status</label>
             <select
-              style={{ ...darkInput, cursor: 'pointer' }}
+              style={{ ...inputFor('status'), cursor: 'pointer' }}
               value={form.status}
               onChange={e => handleChange('status', e.target.value as 'active' | 'inactive')}
             >
               <option value="active">Active</option>
               <option value="inactive">Inactive</option>
             </select>
+            <FieldError error={error} field="status" />
+          </div>
+          <div>
+            <label style={label}>Time Rounding</label>
+            <select
+              style={{ ...inputFor('rounding'), cursor: 'pointer' }}
+              value={roundingKey(form.rounding)}
+              onChange={e => setForm(prev => ({ ...prev, rounding: ROUNDING_CHOICES.find(p => roundingKey(p) === e.target.value) ?? null }))}
+            >
+              <option value="">Firm policy ({describeRounding(rules.rounding).toLowerCase()})</option>
+              {ROUNDING_CHOICES.map(p => (
+                <option key={roundingKey(p)} value={roundingKey(p)}>{describeRounding(p)}</option>
+              ))}
+            </select>
+            <FieldError error={error} field="rounding" />
           </div>
         </div>
 
@@ -1,4 +1,5 @@
 import { useAuthStore } from '@/store/authStore'
+import { usePermissions } from '@/hooks/usePermissions'
 import { StatCard } from '@/components/ui/Card'
 import { Badge } from '@/components/ui/Badge'
 import { Avatar } from '@/components/ui/Avatar'
@@ -55,11 +56,11 @@ function LoadingSpinner() {
 }
 
 export function Dashboard() {
-  const { user } = useAuthStore()
+  const can = usePermissions()
 
-  if (user?.role === 'employee') return <EmployeeDashboard />
-  if (user?.role === 'manager') return <ManagerDashboard />
-  return <AdminDashboard />
+  if (can('dashboard.firm')) return <AdminDashboard />
+  if (can('dashboard.team')) return <ManagerDashboard />
+  return <EmployeeDashboard />
 }
 
 // ── Employee Dashboard ────────────────────────────────────────────────────────
@@ -67,7 +68,7 @@ export function Dashboard() {
 function EmployeeDashboard() {
   const { user } = useAuthStore()
   const { data, loading } = useEmployeeDashboard()
-  const { tasks } = useTasks()
+  const { tasks } = useTasks({ assignedUserId: user?.id, all: true })
   const myTasks = tasks.filter(t => t.assignedToIds?.includes(user?.id ?? ''))
 
   if (loading) return <LoadingSpinner />
@@ -221,7 +222,7 @@ function EmployeeDashboard() {
 
 function ManagerDashboard() {
   const { data, loading } = useManagerDashboard()
-  const { entries: allEntries } = useTimesheets()
+  const { entries: allEntries, total: entryTotal } = useTimesheets()
 
   if (loading) return <LoadingSpinner />
 
@@ -282,7 +283,7 @@ function ManagerDashboard() {
         />
         <StatCard
           title="Time Entries"
-          value={allEntries.length.toString()}
+          value={entryTotal.toString()}
           subtitle="logged this period"
           icon={<Clock size={18} />}
           color="amber"
@@ -360,7 +361,7 @@ function ManagerDashboard() {
       <div className="bg-white dark:bg-slate-900 rounded-2xl border border-slate-200/60 dark:border-slate-800/60 shadow-sm hover:shadow-md transition-shadow p-6">
         <div className="flex items-center justify-between mb-6">
           <h3 className="text-lg font-bold text-slate-900 dark:text-white">Recent Time Entries</h3>
-          <Badge variant="secondary">{allEntries.length} entries</Badge>
+          <Badge variant="secondary">{entryTotal} entries</Badge>
         </div>
         {allEntries.length === 0 ? (
           <p className="text-sm text-slate-400 text-center py-8">No time entries logged yet.</p>
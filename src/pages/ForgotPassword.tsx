@@ -0,0 +1,79 @@
+import { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { Mail, ArrowLeft, MailCheck } from 'lucide-react'
+import { AuthLayout } from '@/components/layout/AuthLayout'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { requestPasswordReset } from '@/lib/passwords'
+import { toApiError } from '@/lib/api'
+import type { ApiError } from '@/lib/api'
+
+export function ForgotPassword() {
+  const [email,   setEmail]   = useState('')
+  const [loading, setLoading] = useState(false)
+  const [sent,    setSent]    = useState(false)
+  const [error,   setError]   = useState<ApiError | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setLoading(true)
+    try {
+      await requestPasswordReset(email)
+      setSent(true)
+    } catch (err: unknown) {
+      setError(toApiError(err, 'Could not send the reset link'))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <AuthLayout>
+      <div className="bg-white rounded-2xl border border-slate-200/80 shadow-sm p-8">
+        {sent ? (
+          <div className="text-center">
+            <div className="mx-auto mb-4 w-12 h-12 rounded-2xl bg-green-50 flex items-center justify-center text-green-600">
+              <MailCheck size={22} />
+            </div>
+            <h1 className="text-xl font-bold text-slate-900">Check your email</h1>
+            <p className="text-slate-500 text-sm mt-2">
+              If <span className="font-semibold text-slate-700">{email.trim()}</span> has an account, we've sent a link to
+              reset its password. The link expires in an hour.
+            </p>
+          </div>
+        ) : (
+          <>
+            <div className="mb-6">
+              <h1 className="text-xl font-bold text-slate-900">Forgot your password?</h1>
+              <p className="text-slate-500 text-sm mt-1">Enter your work email and we'll send you a reset link.</p>
+            </div>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <Input
+                label="Email address"
+                type="email"
+                placeholder="you@top.com"
+                value={email}
+                onChange={e => setEmail(e.target.value)}
+                leftIcon={<Mail size={14} />}
+                error={error?.fieldErrors.email}
+                required
+                autoComplete="email"
+                autoFocus
+              />
+              {error && !error.hasFieldErrors && (
+                <p role="alert" className="bg-red-50 border border-red-200 text-red-600 text-xs px-3 py-2.5 rounded-lg">{error.message}</p>
+              )}
+              <Button type="submit" className="w-full" disabled={loading}>
+                {loading ? 'Sending...' : 'Send reset link'}
+              </Button>
+            </form>
+          </>
+        )}
+        <Link to="/login" className="mt-6 flex items-center justify-center gap-1.5 text-sm text-blue-600 hover:text-blue-700 font-semibold">
+          <ArrowLeft size={14} /> Back to sign in
+        </Link>
+      </div>
+    </AuthLayout>
+  )
+}
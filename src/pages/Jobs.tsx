@@ -4,9 +4,14 @@ import { Modal } from '@/components/ui/Modal'
 import { formatCurrency, formatDate, formatDateForInput } from '@/lib/utils'
 import { Search, Plus, Eye, Edit2, Loader2, Check, Filter } from 'lucide-react'
 import { useAuthStore } from '@/store/authStore'
+import { usePermissions } from '@/hooks/usePermissions'
 import { useJobs } from '@/hooks/useJobs'
 import { useClients } from '@/hooks/useClients'
 import { useTasks } from '@/hooks/useTasks'
+import { useDebouncedValue } from '@/hooks/useDebouncedValue'
+import { FieldError, FormError } from '@/components/ui/FieldError'
+import { LoadMore } from '@/components/ui/LoadMore'
+import type { ApiError } from '@/lib/api'
 
 const STATUS_FLOW: JobStatus[] = ['open', 'in_progress', 'on_hold', 'completed', 'invoiced', 'closed']
 
@@ -21,31 +26,39 @@ const priorityColor: Record<Priority, string> = {
 
 export function Jobs() {
   const { user } = useAuthStore()
+  const can = usePermissions()
   const [search, setSearch] = useState('')
+  const debouncedSearch = useDebouncedValue(search.trim())
   const [statusFilter, setStatusFilter] = useState<'all' | JobStatus>('all')
   const [showModal, setShowModal] = useState(false)
   const [selected, setSelected] = useState<Job | null>(null)
   const [detailJob, setDetailJob] = useState<Job | null>(null)
 
-  const { jobs, loading, error, createJob, updateJob, updateStatus: apiUpdateStatus } = useJobs()
-  const { clients } = useClients()
-  const { tasks } = useTasks()
+  const {
+    jobs, total, hasMore, loadingMore, loadMore, loading, refreshing, error,
+    createJob, updateJob, updateStatus: apiUpdateStatus, mutationError, resetMutationError,
+  } = useJobs({ search: debouncedSearch || undefined })
+  const { clients } = useClients({ all: true })
+  const { tasks } = useTasks({ all: true })
+
+  const openModal = (job: Job | null) => {
+    resetMutationError()
+    setSelected(job)
+    setShowModal(true)
+  }
 
   // For employees: only show jobs linked to tasks assigned to them
-  const myTaskJobIds = user?.role === 'employee'
+  const myTaskJobIds = !can('jobs.viewAll') && user
     ? tasks.filter(t => t.assignedToIds?.includes(user.id)).map(t => t.jobId)
     : null
 
   const filtered = jobs.filter(j => {
-    const matchSearch = j.title.toLowerCase().includes(search.toLowerCase()) ||
-      j.jobId.toLowerCase().includes(search.toLowerCase()) ||
-      j.clientName.toLowerCase().includes(search.toLowerCase())
     const matchStatus = statusFilter === 'all' || j.status === statusFilter
     const matchEmployee = myTaskJobIds ? myTaskJobIds.includes(j.id) : true
-    return matchSearch && matchStatus && matchEmployee
+    return matchStatus && matchEmployee
   })
 
-  const canEdit = user?.role !== 'employee'
+  const canEdit = can('jobs.manage')
 
   if (loading) return (
     <div className="flex items-center justify-center h-64 gap-3 text-slate-500">
@@ -67,7 +80,7 @@ export function Jobs() {
         <h1 style={{ fontSize: 22, fontWeight: 700, color: '#1a1f36', margin: 0 }}>Jobs & Tasks</h1>
         {canEdit && (
           <button
-            onClick={() => { setSelected(null); setShowModal(true) }}
+            onClick={() => openModal(null)}
             style={{ display: 'flex', alignItems: 'center', gap: 7, background: '#2563eb', color: '#fff', border: 'none', borderRadius: 8, padding: '9px 18px', fontWeight: 600, fontSize: 14, cursor: 'pointer' }}
           >
             <Plus size={16} /> Create Job
@@ -104,7 +117,9 @@ export function Jobs() {
           {/* Search + filter */}
           <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
             <div style={{ position: 'relative' }}>
-              <Search size={14} style={{ position: 'absolute', left: 10, top: '50%', transform: 'translateY(-50%)', color: '#9ca3af' }} />
+              {refreshing
+                ? <Loader2 size={14} className="animate-spin" style={{ position: 'absolute', left: 10, top: '50%', marginTop: -7, color: '#9ca3af' }} />
+                : <Search size={14} style={{ position: 'absolute', left: 10, top: '50%', transform: 'translateY(-50%)', color: '#9ca3af' }} />}
               <input
                 placeholder="Search..."
                 value={search}
@@ -170,7 +185,7 @@ export function Jobs() {
                         <Eye size={14} />
                       </button>
                       {canEdit && (
-                        <button onClick={() => { setSelected(job); setShowModal(true) }} style={{ padding: '5px 8px', border: '1px solid #e5e7eb', borderRadius: 6, background: '#fff', cursor: 'pointer', color: '#6b7280' }} title="Edit">
+                        <button onClick={() => openModal(job)} style={{ padding: '5px 8px', border: '1px solid #e5e7eb', borderRadius: 6, background: '#fff', cursor: 'pointer', color: '#6b7280' }} title="Edit">
                           <Edit2 size={14} />
                         </button>
                       )}
@@ -181,6 +196,7 @@ export function Jobs() {
             </tbody>
           </table>
         </div>
+        <LoadMore shown={jobs.length} total={total} hasMore={hasMore} loading={loadingMore} onLoadMore={loadMore} noun="jobs" />
       </div>
 
       {/* Job detail modal — dark navy style */}
@@ -285,8 +301,8 @@ export function Jobs() {
                 })()}
               </div>
 
-              {/* Financial cards — admin/manager only */}
-              {user?.role !== 'employee' && detailJob.revenue != null && (
+              {/* Financial cards */}
+              {can('jobs.financials.view') && detailJob.revenue != null && (
                 <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: 10 }}>
                   {[
                     { label: 'Revenue', value: formatCurrency(detailJob.revenue ?? 0), color: '#4ade80' },
@@ -309,7 +325,7 @@ export function Jobs() {
                   CLOSE
                 </button>
                 {canEdit && (
-                  <button onClick={() => { setSelected(detailJob); setDetailJob(null); setShowModal(true) }}
+                  <button onClick={() => { setDetailJob(null); openModal(detailJob) }}
                     style={{ padding: '10px 28px', border: 'none', borderRadius: 8, background: '#2563eb', color: '#fff', fontWeight: 700, fontSize: 14, cursor: 'pointer' }}>
                     EDIT JOB
                   </button>
@@ -326,10 +342,12 @@ export function Jobs() {
         onClose={() => setShowModal(false)}
         job={selected}
         clients={clients.map(c => ({ id: c.id, company: c.company }))}
+        error={mutationError}
         onSave={async (j) => {
-          if (selected) await updateJob(selected.id, j)
-          else await createJob(j)
-          setShowModal(false)
+          // Keep the modal open on failure so the field errors can be fixed
+          const ok = selected ? await updateJob(selected.id, j) : !!(await createJob(j))
+          if (ok) setShowModal(false)
+          return ok
         }}
       />
     </div>
@@ -342,11 +360,19 @@ interface JobModalProps {
   open: boolean
   onClose: () => void
   job: Job | null
-  onSave: (j: Job) => void
+  error?: ApiError | null
+  onSave: (j: Job) => Promise<boolean>
   clients: Array<{ id: string; company: string }>
 }
 
-function JobModal({ open, onClose, job, onSave, clients }: JobModalProps) {
+// Request fields collected on each step, so a rejected field can flag its step
+const JOB_STEP_FIELDS: Record<number, string[]> = {
+  1: ['title', 'jobType', 'clientId', 'priority', 'status'],
+  2: ['startDate', 'deadline', 'quoteApprovedDate'],
+  3: ['billingType', 'billingRate', 'quotedHours'],
+}
+
+function JobModal({ open, onClose, job, error, onSave, clients }: JobModalProps) {
   const [step, setStep] = useState(1)
   const [form, setForm] = useState<Partial<Job>>(job ?? {
     title: '', clientId: '', clientName: '', jobType: '', billingType: 'hourly', billingRate: 0,
@@ -396,9 +422,12 @@ function JobModal({ open, onClose, job, onSave, clients }: JobModalProps) {
     borderRadius: 8, color: '#fff', fontSize: 14, outline: 'none', boxSizing: 'border-box',
   }
   const lbl: React.CSSProperties = { fontSize: 13, color: '#94a3b8', fontWeight: 500, marginBottom: 5, display: 'block' }
+  const inputFor = (field: string): React.CSSProperties =>
+    error?.hasFieldError(field) ? { ...darkInput, borderColor: '#f87171' } : darkInput
+  const stepHasError = (num: number) => !!error?.hasFieldError(...(JOB_STEP_FIELDS[num] ?? []))
 
   const handleClose = () => { onClose(); setStep(1) }
-  const handleCreate = () => { onSave(form as Job); setStep(1) }
+  const handleCreate = async () => { if (await onSave(form as Job)) setStep(1) }
 
   return (
     <Modal open={open} onClose={handleClose} title="" size="xl">
@@ -414,11 +443,11 @@ function JobModal({ open, onClose, job, onSave, clients }: JobModalProps) {
                 <div style={{
                   width: 28, height: 28, borderRadius: '50%', display: 'flex', alignItems: 'center', justifyContent: 'center',
                   flexShrink: 0, fontSize: 13, fontWeight: 700,
-                  background: step > st.num ? '#16a34a' : step === st.num ? '#2563eb' : '#1e2d4a',
+                  background: stepHasError(st.num) ? '#dc2626' : step > st.num ? '#16a34a' : step === st.num ? '#2563eb' : '#1e2d4a',
                   color: '#fff',
                   border: step === st.num ? '2px solid #3b82f6' : 'none',
                 }}>
-                  {step > st.num ? <Check size={14} /> : st.num}
+                  {step > st.num && !stepHasError(st.num) ? <Check size={14} /> : st.num}
                 </div>
                 <span style={{ fontSize: 13, color: step === st.num ? '#fff' : '#64748b', fontWeight: step === st.num ? 600 : 400 }}>
                   {st.label}
@@ -430,6 +459,7 @@ function JobModal({ open, onClose, job, onSave, clients }: JobModalProps) {
 
         {/* Right form area */}
         <div style={{ flex: 1, padding: '32px 28px' }}>
+          <FormError error={error} />
           {/* Step 1 — Job Details */}
           {step === 1 && (
             <div>
@@ -437,35 +467,40 @@ function JobModal({ open, onClose, job, onSave, clients }: JobModalProps) {
               <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 16 }}>
                 <div>
                   <label style={lbl}>Job Name</label>
-                  <input style={darkInput} value={form.title ?? ''} onChange={e => s('title', e.target.value)} placeholder="FY2024 Tax Return" />
+                  <input style={inputFor('title')} value={form.title ?? ''} onChange={e => s('title', e.target.value)} placeholder="FY2024 Tax Return" />
+                  <FieldError error={error} field="title" />
                 </div>
                 <div>
                   <label style={lbl}>Job ID Name</label>
-                  <input style={darkInput} value={form.jobType ?? ''} onChange={e => s('jobType', e.target.value)} placeholder="Tax Return" />
+                  <input style={inputFor('jobType')} value={form.jobType ?? ''} onChange={e => s('jobType', e.target.value)} placeholder="Tax Return" />
+                  <FieldError error={error} field="jobType" />
                 </div>
                 <div>
                   <label style={lbl}>Assigned Client</label>
-                  <select style={{ ...darkInput, cursor: 'pointer' }} value={form.clientId ?? ''} onChange={e => { s('clientId', e.target.value); s('clientName', clients.find(c => c.id === e.target.value)?.company ?? '') }}>
+                  <select style={{ ...inputFor('clientId'), cursor: 'pointer' }} value={form.clientId ?? ''} onChange={e => { s('clientId', e.target.value); s('clientName', clients.find(c => c.id === e.target.value)?.company ?? '') }}>
                     <option value="">Select client</option>
                     {clients.map(c => <option key={c.id} value={c.id}>{c.company}</option>)}
                   </select>
+                  <FieldError error={error} field="clientId" />
                 </div>
                 <div>
                   <label style={lbl}>Priority</label>
-                  <select style={{ ...darkInput, cursor: 'pointer' }} value={form.priority ?? 'medium'} onChange={e => s('priority', e.target.value as Priority)}>
+                  <select style={{ ...inputFor('priority'), cursor: 'pointer' }} value={form.priority ?? 'medium'} onChange={e => s('priority', e.target.value as Priority)}>
                     <option value="low">Low</option>
                     <option value="medium">Medium</option>
                     <option value="high">High</option>
                     <option value="urgent">Urgent</option>
                   </select>
+                  <FieldError error={error} field="priority" />
                 </div>
                 <div style={{ gridColumn: '1 / -1' }}>
                   <label style={lbl}>Status</label>
-                  <select style={{ ...darkInput, cursor: 'pointer' }} value={form.status ?? 'open'} onChange={e => s('status', e.target.value as JobStatus)}>
+                  <select style={{ ...inputFor('status'), cursor: 'pointer' }} value={form.status ?? 'open'} onChange={e => s('status', e.target.value as JobStatus)}>
                     {(['open', 'in_progress', 'on_hold', 'completed', 'invoiced', 'closed'] as JobStatus[]).map(st => (
                       <option key={st} value={st}>{st.replace('_', ' ').replace(/\b\w/g, c => c.toUpperCase())}</option>
                     ))}
                   </select>
+                  <FieldError error={error} field="status" />
                 </div>
               </div>
             </div>
@@ -479,16 +514,19 @@ function JobModal({ open, onClose, job, onSave, clients }: JobModalProps) {
                 <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 16 }}>
                   <div>
                     <label style={lbl}>Start Date</label>
-                    <input style={darkInput} type="date" value={form.startDate ?? ''} onChange={e => s('startDate', e.target.value)} />
+                    <input style={inputFor('startDate')} type="date" value={form.startDate ?? ''} onChange={e => s('startDate', e.target.value)} />
+                    <FieldError error={error} field="startDate" />
                   </div>
                   <div>
                     <label style={lbl}>End Date</label>
-                    <input style={darkInput} type="date" value={form.deadline ?? ''} onChange={e => s('deadline', e.target.value)} />
+                    <input style={inputFor('deadline')} type="date" value={form.deadline ?? ''} onChange={e => s('deadline', e.target.value)} />
+                    <FieldError error={error} field="deadline" />
                   </div>
                 </div>
                 <div>
                   <label style={lbl}>Quote Approved Date</label>
-                  <input style={darkInput} type="date" value={form.quoteApprovedDate ?? ''} onChange={e => s('quoteApprovedDate', e.target.value)} />
+                  <input style={inputFor('quoteApprovedDate')} type="date" value={form.quoteApprovedDate ?? ''} onChange={e => s('quoteApprovedDate', e.target.value)} />
+                  <FieldError error={error} field="quoteApprovedDate" />
                 </div>
               </div>
             </div>
@@ -502,19 +540,22 @@ function JobModal({ open, onClose, job, onSave, clients }: JobModalProps) {
                 <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 16 }}>
                   <div>
                     <label style={lbl}>Billing Type</label>
-                    <select style={{ ...darkInput, cursor: 'pointer' }} value={form.billingType ?? 'hourly'} onChange={e => s('billingType', e.target.value as BillingType)}>
+                    <select style={{ ...inputFor('billingType'), cursor: 'pointer' }} value={form.billingType ?? 'hourly'} onChange={e => s('billingType', e.target.value as BillingType)}>
                       <option value="hourly">Hourly</option>
                       <option value="fixed">Fixed Price</option>
                     </select>
+                    <FieldError error={error} field="billingType" />
                   </div>
                   <div>
                     <label style={lbl}>Billing Rate ($)</label>
-                    <input style={darkInput} type="number" value={String(form.billingRate ?? '')} onChange={e => s('billingRate', Number(e.target.value))} placeholder="0.00" />
+                    <input style={inputFor('billingRate')} type="number" value={String(form.billingRate ?? '')} onChange={e => s('billingRate', Number(e.target.value))} placeholder="0.00" />
+                    <FieldError error={error} field="billingRate" />
                   </div>
                 </div>
                 <div>
                   <label style={lbl}>Quoted Billable Hours</label>
-                  <input style={darkInput} type="number" value={String(form.quotedHours ?? '')} onChange={e => s('quotedHours', Number(e.target.value))} placeholder="0" />
+                  <input style={inputFor('quotedHours')} type="number" value={String(form.quotedHours ?? '')} onChange={e => s('quotedHours', Number(e.target.value))} placeholder="0" />
+                  <FieldError error={error} field="quotedHours" />
                 </div>
               </div>
             </div>
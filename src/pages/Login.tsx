@@ -1,9 +1,13 @@
 import { useState } from 'react'
-import { useNavigate } from 'react-router-dom'
+import { Link, useNavigate, useLocation } from 'react-router-dom'
+import type { Location } from 'react-router-dom'
 import { useAuthStore } from '@/store/authStore'
 import { Button } from '@/components/ui/Button'
 import { Input } from '@/components/ui/Input'
-import { Eye, EyeOff, Mail, Lock } from 'lucide-react'
+import { AuthLayout } from '@/components/layout/AuthLayout'
+import { toApiError } from '@/lib/api'
+import type { ApiError } from '@/lib/api'
+import { Eye, EyeOff, Mail, Lock, KeyRound, ShieldCheck } from 'lucide-react'
 
 // const DEMO_ACCOUNTS = [
 //   { role: 'employee', label: 'Processor', email: 'employee@top.com', desc: 'View tasks & submit timesheets', color: 'bg-slate-100 text-slate-700 border-slate-200 hover:border-slate-400 hover:bg-slate-50' },
@@ -13,7 +17,11 @@ import { Eye, EyeOff, Mail, Lock } from 'lucide-react'
 
 export function Login() {
   const navigate = useNavigate()
-  const { login } = useAuthStore()
+  const location = useLocation()
+  const { login, sessionExpired, mfaToken, signOutWarning } = useAuthStore()
+  // Set by RequireAuth when it bounced us here from a protected page
+  const { from, notice } = (location.state as { from?: Location; notice?: string } | null) ?? {}
+  const returnTo = from && from.pathname !== '/login' ? `${from.pathname}${from.search}` : '/dashboard'
   const [email,    setEmail]    = useState('')
   const [password, setPassword] = useState('')
   const [showPw,   setShowPw]   = useState(false)
@@ -24,10 +32,11 @@ export function Login() {
     e.preventDefault()
     setError('')
     setLoading(true)
-    const ok = await login(email, password)
+    const result = await login(email, password)
     setLoading(false)
-    if (ok) navigate('/dashboard')
-    else setError('Invalid credentials. Try a demo account below.')
+    if (result === 'success') navigate(returnTo, { replace: true })
+    else if (result === 'failed') setError('Invalid credentials. Try a demo account below.')
+    // 'mfa_required' leaves mfaToken set, which swaps in the code step below
   }
 
   // const handleDemo = async (demoEmail: string) => {
@@ -38,178 +47,218 @@ export function Login() {
   //   if (ok) navigate('/dashboard')
   // }
 
+  if (mfaToken) {
+    return (
+      <AuthLayout>
+        <MfaStep
+          onVerified={() => navigate(returnTo, { replace: true })}
+          onRestart={message => { setPassword(''); setError(message) }}
+        />
+      </AuthLayout>
+    )
+  }
+
   return (
-    <div className="min-h-screen flex bg-slate-50">
-      {/* ── Left hero panel ── */}
-      <div className="hidden lg:flex lg:w-1/2 xl:w-[55%] relative flex-col justify-between p-12 overflow-hidden bg-gradient-to-br from-slate-900 via-slate-900 to-blue-950">
-        {/* Decorative orbs */}
-        <div className="absolute -top-40 -right-20 w-96 h-96 rounded-full bg-blue-600/20 blur-3xl pointer-events-none" />
-        <div className="absolute -bottom-40 -left-20 w-80 h-80 rounded-full bg-blue-500/10 blur-3xl pointer-events-none" />
-        <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-[600px] h-[600px] rounded-full border border-white/5 pointer-events-none" />
-        <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-[400px] h-[400px] rounded-full border border-white/5 pointer-events-none" />
-
-        {/* Brand */}
-        <div className="relative z-10 flex items-center gap-3">
-          <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-blue-500 to-blue-700 flex items-center justify-center shadow-lg">
-            <svg width="18" height="18" viewBox="0 0 24 24" fill="white">
-              <path d="M13 2L3 14h9l-1 8 10-12h-9l1-8z"/>
-            </svg>
-          </div>
-          <div>
-            <p className="text-white font-bold text-base leading-none">TOP Internal</p>
-            <p className="text-slate-500 text-xs mt-0.5">Job Management System</p>
-          </div>
+    <AuthLayout>
+      <div className="bg-white rounded-2xl border border-slate-200/80 shadow-sm p-8">
+        <div className="mb-6">
+          <h1 className="text-xl font-bold text-slate-900">Welcome back</h1>
+          <p className="text-slate-500 text-sm mt-1">Sign in to your account to continue.</p>
         </div>
 
-        {/* Hero content */}
-        <div className="relative z-10 space-y-8">
-          <div className="space-y-4">
-            <div className="inline-flex items-center gap-2 bg-blue-500/10 border border-blue-500/20 rounded-full px-3 py-1">
-              <span className="w-2 h-2 rounded-full bg-blue-400 animate-pulse" />
-              <span className="text-blue-300 text-xs font-medium">Live platform</span>
-            </div>
-            <h2 className="text-4xl font-bold text-white leading-[1.15] max-w-sm">
-              Track every job.<br />
-              <span className="text-blue-400">Measure every dollar.</span>
-            </h2>
-            <p className="text-slate-400 text-sm leading-relaxed max-w-sm">
-              Real-time job tracking, time billing, invoice performance and team productivity — built for accounting firms.
-            </p>
-          </div>
-
-          {/* KPI tiles */}
-          <div className="grid grid-cols-2 gap-3 max-w-sm">
-            {[
-              { label: 'Invoice Realisation', value: '94%', icon: '📈', desc: 'avg this quarter' },
-              { label: 'Active Jobs',         value: '47',   icon: '💼', desc: 'across 6 clients' },
-              { label: 'Billable Hours',      value: '384h', icon: '⏱',  desc: 'this month' },
-              { label: 'Avg Job Score',       value: '82',   icon: '⭐', desc: 'out of 100' },
-            ].map(kpi => (
-              <div key={kpi.label} className="bg-white/5 border border-white/10 rounded-xl p-4 backdrop-blur-sm">
-                <div className="flex items-start justify-between mb-1">
-                  <span className="text-xl">{kpi.icon}</span>
+        {/* Demo role buttons
+        <div className="mb-6">
+          <p className="text-xs font-semibold text-slate-500 uppercase tracking-widest mb-3">Quick demo access</p>
+          <div className="space-y-2">
+            {DEMO_ACCOUNTS.map(acc => (
+              <button
+                key={acc.role}
+                onClick={() => handleDemo(acc.email)}
+                disabled={loading}
+                className={`w-full flex items-center gap-3 p-3 rounded-xl border-2 transition-all duration-200 text-left group disabled:opacity-50 ${acc.color}`}
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-semibold leading-none">{acc.label}</p>
+                  <p className="text-xs opacity-70 mt-0.5">{acc.desc}</p>
                 </div>
-                <p className="text-white font-bold text-xl leading-none">{kpi.value}</p>
-                <p className="text-white/70 text-xs font-medium mt-1">{kpi.label}</p>
-                <p className="text-slate-500 text-[11px] mt-0.5">{kpi.desc}</p>
-              </div>
+                <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="opacity-40 group-hover:opacity-100 group-hover:translate-x-0.5 transition-all"><path d="M5 12h14M12 5l7 7-7 7"/></svg>
+              </button>
             ))}
           </div>
+        </div> */}
+
+        {/* Divider */}
+        <div className="flex items-center gap-3 mb-6">
+          <div className="flex-1 h-px bg-slate-100" />
+          <span className="text-xs text-slate-400 font-medium">or sign in manually</span>
+          <div className="flex-1 h-px bg-slate-100" />
         </div>
 
-        <p className="relative z-10 text-slate-600 text-xs">© 2024 TOP Internal. All rights reserved.</p>
-      </div>
+        {/* Form */}
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <Input
+            label="Email address"
+            type="email"
+            placeholder="you@top.com"
+            value={email}
+            onChange={e => setEmail(e.target.value)}
+            leftIcon={<Mail size={14} />}
+            required
+            autoComplete="email"
+          />
+          <Input
+            label="Password"
+            type={showPw ? 'text' : 'password'}
+            placeholder="Enter your password"
+            value={password}
+            onChange={e => setPassword(e.target.value)}
+            leftIcon={<Lock size={14} />}
+            rightIcon={
+              <button
+                type="button"
+                onClick={() => setShowPw(v => !v)}
+                className="hover:text-slate-600 transition-colors"
+                aria-label={showPw ? 'Hide password' : 'Show password'}
+              >
+                {showPw ? <EyeOff size={14} /> : <Eye size={14} />}
+              </button>
+            }
+            required
+            autoComplete="current-password"
+          />
 
-      {/* ── Right login panel ── */}
-      <div className="flex-1 flex items-center justify-center p-6">
-        <div className="w-full max-w-[400px]">
-          {/* Mobile brand */}
-          <div className="lg:hidden flex items-center gap-3 mb-8">
-            <div className="w-9 h-9 rounded-xl bg-gradient-to-br from-blue-500 to-blue-700 flex items-center justify-center">
-              <svg width="16" height="16" viewBox="0 0 24 24" fill="white"><path d="M13 2L3 14h9l-1 8 10-12h-9l1-8z"/></svg>
-            </div>
-            <div>
-              <p className="font-bold text-slate-900">TOP Internal</p>
-              <p className="text-xs text-slate-500">Job Management System</p>
-            </div>
-          </div>
 
-          {/* Card */}
-          <div className="bg-white rounded-2xl border border-slate-200/80 shadow-sm p-8">
-            <div className="mb-6">
-              <h1 className="text-xl font-bold text-slate-900">Welcome back</h1>
-              <p className="text-slate-500 text-sm mt-1">Sign in to your account to continue.</p>
-            </div>
-
-            {/* Demo role buttons
-            <div className="mb-6">
-              <p className="text-xs font-semibold text-slate-500 uppercase tracking-widest mb-3">Quick demo access</p>
-              <div className="space-y-2">
-                {DEMO_ACCOUNTS.map(acc => (
-                  <button
-                    key={acc.role}
-                    onClick={() => handleDemo(acc.email)}
-                    disabled={loading}
-                    className={`w-full flex items-center gap-3 p-3 rounded-xl border-2 transition-all duration-200 text-left group disabled:opacity-50 ${acc.color}`}
-                  >
-                    <div className="flex-1 min-w-0">
-                      <p className="text-sm font-semibold leading-none">{acc.label}</p>
-                      <p className="text-xs opacity-70 mt-0.5">{acc.desc}</p>
-                    </div>
-                    <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="opacity-40 group-hover:opacity-100 group-hover:translate-x-0.5 transition-all"><path d="M5 12h14M12 5l7 7-7 7"/></svg>
-                  </button>
-                ))}
-              </div>
-            </div> */}
-
-            {/* Divider */}
-            <div className="flex items-center gap-3 mb-6">
-              <div className="flex-1 h-px bg-slate-100" />
-              <span className="text-xs text-slate-400 font-medium">or sign in manually</span>
-              <div className="flex-1 h-px bg-slate-100" />
-            </div>
-
-            {/* Form */}
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <Input
-                label="Email address"
-                type="email"
-                placeholder="you@top.com"
-                value={email}
-                onChange={e => setEmail(e.target.value)}
-                leftIcon={<Mail size={14} />}
-                required
-                autoComplete="email"
-              />
-              <Input
-                label="Password"
-                type={showPw ? 'text' : 'password'}
-                placeholder="Enter your password"
-                value={password}
-                onChange={e => setPassword(e.target.value)}
-                leftIcon={<Lock size={14} />}
-                rightIcon={
-                  <button
-                    type="button"
-                    onClick={() => setShowPw(v => !v)}
-                    className="hover:text-slate-600 transition-colors"
-                    aria-label={showPw ? 'Hide password' : 'Show password'}
-                  >
-                    {showPw ? <EyeOff size={14} /> : <Eye size={14} />}
-                  </button>
-                }
-                required
-                autoComplete="current-password"
-              />
+{notice && !error && (
+  <div className="flex items-start gap-2 bg-green-50 border border-green-200 text-green-700 text-xs px-3 py-2.5 rounded-lg">
+    <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" className="flex-shrink-0 mt-0.5"><circle cx="12" cy="12" r="10"/><path d="M8 12l3 3 5-6"/></svg>
+    {notice}
+  </div>
+)}
+
+{sessionExpired && !notice && !error && (
+  <div className="flex items-start gap-2 bg-amber-50 border border-amber-200 text-amber-700 text-xs px-3 py-2.5 rounded-lg">
+<svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" className="flex-shrink-0 mt-0.5"><circle cx="12" cy="12" r="10"/><path d="M12 6v6l4 2"/></svg>
+Your session has expired. Sign in again to pick up where you left off.
+  </div>
+)}
 
+{signOutWarning && !error && (
+  <div role="alert" className="flex items-start gap-2 bg-amber-50 border border-amber-200 text-amber-700 text-xs px-3 py-2.5 rounded-lg">
+<svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" className="flex-shrink-0 mt-0.5"><circle cx="12" cy="12" r="10"/><path d="M12 8v4M12 16h.01"/></svg>
+{signOutWarning}
+  </div>
+)}
 
 {error && (
   <div className="flex items-start gap-2 bg-red-50 border border-red-200 text-red-600 text-xs px-3 py-2.5 rounded-lg">
-    <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" className="flex-shrink-0 mt-0.5"><circle cx="12" cy="12" r="10"/><path d="M12 8v4M12 16h.01"/></svg>
-    {error}
+<svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" className="flex-shrink-0 mt-0.5"><circle cx="12" cy="12" r="10"/><path d="M12 8v4M12 16h.01"/></svg>
+{error}
   </div>
 )}
 
-              <div className="flex items-center justify-between pt-0.5">
-                <label className="flex items-center gap-2 cursor-pointer select-none">
-                  <input type="checkbox" className="w-4 h-4 rounded border-slate-300 text-blue-600 accent-blue-600" />
-                  <span className="text-sm text-slate-600">Remember me</span>
-                </label>
-                <button type="button" className="text-sm text-blue-600 hover:text-blue-700 font-semibold transition-colors">
-                  Forgot password?
-                </button>
-              </div>
-
-              <Button type="submit" className="w-full" disabled={loading}>
-                {loading ? 'Signing in...' : 'Sign In'}
-              </Button>
-            </form>
-
-            {/* <p className="text-center text-xs text-slate-400 mt-5">
-              Demo password: <code className="bg-slate-100 text-slate-600 px-1.5 py-0.5 rounded font-mono">password</code>
-            </p> */}
+          <div className="flex items-center justify-between pt-0.5">
+            <label className="flex items-center gap-2 cursor-pointer select-none">
+              <input type="checkbox" className="w-4 h-4 rounded border-slate-300 text-blue-600 accent-blue-600" />
+              <span className="text-sm text-slate-600">Remember me</span>
+            </label>
+            <Link to="/forgot-password" className="text-sm text-blue-600 hover:text-blue-700 font-semibold transition-colors">
+              Forgot password?
+            </Link>
           </div>
+
+          <Button type="submit" className="w-full" disabled={loading}>
+            {loading ? 'Signing in...' : 'Sign In'}
+          </Button>
+        </form>
+
+        {/* <p className="text-center text-xs text-slate-400 mt-5">
+          Demo password: <code className="bg-slate-100 text-slate-600 px-1.5 py-0.5 rounded font-mono">password</code>
+        </p> */}
+      </div>
+    </AuthLayout>
+  )
+}
+
+/** Second sign-in step for accounts with two-factor on: an authenticator code or a recovery code. */
+function MfaStep({ onVerified, onRestart }: {
+  onVerified: () => void
+  /** The challenge is gone (expired, too many attempts, or cancelled) — back to the password form */
+  onRestart: (message: string) => void
+}) {
+  const { verifyMfa, cancelMfa } = useAuthStore()
+  const [useRecovery, setUseRecovery] = useState(false)
+  const [code,        setCode]        = useState('')
+  const [loading,     setLoading]     = useState(false)
+  const [error,       setError]       = useState<ApiError | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setLoading(true)
+    try {
+      await verifyMfa(code)
+      onVerified()
+    } catch (err: unknown) {
+      const apiError = toApiError(err, 'Could not verify the code')
+      // verifyMfa drops a dead challenge, which unmounts this step
+      if (!useAuthStore.getState().mfaToken) onRestart(apiError.message)
+      else setError(apiError)
+      setLoading(false)
+    }
+  }
+
+  const toggleMode = () => {
+    setUseRecovery(v => !v)
+    setCode('')
+    setError(null)
+  }
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200/80 shadow-sm p-8">
+      <div className="mb-6">
+        <div className="mb-4 w-11 h-11 rounded-2xl bg-blue-50 flex items-center justify-center text-blue-600">
+          <ShieldCheck size={20} />
         </div>
+        <h1 className="text-xl font-bold text-slate-900">Two-factor authentication</h1>
+        <p className="text-slate-500 text-sm mt-1">
+          {useRecovery
+            ? 'Enter one of the recovery codes you saved when you set up two-factor. Each code works once.'
+            : 'Enter the 6-digit code from your authenticator app.'}
+        </p>
+      </div>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <Input
+          key={useRecovery ? 'recovery' : 'totp'}
+          label={useRecovery ? 'Recovery code' : 'Authentication code'}
+          value={code}
+          onChange={e => setCode(useRecovery ? e.target.value : e.target.value.replace(/[^\d\s]/g, ''))}
+          leftIcon={<KeyRound size={14} />}
+          placeholder={useRecovery ? 'xxxxx-xxxxx' : '123 456'}
+          inputMode={useRecovery ? 'text' : 'numeric'}
+          autoComplete="one-time-code"
+          maxLength={useRecovery ? 11 : 7}
+          error={error?.fieldErrors.code}
+          required
+          autoFocus
+        />
+        {error && !error.hasFieldErrors && (
+          <p role="alert" className="bg-red-50 border border-red-200 text-red-600 text-xs px-3 py-2.5 rounded-lg">{error.message}</p>
+        )}
+        <Button type="submit" className="w-full" disabled={loading || !code.trim()}>
+          {loading ? 'Verifying...' : 'Verify'}
+        </Button>
+      </form>
+      <div className="mt-6 flex items-center justify-between text-sm">
+        <button type="button" onClick={toggleMode} className="text-blue-600 hover:text-blue-700 font-semibold">
+          {useRecovery ? 'Use authenticator app' : 'Use a recovery code'}
+        </button>
+        <button
+          type="button"
+          onClick={() => { cancelMfa(); onRestart('') }}
+          className="text-slate-500 hover:text-slate-700 font-medium"
+        >
+          Back to sign in
+        </button>
       </div>
     </div>
   )
@@ -0,0 +1,412 @@
+import { useRef, useState } from 'react'
+import { Camera, Lock, Phone, ShieldCheck, Trash2, User as UserIcon } from 'lucide-react'
+import { useAuthStore } from '@/store/authStore'
+import { usePreferencesStore } from '@/store/preferencesStore'
+import { Avatar } from '@/components/ui/Avatar'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { Section, Saved, FormAlert } from '@/components/ui/Section'
+import { TwoFactorEnrolment, RecoveryCodeList } from '@/components/auth/TwoFactor'
+import { toApiError } from '@/lib/api'
+import type { ApiError } from '@/lib/api'
+import { passwordProblem, MIN_PASSWORD_LENGTH } from '@/lib/passwords'
+import { roleLabels, cn } from '@/lib/utils'
+import type { TimesheetView, UserPreferences } from '@/types'
+
+const AVATAR_SIZE = 128
+const MAX_UPLOAD_BYTES = 5 * 1024 * 1024
+
+/** Centre-crop and shrink an uploaded image to a small square data URL. */
+function resizeAvatar(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file)
+    const img = new Image()
+    img.onload = () => {
+      const side = Math.min(img.width, img.height)
+      const canvas = document.createElement('canvas')
+      canvas.width = AVATAR_SIZE
+      canvas.height = AVATAR_SIZE
+      canvas.getContext('2d')?.drawImage(
+        img, (img.width - side) / 2, (img.height - side) / 2, side, side, 0, 0, AVATAR_SIZE, AVATAR_SIZE,
+      )
+      URL.revokeObjectURL(url)
+      resolve(canvas.toDataURL('image/jpeg', 0.85))
+    }
+    img.onerror = () => {
+      URL.revokeObjectURL(url)
+      reject(new Error('That file could not be read as an image'))
+    }
+    img.src = url
+  })
+}
+
+// ── Personal details ──────────────────────────────────────────────────────────
+
+function DetailsSection() {
+  const { user, updateProfile } = useAuthStore()
+  const fileInput = useRef<HTMLInputElement>(null)
+  const [firstName, setFirstName] = useState(user?.name.split(' ')[0] ?? '')
+  const [lastName, setLastName] = useState(user?.name.split(' ').slice(1).join(' ') ?? '')
+  const [phone, setPhone] = useState(user?.phone ?? '')
+  const [avatar, setAvatar] = useState<string | null>(user?.avatar ?? null)
+  const [avatarError, setAvatarError] = useState<string | null>(null)
+  const [error, setError] = useState<ApiError | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [saved, setSaved] = useState(false)
+
+  if (!user) return null
+
+  const handleFile = async (file: File | undefined) => {
+    setAvatarError(null)
+    if (!file) return
+    if (!file.type.startsWith('image/')) { setAvatarError('Choose an image file'); return }
+    if (file.size > MAX_UPLOAD_BYTES) { setAvatarError('Images must be under 5 MB'); return }
+    try {
+      setAvatar(await resizeAvatar(file))
+    } catch (e: unknown) {
+      setAvatarError(e instanceof Error ? e.message : 'Could not read that image')
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setSaved(false)
+    setSaving(true)
+    try {
+      await updateProfile({ firstName: firstName.trim(), lastName: lastName.trim(), phone: phone.trim(), avatar })
+      setSaved(true)
+    } catch (err: unknown) {
+      setError(toApiError(err, 'Could not save your details'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const previewName = `${firstName} ${lastName}`.trim() || user.name
+
+  return (
+    <Section title="Personal details" description="How you appear to colleagues across the app.">
+      <form onSubmit={handleSubmit} className="space-y-5">
+        <div className="flex items-center gap-4">
+          <Avatar name={previewName} src={avatar ?? undefined} size="xl" />
+          <div className="space-y-1.5">
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" size="sm" onClick={() => fileInput.current?.click()}>
+                <Camera size={14} /> {avatar ? 'Change photo' : 'Upload photo'}
+              </Button>
+              {avatar && (
+                <Button type="button" variant="ghost" size="sm" onClick={() => setAvatar(null)}>
+                  <Trash2 size={14} /> Remove
+                </Button>
+              )}
+            </div>
+            <p className={cn('text-xs', avatarError || error?.fieldErrors.avatar ? 'text-red-500' : 'text-slate-400')}>
+              {avatarError ?? error?.fieldErrors.avatar ?? 'Square images work best. PNG, JPEG or WebP.'}
+            </p>
+          </div>
+          <input
+            ref={fileInput}
+            type="file"
+            accept="image/png,image/jpeg,image/webp"
+            className="hidden"
+            onChange={e => { void handleFile(e.target.files?.[0]); e.target.value = '' }}
+          />
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <Input label="First name" value={firstName} onChange={e => setFirstName(e.target.value)}
+            leftIcon={<UserIcon size={14} />} error={error?.fieldErrors.firstName} required />
+          <Input label="Last name" value={lastName} onChange={e => setLastName(e.target.value)}
+            error={error?.fieldErrors.lastName} />
+          <Input label="Phone" value={phone} onChange={e => setPhone(e.target.value)}
+            leftIcon={<Phone size={14} />} placeholder="+61 400 000 000" error={error?.fieldErrors.phone} />
+          <Input label="Email" value={user.email} disabled readOnly />
+        </div>
+        <p className="text-xs text-slate-400">
+          {roleLabels[user.role]}{user.department ? ` · ${user.department}` : ''}. Ask a manager to change your email, role or department.
+        </p>
+
+        <FormAlert error={error} />
+        <div className="flex items-center justify-end gap-3">
+          <Saved show={saved} />
+          <Button type="submit" disabled={saving}>{saving ? 'Saving...' : 'Save details'}</Button>
+        </div>
+      </form>
+    </Section>
+  )
+}
+
+// ── Password ──────────────────────────────────────────────────────────────────
+
+function PasswordSection() {
+  const changePassword = useAuthStore(s => s.changePassword)
+  const [current, setCurrent] = useState('')
+  const [password, setPassword] = useState('')
+  const [confirm, setConfirm] = useState('')
+  const [problem, setProblem] = useState<string | null>(null)
+  const [error, setError] = useState<ApiError | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [saved, setSaved] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setSaved(false)
+    const local = passwordProblem(password, confirm)
+    setProblem(local)
+    if (local) return
+    setSaving(true)
+    try {
+      await changePassword(current, password)
+      setCurrent('')
+      setPassword('')
+      setConfirm('')
+      setSaved(true)
+    } catch (err: unknown) {
+      setError(toApiError(err, 'Could not update your password'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Section title="Password" description={`At least ${MIN_PASSWORD_LENGTH} characters, with a letter and a number.`}>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <Input label="Current password" type="password" value={current} onChange={e => setCurrent(e.target.value)}
+          leftIcon={<Lock size={14} />} error={error?.fieldErrors.currentPassword} required autoComplete="current-password" />
+        <div className="grid gap-4 sm:grid-cols-2">
+          <Input label="New password" type="password" value={password} onChange={e => setPassword(e.target.value)}
+            error={error?.fieldErrors.newPassword} required autoComplete="new-password" />
+          <Input label="Confirm new password" type="password" value={confirm} onChange={e => setConfirm(e.target.value)}
+            error={problem ?? undefined} required autoComplete="new-password" />
+        </div>
+        <FormAlert error={error} />
+        <div className="flex items-center justify-end gap-3">
+          <Saved show={saved} />
+          <Button type="submit" disabled={saving}>{saving ? 'Updating...' : 'Update password'}</Button>
+        </div>
+      </form>
+    </Section>
+  )
+}
+
+// ── Two-factor authentication ─────────────────────────────────────────────────
+
+type MfaAction = 'disable' | 'regenerate'
+
+function TwoFactorSection() {
+  // /auth routes act as the signed-in account, so show its status even while viewing as someone else
+  const { realUser, user, disableMfa, regenerateRecoveryCodes } = useAuthStore()
+  const account = realUser ?? user
+  const [codes, setCodes] = useState<string[] | null>(null)
+  const [action, setAction] = useState<MfaAction | null>(null)
+  const [password, setPassword] = useState('')
+  const [error, setError] = useState<ApiError | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  if (!account) return null
+
+  const openAction = (next: MfaAction | null) => {
+    setAction(next)
+    setPassword('')
+    setError(null)
+  }
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setBusy(true)
+    try {
+      if (action === 'regenerate') setCodes(await regenerateRecoveryCodes(password))
+      else await disableMfa(password)
+      openAction(null)
+    } catch (err: unknown) {
+      setError(toApiError(err, action === 'regenerate' ? 'Could not create new recovery codes' : 'Could not turn off two-factor authentication'))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const description = 'A code from your phone as well as your password when you sign in.'
+
+  if (codes) {
+    return (
+      <Section title="Two-factor authentication" description={description}>
+        <RecoveryCodeList codes={codes} onDone={() => setCodes(null)} />
+      </Section>
+    )
+  }
+
+  if (!account.mfaEnabled) {
+    return (
+      <Section title="Two-factor authentication" description={description}>
+        {account.mfaRequired && (
+          <p className="mb-4 bg-amber-50 border border-amber-200 text-amber-800 text-xs px-3 py-2.5 rounded-lg">
+            Your administrator requires two-factor authentication on this account.
+          </p>
+        )}
+        <TwoFactorEnrolment onEnabled={setCodes} />
+      </Section>
+    )
+  }
+
+  const remaining = account.recoveryCodesRemaining
+
+  return (
+    <Section title="Two-factor authentication" description={description}>
+      <div className="flex items-start gap-3">
+        <div className="w-9 h-9 rounded-xl bg-green-50 flex items-center justify-center text-green-600 flex-shrink-0">
+          <ShieldCheck size={18} />
+        </div>
+        <div className="flex-1">
+          <p className="text-sm font-medium text-slate-700">On — authenticator app</p>
+          {remaining !== undefined && (
+            <p className={cn('text-xs', remaining <= 2 ? 'text-amber-600' : 'text-slate-400')}>
+              {remaining === 0 ? 'No recovery codes left — create new ones.' : `${remaining} recovery code${remaining === 1 ? '' : 's'} left.`}
+            </p>
+          )}
+        </div>
+      </div>
+
+      {action ? (
+        <form onSubmit={handleConfirm} className="mt-5 space-y-3">
+          <p className="text-sm text-slate-600">
+            {action === 'regenerate'
+              ? 'Your current recovery codes will stop working. Confirm your password to continue.'
+              : 'You will sign in with just your password. Confirm your password to continue.'}
+          </p>
+          <div className="max-w-xs">
+            <Input label="Password" type="password" value={password} onChange={e => setPassword(e.target.value)}
+              leftIcon={<Lock size={14} />} error={error?.fieldErrors.password} required autoComplete="current-password" autoFocus />
+          </div>
+          <FormAlert error={error} />
+          <div className="flex gap-2">
+            <Button type="submit" variant={action === 'disable' ? 'destructive' : 'default'} disabled={busy}>
+              {busy ? 'Working...' : action === 'regenerate' ? 'Create new codes' : 'Turn off'}
+            </Button>
+            <Button type="button" variant="ghost" onClick={() => openAction(null)} disabled={busy}>Cancel</Button>
+          </div>
+        </form>
+      ) : (
+        <div className="mt-5 flex flex-wrap items-center gap-2">
+          <Button type="button" variant="outline" size="sm" onClick={() => openAction('regenerate')}>New recovery codes</Button>
+          {account.mfaRequired
+            ? <span className="text-xs text-slate-400">Required by your administrator</span>
+            : <Button type="button" variant="ghost" size="sm" onClick={() => openAction('disable')}>Turn off</Button>}
+        </div>
+      )}
+    </Section>
+  )
+}
+
+// ── Preferences ───────────────────────────────────────────────────────────────
+
+const VIEW_OPTIONS: { value: TimesheetView; label: string }[] = [
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+]
+
+const WEEK_START_OPTIONS: { value: UserPreferences['weekStartsOn']; label: string }[] = [
+  { value: 1, label: 'Monday' },
+  { value: 0, label: 'Sunday' },
+]
+
+function Segmented<T extends string | number>({ options, value, onChange }: {
+  options: { value: T; label: string }[]
+  value: T
+  onChange: (value: T) => void
+}) {
+  return (
+    <div className="inline-flex rounded-lg bg-slate-100 p-1">
+      {options.map(o => (
+        <button
+          key={o.value}
+          type="button"
+          onClick={() => onChange(o.value)}
+          className={cn(
+            'rounded-md px-3.5 py-1.5 text-xs font-semibold transition-colors',
+            value === o.value ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500 hover:text-slate-700',
+          )}
+        >
+          {o.label}
+        </button>
+      ))}
+    </div>
+  )
+}
+
+function PreferencesSection() {
+  const { preferences, update } = usePreferencesStore()
+  const [error, setError] = useState<ApiError | null>(null)
+  const [saved, setSaved] = useState(false)
+
+  // Each control saves on change — there's no form to submit
+  const save = async (patch: Partial<UserPreferences>) => {
+    setError(null)
+    setSaved(false)
+    try {
+      await update(patch)
+      setSaved(true)
+    } catch (err: unknown) {
+      setError(toApiError(err, 'Could not save your preferences'))
+    }
+  }
+
+  const row = 'flex items-center justify-between gap-4 py-3 first:pt-0 last:pb-0'
+
+  return (
+    <Section title="Preferences" description="Saved to your account and applied whenever you sign in.">
+      <div className="divide-y divide-slate-100">
+        <div className={row}>
+          <div>
+            <p className="text-sm font-medium text-slate-700">Default timesheet view</p>
+            <p className="text-xs text-slate-400">The tab Timesheets opens on.</p>
+          </div>
+          <Segmented options={VIEW_OPTIONS} value={preferences.timesheetView} onChange={v => void save({ timesheetView: v })} />
+        </div>
+        <div className={row}>
+          <div>
+            <p className="text-sm font-medium text-slate-700">Week starts on</p>
+            <p className="text-xs text-slate-400">Used by the weekly timesheet and week navigation.</p>
+          </div>
+          <Segmented options={WEEK_START_OPTIONS} value={preferences.weekStartsOn} onChange={v => void save({ weekStartsOn: v })} />
+        </div>
+        <div className={row}>
+          <div>
+            <p className="text-sm font-medium text-slate-700">Collapse the sidebar</p>
+            <p className="text-xs text-slate-400">Start with icons only for more room.</p>
+          </div>
+          <input
+            type="checkbox"
+            checked={preferences.sidebarCollapsed}
+            onChange={e => void save({ sidebarCollapsed: e.target.checked })}
+            className="w-4 h-4 rounded border-slate-300 accent-blue-600 cursor-pointer"
+          />
+        </div>
+      </div>
+      <div className="mt-4 flex justify-end">
+        {error ? <p role="alert" className="text-xs text-red-600">{error.message}</p> : <Saved show={saved} />}
+      </div>
+    </Section>
+  )
+}
+
+export function Profile() {
+  const user = useAuthStore(s => s.user)
+
+  return (
+    <div className="max-w-3xl space-y-6">
+      <div>
+        <h1 className="text-[22px] font-bold text-slate-900">My Profile</h1>
+        <p className="text-sm text-slate-500 mt-0.5">Manage your details, sign-in security and preferences.</p>
+      </div>
+      {/* Keyed so the form resets if the signed-in user changes (e.g. view-as) */}
+      <DetailsSection key={user?.id} />
+      <PasswordSection />
+      <TwoFactorSection />
+      <PreferencesSection />
+    </div>
+  )
+}
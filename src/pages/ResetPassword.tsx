@@ -0,0 +1,118 @@
+import { useEffect, useState } from 'react'
+import { Link, useNavigate, useParams } from 'react-router-dom'
+import { Lock, ArrowLeft, Loader2 } from 'lucide-react'
+import { AuthLayout } from '@/components/layout/AuthLayout'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { checkResetToken, resetPassword, passwordProblem, MIN_PASSWORD_LENGTH } from '@/lib/passwords'
+import { toApiError } from '@/lib/api'
+import type { ApiError } from '@/lib/api'
+
+type TokenState = { status: 'checking' } | { status: 'valid'; email: string } | { status: 'invalid'; message: string }
+
+export function ResetPassword() {
+  const { token = '' } = useParams()
+  const navigate = useNavigate()
+  const [tokenState, setTokenState] = useState<TokenState>({ status: 'checking' })
+  const [password, setPassword] = useState('')
+  const [confirm,  setConfirm]  = useState('')
+  const [problem,  setProblem]  = useState<string | null>(null)
+  const [error,    setError]    = useState<ApiError | null>(null)
+  const [loading,  setLoading]  = useState(false)
+
+  // Check the link up front so nobody types a new password into a dead form
+  useEffect(() => {
+    let cancelled = false
+    checkResetToken(token)
+      .then(({ email }) => { if (!cancelled) setTokenState({ status: 'valid', email }) })
+      .catch((err: unknown) => {
+        if (!cancelled) setTokenState({ status: 'invalid', message: toApiError(err, 'This link is no longer valid').message })
+      })
+    return () => { cancelled = true }
+  }, [token])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    const local = passwordProblem(password, confirm)
+    setProblem(local)
+    if (local) return
+    setLoading(true)
+    try {
+      await resetPassword(token, password)
+      navigate('/login', { replace: true, state: { notice: 'Your password has been updated. Sign in with the new one.' } })
+    } catch (err: unknown) {
+      const apiError = toApiError(err, 'Could not update your password')
+      if (apiError.status === 410) setTokenState({ status: 'invalid', message: apiError.message })
+      else setError(apiError)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <AuthLayout>
+      <div className="bg-white rounded-2xl border border-slate-200/80 shadow-sm p-8">
+        {tokenState.status === 'checking' && (
+          <div className="flex items-center justify-center gap-2 py-8 text-sm text-slate-500">
+            <Loader2 size={16} className="animate-spin" /> Checking your link…
+          </div>
+        )}
+
+        {tokenState.status === 'invalid' && (
+          <div className="text-center">
+            <h1 className="text-xl font-bold text-slate-900">Link expired</h1>
+            <p className="text-slate-500 text-sm mt-2">{tokenState.message}. Request a new one to continue.</p>
+            <Link to="/forgot-password" className="mt-5 inline-block">
+              <Button>Send a new link</Button>
+            </Link>
+          </div>
+        )}
+
+        {tokenState.status === 'valid' && (
+          <>
+            <div className="mb-6">
+              <h1 className="text-xl font-bold text-slate-900">Choose a new password</h1>
+              <p className="text-slate-500 text-sm mt-1">
+                For <span className="font-semibold text-slate-700">{tokenState.email}</span>. At least {MIN_PASSWORD_LENGTH} characters, with a letter and a number.
+              </p>
+            </div>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <Input
+                label="New password"
+                type="password"
+                value={password}
+                onChange={e => setPassword(e.target.value)}
+                leftIcon={<Lock size={14} />}
+                error={error?.fieldErrors.password}
+                required
+                autoComplete="new-password"
+                autoFocus
+              />
+              <Input
+                label="Confirm new password"
+                type="password"
+                value={confirm}
+                onChange={e => setConfirm(e.target.value)}
+                leftIcon={<Lock size={14} />}
+                error={problem ?? undefined}
+                required
+                autoComplete="new-password"
+              />
+              {error && !error.hasFieldErrors && (
+                <p role="alert" className="bg-red-50 border border-red-200 text-red-600 text-xs px-3 py-2.5 rounded-lg">{error.message}</p>
+              )}
+              <Button type="submit" className="w-full" disabled={loading}>
+                {loading ? 'Saving...' : 'Set password'}
+              </Button>
+            </form>
+          </>
+        )}
+
+        <Link to="/login" className="mt-6 flex items-center justify-center gap-1.5 text-sm text-blue-600 hover:text-blue-700 font-semibold">
+          <ArrowLeft size={14} /> Back to sign in
+        </Link>
+      </div>
+    </AuthLayout>
+  )
+}
@@ -0,0 +1,452 @@
+import { useState } from 'react'
+import { Lock, LockOpen, Plus, Save, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { Input, SimpleSelect } from '@/components/ui/Input'
+import { Section, Saved, FormAlert } from '@/components/ui/Section'
+import { useTimesheetRules } from '@/hooks/useTimesheetRules'
+import { usePeriodLocks } from '@/hooks/usePeriodLocks'
+import type { PeriodLock } from '@/hooks/usePeriodLocks'
+import { useUsers } from '@/hooks/useUsers'
+import { WEEKDAY_NAMES } from '@/lib/timesheetRules'
+import type { TimesheetRules } from '@/lib/timesheetRules'
+import { ROUNDING_INCREMENTS } from '@/lib/timeRounding'
+import type { RoundingPolicy, RoundingDirection, RoundingIncrement } from '@/lib/timeRounding'
+import { AU_STATES, publicHolidays } from '@/lib/publicHolidays'
+import type { AuState } from '@/lib/publicHolidays'
+import { monthRange } from '@/lib/periodLocks'
+import { cn, formatDate } from '@/lib/utils'
+
+// Monday first on screen; the rules themselves are stored Sunday first
+const DAY_ORDER = [1, 2, 3, 4, 5, 6, 0]
+
+const toStrings = (hours: number[]) => hours.map(String)
+const toNumbers = (hours: string[]) => hours.map(h => Number(h) || 0)
+
+function WeekHoursInputs({ hours, onChange, invalid }: {
+  hours: string[]
+  onChange: (hours: string[]) => void
+  invalid?: boolean
+}) {
+  return (
+    <div className="grid grid-cols-7 gap-2">
+      {DAY_ORDER.map(day => (
+        <label key={day} className="space-y-1">
+          <span className="block text-[11px] font-semibold uppercase tracking-wide text-slate-400">{WEEKDAY_NAMES[day].slice(0, 3)}</span>
+          <input
+            type="number"
+            min={0}
+            max={24}
+            step={0.25}
+            value={hours[day]}
+            onChange={e => onChange(hours.map((h, i) => (i === day ? e.target.value : h)))}
+            className={cn(
+              'h-9 w-full rounded-lg border bg-white px-2 text-center text-sm text-slate-900 focus:outline-none focus:ring-2 focus:ring-blue-500/30 focus:border-blue-500',
+              invalid ? 'border-red-500' : 'border-slate-200',
+            )}
+          />
+        </label>
+      ))}
+    </div>
+  )
+}
+
+function Toggle({ label, hint, checked, onChange }: {
+  label: string
+  hint: string
+  checked: boolean
+  onChange: (checked: boolean) => void
+}) {
+  return (
+    <label className="flex items-center justify-between gap-4 py-3 first:pt-0 cursor-pointer">
+      <div>
+        <p className="text-sm font-medium text-slate-700">{label}</p>
+        <p className="text-xs text-slate-400">{hint}</p>
+      </div>
+      <input
+        type="checkbox"
+        checked={checked}
+        onChange={e => onChange(e.target.checked)}
+        className="w-4 h-4 rounded border-slate-300 accent-blue-600 cursor-pointer"
+      />
+    </label>
+  )
+}
+
+function HolidayList({ state }: { state: AuState }) {
+  const year = new Date().getFullYear()
+  const weekdays = publicHolidays(state, year).filter(h => {
+    const day = new Date(`${h.date}T00:00:00`).getDay()
+    return day !== 0 && day !== 6
+  })
+  return (
+    <details className="text-xs text-slate-600">
+      <summary className="cursor-pointer text-blue-600 font-medium select-none">{weekdays.length} weekday holidays in {year}</summary>
+      <ul className="mt-2 grid gap-1 sm:grid-cols-2">
+        {weekdays.map(h => (
+          <li key={h.date} className="flex gap-2">
+            <span className="w-24 text-slate-400">
+              {new Date(`${h.date}T00:00:00`).toLocaleDateString('en-AU', { weekday: 'short', day: 'numeric', month: 'short' })}
+            </span>
+            {h.name}
+          </li>
+        ))}
+      </ul>
+    </details>
+  )
+}
+
+// ── Timesheet rules ───────────────────────────────────────────────────────────
+
+function TimesheetRulesForm({ initial }: { initial: TimesheetRules }) {
+  const { saveRules, mutationError } = useTimesheetRules()
+  const { users } = useUsers({ all: true })
+  const [standard, setStandard] = useState(() => toStrings(initial.standardHours))
+  const [overrides, setOverrides] = useState(() =>
+    Object.entries(initial.userHours).map(([userId, hours]) => ({ userId, hours: toStrings(hours) })))
+  const [tolerance, setTolerance] = useState(String(initial.toleranceHours))
+  const [underHours, setUnderHours] = useState(initial.underHours)
+  const [overHours, setOverHours] = useState(initial.overHours)
+  const [jobOvertime, setJobOvertime] = useState(initial.jobOvertime)
+  const [percent, setPercent] = useState(String(initial.jobOvertimePercent))
+  const [holidayState, setHolidayState] = useState<AuState | ''>(initial.holidayState ?? '')
+  const [rounding, setRounding] = useState(initial.rounding)
+  const [addUserId, setAddUserId] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [saved, setSaved] = useState(false)
+
+  const nameOf = (id: string) => users.find(u => u.id === id)?.name ?? 'Unknown user'
+  const addable = users.filter(u => u.status === 'active' && !overrides.some(o => o.userId === u.id))
+
+  const addOverride = () => {
+    if (!addUserId) return
+    setOverrides(prev => [...prev, { userId: addUserId, hours: [...standard] }])
+    setAddUserId('')
+    setSaved(false)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaved(false)
+    setSaving(true)
+    const ok = await saveRules({
+      standardHours: toNumbers(standard),
+      userHours: Object.fromEntries(overrides.map(o => [o.userId, toNumbers(o.hours)])),
+      toleranceHours: Number(tolerance),
+      underHours,
+      overHours,
+      jobOvertime,
+      jobOvertimePercent: Number(percent),
+      holidayState: holidayState || null,
+      rounding,
+    })
+    setSaving(false)
+    setSaved(ok)
+  }
+
+  const fieldErrors = mutationError?.fieldErrors
+
+  return (
+    <form onSubmit={handleSubmit} onChange={() => setSaved(false)} className="space-y-6">
+      <div className="space-y-2">
+        <div>
+          <p className="text-sm font-medium text-slate-700">Standard hours</p>
+          <p className="text-xs text-slate-400">Expected hours for each day of the week. Days set to 0 aren't working days.</p>
+        </div>
+        <WeekHoursInputs hours={standard} onChange={setStandard} invalid={!!fieldErrors?.standardHours} />
+        {fieldErrors?.standardHours && <p role="alert" className="text-xs text-red-600">{fieldErrors.standardHours}</p>}
+      </div>
+
+      <div className="space-y-3">
+        <div>
+          <p className="text-sm font-medium text-slate-700">Individual hours</p>
+          <p className="text-xs text-slate-400">Part-time staff or anyone on a different pattern. Replaces the standard hours for that person.</p>
+        </div>
+        {overrides.map(o => (
+          <div key={o.userId} className="rounded-lg border border-slate-200 p-3 space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-semibold text-slate-800">{nameOf(o.userId)}</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => { setOverrides(prev => prev.filter(p => p.userId !== o.userId)); setSaved(false) }}
+                aria-label={`Remove individual hours for ${nameOf(o.userId)}`}
+              >
+                <Trash2 size={14} /> Remove
+              </Button>
+            </div>
+            <WeekHoursInputs
+              hours={o.hours}
+              onChange={hours => setOverrides(prev => prev.map(p => (p.userId === o.userId ? { ...p, hours } : p)))}
+            />
+          </div>
+        ))}
+        {fieldErrors?.userHours && <p role="alert" className="text-xs text-red-600">{fieldErrors.userHours}</p>}
+        <div className="flex items-end gap-2 max-w-md">
+          <div className="flex-1">
+            <SimpleSelect
+              aria-label="Add individual hours for"
+              value={addUserId}
+              onChange={e => setAddUserId(e.target.value)}
+              placeholder="Choose a team member..."
+              options={addable.map(u => ({ value: u.id, label: u.name }))}
+            />
+          </div>
+          <Button type="button" variant="outline" onClick={addOverride} disabled={!addUserId}>
+            <Plus size={14} /> Add
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="max-w-xs">
+          <SimpleSelect
+            label="Public holidays"
+            value={holidayState}
+            onChange={e => setHolidayState(e.target.value as AuState | '')}
+            placeholder="None — don't take holidays off"
+            options={AU_STATES.map(s => ({ value: s.value, label: s.label }))}
+            error={fieldErrors?.holidayState}
+          />
+        </div>
+        <p className="text-xs text-slate-400">Nobody is expected to work on the state's public holidays, and approved leave counts the same way.</p>
+        {holidayState && <HolidayList state={holidayState} />}
+      </div>
+
+      <div className="max-w-xs">
+        <Input
+          label="Tolerance (hours)"
+          type="number"
+          min={0}
+          max={4}
+          step={0.25}
+          value={tolerance}
+          onChange={e => setTolerance(e.target.value)}
+          error={fieldErrors?.toleranceHours}
+        />
+        <p className="text-xs text-slate-400 mt-1">A day within this many hours of the expected total isn't flagged.</p>
+      </div>
+
+      <RoundingInputs value={rounding} onChange={setRounding} error={fieldErrors?.rounding} />
+
+      <div className="divide-y divide-slate-100">
+        <Toggle label="Flag short days" hint="Day totals under the expected hours." checked={underHours} onChange={setUnderHours} />
+        <Toggle label="Flag long days" hint="Day totals over the expected hours." checked={overHours} onChange={setOverHours} />
+        <Toggle label="Flag jobs over quote" hint="Time logged to a job that has passed its quoted hours." checked={jobOvertime} onChange={setJobOvertime} />
+        {jobOvertime && (
+          <div className="py-3 max-w-xs">
+            <Input
+              label="Flag once a job passes its quote by (%)"
+              type="number"
+              min={0}
+              max={1000}
+              step={1}
+              value={percent}
+              onChange={e => setPercent(e.target.value)}
+              error={fieldErrors?.jobOvertimePercent}
+            />
+          </div>
+        )}
+      </div>
+
+      <FormAlert error={mutationError} />
+      <div className="flex items-center justify-end gap-3">
+        <Saved show={saved} />
+        <Button type="submit" disabled={saving}>
+          <Save size={14} /> {saving ? 'Saving...' : 'Save rules'}
+        </Button>
+      </div>
+    </form>
+  )
+}
+
+function RoundingInputs({ value, onChange, error }: {
+  value: RoundingPolicy
+  onChange: (rounding: RoundingPolicy) => void
+  error?: string
+}) {
+  return (
+    <div className="space-y-2">
+      <div>
+        <p className="text-sm font-medium text-slate-700">Billing time rounding</p>
+        <p className="text-xs text-slate-400">
+          Applied when timer time is logged and when billable amounts are worked out. Clients can have their own policy on the Clients page.
+        </p>
+      </div>
+      <div className="grid grid-cols-2 gap-3 max-w-md">
+        <SimpleSelect
+          aria-label="Rounding direction"
+          value={value.direction}
+          onChange={e => onChange({ ...value, direction: e.target.value as RoundingDirection })}
+          options={[
+            { value: 'UP', label: 'Round up' },
+            { value: 'NEAREST', label: 'Round to nearest' },
+            { value: 'DOWN', label: 'Round down' },
+          ]}
+        />
+        <SimpleSelect
+          aria-label="Rounding unit"
+          value={String(value.increment)}
+          onChange={e => onChange({ ...value, increment: Number(e.target.value) as RoundingIncrement })}
+          options={ROUNDING_INCREMENTS.map(i => ({ value: String(i), label: `${i} minutes (${Math.round((i / 60) * 1000) / 1000}h)` }))}
+        />
+      </div>
+      {error && <p role="alert" className="text-xs text-red-600">{error}</p>}
+    </div>
+  )
+}
+
+function TimesheetRulesSection() {
+  const { rules, loading } = useTimesheetRules()
+
+  return (
+    <Section
+      title="Timesheet rules"
+      description="When a day or job is flagged for a manager's attention, and how time is rounded for billing. The timesheet screens and approvals use the same rules."
+    >
+      {loading ? <p className="text-sm text-slate-400">Loading rules...</p> : <TimesheetRulesForm initial={rules} />}
+    </Section>
+  )
+}
+
+// ── Period locks ──────────────────────────────────────────────────────────────
+
+function lastMonth(): string {
+  const d = new Date()
+  d.setDate(1)
+  d.setMonth(d.getMonth() - 1)
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`
+}
+
+const formatPeriod = (lock: Pick<PeriodLock, 'startDate' | 'endDate'>) =>
+  `${formatDate(`${lock.startDate}T00:00:00`)} – ${formatDate(`${lock.endDate}T00:00:00`)}`
+
+function UnlockForm({ lock, onDone }: { lock: PeriodLock; onDone: () => void }) {
+  const { unlockPeriod, mutationError } = usePeriodLocks()
+  const [reason, setReason] = useState('')
+  const [busy, setBusy] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setBusy(true)
+    const unlocked = await unlockPeriod(lock.id, reason.trim())
+    setBusy(false)
+    if (unlocked) onDone()
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-3 space-y-2">
+      <Input
+        label="Reason for reopening"
+        value={reason}
+        onChange={e => setReason(e.target.value)}
+        placeholder="e.g. Credit note raised for Smith & Co"
+        error={mutationError?.fieldErrors?.reason}
+        autoFocus
+      />
+      <FormAlert error={mutationError} />
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={onDone}>Cancel</Button>
+        <Button type="submit" size="sm" disabled={busy || !reason.trim()}>
+          <LockOpen size={14} /> {busy ? 'Unlocking...' : 'Unlock period'}
+        </Button>
+      </div>
+    </form>
+  )
+}
+
+function PeriodLocksSection() {
+  const { locks, loading, lockPeriod, mutationError } = usePeriodLocks()
+  const [month, setMonth] = useState(lastMonth)
+  const [note, setNote] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [unlocking, setUnlocking] = useState<string | null>(null)
+
+  const active = locks.filter(l => !l.unlockedAt)
+  const history = locks.filter(l => l.unlockedAt)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!month) return
+    setBusy(true)
+    const locked = await lockPeriod({ ...monthRange(month), note: note.trim() || undefined })
+    setBusy(false)
+    if (locked) setNote('')
+  }
+
+  return (
+    <Section
+      title="Period locks"
+      description="Close a month once it's invoiced. Entries dated inside a locked period are read-only for everyone except admins."
+    >
+      <div className="space-y-6">
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div className="grid gap-3 sm:grid-cols-[10rem_1fr]">
+            <Input label="Month" type="month" value={month} onChange={e => setMonth(e.target.value)} required error={mutationError?.fieldErrors?.startDate} />
+            <Input label="Note (optional)" value={note} onChange={e => setNote(e.target.value)} placeholder="e.g. Invoiced 3 Oct" />
+          </div>
+          <FormAlert error={mutationError} />
+          <div className="flex justify-end">
+            <Button type="submit" disabled={busy || !month}>
+              <Lock size={14} /> {busy ? 'Locking...' : 'Lock month'}
+            </Button>
+          </div>
+        </form>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-slate-700">Locked periods</p>
+          {loading && <p className="text-sm text-slate-400">Loading locks...</p>}
+          {!loading && active.length === 0 && <p className="text-xs text-slate-400">Nothing is locked yet.</p>}
+          {active.map(lock => (
+            <div key={lock.id} className="rounded-lg border border-slate-200 p-3">
+              <div className="flex items-center gap-3">
+                <Lock size={14} className="text-amber-600 flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-semibold text-slate-800">{formatPeriod(lock)}</p>
+                  <p className="text-xs text-slate-500">
+                    Locked by {lock.lockedByName || 'an admin'} on {formatDate(lock.lockedAt)}{lock.note && ` · ${lock.note}`}
+                  </p>
+                </div>
+                {unlocking !== lock.id && (
+                  <Button type="button" variant="outline" size="sm" onClick={() => setUnlocking(lock.id)}>
+                    <LockOpen size={14} /> Unlock
+                  </Button>
+                )}
+              </div>
+              {unlocking === lock.id && <UnlockForm lock={lock} onDone={() => setUnlocking(null)} />}
+            </div>
+          ))}
+        </div>
+
+        {history.length > 0 && (
+          <details className="text-xs text-slate-600">
+            <summary className="cursor-pointer text-blue-600 font-medium select-none">{history.length} reopened {history.length === 1 ? 'period' : 'periods'}</summary>
+            <ul className="mt-2 space-y-2">
+              {history.map(lock => (
+                <li key={lock.id} className="rounded-lg bg-slate-50 px-3 py-2">
+                  <p className="font-medium text-slate-700">{formatPeriod(lock)}</p>
+                  <p className="text-slate-500">
+                    Unlocked by {lock.unlockedByName || 'an admin'} on {formatDate(lock.unlockedAt)}: {lock.unlockReason}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          </details>
+        )}
+      </div>
+    </Section>
+  )
+}
+
+export function Settings() {
+  return (
+    <div className="max-w-3xl space-y-6">
+      <div>
+        <h1 className="text-[22px] font-bold text-slate-900">System Settings</h1>
+        <p className="text-sm text-slate-500 mt-0.5">Firm-wide rules that apply to everyone.</p>
+      </div>
+      <TimesheetRulesSection />
+      <PeriodLocksSection />
+    </div>
+  )
+}
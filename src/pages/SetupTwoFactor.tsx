@@ -0,0 +1,51 @@
+import { useState } from 'react'
+import { Navigate, useNavigate } from 'react-router-dom'
+import { ShieldCheck } from 'lucide-react'
+import { AuthLayout } from '@/components/layout/AuthLayout'
+import { TwoFactorEnrolment, RecoveryCodeList } from '@/components/auth/TwoFactor'
+import { useAuthStore } from '@/store/authStore'
+
+/**
+ * Forced enrolment for accounts an admin has marked as requiring two-factor.
+ * RequireAuth keeps the user here until an authenticator is set up.
+ */
+export function SetupTwoFactor() {
+  const navigate = useNavigate()
+  const { user, realUser, logout } = useAuthStore()
+  // Checked once: enrolling flips mfaEnabled before the recovery codes have been shown
+  const [alreadyEnabled] = useState(() => !!(realUser ?? user)?.mfaEnabled)
+  const [codes, setCodes] = useState<string[] | null>(null)
+
+  if (alreadyEnabled) return <Navigate to="/profile" replace />
+
+  return (
+    <AuthLayout>
+      <div className="bg-white rounded-2xl border border-slate-200/80 shadow-sm p-8">
+        <div className="mb-6">
+          <div className="mb-4 w-11 h-11 rounded-2xl bg-blue-50 flex items-center justify-center text-blue-600">
+            <ShieldCheck size={20} />
+          </div>
+          <h1 className="text-xl font-bold text-slate-900">
+            {codes ? 'Save your recovery codes' : 'Set up two-factor authentication'}
+          </h1>
+          <p className="text-slate-500 text-sm mt-1">
+            {codes
+              ? 'Two-factor authentication is on. Keep these codes in case you lose access to your phone.'
+              : 'Your administrator requires a code from your phone as well as your password to sign in.'}
+          </p>
+        </div>
+        {codes
+          ? <RecoveryCodeList codes={codes} onDone={() => navigate('/dashboard', { replace: true })} />
+          : <TwoFactorEnrolment onEnabled={setCodes} />}
+        {!codes && (
+          <button
+            onClick={async () => { await logout(); navigate('/login', { replace: true }) }}
+            className="mt-6 w-full text-center text-sm text-slate-500 hover:text-slate-700 font-medium"
+          >
+            Sign out instead
+          </button>
+        )}
+      </div>
+    </AuthLayout>
+  )
+}
@@ -1,10 +1,16 @@
 import { useState, useEffect, useRef } from 'react'
 import type { Task, TaskStatus } from '@/types'
 import { Modal } from '@/components/ui/Modal'
+import { FieldError, FormError } from '@/components/ui/FieldError'
+import { LoadMore } from '@/components/ui/LoadMore'
 import { useAuthStore } from '@/store/authStore'
+import { usePermissions } from '@/hooks/usePermissions'
 import { useTasks } from '@/hooks/useTasks'
 import { useJobs } from '@/hooks/useJobs'
 import { useUsers } from '@/hooks/useUsers'
+import { useTimerSessions } from '@/hooks/useTimerSessions'
+import { LogSessionModal } from '@/components/timesheets/TimerSessions'
+import type { ApiError } from '@/lib/api'
 import { Avatar } from '@/components/ui/Avatar'
 import {
   Play, Pause, CheckSquare, Plus, Clock, ListTodo,
@@ -288,9 +294,26 @@ export function Tasks() {
   const [selected, setSelected] = useState<Task | null>(null)
   const timerRef = useRef<ReturnType<typeof setInterval> | null>(null)
 
-  const { tasks, loading, error, createTask, updateTask, updateStatus, tickTimer, startTimer, pauseTimer } = useTasks()
-  const { jobs } = useJobs()
-  const { users } = useUsers({ status: 'active' })
+  const can = usePermissions()
+  const canViewAll = can('tasks.viewAll')
+  // Employees only ever see their own tasks, so filter server-side and keep the totals honest
+  const {
+    tasks, total, hasMore, loadingMore, loadMore, loading, error,
+    createTask, updateTask, updateStatus, tickTimer, startTimer, pauseTimer, mutationError, resetMutationError,
+  } = useTasks(canViewAll ? {} : { assignedUserId: user?.id })
+  const { jobs } = useJobs({ all: true })
+  const { users } = useUsers({ status: 'active', all: true })
+  const { sessions } = useTimerSessions()
+  // After a pause, offer to log the session it produced as soon as it arrives
+  const [logPrompt, setLogPrompt] = useState<{ taskId: string; since: string } | null>(null)
+  const promptSession = logPrompt
+    ? sessions.filter(s => s.taskId === logPrompt.taskId && s.endedAt >= logPrompt.since).at(-1)
+    : undefined
+
+  const handlePause = async (id: string) => {
+    const since = new Date().toISOString()
+    if (await pauseTimer(id)) setLogPrompt({ taskId: id, since })
+  }
 
   // Tick running timers locally every second
   useEffect(() => {
@@ -307,9 +330,8 @@ export function Tasks() {
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [tasks.filter(t => t.timerRunning).map(t => t.id).join(',')])
 
-  const isManager = user?.role !== 'employee'
   // tasks used for dashboard analytics (manager = all, employee = only assigned)
-const userTasks = isManager
+const userTasks = canViewAll
 ? tasks
 : tasks.filter(t => t.assignedToIds?.includes(user?.id ?? ''))
 
@@ -320,7 +342,7 @@ const userTasks = isManager
                        t.jobTitle.toLowerCase().includes(search.toLowerCase())
     const matchStatus = statusFilter === 'all' || t.status === statusFilter
     // Employees only see tasks assigned to them
-    const matchUser = isManager ? true : (t.assignedToIds?.includes(user?.id ?? '') ?? false)
+    const matchUser = canViewAll ? true : (t.assignedToIds?.includes(user?.id ?? '') ?? false)
     return matchSearch && matchStatus && matchUser
   })
 
@@ -331,17 +353,17 @@ const userTasks = isManager
     await updateStatus(id, 'completed')
   }
 
-  // An assigned user OR any manager can see/control the timer
+  // An assigned user OR anyone who manages tasks can see/control the timer
   const canControlTimer = (task: Task) => {
-    if (isManager) return true
+    if (can('tasks.manage')) return true
     return task.assignedToIds?.includes(user?.id ?? '') ?? false
   }
 
-  const canEdit = isManager
+  const canEdit = can('tasks.manage')
   // The "active task" for the live banner — any running task visible to this user
   const activeTask = tasks.find(t => t.timerRunning && canControlTimer(t))
   const statusTabs = [
-    { key: 'all' as const,         label: 'All',         count: userTasks.length },
+    { key: 'all' as const,         label: 'All',         count: total },
     { key: 'todo' as const,        label: 'To Do',       count: userTasks.filter(t => t.status === 'todo').length },
     { key: 'in_progress' as const, label: 'In Progress', count: userTasks.filter(t => t.status === 'in_progress').length },
     { key: 'completed' as const,   label: 'Completed',   count: userTasks.filter(t => t.status === 'completed').length },
@@ -377,7 +399,7 @@ const userTasks = isManager
         <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: 24 }}>
           <h1 style={{ fontSize: 22, fontWeight: 700, color: '#1a1f36', margin: 0 }}>My Job & Tasks</h1>
           {canEdit && (
-            <button onClick={() => { setSelected(null); setShowModal(true) }}
+            <button onClick={() => { resetMutationError(); setSelected(null); setShowModal(true) }}
               style={{ display: 'inline-flex', alignItems: 'center', gap: 7, padding: '9px 18px', borderRadius: 8, background: '#2563eb', color: '#fff', border: 'none', fontWeight: 600, fontSize: 14, cursor: 'pointer' }}>
               <Plus size={16} /> Create Task
             </button>
@@ -387,7 +409,7 @@ const userTasks = isManager
         {/* Stats — counts based on all user's tasks (pre-filter), so totals stay accurate */}
         <div style={{ display: 'grid', gridTemplateColumns: 'repeat(5,1fr)', gap: 14, marginBottom: 24 }}>
         {[
-  { label: 'Total Tasks',  value: userTasks.length,                                          bar: '#6366f1', bg: '#eef2ff', fg: '#4338ca' },
+  { label: 'Total Tasks',  value: total,                                                      bar: '#6366f1', bg: '#eef2ff', fg: '#4338ca' },
   { label: 'To Do',        value: userTasks.filter(t => t.status === 'todo').length,         bar: '#64748b', bg: '#f1f5f9', fg: '#475569' },
   { label: 'In Progress',  value: userTasks.filter(t => t.status === 'in_progress').length,  bar: '#2563eb', bg: '#dbeafe', fg: '#1d4ed8' },
   { label: 'Completed',    value: userTasks.filter(t => t.status === 'completed').length,    bar: '#059669', bg: '#d1fae5', fg: '#065f46' },
@@ -423,7 +445,7 @@ const userTasks = isManager
               </span>
               {/* Pause button — only for assigned users or managers */}
               {canControlTimer(activeTask) && (
-                <button onClick={() => pauseTimer(activeTask.id)}
+                <button onClick={() => void handlePause(activeTask.id)}
                   style={{ display: 'grid', placeItems: 'center', width: 34, height: 34, borderRadius: 8, background: 'rgba(255,255,255,.12)', border: 'none', color: '#fff', cursor: 'pointer' }}>
                   <Pause size={15} />
                 </button>
@@ -465,7 +487,7 @@ const userTasks = isManager
             <table style={{ width: '100%', borderCollapse: 'collapse' }}>
               <thead>
                 <tr style={{ background: '#f9fafb' }}>
-                  {['Job ID', 'Task Name', 'Task Type', isManager ? 'Assigned To' : 'Assigned By', 'Est. Hours', 'Billing Type', 'Task Status', 'Time Tracking', ''].map(h => (
+                  {['Job ID', 'Task Name', 'Task Type', canViewAll ? 'Assigned To' : 'Assigned By', 'Est. Hours', 'Billing Type', 'Task Status', 'Time Tracking', ''].map(h => (
                     <th key={h} style={{ textAlign: 'left', padding: '11px 16px', fontSize: 11, fontWeight: 600, color: '#6b7280', textTransform: 'uppercase', letterSpacing: '0.05em', whiteSpace: 'nowrap' }}>{h}</th>
                   ))}
                 </tr>
@@ -505,7 +527,7 @@ const userTasks = isManager
                     <td style={{ padding: '13px 16px', fontSize: 13, color: '#374151' }}>{task.type || '—'}</td>
                     {/* Assigned To (managers) / Assigned By (employees) */}
                     <td style={{ padding: '13px 16px' }}>
-                      {isManager ? (
+                      {canViewAll ? (
                         <AssignedUsers userIds={task.assignedToIds || []} users={users} />
                       ) : (
                         task.createdByName ? (
@@ -561,7 +583,7 @@ const userTasks = isManager
                           !task.timerRunning ? (
                             <IconBtn onClick={() => startTimer(task.id)} title="Start Timer" bg="#dbeafe" hoverBg="#bfdbfe" color="#1d4ed8"><Play size={13} /></IconBtn>
                           ) : (
-                            <IconBtn onClick={() => pauseTimer(task.id)} title="Pause" bg="#fef3c7" hoverBg="#fde68a" color="#92400e"><Pause size={13} /></IconBtn>
+                            <IconBtn onClick={() => void handlePause(task.id)} title="Pause" bg="#fef3c7" hoverBg="#fde68a" color="#92400e"><Pause size={13} /></IconBtn>
                           )
                         )}
                         {task.status !== 'completed' && canControlTimer(task) && (
@@ -576,6 +598,7 @@ const userTasks = isManager
               </tbody>
             </table>
           </div>
+          <LoadMore shown={tasks.length} total={total} hasMore={hasMore} loading={loadingMore} onLoadMore={loadMore} noun="tasks" />
         </div>
 
         {/* Task detail modal — click on task name */}
@@ -586,6 +609,7 @@ const userTasks = isManager
             onClose={() => setDetailTask(null)}
             canEdit={canEdit}
             onEdit={() => {
+              resetMutationError()
               setSelected(detailTask)
               setDetailTask(null)
               setShowModal(true)
@@ -601,13 +625,17 @@ const userTasks = isManager
             task={selected}
             jobs={jobs}
             users={users}
+            error={mutationError}
             onSave={async t => {
-              if (selected) await updateTask(selected.id, t)
-              else await createTask({ ...t, jobId: t.jobId })
-              setShowModal(false)
+              // Keep the modal open on failure so the field errors can be fixed
+              const ok = selected ? await updateTask(selected.id, t) : !!(await createTask({ ...t, jobId: t.jobId }))
+              if (ok) setShowModal(false)
+              return ok
             }}
           />
         )}
+
+        {promptSession && <LogSessionModal session={promptSession} onClose={() => setLogPrompt(null)} />}
       </div>
     </>
   )
@@ -619,7 +647,15 @@ interface TaskModalProps {
   open: boolean; onClose: () => void; task: Task | null
   jobs: Array<{ id: string; jobId: string; title: string; clientName: string }>
   users: Array<{ id: string; name: string; email: string }>
-  onSave: (t: Partial<Task> & { jobId: string }) => void
+  error?: ApiError | null
+  onSave: (t: Partial<Task> & { jobId: string }) => Promise<boolean>
+}
+
+// Step → request fields edited there
+const TASK_STEP_FIELDS: Record<number, string[]> = {
+  1: ['title', 'jobId', 'type', 'status'],
+  2: ['assignedUserIds', 'estimatedHours', 'billable'],
+  3: ['description'],
 }
 
 const defaultTaskForm = {
@@ -628,7 +664,7 @@ const defaultTaskForm = {
   estimatedHours: 0, billable: true, status: 'todo' as TaskStatus, description: '',
 }
 
-function TaskModal({ open, onClose, task, jobs, users, onSave }: TaskModalProps) {
+function TaskModal({ open, onClose, task, jobs, users, error, onSave }: TaskModalProps) {
   const [step, setStep] = useState(1)
   const [form, setForm] = useState<Partial<Task> & { jobId: string }>(
     task ? { ...task, jobId: task.jobId, assignedToIds: task.assignedToIds || [] } : defaultTaskForm
@@ -665,6 +701,9 @@ function TaskModal({ open, onClose, task, jobs, users, onSave }: TaskModalProps)
     borderRadius: 8, color: '#fff', fontSize: 14, outline: 'none', boxSizing: 'border-box', fontFamily: 'inherit',
   }
   const lbl: React.CSSProperties = { fontSize: 13, color: '#94a3b8', fontWeight: 500, marginBottom: 5, display: 'block' }
+  const inputFor = (field: string): React.CSSProperties =>
+    error?.hasFieldError(field) ? { ...darkInput, borderColor: '#f87171' } : darkInput
+  const stepHasError = (num: number) => !!error?.hasFieldError(...(TASK_STEP_FIELDS[num] ?? []))
   const steps = [
     { num: 1, label: 'Task Details' },
     { num: 2, label: 'Assignment' },
@@ -686,10 +725,10 @@ function TaskModal({ open, onClose, task, jobs, users, onSave }: TaskModalProps)
                 <div style={{
                   width: 28, height: 28, borderRadius: '50%', display: 'flex', alignItems: 'center',
                   justifyContent: 'center', flexShrink: 0, fontSize: 13, fontWeight: 700,
-                  background: step > st.num ? '#16a34a' : step === st.num ? '#2563eb' : '#1e2d4a',
+                  background: stepHasError(st.num) ? '#dc2626' : step > st.num ? '#16a34a' : step === st.num ? '#2563eb' : '#1e2d4a',
                   color: '#fff', border: step === st.num ? '2px solid #3b82f6' : 'none',
                 }}>
-                  {step > st.num ? <Check size={14} /> : st.num}
+                  {step > st.num && !stepHasError(st.num) ? <Check size={14} /> : st.num}
                 </div>
                 <span style={{ fontSize: 13, color: step === st.num ? '#fff' : '#64748b', fontWeight: step === st.num ? 600 : 400 }}>
                   {st.label}
@@ -701,6 +740,7 @@ function TaskModal({ open, onClose, task, jobs, users, onSave }: TaskModalProps)
 
         {/* Right form area */}
         <div style={{ flex: 1, padding: '32px 28px', display: 'flex', flexDirection: 'column' }}>
+          <FormError error={error} />
 
           {/* Step 1 — Task Details */}
           {step === 1 && (
@@ -709,32 +749,36 @@ function TaskModal({ open, onClose, task, jobs, users, onSave }: TaskModalProps)
               <div style={{ display: 'flex', flexDirection: 'column', gap: 16 }}>
                 <div>
                   <label style={lbl}>Task Name</label>
-                  <input style={darkInput} value={form.name ?? ''} onChange={e => s('name', e.target.value)} placeholder="e.g. Reconcile accounts" />
+                  <input style={inputFor('title')} value={form.name ?? ''} onChange={e => s('name', e.target.value)} placeholder="e.g. Reconcile accounts" />
+                  <FieldError error={error} field="title" />
                 </div>
                 <div>
                   <label style={lbl}>Job</label>
-                  <select style={{ ...darkInput, cursor: 'pointer' }} value={form.jobId ?? ''} onChange={e => handleJobChange(e.target.value)}>
+                  <select style={{ ...inputFor('jobId'), cursor: 'pointer' }} value={form.jobId ?? ''} onChange={e => handleJobChange(e.target.value)}>
                     <option value="">Select job…</option>
                     {jobs.map(j => <option key={j.id} value={j.id}>{j.jobId} — {j.title} ({j.clientName})</option>)}
                   </select>
+                  <FieldError error={error} field="jobId" />
                 </div>
                 <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 14 }}>
                   <div>
                     <label style={lbl}>Task Type</label>
-                    <select style={{ ...darkInput, cursor: 'pointer' }} value={form.type ?? ''} onChange={e => s('type', e.target.value)}>
+                    <select style={{ ...inputFor('type'), cursor: 'pointer' }} value={form.type ?? ''} onChange={e => s('type', e.target.value)}>
                       <option value="">Select type…</option>
                       {['Data Collection','Data Entry','Tax Work','Review','Reconciliation','Advisory','Bookkeeping','Non-billable'].map(t => (
                         <option key={t} value={t}>{t}</option>
                       ))}
                     </select>
+                    <FieldError error={error} field="type" />
                   </div>
                   <div>
                     <label style={lbl}>Task Status</label>
-                    <select style={{ ...darkInput, cursor: 'pointer' }} value={form.status ?? 'todo'} onChange={e => s('status', e.target.value as TaskStatus)}>
+                    <select style={{ ...inputFor('status'), cursor: 'pointer' }} value={form.status ?? 'todo'} onChange={e => s('status', e.target.value as TaskStatus)}>
                       <option value="todo">To Do</option>
                       <option value="in_progress">In Progress</option>
                       <option value="completed">Completed</option>
                     </select>
+                    <FieldError error={error} field="status" />
                   </div>
                 </div>
               </div>
@@ -749,7 +793,7 @@ function TaskModal({ open, onClose, task, jobs, users, onSave }: TaskModalProps)
                 <div>
                   <label style={lbl}>Assign To</label>
                   <select
-                    style={{ ...darkInput, cursor: 'pointer' }}
+                    style={{ ...inputFor('assignedUserIds'), cursor: 'pointer' }}
                     value=""
                     onChange={e => { if (e.target.value) handleUserChange(e.target.value) }}
                   >
@@ -758,6 +802,7 @@ function TaskModal({ open, onClose, task, jobs, users, onSave }: TaskModalProps)
                       <option key={u.id} value={u.id}>{u.name} ({u.email})</option>
                     ))}
                   </select>
+                  <FieldError error={error} field="assignedUserIds" />
                 </div>
                 {/* Selected users chips */}
                 {(form.assignedToIds as string[] || []).length > 0 && (
@@ -780,14 +825,16 @@ function TaskModal({ open, onClose, task, jobs, users, onSave }: TaskModalProps)
                 <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 14 }}>
                   <div>
                     <label style={lbl}>Estimated Hours</label>
-                    <input style={darkInput} type="number" min="0" step="0.5" value={form.estimatedHours ?? 0} onChange={e => s('estimatedHours', Number(e.target.value))} />
+                    <input style={inputFor('estimatedHours')} type="number" min="0" step="0.5" value={form.estimatedHours ?? 0} onChange={e => s('estimatedHours', Number(e.target.value))} />
+                    <FieldError error={error} field="estimatedHours" />
                   </div>
                   <div>
                     <label style={lbl}>Billing Type</label>
-                    <select style={{ ...darkInput, cursor: 'pointer' }} value={form.billable ? 'true' : 'false'} onChange={e => s('billable', e.target.value === 'true')}>
+                    <select style={{ ...inputFor('billable'), cursor: 'pointer' }} value={form.billable ? 'true' : 'false'} onChange={e => s('billable', e.target.value === 'true')}>
                       <option value="true">Billable</option>
                       <option value="false">Non-Billable</option>
                     </select>
+                    <FieldError error={error} field="billable" />
                   </div>
                 </div>
               </div>
@@ -802,11 +849,12 @@ function TaskModal({ open, onClose, task, jobs, users, onSave }: TaskModalProps)
                 <div>
                   <label style={lbl}>Description (optional)</label>
                   <textarea
-                    style={{ ...darkInput, resize: 'vertical', minHeight: 100 }}
+                    style={{ ...inputFor('description'), resize: 'vertical', minHeight: 100 }}
                     value={form.description ?? ''}
                     onChange={e => s('description', e.target.value)}
                     placeholder="Brief description of the task…"
                   />
+                  <FieldError error={error} field="description" />
                 </div>
                 {/* Summary review */}
                 <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 10 }}>
@@ -843,7 +891,7 @@ function TaskModal({ open, onClose, task, jobs, users, onSave }: TaskModalProps)
                 NEXT
               </button>
             ) : (
-              <button onClick={() => onSave(form)} style={{ padding: '10px 28px', border: 'none', borderRadius: 8, background: '#2563eb', color: '#fff', fontWeight: 700, fontSize: 14, cursor: 'pointer' }}>
+              <button onClick={() => { void onSave(form) }} style={{ padding: '10px 28px', border: 'none', borderRadius: 8, background: '#2563eb', color: '#fff', fontWeight: 700, fontSize: 14, cursor: 'pointer' }}>
                 {task ? 'SAVE' : 'CREATE'}
               </button>
             )}
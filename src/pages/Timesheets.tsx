@@ -1,20 +1,42 @@
-import { useState, useMemo, useEffect } from 'react'
+import { useState, useMemo } from 'react'
 import { Badge } from '@/components/ui/Badge'
 import { Button } from '@/components/ui/Button'
 import { Modal } from '@/components/ui/Modal'
+import { FieldError, FormError } from '@/components/ui/FieldError'
 import { useAuthStore } from '@/store/authStore'
+import { useOutboxStore } from '@/store/outboxStore'
+import { usePermissions } from '@/hooks/usePermissions'
+import { usePreferencesStore } from '@/store/preferencesStore'
+import type { TimesheetView, Job, Task } from '@/types'
 import { Avatar } from '@/components/ui/Avatar'
-import { Check, X, Clock, TrendingUp, AlertCircle, Plus, ChevronLeft, ChevronRight, LogIn, Users } from 'lucide-react'
+import { Check, X, Clock, TrendingUp, AlertCircle, Plus, ChevronLeft, ChevronRight, LogIn, Users, Send, Lock, CalendarCheck, Edit2, History, Palmtree, Trash2, Copy, Download } from 'lucide-react'
 import { useTimesheets } from '@/hooks/useTimesheets'
-import type { TimesheetEntry } from '@/hooks/useTimesheets'
+import type { TimesheetEntry, TimesheetEvent, EditEntryInput, BatchReviewResult } from '@/hooks/useTimesheets'
+import type { ApiError } from '@/lib/api'
+import { useTimesheetWeeks } from '@/hooks/useTimesheetWeeks'
+import type { TimesheetWeek, WeekStatus } from '@/hooks/useTimesheetWeeks'
 import { useJobs } from '@/hooks/useJobs'
 import { useTasks } from '@/hooks/useTasks'
 import { useUsers } from '@/hooks/useUsers'
+import { useTimesheetRules } from '@/hooks/useTimesheetRules'
+import { useLeave, leaveTypeLabels } from '@/hooks/useLeave'
+import type { LeaveBooking, LeaveType } from '@/hooks/useLeave'
+import { usePeriodLocks } from '@/hooks/usePeriodLocks'
+import type { TemplateItemDetail } from '@/hooks/useTimesheetTemplates'
+import { TemplateBar } from '@/components/timesheets/TimesheetTemplates'
+import { lockFor } from '@/lib/periodLocks'
+import { canLogTime } from '@/lib/loggableWork'
+import { workedHours, timesProblem, timesOverlap, formatTimes } from '@/lib/entryTimes'
+import type { EntryTimes } from '@/lib/entryTimes'
+import { downloadTimesheetCsv } from '@/lib/timesheetExport'
+import { dayHoursFlag, dayOff, expectedHours, expectedHoursBetween } from '@/lib/workingCalendar'
+import type { WorkingCalendar } from '@/lib/workingCalendar'
 
 // ---------- Status config ----------
-type EntryStatus = 'pending_normal' | 'pending_approval' | 'approved' | 'rejected'
+type EntryStatus = 'draft' | 'pending_normal' | 'pending_approval' | 'approved' | 'rejected'
 
 const statusConfig: Record<string, { variant: 'secondary' | 'warning' | 'success' | 'danger'; label: string }> = {
+  draft:            { variant: 'secondary', label: 'Draft' },
   pending_normal:   { variant: 'secondary', label: 'Normal' },
   pending_approval: { variant: 'warning',   label: 'Needs Approval' },
   approved:         { variant: 'success',   label: 'Approved' },
@@ -23,20 +45,19 @@ const statusConfig: Record<string, { variant: 'secondary' | 'warning' | 'success
 
 function flagLabel(reason?: string) {
   switch (reason) {
-    case 'UNDER_HOURS':  return 'Day total under 8 hours'
-    case 'OVER_HOURS':   return 'Day total over 8 hours'
-    case 'JOB_OVERTIME': return 'Job has exceeded quoted hours'
+    case 'UNDER_HOURS':  return 'Day total under standard hours'
+    case 'OVER_HOURS':   return 'Day total over standard hours'
+    case 'JOB_OVERTIME': return 'Job has passed its quoted hours threshold'
     case 'MULTIPLE':     return 'Multiple flags: hours + job overtime'
     default: return 'Flagged for review'
   }
 }
 
 // ---------- Date helpers (vanilla JS, no extra libs) ----------
-function getMonday(d: Date): Date {
+// weekStartsOn uses getDay() numbering: 0 = Sunday, 1 = Monday
+function getWeekStart(d: Date, weekStartsOn: number): Date {
   const date = new Date(d)
-  const day = date.getDay()
-  const diff = date.getDate() - day + (day === 0 ? -6 : 1)
-  date.setDate(diff)
+  date.setDate(date.getDate() - ((date.getDay() - weekStartsOn + 7) % 7))
   date.setHours(0, 0, 0, 0)
   return date
 }
@@ -55,8 +76,8 @@ function toYMD(d: Date): string {
   return `${y}-${m}-${day}`
 }
 
-function getWeekDays(monday: Date): Date[] {
-  return Array.from({ length: 7 }, (_, i) => addDays(monday, i))
+function getWeekDays(start: Date): Date[] {
+  return Array.from({ length: 7 }, (_, i) => addDays(start, i))
 }
 
 function getMonthWeeks(d: Date): Array<{ label: string; start: Date; end: Date }> {
@@ -80,34 +101,161 @@ function getMonthWeeks(d: Date): Array<{ label: string; start: Date; end: Date }
   return weeks
 }
 
-const DAY_NAMES = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
 const MONTH_NAMES = ['January','February','March','April','May','June','July','August','September','October','November','December']
 
-// ---------- ApprovalPanel (unchanged) ----------
+// ---------- Batch review outcome ----------
+interface ReviewOutcome {
+  summary: string
+  failures: Array<{ id: string; label: string; message: string }>
+}
+
+/** Turn per-entry batch results into a one-line summary plus what went wrong for each failure. */
+function describeReview(results: BatchReviewResult[], entries: TimesheetEntry[], verb: 'approved' | 'rejected'): ReviewOutcome {
+  const done = results.filter(r => r.success).length
+  const failures = results.filter(r => !r.success).map(r => {
+    const e = entries.find(x => x.id === r.id)
+    return { id: r.id, label: e ? `${e.userName}, ${e.date}, ${e.hours}h` : r.id, message: r.message ?? 'Failed' }
+  })
+  const summary = [
+    done > 0 && `${verb[0]!.toUpperCase()}${verb.slice(1)} ${done} ${done === 1 ? 'entry' : 'entries'}.`,
+    failures.length > 0 && `${failures.length} could not be ${verb}:`,
+  ].filter(Boolean).join(' ')
+  return { summary, failures }
+}
+
+function ReviewOutcomeBanner({ outcome, onDismiss }: { outcome: ReviewOutcome; onDismiss: () => void }) {
+  const failed = outcome.failures.length > 0
+  return (
+    <div className={`flex items-start justify-between gap-3 rounded-xl border px-4 py-3 text-xs ${failed ? 'bg-red-50 border-red-200 text-red-800' : 'bg-emerald-50 border-emerald-200 text-emerald-800'}`}>
+      <div>
+        <p className="font-semibold">{outcome.summary}</p>
+        {failed && (
+          <ul className="mt-1 space-y-0.5">
+            {outcome.failures.map(f => <li key={f.id}>{f.label} — {f.message}</li>)}
+          </ul>
+        )}
+      </div>
+      <button onClick={onDismiss} aria-label="Dismiss" className="flex-shrink-0 opacity-60 hover:opacity-100"><X size={14} /></button>
+    </div>
+  )
+}
+
+// ---------- ApprovalPanel ----------
 function ApprovalPanel({
   entries,
   onApprove,
   onReject,
 }: {
   entries: TimesheetEntry[]
-  onApprove: (id: string) => Promise<boolean>
-  onReject: (id: string, note: string) => Promise<boolean>
+  onApprove: (ids: string[]) => Promise<BatchReviewResult[] | null>
+  onReject: (ids: string[], note: string) => Promise<BatchReviewResult[] | null>
 }) {
-  const [rejectTarget, setRejectTarget] = useState<string | null>(null)
+  const [filters, setFilters] = useState({ userId: '', flag: '', jobId: '' })
+  const [selected, setSelected] = useState<string[]>([])
+  const [rejectTarget, setRejectTarget] = useState<string[] | null>(null)
   const [rejectNote, setRejectNote] = useState('')
   const [busy, setBusy] = useState(false)
+  const [outcome, setOutcome] = useState<ReviewOutcome | null>(null)
+
+  // Filter options come from whatever is in the queue right now
+  const uniqueBy = (key: (e: TimesheetEntry) => string, label: (e: TimesheetEntry) => string) =>
+    [...new Map(entries.map(e => [key(e), label(e)])).entries()].sort((a, b) => a[1].localeCompare(b[1]))
+  const employees = uniqueBy(e => e.userId, e => e.userName)
+  const flags = uniqueBy(e => e.flagReason ?? '', e => flagLabel(e.flagReason))
+  const jobsInQueue = uniqueBy(e => e.jobId, e => e.jobTitle)
+
+  const visible = entries.filter(e =>
+    (!filters.userId || e.userId === filters.userId) &&
+    (!filters.flag || (e.flagReason ?? '') === filters.flag) &&
+    (!filters.jobId || e.jobId === filters.jobId))
+  // Only act on what's both ticked and still on screen
+  const selectedVisible = visible.filter(e => selected.includes(e.id)).map(e => e.id)
+  const allVisibleSelected = visible.length > 0 && selectedVisible.length === visible.length
+
+  const toggle = (id: string) => setSelected(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id])
+  const toggleAll = () => setSelected(allVisibleSelected ? [] : visible.map(e => e.id))
+
+  const run = async (ids: string[], verb: 'approved' | 'rejected', action: () => Promise<BatchReviewResult[] | null>) => {
+    setBusy(true)
+    const snapshot = entries
+    const results = await action()
+    setBusy(false)
+    if (!results) {
+      setOutcome({ summary: `Nothing was ${verb} — the request failed. Try again.`, failures: [] })
+      return false
+    }
+    setOutcome(describeReview(results, snapshot, verb))
+    setSelected(prev => prev.filter(id => !results.some(r => r.id === id && r.success)))
+    return true
+  }
+
+  const closeReject = () => { setRejectTarget(null); setRejectNote('') }
+  const filterClass = 'rounded-lg border border-amber-200 bg-white px-2 py-1 text-xs text-slate-700 focus:outline-none'
 
   return (
     <div className="bg-amber-50 border border-amber-200 rounded-2xl p-4 space-y-3 mb-6">
-      <div className="flex items-center gap-2">
-        <AlertCircle size={16} className="text-amber-600" />
-        <p className="text-sm font-semibold text-amber-800">
-          {entries.length} timesheet {entries.length === 1 ? 'entry needs' : 'entries need'} your approval
-        </p>
+      <div className="flex items-center justify-between gap-3 flex-wrap">
+        <div className="flex items-center gap-2">
+          <AlertCircle size={16} className="text-amber-600" />
+          <p className="text-sm font-semibold text-amber-800">
+            {entries.length} timesheet {entries.length === 1 ? 'entry needs' : 'entries need'} your approval
+          </p>
+        </div>
+        <div className="flex items-center gap-2 flex-wrap">
+          <select value={filters.userId} onChange={e => setFilters({ ...filters, userId: e.target.value })} className={filterClass} aria-label="Filter by employee">
+            <option value="">All employees</option>
+            {employees.map(([id, name]) => <option key={id} value={id}>{name}</option>)}
+          </select>
+          <select value={filters.flag} onChange={e => setFilters({ ...filters, flag: e.target.value })} className={filterClass} aria-label="Filter by flag">
+            <option value="">All flags</option>
+            {flags.map(([reason, label]) => <option key={reason} value={reason}>{label}</option>)}
+          </select>
+          <select value={filters.jobId} onChange={e => setFilters({ ...filters, jobId: e.target.value })} className={filterClass} aria-label="Filter by job">
+            <option value="">All jobs</option>
+            {jobsInQueue.map(([id, title]) => <option key={id} value={id}>{title}</option>)}
+          </select>
+        </div>
       </div>
+
+      <div className="flex items-center justify-between gap-3 flex-wrap">
+        <label className="flex items-center gap-2 text-xs font-medium text-amber-800 cursor-pointer select-none">
+          <input type="checkbox" checked={allVisibleSelected} onChange={toggleAll} disabled={visible.length === 0} className="w-4 h-4 accent-amber-600" />
+          {selectedVisible.length > 0 ? `${selectedVisible.length} selected` : `Select all ${visible.length}`}
+        </label>
+        <div className="flex gap-2">
+          <button
+            onClick={() => void run(selectedVisible, 'approved', () => onApprove(selectedVisible))}
+            disabled={busy || selectedVisible.length === 0}
+            className="px-3 py-1.5 bg-emerald-600 hover:bg-emerald-700 text-white text-xs font-medium rounded-lg transition-colors disabled:opacity-50"
+          >
+            <Check size={12} className="inline mr-1" />Approve selected
+          </button>
+          <button
+            onClick={() => setRejectTarget(selectedVisible)}
+            disabled={busy || selectedVisible.length === 0}
+            className="px-3 py-1.5 bg-red-600 hover:bg-red-700 text-white text-xs font-medium rounded-lg transition-colors disabled:opacity-50"
+          >
+            <X size={12} className="inline mr-1" />Reject selected
+          </button>
+        </div>
+      </div>
+
+      {outcome && <ReviewOutcomeBanner outcome={outcome} onDismiss={() => setOutcome(null)} />}
+
       <div className="space-y-2">
-        {entries.map(e => (
+        {visible.length === 0 && (
+          <p className="text-xs text-amber-700 italic px-1">No entries match these filters.</p>
+        )}
+        {visible.map(e => (
           <div key={e.id} className="flex items-center justify-between gap-3 bg-white rounded-xl border border-amber-200 px-4 py-3">
+            <input
+              type="checkbox"
+              checked={selected.includes(e.id)}
+              onChange={() => toggle(e.id)}
+              aria-label={`Select ${e.userName} ${e.date}`}
+              className="w-4 h-4 accent-amber-600 flex-shrink-0"
+            />
             <div className="flex-1 min-w-0">
               <p className="text-sm font-semibold text-slate-800">{e.userName}</p>
               <p className="text-xs text-slate-500">
@@ -117,14 +265,14 @@ function ApprovalPanel({
             </div>
             <div className="flex gap-1 flex-shrink-0">
               <button
-                onClick={async () => { setBusy(true); await onApprove(e.id); setBusy(false) }}
+                onClick={() => void run([e.id], 'approved', () => onApprove([e.id]))}
                 disabled={busy}
                 className="px-3 py-1.5 bg-emerald-100 hover:bg-emerald-200 text-emerald-700 text-xs font-medium rounded-lg transition-colors disabled:opacity-50"
               >
                 <Check size={12} className="inline mr-1" />Approve
               </button>
               <button
-                onClick={() => setRejectTarget(e.id)}
+                onClick={() => setRejectTarget([e.id])}
                 disabled={busy}
                 className="px-3 py-1.5 bg-red-100 hover:bg-red-200 text-red-700 text-xs font-medium rounded-lg transition-colors disabled:opacity-50"
               >
@@ -136,23 +284,24 @@ function ApprovalPanel({
       </div>
       <Modal
         open={!!rejectTarget}
-        onClose={() => { setRejectTarget(null); setRejectNote('') }}
-        title="Reject Timesheet Entry"
-        description="Provide a reason so the employee can correct their entry"
+        onClose={closeReject}
+        title={rejectTarget && rejectTarget.length > 1 ? `Reject ${rejectTarget.length} Entries` : 'Reject Timesheet Entry'}
+        description={rejectTarget && rejectTarget.length > 1
+          ? 'Every selected entry is rejected with this note so employees can correct them'
+          : 'Provide a reason so the employee can correct their entry'}
         size="sm"
         footer={
           <div className="flex justify-end gap-2">
-            <Button variant="outline" onClick={() => { setRejectTarget(null); setRejectNote('') }}>Cancel</Button>
+            <Button variant="outline" onClick={closeReject}>Cancel</Button>
             <Button
               className="bg-red-600 hover:bg-red-700 text-white"
-              disabled={busy}
+              disabled={busy || !rejectNote.trim()}
               onClick={async () => {
                 if (!rejectTarget) return
-                setBusy(true)
-                await onReject(rejectTarget, rejectNote)
-                setBusy(false)
-                setRejectTarget(null)
-                setRejectNote('')
+                const ids = rejectTarget
+                const note = rejectNote.trim()
+                closeReject()
+                await run(ids, 'rejected', () => onReject(ids, note))
               }}
             >Reject</Button>
           </div>
@@ -170,6 +319,511 @@ function ApprovalPanel({
   )
 }
 
+// ---------- WeekApprovalPanel ----------
+function WeekApprovalPanel({
+  weeks,
+  onView,
+  onApprove,
+  onReject,
+  error,
+}: {
+  weeks: TimesheetWeek[]
+  onView: (week: TimesheetWeek) => void
+  onApprove: (id: string) => Promise<boolean>
+  onReject: (id: string, note: string) => Promise<boolean>
+  /** The week hook's last mutation error, shown here when one of this panel's actions failed */
+  error: ApiError | null
+}) {
+  const [rejectTarget, setRejectTarget] = useState<string | null>(null)
+  const [rejectNote, setRejectNote] = useState('')
+  const [busy, setBusy] = useState(false)
+  // Which of this panel's actions failed, so an error from elsewhere (e.g. submitting a week) isn't shown here
+  const [failed, setFailed] = useState<'approve' | 'reject' | null>(null)
+
+  const closeReject = () => { setRejectTarget(null); setRejectNote(''); setFailed(null) }
+
+  const approve = async (id: string) => {
+    setBusy(true)
+    setFailed(null)
+    const approved = await onApprove(id)
+    setBusy(false)
+    if (!approved) setFailed('approve')
+  }
+
+  const sendBack = async () => {
+    if (!rejectTarget) return
+    setBusy(true)
+    setFailed(null)
+    const sent = await onReject(rejectTarget, rejectNote.trim())
+    setBusy(false)
+    // Keep the note and the modal on failure so it can be tried again
+    if (sent) closeReject()
+    else setFailed('reject')
+  }
+
+  return (
+    <div className="bg-blue-50 border border-blue-200 rounded-2xl p-4 space-y-3 mb-6">
+      <div className="flex items-center gap-2">
+        <CalendarCheck size={16} className="text-blue-600" />
+        <p className="text-sm font-semibold text-blue-800">
+          {weeks.length} weekly {weeks.length === 1 ? 'timesheet is' : 'timesheets are'} waiting for review
+        </p>
+      </div>
+      {failed === 'approve' && error && <FormError error={error} />}
+      <div className="space-y-2">
+        {weeks.map(w => (
+          <div key={w.id} className="flex items-center justify-between gap-3 bg-white rounded-xl border border-blue-200 px-4 py-3">
+            <button type="button" onClick={() => onView(w)} className="flex-1 min-w-0 text-left">
+              <p className="text-sm font-semibold text-slate-800">{w.userName}</p>
+              <p className="text-xs text-slate-500">
+                {formatWeekRange(w.weekStart, w.weekEnd)} &bull; {w.entryCount} {w.entryCount === 1 ? 'entry' : 'entries'} &bull; <strong>{w.totalHours}h</strong>
+              </p>
+              {w.flaggedCount > 0 && (
+                <p className="text-xs text-amber-600 mt-0.5">{w.flaggedCount} flagged {w.flaggedCount === 1 ? 'entry' : 'entries'}</p>
+              )}
+            </button>
+            <div className="flex gap-1 flex-shrink-0">
+              <button
+                onClick={() => void approve(w.id)}
+                disabled={busy}
+                className="px-3 py-1.5 bg-emerald-100 hover:bg-emerald-200 text-emerald-700 text-xs font-medium rounded-lg transition-colors disabled:opacity-50"
+              >
+                <Check size={12} className="inline mr-1" />Approve week
+              </button>
+              <button
+                onClick={() => setRejectTarget(w.id)}
+                disabled={busy}
+                className="px-3 py-1.5 bg-red-100 hover:bg-red-200 text-red-700 text-xs font-medium rounded-lg transition-colors disabled:opacity-50"
+              >
+                <X size={12} className="inline mr-1" />Send back
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+      <Modal
+        open={!!rejectTarget}
+        onClose={closeReject}
+        title="Send Timesheet Back"
+        description="The whole week is unlocked so the employee can correct it and submit again"
+        size="sm"
+        footer={
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={closeReject}>Cancel</Button>
+            <Button
+              className="bg-red-600 hover:bg-red-700 text-white"
+              disabled={busy || !rejectNote.trim()}
+              onClick={() => void sendBack()}
+            >Send back</Button>
+          </div>
+        }
+      >
+        <textarea
+          value={rejectNote}
+          onChange={e => setRejectNote(e.target.value)}
+          rows={3}
+          placeholder="e.g., Wednesday's hours are missing the site visit. Please update and resubmit."
+          className="w-full rounded-lg border border-slate-200 px-3 py-2.5 text-sm text-slate-700 placeholder:text-slate-400 focus:outline-none focus:ring-1 focus:ring-red-500/30 focus:border-red-500 resize-none"
+        />
+        {failed === 'reject' && error && <div className="mt-3"><FormError error={error} /></div>}
+      </Modal>
+    </div>
+  )
+}
+
+// ---------- Leave ----------
+function LeaveApprovalPanel({
+  requests,
+  onApprove,
+  onReject,
+}: {
+  requests: LeaveBooking[]
+  onApprove: (id: string) => Promise<boolean>
+  onReject: (id: string) => Promise<boolean>
+}) {
+  const [busy, setBusy] = useState(false)
+
+  const act = async (action: () => Promise<boolean>) => {
+    setBusy(true)
+    await action()
+    setBusy(false)
+  }
+
+  return (
+    <div className="bg-cyan-50 border border-cyan-200 rounded-2xl p-4 space-y-3 mb-6">
+      <div className="flex items-center gap-2">
+        <Palmtree size={16} className="text-cyan-600" />
+        <p className="text-sm font-semibold text-cyan-800">
+          {requests.length} leave {requests.length === 1 ? 'request is' : 'requests are'} waiting for review
+        </p>
+      </div>
+      <div className="space-y-2">
+        {requests.map(l => (
+          <div key={l.id} className="flex items-center justify-between gap-3 bg-white rounded-xl border border-cyan-200 px-4 py-3">
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-semibold text-slate-800">{l.userName}</p>
+              <p className="text-xs text-slate-500">{formatLeaveRange(l)} &bull; {leaveTypeLabels[l.type]}</p>
+              {l.note && <p className="text-xs text-slate-400 mt-0.5">{l.note}</p>}
+            </div>
+            <div className="flex gap-1 flex-shrink-0">
+              <button
+                onClick={() => void act(() => onApprove(l.id))}
+                disabled={busy}
+                className="px-3 py-1.5 bg-emerald-100 hover:bg-emerald-200 text-emerald-700 text-xs font-medium rounded-lg transition-colors disabled:opacity-50"
+              >
+                <Check size={12} className="inline mr-1" />Approve
+              </button>
+              <button
+                onClick={() => void act(() => onReject(l.id))}
+                disabled={busy}
+                className="px-3 py-1.5 bg-red-100 hover:bg-red-200 text-red-700 text-xs font-medium rounded-lg transition-colors disabled:opacity-50"
+              >
+                <X size={12} className="inline mr-1" />Decline
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+const leaveStatusConfig: Record<LeaveBooking['status'], { variant: 'secondary' | 'success' | 'danger'; label: string }> = {
+  pending:  { variant: 'secondary', label: 'Awaiting approval' },
+  approved: { variant: 'success',   label: 'Approved' },
+  rejected: { variant: 'danger',    label: 'Declined' },
+}
+
+/**
+ * Book leave and see what's booked. Employees request their own; managers can
+ * record leave for anyone else, which counts as approved straight away.
+ */
+function LeaveModal({
+  open,
+  onClose,
+  currentUserId,
+  people,
+}: {
+  open: boolean
+  onClose: () => void
+  currentUserId: string
+  /** Who leave can be recorded for; empty when the user can only book their own */
+  people: { id: string; name: string }[]
+}) {
+  const today = toYMD(new Date())
+  const [forUserId, setForUserId] = useState(currentUserId)
+  const [startDate, setStartDate] = useState(today)
+  const [endDate, setEndDate] = useState(today)
+  const [type, setType] = useState<LeaveType>('annual')
+  const [note, setNote] = useState('')
+  const [busy, setBusy] = useState(false)
+  const { leave, requestLeave, cancelLeave, mutationError, resetMutationError } = useLeave({ userId: forUserId })
+  const recordingForOther = forUserId !== currentUserId
+
+  const close = () => { resetMutationError(); onClose() }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setBusy(true)
+    const saved = await requestLeave({ startDate, endDate, type, note: note.trim() || undefined, userId: forUserId })
+    setBusy(false)
+    if (saved) setNote('')
+  }
+
+  const inputClass = 'h-10 w-full rounded-lg border border-slate-200 bg-white px-3 text-sm text-slate-900 focus:outline-none focus:ring-2 focus:ring-blue-500/30 focus:border-blue-500'
+  const labelClass = 'block text-xs font-medium text-slate-600 mb-1'
+
+  return (
+    <Modal open={open} onClose={close} title="Leave" description="Approved leave comes off your expected hours" size="lg" hideFooter>
+      <form onSubmit={handleSubmit} className="space-y-3">
+        {people.length > 0 && (
+          <div>
+            <label className={labelClass} htmlFor="leave-user">Employee</label>
+            <select id="leave-user" value={forUserId} onChange={e => { setForUserId(e.target.value); resetMutationError() }} className={inputClass}>
+              {people.map(p => <option key={p.id} value={p.id}>{p.id === currentUserId ? `${p.name} (me)` : p.name}</option>)}
+            </select>
+          </div>
+        )}
+        <div className="grid grid-cols-3 gap-3">
+          <div>
+            <label className={labelClass} htmlFor="leave-start">From</label>
+            <input id="leave-start" type="date" value={startDate} required className={inputClass}
+              onChange={e => { setStartDate(e.target.value); if (e.target.value > endDate) setEndDate(e.target.value) }} />
+          </div>
+          <div>
+            <label className={labelClass} htmlFor="leave-end">To</label>
+            <input id="leave-end" type="date" value={endDate} min={startDate} required className={inputClass}
+              onChange={e => setEndDate(e.target.value)} />
+          </div>
+          <div>
+            <label className={labelClass} htmlFor="leave-type">Type</label>
+            <select id="leave-type" value={type} onChange={e => setType(e.target.value as LeaveType)} className={inputClass}>
+              {(Object.keys(leaveTypeLabels) as LeaveType[]).map(t => <option key={t} value={t}>{leaveTypeLabels[t]}</option>)}
+            </select>
+          </div>
+        </div>
+        {mutationError?.hasFieldErrors && (
+          <p role="alert" className="text-xs text-red-600">
+            {mutationError.fieldErrors.startDate ?? mutationError.fieldErrors.endDate ?? mutationError.fieldErrors.type ?? mutationError.message}
+          </p>
+        )}
+        <input value={note} onChange={e => setNote(e.target.value)} placeholder="Note (optional)" className={inputClass} />
+        {mutationError && !mutationError.hasFieldErrors && <p role="alert" className="text-xs text-red-600">{mutationError.message}</p>}
+        <div className="flex justify-end">
+          <Button type="submit" disabled={busy}>
+            <Palmtree size={14} /> {busy ? 'Saving...' : recordingForOther ? 'Record leave' : 'Request leave'}
+          </Button>
+        </div>
+      </form>
+
+      <div className="mt-5 border-t border-slate-100 pt-4">
+        <p className="text-xs font-semibold uppercase tracking-wide text-slate-400 mb-2">Booked leave</p>
+        {leave.length === 0 ? (
+          <p className="text-sm text-slate-400">Nothing booked.</p>
+        ) : (
+          <ul className="divide-y divide-slate-100">
+            {leave.map(l => (
+              <li key={l.id} className="flex items-center justify-between gap-3 py-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-slate-700">{formatLeaveRange(l)}</p>
+                  <p className="text-xs text-slate-400">{leaveTypeLabels[l.type]}{l.note ? ` — ${l.note}` : ''}</p>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <Badge variant={leaveStatusConfig[l.status].variant}>{leaveStatusConfig[l.status].label}</Badge>
+                  {(l.status === 'pending' || people.length > 0) && l.endDate >= today && (
+                    <button
+                      type="button"
+                      onClick={() => void cancelLeave(l.id)}
+                      title="Cancel leave"
+                      className="p-1.5 rounded-md text-slate-400 hover:text-red-600 hover:bg-red-50"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </Modal>
+  )
+}
+
+function formatLeaveRange(l: Pick<LeaveBooking, 'startDate' | 'endDate'>) {
+  const fmt = (ymd: string) => new Date(`${ymd}T00:00:00`).toLocaleDateString('en-AU', { weekday: 'short', day: 'numeric', month: 'short' })
+  return l.startDate === l.endDate ? fmt(l.startDate) : `${fmt(l.startDate)} – ${fmt(l.endDate)}`
+}
+
+function formatWeekRange(start: string, end: string) {
+  const fmt = (ymd: string) => new Date(`${ymd}T00:00:00`).toLocaleDateString('en-AU', { day: 'numeric', month: 'short' })
+  return `${fmt(start)} – ${fmt(end)}`
+}
+
+const weekStatusConfig: Record<WeekStatus, { label: string; bg: string; color: string }> = {
+  draft:     { label: 'Draft',                bg: '#f3f4f6', color: '#4b5563' },
+  submitted: { label: 'Submitted — locked',   bg: '#dbeafe', color: '#1d4ed8' },
+  approved:  { label: 'Approved',             bg: '#d1fae5', color: '#065f46' },
+  rejected:  { label: 'Sent back for changes', bg: '#fee2e2', color: '#991b1b' },
+}
+
+// ---------- Edit entry modal ----------
+const eventLabel: Record<TimesheetEvent['action'], { label: string; color: string }> = {
+  edited:      { label: 'Edited',      color: '#94a3b8' },
+  rejected:    { label: 'Rejected',    color: '#fca5a5' },
+  approved:    { label: 'Approved',    color: '#86efac' },
+  resubmitted: { label: 'Resubmitted', color: '#93c5fd' },
+}
+
+function EditEntryModal({
+  entry,
+  jobs,
+  tasksFor,
+  error,
+  onSave,
+  onClose,
+}: {
+  entry: TimesheetEntry
+  jobs: Job[]
+  tasksFor: (jobId: string) => Task[]
+  error: ApiError | null
+  onSave: (data: EditEntryInput) => Promise<boolean>
+  onClose: () => void
+}) {
+  const [form, setForm] = useState({
+    jobId: entry.jobId,
+    taskId: entry.taskId ?? '',
+    hours: String(entry.hours),
+    description: entry.description,
+    startTime: entry.times?.startTime ?? '',
+    endTime: entry.times?.endTime ?? '',
+    breakMinutes: String(entry.times?.breakMinutes ?? 0),
+  })
+  const [saving, setSaving] = useState(false)
+  // Entries logged with times are edited by their times; the hours follow
+  const times: EntryTimes | null = entry.times
+    ? { startTime: form.startTime, endTime: form.endTime, breakMinutes: Number(form.breakMinutes || 0) }
+    : null
+  const timesError = times && timesProblem(times)
+
+  const save = async () => {
+    setSaving(true)
+    const saved = await onSave(times
+      ? { jobId: form.jobId, taskId: form.taskId, ...times, description: form.description }
+      : { jobId: form.jobId, taskId: form.taskId, hours: parseFloat(form.hours), description: form.description })
+    setSaving(false)
+    if (saved) onClose()
+  }
+
+  const label: React.CSSProperties = { fontSize: 13, color: '#94a3b8', fontWeight: 500, marginBottom: 5, display: 'block' }
+  const field: React.CSSProperties = { width: '100%', padding: '10px 13px', background: '#1e2d4a', border: '1px solid #2d4068', borderRadius: 8, color: '#fff', fontSize: 14, outline: 'none', boxSizing: 'border-box' }
+
+  return (
+    <Modal open onClose={onClose} title="" size="lg">
+      <div style={{ background: '#152035', borderRadius: 12, margin: -24, padding: 0, display: 'flex', minHeight: 380, overflow: 'hidden' }}>
+
+        {/* Left panel — history */}
+        <div style={{ width: 220, background: '#0f1a2e', padding: '32px 20px', flexShrink: 0, display: 'flex', flexDirection: 'column' }}>
+          <h2 style={{ color: '#fff', fontWeight: 700, fontSize: 18, marginBottom: 6 }}>Edit Entry</h2>
+          <p style={{ color: '#64748b', fontSize: 12, marginBottom: 24 }}>
+            {new Date(`${entry.date}T00:00:00`).toLocaleDateString('en-AU', { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' })}
+          </p>
+          <div style={{ fontSize: 11, color: '#64748b', fontWeight: 600, textTransform: 'uppercase', letterSpacing: '0.05em', marginBottom: 10, display: 'flex', alignItems: 'center', gap: 5 }}>
+            <History size={11} /> History
+          </div>
+          <div style={{ flex: 1, overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: 10 }}>
+            {entry.history.length === 0 ? (
+              <p style={{ color: '#334155', fontSize: 12, fontStyle: 'italic' }}>No changes yet</p>
+            ) : [...entry.history].reverse().map((h, i) => (
+              <div key={i} style={{ borderLeft: `2px solid ${eventLabel[h.action].color}`, paddingLeft: 10 }}>
+                <div style={{ fontSize: 12, fontWeight: 600, color: eventLabel[h.action].color }}>{eventLabel[h.action].label}</div>
+                <div style={{ fontSize: 10, color: '#64748b' }}>
+                  {h.byName && `${h.byName} · `}{new Date(h.at).toLocaleDateString('en-AU', { day: 'numeric', month: 'short' })}
+                </div>
+                {h.note && <div style={{ fontSize: 11, color: '#cbd5e1', marginTop: 3 }}>{h.note}</div>}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Right form area */}
+        <div style={{ flex: 1, padding: '32px 28px', display: 'flex', flexDirection: 'column', gap: 16 }}>
+          {entry.status === 'rejected' && (
+            <div style={{ background: '#7c1d1d30', border: '1px solid #ef444440', borderRadius: 8, padding: '10px 12px' }}>
+              <div style={{ fontSize: 12, fontWeight: 600, color: '#fca5a5' }}>Rejected{entry.rejectionNote ? `: ${entry.rejectionNote}` : ''}</div>
+              <div style={{ fontSize: 11, color: '#94a3b8', marginTop: 3 }}>Saving your changes sends this entry back for review.</div>
+            </div>
+          )}
+          <FormError error={error} />
+
+          <div style={{ display: 'grid', gridTemplateColumns: '2fr 1fr', gap: 14 }}>
+            <div>
+              <label style={label}>Job</label>
+              <select
+                value={form.jobId}
+                onChange={e => setForm({ ...form, jobId: e.target.value, taskId: '' })}
+                style={{ ...field, cursor: 'pointer' }}
+              >
+                {jobs.map(j => (
+                  <option key={j.id} value={j.id}>{j.jobId} — {j.title} ({j.clientName})</option>
+                ))}
+                {/* The entry's own job stays selectable even once it's closed to new time */}
+                {!jobs.some(j => j.id === entry.jobId) && (
+                  <option value={entry.jobId}>{entry.jobTitle} ({entry.clientName})</option>
+                )}
+              </select>
+              <FieldError error={error} field="jobId" />
+            </div>
+            <div>
+              <label style={label}>Hours</label>
+              {times ? (
+                <div style={{ ...field, background: '#1a2540', color: '#94a3b8' }}>{timesError ? '—' : `${workedHours(times)}h`}</div>
+              ) : (
+                <input
+                  type="number"
+                  step="0.5" min="0" max="24"
+                  value={form.hours}
+                  onChange={e => setForm({ ...form, hours: e.target.value })}
+                  style={field}
+                />
+              )}
+              <FieldError error={error} field="hours" />
+            </div>
+          </div>
+
+          {times && (
+            <div>
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: 14 }}>
+                <div>
+                  <label style={label}>Start</label>
+                  <input type="time" value={form.startTime} onChange={e => setForm({ ...form, startTime: e.target.value })} style={{ ...field, colorScheme: 'dark' }} />
+                  <FieldError error={error} field="startTime" />
+                </div>
+                <div>
+                  <label style={label}>Finish</label>
+                  <input type="time" value={form.endTime} onChange={e => setForm({ ...form, endTime: e.target.value })} style={{ ...field, colorScheme: 'dark' }} />
+                  <FieldError error={error} field="endTime" />
+                </div>
+                <div>
+                  <label style={label}>Break (min)</label>
+                  <input type="number" step="5" min="0" value={form.breakMinutes} onChange={e => setForm({ ...form, breakMinutes: e.target.value })} style={field} />
+                  <FieldError error={error} field="breakMinutes" />
+                </div>
+              </div>
+              {timesError && <p role="alert" style={{ fontSize: 12, color: '#fca5a5', marginTop: 6 }}>{timesError.message}</p>}
+            </div>
+          )}
+
+          <div>
+            <label style={label}>Task (optional)</label>
+            <select
+              value={form.taskId}
+              onChange={e => setForm({ ...form, taskId: e.target.value })}
+              style={{ ...field, cursor: 'pointer' }}
+            >
+              <option value="">No task</option>
+              {tasksFor(form.jobId).map(t => (
+                <option key={t.id} value={t.id}>{t.name}</option>
+              ))}
+              {form.taskId && !tasksFor(form.jobId).some(t => t.id === form.taskId) && (
+                <option value={form.taskId}>{entry.taskName}</option>
+              )}
+            </select>
+            <FieldError error={error} field="taskId" />
+          </div>
+
+          <div>
+            <label style={label}>Notes (optional)</label>
+            <input
+              type="text"
+              placeholder="Add any notes..."
+              value={form.description}
+              onChange={e => setForm({ ...form, description: e.target.value })}
+              style={field}
+            />
+          </div>
+
+          <div style={{ display: 'flex', justifyContent: 'flex-end', gap: 12, marginTop: 'auto', paddingTop: 20, borderTop: '1px solid #1e2d4a' }}>
+            <button
+              onClick={onClose}
+              style={{ padding: '10px 22px', border: '1px solid #2d4068', borderRadius: 8, background: 'transparent', color: '#94a3b8', fontWeight: 600, fontSize: 14, cursor: 'pointer' }}
+            >
+              CANCEL
+            </button>
+            <button
+              disabled={saving || !form.jobId || (times ? !!timesError : !form.hours)}
+              onClick={() => void save()}
+              style={{ padding: '10px 28px', border: 'none', borderRadius: 8, background: '#2563eb', color: '#fff', fontWeight: 700, fontSize: 14, cursor: saving ? 'not-allowed' : 'pointer', opacity: saving ? 0.7 : 1 }}
+            >
+              {saving ? 'Saving...' : entry.status === 'rejected' ? 'SAVE & RESUBMIT' : 'SAVE'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </Modal>
+  )
+}
+
 // ---------- Status badge pill ----------
 function StatusPill({ status }: { status: string }) {
   const cfg = statusConfig[status] ?? statusConfig['pending_normal']
@@ -187,58 +841,184 @@ function StatusPill({ status }: { status: string }) {
   )
 }
 
+// ---------- Editable weekly grid cell ----------
+// `queued` = saved to the offline outbox and waiting to sync
+type CellState = 'idle' | 'saving' | 'queued' | 'error'
+
+/**
+ * One day of a weekly grid row. Typing replaces the day's hours; the change
+ * is saved on blur or Enter, Escape reverts, and Enter / arrow keys move
+ * up and down the column like a spreadsheet (Tab already moves across).
+ * The cell is disabled while its save is in flight or waiting in the offline
+ * outbox, so a second edit can't log the same day twice.
+ */
+function HoursCell({
+  hours,
+  row,
+  col,
+  state,
+  onCommit,
+}: {
+  hours: number
+  row: number
+  col: number
+  state: CellState
+  onCommit: (hours: number) => void
+}) {
+  const [draft, setDraft] = useState<string | null>(null)
+  const invalid = draft !== null && !isValidHours(draft)
+
+  const commit = () => {
+    if (draft === null) return
+    setDraft(null)
+    if (!isValidHours(draft)) return
+    const next = draft.trim() === '' ? 0 : Math.round(parseFloat(draft) * 100) / 100
+    if (next !== hours) onCommit(next)
+  }
+
+  const focusCell = (r: number) =>
+    document.querySelector<HTMLInputElement>(`[data-grid-cell="${r}:${col}"]`)?.focus()
+
+  return (
+    <input
+      data-grid-cell={`${row}:${col}`}
+      value={draft ?? (hours > 0 ? String(hours) : '')}
+      placeholder="—"
+      inputMode="decimal"
+      aria-label="Hours"
+      aria-invalid={invalid || state === 'error'}
+      disabled={state === 'saving' || state === 'queued'}
+      title={state === 'queued' ? 'Waiting to sync' : undefined}
+      onFocus={e => { setDraft(hours > 0 ? String(hours) : ''); e.target.select() }}
+      onChange={e => setDraft(e.target.value.replace(/[^\d.]/g, ''))}
+      onBlur={commit}
+      onKeyDown={e => {
+        if (e.key === 'Escape') { setDraft(null); e.currentTarget.blur() }
+        else if (e.key === 'Enter' || e.key === 'ArrowDown') { e.preventDefault(); focusCell(row + 1) }
+        else if (e.key === 'ArrowUp') { e.preventDefault(); focusCell(row - 1) }
+      }}
+      style={{
+        width: 52, padding: '5px 4px', textAlign: 'center', fontSize: 13, fontWeight: 600, color: '#1e293b',
+        borderRadius: 6, outline: 'none', opacity: state === 'saving' ? 0.5 : 1,
+        border: `1px ${state === 'queued' ? 'dashed' : 'solid'} ${invalid || state === 'error' ? '#ef4444' : state === 'queued' ? '#f59e0b' : '#e5e7eb'}`,
+        background: invalid || state === 'error' ? '#fef2f2' : state === 'queued' ? '#fffbeb' : '#fff',
+      }}
+    />
+  )
+}
+
+function isValidHours(value: string) {
+  if (value.trim() === '') return true
+  const n = Number(value)
+  return !isNaN(n) && n >= 0 && n <= 24
+}
+
 // ---------- Main component ----------
 export function Timesheets() {
   const { user } = useAuthStore()
-  const isManager = user?.role !== 'employee'
+  const can = usePermissions()
+  const canViewTeam = can('timesheets.viewTeam')
+  const canApprove = can('timesheets.approve')
+  const canSeeAllJobs = can('jobs.viewAll')
+  const canEditLocked = can('timesheets.editLocked')
 
   // Manager can filter by employee; '' = all users
   const [selectedUserId, setSelectedUserId] = useState<string>('')
 
+  // ---------- Tab + date navigation ----------
+  const { timesheetView, weekStartsOn } = usePreferencesStore(s => s.preferences)
+  const [activeTab, setActiveTab] = useState<TimesheetView>(timesheetView)
+  const [anchorDate, setAnchorDate] = useState(new Date())
+
+  const weekStart  = useMemo(() => getWeekStart(anchorDate, weekStartsOn), [anchorDate, weekStartsOn])
+  const weekDays   = useMemo(() => getWeekDays(weekStart), [weekStart])
+  const monthWeeks = useMemo(() => getMonthWeeks(anchorDate), [anchorDate])
+
+  // Only fetch the period on screen (the whole month plus any overhang of the
+  // selected week, and the week before it for "Copy last week") — all of it,
+  // so the grids and totals are never partial
+  const previousWeekStart = useMemo(() => addDays(weekStart, -7), [weekStart])
+  const rangeStart = toYMD(previousWeekStart < monthWeeks[0]!.start ? previousWeekStart : monthWeeks[0]!.start)
+  const rangeEnd = toYMD(weekDays[6]! > monthWeeks[monthWeeks.length - 1]!.end ? weekDays[6]! : monthWeeks[monthWeeks.length - 1]!.end)
+
+  // Employees always see only their own entries; managers can narrow to one employee
   const {
-    entries: rawEntriesAll,
+    entries: rawEntries,
     pendingEntries,
     logTime,
+    editEntry,
+    deleteEntry,
+    mutationError,
+    resetMutationError,
     approveEntry,
-    rejectEntry,
-    fetchPending,
-  } = useTimesheets(isManager ? {} : { userId: user?.id })
+    approveEntries,
+    rejectEntries,
+  } = useTimesheets({
+    userId: canViewTeam ? selectedUserId || undefined : user?.id,
+    startDate: rangeStart,
+    endDate: rangeEnd,
+    includePending: canApprove,
+    all: true,
+  })
 
-  useEffect(() => {
-    if (isManager) fetchPending()
-  }, [isManager, fetchPending])
+  // Week submission only makes sense for one person's week at a time
+  const viewUserId = canViewTeam ? selectedUserId : user?.id
+  const {
+    weeks,
+    submittedWeeks,
+    submitWeek,
+    approveWeek,
+    rejectWeek,
+    mutationError: weekError,
+  } = useTimesheetWeeks({
+    userId: viewUserId || undefined,
+    startDate: toYMD(weekDays[0]!),
+    endDate: toYMD(weekDays[6]!),
+    includeSubmitted: canApprove,
+  })
 
-  const { jobs } = useJobs()
-  const { tasks } = useTasks()
-  const { users } = useUsers()
+  const { jobs } = useJobs({ all: true })
+  const { tasks } = useTasks({ all: true })
+  const { users } = useUsers({ all: true })
+  const { rules } = useTimesheetRules()
+  // Everyone's leave in range for managers, otherwise just the user's own
+  const { leave, pendingLeave, approveLeave, rejectLeave } = useLeave({ from: rangeStart, to: rangeEnd, includePending: canApprove })
+  const calendar = useMemo<WorkingCalendar>(
+    () => ({ rules, leave: leave.filter(l => l.status === 'approved') }),
+    [rules, leave],
+  )
+  // Closed periods are read-only for everyone but admins, who still see the lock
+  const { locks } = usePeriodLocks()
+  const readOnlyOn = (ymd: string) => !canEditLocked && !!lockFor(locks, ymd)
 
   // Get job IDs that the employee has access to (through assigned tasks)
   const accessibleJobIds = useMemo(() => {
-    if (isManager) return null // Managers see all jobs
+    if (canSeeAllJobs) return null
     return tasks
       .filter(t => t.assignedToIds?.includes(user?.id || ''))
       .map(t => t.jobId)
       .filter((v, i, a) => a.indexOf(v) === i) // Remove duplicates
-  }, [tasks, user?.id, isManager])
+  }, [tasks, user?.id, canSeeAllJobs])
+
+  // Jobs and tasks the current user may log time against
+  const loggableJobs = useMemo(() => jobs.filter(j => {
+    // Staff who can see every job may log against any active one
+    if (canSeeAllJobs) return canLogTime(j.status)
+    // For employees, only show jobs they have tasks assigned to
+    return canLogTime(j.status) && accessibleJobIds?.includes(j.id)
+  }), [jobs, canSeeAllJobs, accessibleJobIds])
+
+  const loggableTasks = (jobId: string) => tasks.filter(t => {
+    if (t.jobId !== jobId) return false
+    // Staff who can see every task may log against any of this job's tasks
+    if (can('tasks.viewAll')) return true
+    // For employees, only show tasks assigned to them
+    return t.assignedToIds?.includes(user?.id || '')
+  })
 
   // Only employees — for the filter dropdown
   const employeeList = useMemo(() => users.filter(u => u.status === 'active'), [users])
 
-  // Apply user filter for managers; employees always see only their own
-  const rawEntries = useMemo(() => {
-    if (!isManager) return rawEntriesAll
-    if (!selectedUserId) return rawEntriesAll
-    return rawEntriesAll.filter(e => e.userId === selectedUserId)
-  }, [rawEntriesAll, isManager, selectedUserId])
-
-  // ---------- Tab + date navigation ----------
-  type Tab = 'daily' | 'weekly' | 'monthly'
-  const [activeTab, setActiveTab] = useState<Tab>('weekly')
-  const [anchorDate, setAnchorDate] = useState(new Date())
-
-  const weekMonday = useMemo(() => getMonday(anchorDate), [anchorDate])
-  const weekDays   = useMemo(() => getWeekDays(weekMonday), [weekMonday])
-  const monthWeeks = useMemo(() => getMonthWeeks(anchorDate), [anchorDate])
 
   function navigate(dir: -1 | 1) {
     setAnchorDate(prev => {
@@ -257,12 +1037,12 @@ export function Timesheets() {
       return anchorDate.toLocaleDateString('en-AU', { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' })
     }
     if (activeTab === 'weekly') {
-      const sun = weekDays[6]
+      const last = weekDays[6]!
       const fmt = (d: Date) => d.toLocaleDateString('en-AU', { day: 'numeric', month: 'short' })
-      return `${fmt(weekMonday)} – ${fmt(sun!)} ${weekDays[6]!.getFullYear()}`
+      return `${fmt(weekStart)} – ${fmt(last)} ${last.getFullYear()}`
     }
     return `${MONTH_NAMES[anchorDate.getMonth()]} ${anchorDate.getFullYear()}`
-  }, [activeTab, anchorDate, weekMonday, weekDays])
+  }, [activeTab, anchorDate, weekStart, weekDays])
 
   // ---------- Stats (scoped to current period) ----------
   const periodEntries = useMemo(() => {
@@ -286,18 +1066,77 @@ export function Timesheets() {
 
   const totalHoursAll    = periodEntries.reduce((s, e) => s + e.hours, 0)
   const billableHours    = periodEntries.filter(e => e.billable).reduce((s, e) => s + e.hours, 0)
+  const billedHours      = periodEntries.filter(e => e.billable).reduce((s, e) => s + e.billedHours, 0)
   const nonBillableHours = totalHoursAll - billableHours
   const pendingCount     = periodEntries.filter(e => e.status === 'pending_approval').length
-  const workDays         = activeTab === 'daily' ? 1 : activeTab === 'weekly' ? 5 : 20
-  const overtimeHours    = Math.max(0, totalHoursAll - workDays * 8)
+
+  // Expected hours come from the working calendar, so holidays and leave count
+  const [periodStart, periodEnd] = activeTab === 'daily'
+    ? [toYMD(anchorDate), toYMD(anchorDate)]
+    : activeTab === 'weekly'
+      ? [toYMD(weekDays[0]!), toYMD(weekDays[6]!)]
+      : [toYMD(new Date(anchorDate.getFullYear(), anchorDate.getMonth(), 1)), toYMD(new Date(anchorDate.getFullYear(), anchorDate.getMonth() + 1, 0))]
+  const scopeUserIds = viewUserId ? [viewUserId] : employeeList.map(u => u.id)
+  const expectedByUser = scopeUserIds.map(id => ({
+    id,
+    expected: expectedHoursBetween(calendar, id, periodStart, periodEnd),
+    logged: periodEntries.filter(e => e.userId === id).reduce((s, e) => s + e.hours, 0),
+  }))
+  const expectedPeriodHours = expectedByUser.reduce((s, u) => s + u.expected, 0)
+  // Per person, so one person's short week doesn't cancel out another's long one
+  const overtimeHours = expectedByUser.reduce((s, u) => s + Math.max(0, u.logged - u.expected), 0)
+  const periodLocks = locks.filter(l => !l.unlockedAt && l.startDate <= periodEnd && l.endDate >= periodStart)
+
+  // ---------- Week submission ----------
+  const weekStartYmd = toYMD(weekDays[0]!)
+  const weekEndYmd = toYMD(weekDays[6]!)
+  const currentWeek = weeks.find(w => w.weekStart <= weekEndYmd && w.weekEnd >= weekStartYmd)
+  const weekStatus: WeekStatus = currentWeek?.status ?? 'draft'
+  const isOwnWeek = !!viewUserId && viewUserId === user?.id
+  const workingDays = weekDays.filter(d => expectedHours(calendar, viewUserId ?? '', toYMD(d)) > 0)
+  const lastWorkingDay = workingDays[workingDays.length - 1] ?? weekDays[0]!
+  // Submittable once its last working day has arrived
+  const weekNotOver = toYMD(lastWorkingDay) > toYMD(new Date())
+  const missingWorkingDays = workingDays
+    .filter(d => !rawEntries.some(e => e.userId === viewUserId && e.date === toYMD(d) && e.hours > 0))
+    .map(d => `${DAY_NAMES[d.getDay()]} ${d.getDate()}`)
+  const [submittingWeek, setSubmittingWeek] = useState(false)
+  const [addedRows, setAddedRows] = useState<Array<{ userId: string; weekStart: string; jobId: string; taskId: string }>>([])
+
+  const viewWeek = (week: TimesheetWeek) => {
+    setSelectedUserId(week.userId)
+    setAnchorDate(new Date(`${week.weekStart}T00:00:00`))
+    setActiveTab('weekly')
+  }
+
+  // ---------- Edit entry ----------
+  const [editing, setEditing] = useState<TimesheetEntry | null>(null)
+  const viewedWeekLocked = weekStatus === 'submitted' || weekStatus === 'approved'
+  const canEditEntry = (e: TimesheetEntry) =>
+    e.status !== 'approved' && (e.userId === user?.id || canApprove) && !(e.userId === viewUserId && viewedWeekLocked) && !readOnlyOn(e.date)
 
   // ---------- Inline reject modal state ----------
-  const [rejectModal, setRejectModal] = useState<{ id: string } | null>(null)
+  const [rejectModal, setRejectModal] = useState<{ ids: string[] } | null>(null)
+  const [reviewOutcome, setReviewOutcome] = useState<ReviewOutcome | null>(null)
+  // Weekly grid rows (by key) ticked for approve/reject selected
+  const [selectedRows, setSelectedRows] = useState<string[]>([])
+
+  const reviewFromGrid = async (verb: 'approved' | 'rejected', action: () => Promise<BatchReviewResult[] | null>) => {
+    setBusy(true)
+    const snapshot = rawEntries
+    const results = await action()
+    setBusy(false)
+    setReviewOutcome(results
+      ? describeReview(results, snapshot, verb)
+      : { summary: `Nothing was ${verb} — the request failed. Try again.`, failures: [] })
+    if (results) setSelectedRows([])
+  }
   const [rejectReason, setRejectReason] = useState('')
   const [busy, setBusy] = useState(false)
 
   // ---------- Log Daily Time modal state ----------
   const [logDailyModal, setLogDailyModal] = useState(false)
+  const [leaveModal, setLeaveModal] = useState(false)
   const [dailyLog, setDailyLog] = useState({
     date: new Date().toISOString().split('T')[0],
     hours: '8',
@@ -308,19 +1147,55 @@ export function Timesheets() {
     task: '',
     notes: '',
     billable: true,
+    // 'times' derives the hours from start, finish and break
+    mode: 'hours' as 'hours' | 'times',
+    startTime: '09:00',
+    endTime: '17:00',
+    breakMinutes: '30',
   })
   const [dailyEntries, setDailyEntries] = useState<Array<{
     id: string; date: string; hours: number; client: string
     jobId: string; job: string; taskId: string; task: string;   notes: string; billable: boolean
+    times?: EntryTimes
   }>>([])
   const [submitting, setSubmitting] = useState(false)
 
+  // Template items land on whichever day the modal is set to
+  const applyTemplate = (items: TemplateItemDetail[]) => {
+    setDailyEntries(prev => [...prev, ...items.map((item, i) => ({
+      id: `entry-${Date.now()}-${i}`,
+      date: dailyLog.date,
+      hours: item.hours,
+      client: jobs.find(j => j.id === item.jobId)?.clientName ?? '',
+      jobId: item.jobId,
+      job: item.jobTitle,
+      taskId: item.taskId ?? '',
+      task: item.taskName ?? '',
+      notes: item.description ?? '',
+      billable: item.billable,
+    }))])
+  }
+
   const resetLogModal = () => {
     setLogDailyModal(false)
     setDailyEntries([])
-    setDailyLog({ date: new Date().toISOString().split('T')[0], hours: '8', client: '', jobId: '', job: '', taskId: '', task: '',notes:'', billable: true })
+    setDailyLog(prev => ({ date: new Date().toISOString().split('T')[0], hours: '8', client: '', jobId: '', job: '', taskId: '', task: '',notes:'', billable: true, mode: prev.mode, startTime: '09:00', endTime: '17:00', breakMinutes: '30' }))
   }
 
+  // Start/finish mode: the times can't run into anything already logged (or added here) that day
+  const logTimes: EntryTimes | null = dailyLog.mode === 'times'
+    ? { startTime: dailyLog.startTime, endTime: dailyLog.endTime, breakMinutes: Number(dailyLog.breakMinutes || 0) }
+    : null
+  const logTimesProblem = logTimes && timesProblem(logTimes)
+  const logTimesOverlap = logTimes && !logTimesProblem
+    ? [
+        ...rawEntries.filter(e => e.userId === user?.id && e.date === dailyLog.date).flatMap(e => e.times ? [{ times: e.times, job: e.jobTitle }] : []),
+        ...dailyEntries.filter(e => e.date === dailyLog.date).flatMap(e => e.times ? [{ times: e.times, job: e.job }] : []),
+      ].find(o => timesOverlap(logTimes, o.times))
+    : undefined
+  const logHours = logTimes ? (logTimesProblem ? 0 : workedHours(logTimes)) : parseFloat(dailyLog.hours)
+  const canAddLog = !!dailyLog.jobId && logHours > 0 && !logTimesOverlap && !readOnlyOn(dailyLog.date)
+
   // Helper: get jobId display string
   const getJobIdDisplay = (dbJobId: string) => {
     const j = jobs.find(j => j.id === dbJobId)
@@ -336,7 +1211,10 @@ export function Timesheets() {
   // ---------- WEEKLY view data ----------
   // Rows = unique userId+jobId+taskId combinations; columns = Mon-Sun
   interface WeekRow {
+    key: string
+    userId: string
     jobDbId: string
+    taskId?: string
     jobIdDisplay: string
     clientName: string
     jobTitle: string
@@ -361,7 +1239,10 @@ export function Timesheets() {
       if (!map[key]) {
         const task = tasks.find(t => t.id === e.taskId)
         map[key] = {
+          key,
+          userId: e.userId,
           jobDbId: e.jobId,
+          taskId: e.taskId,
           jobIdDisplay: getJobIdDisplay(e.jobId),
           clientName: e.clientName,
           jobTitle: e.jobTitle,
@@ -379,8 +1260,163 @@ export function Timesheets() {
       if (e.status === 'pending_approval') map[key].hasFlag = true
       map[key].entries.push(e)
     }
+
+    // Rows added from the grid stay on screen, empty, until hours are typed in
+    for (const added of addedRows) {
+      const key = `${added.userId}::${added.jobId}::${added.taskId}`
+      if (added.weekStart !== start || map[key]) continue
+      const job = jobs.find(j => j.id === added.jobId)
+      const task = tasks.find(t => t.id === added.taskId)
+      map[key] = {
+        key,
+        userId: added.userId,
+        jobDbId: added.jobId,
+        taskId: added.taskId || undefined,
+        jobIdDisplay: job?.jobId ?? '—',
+        clientName: job?.clientName ?? '',
+        jobTitle: job?.title ?? '',
+        taskName: task?.name ?? '—',
+        taskType: task?.type ?? '—',
+        userName: users.find(u => u.id === added.userId)?.name ?? '',
+        dayHours: {},
+        total: 0,
+        hasFlag: false,
+        entries: [],
+      }
+    }
     return Object.values(map)
-  }, [rawEntries, weekDays, tasks, jobs])
+  }, [rawEntries, weekDays, tasks, jobs, users, addedRows])
+
+  // ---------- Weekly grid editing ----------
+  // Hours for the viewed person's own draft (or sent-back) week can be typed straight into the grid
+  const gridEditable = !!viewUserId && (isOwnWeek || canApprove) && (weekStatus === 'draft' || weekStatus === 'rejected')
+  // Typed values show (and count towards day totals) while they save
+  const [pendingHours, setPendingHours] = useState<Record<string, number>>({})
+  const [cellStates, setCellStates] = useState<Record<string, CellState>>({})
+  const [newRow, setNewRow] = useState({ jobId: '', taskId: '' })
+
+  // Queued cells keep their typed value until the outbox has sent every logged entry,
+  // then fall back to what the server has (the synced entry, or nothing if it was rejected)
+  const logsWaiting = useOutboxStore(s => s.items.some(i => i.kind === 'timesheet.log' && i.status === 'pending'))
+  const [wasWaiting, setWasWaiting] = useState(logsWaiting)
+  if (wasWaiting !== logsWaiting) {
+    setWasWaiting(logsWaiting)
+    const queued = Object.keys(cellStates).filter(cell => cellStates[cell] === 'queued')
+    if (!logsWaiting && queued.length > 0) {
+      setPendingHours(prev => Object.fromEntries(Object.entries(prev).filter(([cell]) => !queued.includes(cell))))
+      setCellStates(prev => Object.fromEntries(Object.entries(prev).filter(([cell]) => !queued.includes(cell))))
+    }
+  }
+
+  const cellHours = (row: WeekRow, ymd: string) => pendingHours[`${row.key}|${ymd}`] ?? row.dayHours[ymd] ?? 0
+
+  const flaggedIds = (row: WeekRow) => row.entries.filter(e => e.status === 'pending_approval').map(e => e.id)
+  const selectedWeekRows = weeklyRows.filter(r => selectedRows.includes(r.key))
+  const selectedFlaggedIds = selectedWeekRows.flatMap(flaggedIds)
+
+  // A day holding several entries for the same job/task is edited from the daily view instead
+  const cellEditable = (row: WeekRow, ymd: string) => {
+    const dayEntries = row.entries.filter(e => e.date === ymd)
+    return dayEntries.length <= 1 && !(dayEntries[0]?.status === 'approved' && !canApprove) && !readOnlyOn(ymd)
+  }
+
+  const saveCell = async (row: WeekRow, ymd: string, hours: number) => {
+    const cell = `${row.key}|${ymd}`
+    const existing = row.entries.find(e => e.date === ymd)
+    setPendingHours(prev => ({ ...prev, [cell]: hours }))
+    setCellStates(prev => ({ ...prev, [cell]: 'saving' }))
+    let saved: boolean
+    if (!existing) {
+      const logged = await logTime({
+        userId: row.userId,
+        jobId: row.jobDbId,
+        taskId: row.taskId,
+        date: ymd,
+        hours,
+        description: row.taskId ? row.taskName : row.jobTitle,
+      })
+      if (logged === 'queued') {
+        setCellStates(prev => ({ ...prev, [cell]: 'queued' }))
+        return
+      }
+      saved = logged !== null
+    } else if (hours > 0) {
+      saved = await editEntry(existing.id, { hours }) !== null
+    } else {
+      saved = await deleteEntry(existing.id)
+    }
+    setPendingHours(prev => {
+      const next = { ...prev }
+      delete next[cell]
+      return next
+    })
+    setCellStates(prev => ({ ...prev, [cell]: saved ? 'idle' : 'error' }))
+  }
+
+  // ---------- Copy last week ----------
+  // One draft per job/task and day of the previous week, moved on seven days — the same cells the grid shows
+  const lastWeekCells = useMemo(() => {
+    const start = toYMD(previousWeekStart)
+    const cells = new Map<string, { jobId: string; taskId?: string; date: string; hours: number; description: string }>()
+    for (const e of rawEntries) {
+      if (e.userId !== viewUserId || e.date < start || e.date >= weekStartYmd) continue
+      const date = toYMD(addDays(new Date(`${e.date}T00:00:00`), 7))
+      const key = `${e.jobId}::${e.taskId ?? ''}::${date}`
+      const cell = cells.get(key)
+      if (cell) cell.hours += e.hours
+      else cells.set(key, { jobId: e.jobId, taskId: e.taskId, date, hours: e.hours, description: e.description || e.taskName || e.jobTitle })
+    }
+    return [...cells.values()]
+  }, [rawEntries, viewUserId, previousWeekStart, weekStartYmd])
+  const [copyingWeek, setCopyingWeek] = useState(false)
+  const [copyOutcome, setCopyOutcome] = useState<{ userId: string; weekStart: string; message: string } | null>(null)
+
+  const copyLastWeek = async () => {
+    if (!viewUserId) return
+    setCopyingWeek(true)
+    let copied = 0
+    let closed = 0
+    let taken = 0
+    try {
+      for (const cell of lastWeekCells) {
+        const job = jobs.find(j => j.id === cell.jobId)
+        const task = tasks.find(t => t.id === cell.taskId)
+        if (!canLogTime(job?.status, task?.status)) {
+          closed++
+          continue
+        }
+        // Never over the top of what's already there, or onto a day off or a closed period
+        const filled = rawEntries.some(e =>
+          e.userId === viewUserId && e.date === cell.date && e.jobId === cell.jobId && (e.taskId ?? '') === (cell.taskId ?? ''))
+        if (filled || dayOff(calendar, viewUserId, cell.date) || readOnlyOn(cell.date)) {
+          taken++
+          continue
+        }
+        const result = await logTime({ userId: viewUserId, ...cell })
+        if (result !== null) copied++
+      }
+    } finally {
+      setCopyingWeek(false)
+    }
+    const skipped = [
+      closed > 0 && `${closed} on completed tasks or closed jobs`,
+      taken > 0 && `${taken} on days already filled, off or locked`,
+    ].filter(Boolean)
+    const failed = lastWeekCells.length - copied - closed - taken
+    setCopyOutcome({
+      userId: viewUserId,
+      weekStart: weekStartYmd,
+      message: `Copied ${copied} ${copied === 1 ? 'entry' : 'entries'} from last week as drafts.`
+        + (skipped.length > 0 ? ` Skipped ${skipped.join(' and ')}.` : '')
+        + (failed > 0 ? ` ${failed} couldn't be saved.` : ''),
+    })
+  }
+
+  const addGridRow = () => {
+    if (!viewUserId || !newRow.jobId) return
+    setAddedRows(prev => [...prev, { ...newRow, userId: viewUserId, weekStart: weekStartYmd }])
+    setNewRow({ jobId: '', taskId: '' })
+  }
 
   // ---------- MONTHLY view data ----------
   interface MonthRow {
@@ -442,12 +1478,12 @@ export function Timesheets() {
         <div>
           <h1 style={{ fontSize: 22, fontWeight: 700, color: '#1a1f36', margin: 0 }}>Time Sheet</h1>
           <p style={{ color: '#6b7280', fontSize: 13, marginTop: 4 }}>
-            {isManager ? 'Review and approve team daily timesheets' : 'Log and track your daily time entries'}
+            {canApprove ? 'Review and approve team daily timesheets' : 'Log and track your daily time entries'}
           </p>
         </div>
         <div style={{ display: 'flex', alignItems: 'center', gap: 10 }}>
           {/* Employee filter — managers/admins only */}
-          {isManager && (
+          {canViewTeam && (
             <div style={{ display: 'flex', alignItems: 'center', gap: 7, background: '#fff', border: '1px solid #e5e7eb', borderRadius: 8, padding: '7px 12px', fontSize: 13 }}>
               <Users size={14} style={{ color: '#6b7280', flexShrink: 0 }} />
               <select
@@ -463,7 +1499,13 @@ export function Timesheets() {
             </div>
           )}
           <button
-            onClick={() => setLogDailyModal(true)}
+            onClick={() => setLeaveModal(true)}
+            style={{ display: 'flex', alignItems: 'center', gap: 7, background: '#fff', color: '#374151', border: '1px solid #e5e7eb', borderRadius: 8, padding: '9px 16px', fontWeight: 600, fontSize: 14, cursor: 'pointer' }}
+          >
+            <Palmtree size={16} /> Leave
+          </button>
+          <button
+            onClick={() => { resetMutationError(); setLogDailyModal(true) }}
             style={{ display: 'flex', alignItems: 'center', gap: 7, background: '#2563eb', color: '#fff', border: 'none', borderRadius: 8, padding: '9px 18px', fontWeight: 600, fontSize: 14, cursor: 'pointer' }}
           >
             <LogIn size={16} /> Log Daily Time
@@ -471,16 +1513,22 @@ export function Timesheets() {
         </div>
       </div>
 
-      {/* ── Approval panel ── */}
-      {isManager && pendingEntries.length > 0 && (
-        <ApprovalPanel entries={pendingEntries} onApprove={approveEntry} onReject={rejectEntry} />
+      {/* ── Approval panels ── */}
+      {canApprove && submittedWeeks.length > 0 && (
+        <WeekApprovalPanel weeks={submittedWeeks} onView={viewWeek} onApprove={approveWeek} onReject={rejectWeek} error={weekError} />
+      )}
+      {canApprove && pendingLeave.length > 0 && (
+        <LeaveApprovalPanel requests={pendingLeave} onApprove={approveLeave} onReject={rejectLeave} />
+      )}
+      {canApprove && pendingEntries.length > 0 && (
+        <ApprovalPanel entries={pendingEntries} onApprove={approveEntries} onReject={rejectEntries} />
       )}
 
       {/* ── 5 Colored Stat Cards ── */}
       <div style={{ display: 'grid', gridTemplateColumns: 'repeat(5, 1fr)', gap: 14, marginBottom: 24 }}>
         {[
-          { label: 'Total Hours',    value: `${totalHoursAll.toFixed(1)}h`,    bar: '#2563eb', bg: '#dbeafe', fg: '#1d4ed8', icon: <Clock size={17} /> },
-          { label: 'Billable Hours', value: `${billableHours.toFixed(1)}h`,    bar: '#059669', bg: '#d1fae5', fg: '#065f46', icon: <TrendingUp size={17} /> },
+          { label: 'Total Hours',    value: `${totalHoursAll.toFixed(1)}h`,    bar: '#2563eb', bg: '#dbeafe', fg: '#1d4ed8', icon: <Clock size={17} />, sub: `of ${expectedPeriodHours.toFixed(1)}h expected` },
+          { label: 'Billable Hours', value: `${billableHours.toFixed(1)}h`,    bar: '#059669', bg: '#d1fae5', fg: '#065f46', icon: <TrendingUp size={17} />, sub: `${billedHours.toFixed(1)}h billed after rounding` },
           { label: 'Non-Billable',   value: `${nonBillableHours.toFixed(1)}h`, bar: '#f59e0b', bg: '#fef3c7', fg: '#92400e', icon: <Clock size={17} /> },
           { label: 'Overtime',       value: `${overtimeHours.toFixed(1)}h`,    bar: '#ef4444', bg: '#fee2e2', fg: '#991b1b', icon: <AlertCircle size={17} /> },
           { label: 'Pending',        value: `${pendingCount}`,                  bar: '#6b7280', bg: '#f3f4f6', fg: '#374151', icon: <AlertCircle size={17} /> },
@@ -492,6 +1540,7 @@ export function Timesheets() {
             </div>
             <div style={{ fontSize: 20, fontWeight: 700, color: '#1a1f36', lineHeight: 1 }}>{s.value}</div>
             <div style={{ fontSize: 12, color: '#6b7280', fontWeight: 500, marginTop: 4 }}>{s.label}</div>
+            {s.sub && <div style={{ fontSize: 11, color: '#9ca3af', marginTop: 2 }}>{s.sub}</div>}
           </div>
         ))}
       </div>
@@ -523,6 +1572,14 @@ export function Timesheets() {
             <button onClick={() => navigate(1)} style={{ width: 28, height: 28, border: '1px solid #e5e7eb', borderRadius: 6, background: '#fff', cursor: 'pointer', display: 'grid', placeItems: 'center', color: '#374151' }}>
               <ChevronRight size={14} />
             </button>
+            <button
+              onClick={() => downloadTimesheetCsv(periodEntries, periodStart === periodEnd ? `timesheets-${periodStart}.csv` : `timesheets-${periodStart}-to-${periodEnd}.csv`)}
+              disabled={periodEntries.length === 0}
+              title="Download the entries on screen as CSV, with start/finish times where logged"
+              style={{ display: 'flex', alignItems: 'center', gap: 5, marginLeft: 4, padding: '5px 10px', border: '1px solid #e5e7eb', borderRadius: 6, background: '#fff', color: '#374151', fontSize: 12, fontWeight: 600, cursor: periodEntries.length === 0 ? 'not-allowed' : 'pointer', opacity: periodEntries.length === 0 ? 0.5 : 1 }}
+            >
+              <Download size={13} /> Export
+            </button>
           </div>
         </div>
 
@@ -534,9 +1591,9 @@ export function Timesheets() {
                 <tr>
                   {[
                     'Job ID',
-                    ...(isManager ? ['Employee'] : []),
+                    ...(canViewTeam ? ['Employee'] : []),
                     'Client', 'Job', 'Task', 'Task Type', 'Hours', 'Billable', 'Notes', 'Status',
-                    ...(isManager ? ['Action'] : []),
+                    ...(canApprove ? ['Action'] : []),
                   ].map(h => (
                     <th key={h} style={th}>{h}</th>
                   ))}
@@ -544,7 +1601,7 @@ export function Timesheets() {
               </thead>
               <tbody>
                 {dailyViewEntries.length === 0 ? (
-                  <tr><td colSpan={isManager ? 11 : 9} style={{ textAlign: 'center', padding: '48px 18px', color: '#9ca3af', fontSize: 14 }}>
+                  <tr><td colSpan={9 + Number(canViewTeam) + Number(canApprove)} style={{ textAlign: 'center', padding: '48px 18px', color: '#9ca3af', fontSize: 14 }}>
                     No entries for this day. Click "Log Daily Time" to add.
                   </td></tr>
                 ) : dailyViewEntries.map((e, i) => {
@@ -557,7 +1614,7 @@ export function Timesheets() {
                           {getJobIdDisplay(e.jobId)}
                         </span>
                       </td>
-                      {isManager && (
+                      {canViewTeam && (
                         <td style={td}>
                           <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
                             <Avatar name={e.userName} size="xs" />
@@ -569,7 +1626,11 @@ export function Timesheets() {
                       <td style={{ ...td, fontWeight: 600 }}>{e.jobTitle}</td>
                       <td style={td}>{e.taskName ?? <span style={{ color: '#9ca3af', fontStyle: 'italic' }}>{e.description || '—'}</span>}</td>
                       <td style={{ ...td, color: '#6b7280' }}>{task?.type ?? '—'}</td>
-                      <td style={{ ...tdNum }}>{e.hours}h</td>
+                      <td style={{ ...tdNum }} title={e.rawHours !== undefined ? `Timer: ${e.rawHours}h before rounding` : undefined}>
+                        {e.hours}h
+                        {e.times && <div style={{ fontSize: 11, fontWeight: 500, color: '#6b7280', whiteSpace: 'nowrap' }}>{formatTimes(e.times)}</div>}
+                        {isBillable && e.billedHours !== e.hours && <div style={{ fontSize: 11, fontWeight: 500, color: '#059669', whiteSpace: 'nowrap' }}>bills {e.billedHours}h</div>}
+                      </td>
                       <td style={td}>
                         <span style={{ fontSize: 11, fontWeight: 600, padding: '2px 8px', borderRadius: 20, background: isBillable ? '#d1fae5' : '#f3f4f6', color: isBillable ? '#065f46' : '#4b5563' }}>
                           {isBillable ? 'Billable' : 'Non-Bill'}
@@ -581,15 +1642,29 @@ export function Timesheets() {
                         </span>
                       </td>
                       <td style={td}>
-                        <StatusPill status={e.status} />
+                        <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+                          <StatusPill status={e.status} />
+                          {canEditEntry(e) && (
+                            <button
+                              onClick={() => { resetMutationError(); setEditing(e) }}
+                              title={e.status === 'rejected' ? 'Fix and resubmit' : 'Edit entry'}
+                              style={{ display: 'flex', alignItems: 'center', gap: 3, padding: '2px 7px', borderRadius: 5, border: '1px solid #e5e7eb', background: '#fff', color: e.status === 'rejected' ? '#dc2626' : '#6b7280', fontSize: 11, fontWeight: 600, cursor: 'pointer' }}
+                            >
+                              <Edit2 size={10} /> {e.status === 'rejected' ? 'Fix' : 'Edit'}
+                            </button>
+                          )}
+                        </div>
                         {e.status === 'rejected' && e.rejectionNote && (
                           <div style={{ fontSize: 11, color: '#ef4444', marginTop: 3 }}>{e.rejectionNote}</div>
                         )}
+                        {e.status !== 'rejected' && e.history.some(h => h.action === 'rejected') && (
+                          <div style={{ fontSize: 11, color: '#6b7280', marginTop: 3 }}>Resubmitted after rejection</div>
+                        )}
                         {e.status === 'pending_approval' && e.flagReason && (
                           <div style={{ fontSize: 11, color: '#d97706', marginTop: 3 }}>{flagLabel(e.flagReason)}</div>
                         )}
                       </td>
-                      {isManager && (
+                      {canApprove && (
                         <td style={td}>
                           {e.status === 'pending_approval' && (
                             <div style={{ display: 'flex', gap: 4 }}>
@@ -597,7 +1672,7 @@ export function Timesheets() {
                                 style={{ padding: '4px 10px', borderRadius: 6, border: 'none', background: '#d1fae5', color: '#065f46', fontSize: 12, fontWeight: 600, cursor: 'pointer', display: 'flex', alignItems: 'center', gap: 3 }}>
                                 <Check size={11} /> Approve
                               </button>
-                              <button onClick={() => setRejectModal({ id: e.id })} disabled={busy}
+                              <button onClick={() => setRejectModal({ ids: [e.id] })} disabled={busy}
                                 style={{ padding: '4px 10px', borderRadius: 6, border: 'none', background: '#fee2e2', color: '#991b1b', fontSize: 12, fontWeight: 600, cursor: 'pointer', display: 'flex', alignItems: 'center', gap: 3 }}>
                                 <X size={11} /> Reject
                               </button>
@@ -615,9 +1690,9 @@ export function Timesheets() {
               {dailyViewEntries.length > 0 && (
                 <tfoot>
                   <tr style={{ background: '#f9fafb' }}>
-                    <td colSpan={isManager ? 6 : 5} style={{ ...td, fontWeight: 700, color: '#1e293b' }}>Total</td>
+                    <td colSpan={canViewTeam ? 6 : 5} style={{ ...td, fontWeight: 700, color: '#1e293b' }}>Total</td>
                     <td style={{ ...tdNum, color: '#2563eb' }}>{dailyViewEntries.reduce((s,e) => s+e.hours,0).toFixed(1)}h</td>
-                    <td colSpan={isManager ? 4 : 3} />
+                    <td colSpan={canApprove ? 4 : 3} />
                   </tr>
                 </tfoot>
               )}
@@ -625,37 +1700,95 @@ export function Timesheets() {
           </div>
         )}
 
+        {reviewOutcome && (
+          <div style={{ padding: '12px 20px 0' }}>
+            <ReviewOutcomeBanner outcome={reviewOutcome} onDismiss={() => setReviewOutcome(null)} />
+          </div>
+        )}
+
+        {activeTab !== 'daily' && periodLocks.length > 0 && (
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8, padding: '10px 20px', borderBottom: '1px solid #f1f3f9', background: '#fffbeb', fontSize: 13, color: '#92400e' }}>
+            <Lock size={14} style={{ flexShrink: 0 }} />
+            {periodLocks.map(l => formatWeekRange(l.startDate, l.endDate)).join(', ')}
+            {periodLocks.length === 1 ? ' is a closed period' : ' are closed periods'}
+            {canEditLocked ? ' — you can still correct entries as an admin.' : '. Entries dated inside it are read-only.'}
+          </div>
+        )}
+
         {/* ── WEEKLY VIEW ── */}
+        {activeTab === 'weekly' && canViewTeam && weeklyRows.some(r => r.hasFlag) && (
+          <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 12, padding: '10px 20px', borderBottom: '1px solid #f1f3f9', flexWrap: 'wrap' }}>
+            <label style={{ display: 'flex', alignItems: 'center', gap: 7, fontSize: 12, fontWeight: 600, color: '#6b7280', cursor: 'pointer' }}>
+              <input
+                type="checkbox"
+                checked={weeklyRows.filter(r => r.hasFlag).every(r => selectedRows.includes(r.key))}
+                onChange={e => setSelectedRows(e.target.checked ? weeklyRows.filter(r => r.hasFlag).map(r => r.key) : [])}
+                style={{ width: 14, height: 14, accentColor: '#d97706' }}
+              />
+              {selectedWeekRows.length > 0
+                ? `${selectedWeekRows.length} ${selectedWeekRows.length === 1 ? 'row' : 'rows'} selected (${selectedFlaggedIds.length} flagged ${selectedFlaggedIds.length === 1 ? 'entry' : 'entries'})`
+                : 'Select all flagged rows'}
+            </label>
+            <div style={{ display: 'flex', gap: 8 }}>
+              <button
+                onClick={() => void reviewFromGrid('approved', () => approveEntries(selectedFlaggedIds))}
+                disabled={busy || selectedFlaggedIds.length === 0}
+                style={{ display: 'flex', alignItems: 'center', gap: 4, padding: '6px 12px', borderRadius: 6, border: 'none', background: '#059669', color: '#fff', fontSize: 12, fontWeight: 600, cursor: 'pointer', opacity: busy || selectedFlaggedIds.length === 0 ? 0.5 : 1 }}
+              >
+                <Check size={12} /> Approve selected
+              </button>
+              <button
+                onClick={() => setRejectModal({ ids: selectedFlaggedIds })}
+                disabled={busy || selectedFlaggedIds.length === 0}
+                style={{ display: 'flex', alignItems: 'center', gap: 4, padding: '6px 12px', borderRadius: 6, border: 'none', background: '#dc2626', color: '#fff', fontSize: 12, fontWeight: 600, cursor: 'pointer', opacity: busy || selectedFlaggedIds.length === 0 ? 0.5 : 1 }}
+              >
+                <X size={12} /> Reject selected
+              </button>
+            </div>
+          </div>
+        )}
         {activeTab === 'weekly' && (
           <div style={{ overflowX: 'auto' }}>
             <table style={{ width: '100%', borderCollapse: 'collapse' }}>
               <thead>
                 <tr>
-                  {[
-                    'Job ID',
-                    ...(isManager ? ['Employee'] : []),
-                    'Client', 'Job', 'Task', 'Task Type',
-                    ...weekDays.map((d, i) => `${DAY_NAMES[i]} ${d.getDate()}`),
-                    'Total',
-                    ...(isManager ? ['Status'] : []),
-                  ].map(h => (
-                    <th key={h} style={{ ...th, textAlign: h === 'Total' || h === 'Status' || DAY_NAMES.some(n => h.startsWith(n)) ? 'center' : 'left' }}>{h}</th>
+                  {['Job ID', ...(canViewTeam ? ['Employee'] : []), 'Client', 'Job', 'Task', 'Task Type'].map(h => (
+                    <th key={h} style={th}>{h}</th>
+                  ))}
+                  {weekDays.map(d => {
+                    // With no one selected only public holidays apply to everybody
+                    const off = dayOff(calendar, viewUserId ?? '', toYMD(d))
+                    const locked = !!lockFor(locks, toYMD(d))
+                    return (
+                      <th key={toYMD(d)} title={[off?.name, locked && 'Closed period'].filter(Boolean).join(' · ') || undefined} style={{ ...th, textAlign: 'center' }}>
+                        {locked && <Lock size={10} style={{ marginRight: 3, verticalAlign: -1 }} />}
+                        {DAY_NAMES[d.getDay()]} {d.getDate()}
+                        {off && (
+                          <div style={{ fontSize: 10, fontWeight: 600, color: off.kind === 'holiday' ? '#7c3aed' : '#0891b2', textTransform: 'none', letterSpacing: 0 }}>
+                            {off.kind === 'holiday' ? 'Holiday' : 'Leave'}
+                          </div>
+                        )}
+                      </th>
+                    )
+                  })}
+                  {['Total', ...(canViewTeam ? ['Status'] : [])].map(h => (
+                    <th key={h} style={{ ...th, textAlign: 'center' }}>{h}</th>
                   ))}
                 </tr>
               </thead>
               <tbody>
                 {weeklyRows.length === 0 ? (
-                  <tr><td colSpan={isManager ? 15 : 13} style={{ textAlign: 'center', padding: '48px 18px', color: '#9ca3af', fontSize: 14 }}>
-                    No entries for this week. Click "Log Daily Time" to add.
+                  <tr><td colSpan={canViewTeam ? 15 : 13} style={{ textAlign: 'center', padding: '48px 18px', color: '#9ca3af', fontSize: 14 }}>
+                    {gridEditable ? 'No entries for this week. Add a job row below and type in your hours.' : 'No entries for this week. Click "Log Daily Time" to add.'}
                   </td></tr>
                 ) : weeklyRows.map((row, i) => (
-                  <tr key={`${row.jobDbId}-${row.taskName}-${i}`} style={{ background: i % 2 === 0 ? '#fff' : '#fafafa' }}>
+                  <tr key={row.key} style={{ background: i % 2 === 0 ? '#fff' : '#fafafa' }}>
                     <td style={td}>
                       <span style={{ fontSize: 12, fontWeight: 700, color: '#2563eb', background: '#dbeafe', padding: '2px 8px', borderRadius: 5 }}>
                         {row.jobIdDisplay}
                       </span>
                     </td>
-                    {isManager && (
+                    {canViewTeam && (
                       <td style={td}>
                         <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
                           <Avatar name={row.userName} size="xs" />
@@ -667,38 +1800,51 @@ export function Timesheets() {
                     <td style={{ ...td, fontWeight: 600 }}>{row.jobTitle}</td>
                     <td style={td}>{row.taskName}</td>
                     <td style={{ ...td, color: '#6b7280' }}>{row.taskType}</td>
-                    {weekDays.map(day => {
+                    {weekDays.map((day, col) => {
                       const ymd = toYMD(day)
-                      const h = row.dayHours[ymd] ?? 0
+                      const h = cellHours(row, ymd)
+                      if (gridEditable && cellEditable(row, ymd)) {
+                        return (
+                          <td key={ymd} style={{ ...tdNum, padding: '6px 4px' }}>
+                            <HoursCell
+                              hours={h}
+                              row={i}
+                              col={col}
+                              state={cellStates[`${row.key}|${ymd}`] ?? 'idle'}
+                              onCommit={next => void saveCell(row, ymd, next)}
+                            />
+                          </td>
+                        )
+                      }
                       return (
-                        <td key={ymd} style={{ ...tdNum, color: h > 0 ? '#1e293b' : '#d1d5db' }}>
+                        <td key={ymd} style={{ ...tdNum, color: h > 0 ? '#1e293b' : '#d1d5db' }} title={gridEditable && row.entries.filter(e => e.date === ymd).length > 1 ? 'Several entries — edit them in the daily view' : undefined}>
                           {h > 0 ? `${h}` : '—'}
                         </td>
                       )
                     })}
-                    <td style={{ ...tdNum, color: '#2563eb', fontWeight: 700 }}>{row.total.toFixed(1)}</td>
-                    {isManager && (
+                    <td style={{ ...tdNum, color: '#2563eb', fontWeight: 700 }}>
+                      {weekDays.reduce((sum, day) => sum + cellHours(row, toYMD(day)), 0).toFixed(1)}
+                    </td>
+                    {canViewTeam && (
                       <td style={{ ...td, textAlign: 'center' }}>
                         {row.hasFlag ? (
                           <div style={{ display: 'flex', gap: 4, justifyContent: 'center' }}>
+                            <input
+                              type="checkbox"
+                              checked={selectedRows.includes(row.key)}
+                              onChange={() => setSelectedRows(prev => prev.includes(row.key) ? prev.filter(k => k !== row.key) : [...prev, row.key])}
+                              aria-label={`Select ${row.userName} ${row.jobTitle}`}
+                              style={{ width: 14, height: 14, accentColor: '#d97706', alignSelf: 'center' }}
+                            />
                             <button
-                              onClick={async () => {
-                                setBusy(true)
-                                for (const e of row.entries.filter(e => e.status === 'pending_approval')) {
-                                  await approveEntry(e.id)
-                                }
-                                setBusy(false)
-                              }}
+                              onClick={() => void reviewFromGrid('approved', () => approveEntries(flaggedIds(row)))}
                               disabled={busy}
                               style={{ padding: '3px 8px', borderRadius: 5, border: 'none', background: '#d1fae5', color: '#065f46', fontSize: 11, fontWeight: 600, cursor: 'pointer', display: 'flex', alignItems: 'center', gap: 2 }}
                             >
                               <Check size={10} /> All
                             </button>
                             <button
-                              onClick={() => {
-                                const firstPending = row.entries.find(e => e.status === 'pending_approval')
-                                if (firstPending) setRejectModal({ id: firstPending.id })
-                              }}
+                              onClick={() => setRejectModal({ ids: flaggedIds(row) })}
                               disabled={busy}
                               style={{ padding: '3px 8px', borderRadius: 5, border: 'none', background: '#fee2e2', color: '#991b1b', fontSize: 11, fontWeight: 600, cursor: 'pointer', display: 'flex', alignItems: 'center', gap: 2 }}
                             >
@@ -706,26 +1852,81 @@ export function Timesheets() {
                             </button>
                           </div>
                         ) : (
-                          <StatusPill status={row.entries[0]?.status ?? 'pending_normal'} />
+                          <StatusPill status={row.entries[0]?.status ?? 'draft'} />
                         )}
                       </td>
                     )}
                   </tr>
                 ))}
+                {gridEditable && (
+                  <tr>
+                    <td colSpan={canViewTeam ? 15 : 13} style={{ ...td, background: '#f9fafb' }}>
+                      <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap' }}>
+                        <select
+                          value={newRow.jobId}
+                          onChange={e => setNewRow({ jobId: e.target.value, taskId: '' })}
+                          aria-label="Job for new row"
+                          style={{ padding: '6px 10px', border: '1px solid #e5e7eb', borderRadius: 6, fontSize: 13, color: newRow.jobId ? '#374151' : '#9ca3af', background: '#fff', minWidth: 220 }}
+                        >
+                          <option value="">Add a job row...</option>
+                          {loggableJobs.map(j => (
+                            <option key={j.id} value={j.id}>{j.jobId} — {j.title} ({j.clientName})</option>
+                          ))}
+                        </select>
+                        <select
+                          value={newRow.taskId}
+                          onChange={e => setNewRow({ ...newRow, taskId: e.target.value })}
+                          disabled={!newRow.jobId}
+                          aria-label="Task for new row"
+                          style={{ padding: '6px 10px', border: '1px solid #e5e7eb', borderRadius: 6, fontSize: 13, color: '#374151', background: newRow.jobId ? '#fff' : '#f3f4f6', minWidth: 180 }}
+                        >
+                          <option value="">{newRow.jobId ? 'No task' : 'Select a job first'}</option>
+                          {loggableTasks(newRow.jobId).map(t => (
+                            <option key={t.id} value={t.id}>{t.name}</option>
+                          ))}
+                        </select>
+                        <button
+                          onClick={addGridRow}
+                          disabled={!newRow.jobId}
+                          style={{ display: 'flex', alignItems: 'center', gap: 5, padding: '6px 14px', border: '1px solid #bfdbfe', borderRadius: 6, background: '#eff6ff', color: '#2563eb', fontSize: 13, fontWeight: 600, cursor: newRow.jobId ? 'pointer' : 'not-allowed', opacity: newRow.jobId ? 1 : 0.6 }}
+                        >
+                          <Plus size={13} /> Add row
+                        </button>
+                        {lastWeekCells.length > 0 && (
+                          <button
+                            onClick={() => void copyLastWeek()}
+                            disabled={copyingWeek}
+                            title="Fill this week with last week's job and task hours, as drafts"
+                            style={{ display: 'flex', alignItems: 'center', gap: 5, padding: '6px 14px', border: '1px solid #e5e7eb', borderRadius: 6, background: '#fff', color: '#374151', fontSize: 13, fontWeight: 600, cursor: copyingWeek ? 'not-allowed' : 'pointer', opacity: copyingWeek ? 0.6 : 1, marginLeft: 'auto' }}
+                          >
+                            <Copy size={13} /> {copyingWeek ? 'Copying...' : 'Copy last week'}
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                )}
               </tbody>
               {weeklyRows.length > 0 && (
                 <tfoot>
                   <tr style={{ background: '#f9fafb' }}>
-                    <td colSpan={isManager ? 6 : 5} style={{ ...td, fontWeight: 700, color: '#1e293b' }}>Total</td>
+                    <td colSpan={canViewTeam ? 6 : 5} style={{ ...td, fontWeight: 700, color: '#1e293b' }}>Total</td>
                     {weekDays.map(day => {
                       const ymd = toYMD(day)
-                      const dayTotal = weeklyRows.reduce((s, r) => s + (r.dayHours[ymd] ?? 0), 0)
-                      return <td key={ymd} style={{ ...tdNum, color: dayTotal > 0 ? '#2563eb' : '#d1d5db' }}>{dayTotal > 0 ? dayTotal.toFixed(1) : '—'}</td>
+                      const dayTotal = weeklyRows.reduce((s, r) => s + cellHours(r, ymd), 0)
+                      // Same rules the server flags on
+                      const flag = viewUserId && dayTotal > 0 ? dayHoursFlag(calendar, viewUserId, ymd, dayTotal) : null
+                      return (
+                        <td key={ymd} title={flag ? flagLabel(flag) : undefined} style={{ ...tdNum, color: flag ? '#d97706' : dayTotal > 0 ? '#2563eb' : '#d1d5db', background: flag ? '#fffbeb' : undefined }}>
+                          {flag && <AlertCircle size={11} style={{ display: 'inline', marginRight: 3, verticalAlign: '-1px' }} />}
+                          {dayTotal > 0 ? dayTotal.toFixed(1) : '—'}
+                        </td>
+                      )
                     })}
                     <td style={{ ...tdNum, color: '#2563eb', fontWeight: 800 }}>
-                      {weeklyRows.reduce((s, r) => s + r.total, 0).toFixed(1)}
+                      {weeklyRows.reduce((s, r) => s + weekDays.reduce((sum, day) => sum + cellHours(r, toYMD(day)), 0), 0).toFixed(1)}
                     </td>
-                    {isManager && <td />}
+                    {canViewTeam && <td />}
                   </tr>
                 </tfoot>
               )}
@@ -741,7 +1942,7 @@ export function Timesheets() {
                 <tr>
                   {[
                     'Job ID',
-                    ...(isManager ? ['Employee'] : []),
+                    ...(canViewTeam ? ['Employee'] : []),
                     'Client', 'Job', 'Task', 'Task Type',
                     ...monthWeeks.map(w => w.label),
                     'Total',
@@ -752,7 +1953,7 @@ export function Timesheets() {
               </thead>
               <tbody>
                 {monthlyRows.length === 0 ? (
-                  <tr><td colSpan={(isManager ? 7 : 6) + monthWeeks.length} style={{ textAlign: 'center', padding: '48px 18px', color: '#9ca3af', fontSize: 14 }}>
+                  <tr><td colSpan={(canViewTeam ? 7 : 6) + monthWeeks.length} style={{ textAlign: 'center', padding: '48px 18px', color: '#9ca3af', fontSize: 14 }}>
                     No entries for this month. Click "Log Daily Time" to add.
                   </td></tr>
                 ) : monthlyRows.map((row, i) => (
@@ -762,7 +1963,7 @@ export function Timesheets() {
                         {row.jobIdDisplay}
                       </span>
                     </td>
-                    {isManager && (
+                    {canViewTeam && (
                       <td style={td}>
                         <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
                           <Avatar name={row.userName} size="xs" />
@@ -786,7 +1987,7 @@ export function Timesheets() {
               {monthlyRows.length > 0 && (
                 <tfoot>
                   <tr style={{ background: '#f9fafb' }}>
-                    <td colSpan={isManager ? 6 : 5} style={{ ...td, fontWeight: 700, color: '#1e293b' }}>Total</td>
+                    <td colSpan={canViewTeam ? 6 : 5} style={{ ...td, fontWeight: 700, color: '#1e293b' }}>Total</td>
                     {monthWeeks.map((_, wi) => {
                       const wTotal = monthlyRows.reduce((s, r) => s + (r.weekHours[wi] ?? 0), 0)
                       return <td key={wi} style={{ ...tdNum, color: wTotal > 0 ? '#2563eb' : '#d1d5db' }}>{wTotal > 0 ? wTotal.toFixed(1) : '—'}</td>
@@ -801,22 +2002,80 @@ export function Timesheets() {
           </div>
         )}
 
-        {/* Submit / Draft buttons
-        <div style={{ display: 'flex', justifyContent: 'flex-end', gap: 12, padding: '16px 20px', borderTop: '1px solid #f1f3f9' }}>
-          <button style={{ padding: '9px 22px', border: '1px solid #e5e7eb', borderRadius: 8, background: '#fff', color: '#374151', fontWeight: 600, fontSize: 13, cursor: 'pointer' }}>
-            DRAFT
-          </button>
-          <button style={{ padding: '9px 22px', border: 'none', borderRadius: 8, background: '#2563eb', color: '#fff', fontWeight: 600, fontSize: 13, cursor: 'pointer' }}>
-            Submit Weekly Timesheet
-          </button>
-        </div> */}
+        {activeTab === 'weekly' && copyOutcome && copyOutcome.userId === viewUserId && copyOutcome.weekStart === weekStartYmd && (
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8, margin: '12px 20px 0', padding: '10px 14px', borderRadius: 8, background: '#eff6ff', border: '1px solid #bfdbfe', fontSize: 13, color: '#1e40af' }}>
+            <Copy size={14} style={{ flexShrink: 0 }} />
+            <span style={{ flex: 1 }}>{copyOutcome.message}</span>
+            <button onClick={() => setCopyOutcome(null)} aria-label="Dismiss" style={{ background: 'none', border: 'none', cursor: 'pointer', color: '#1e40af', display: 'flex' }}>
+              <X size={14} />
+            </button>
+          </div>
+        )}
+
+        {activeTab === 'weekly' && gridEditable && mutationError && !logDailyModal && !editing && (
+          <div style={{ padding: '12px 20px 0' }}>
+            <FormError error={mutationError} />
+          </div>
+        )}
+
+        {/* Week status + submit — one person's week at a time */}
+        {activeTab === 'weekly' && viewUserId && (
+          <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 12, padding: '16px 20px', borderTop: '1px solid #f1f3f9', flexWrap: 'wrap' }}>
+            <div style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+              <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                <span style={{ fontSize: 11, fontWeight: 600, padding: '2px 8px', borderRadius: 20, background: weekStatusConfig[weekStatus].bg, color: weekStatusConfig[weekStatus].color, whiteSpace: 'nowrap', display: 'inline-flex', alignItems: 'center', gap: 4 }}>
+                  {(weekStatus === 'submitted' || weekStatus === 'approved') && <Lock size={10} />}
+                  {weekStatusConfig[weekStatus].label}
+                </span>
+                {currentWeek?.submittedAt && weekStatus === 'submitted' && (
+                  <span style={{ fontSize: 12, color: '#6b7280' }}>
+                    Submitted {new Date(currentWeek.submittedAt).toLocaleDateString('en-AU', { day: 'numeric', month: 'short' })}
+                  </span>
+                )}
+                {currentWeek?.reviewedByName && (weekStatus === 'approved' || weekStatus === 'rejected') && (
+                  <span style={{ fontSize: 12, color: '#6b7280' }}>by {currentWeek.reviewedByName}</span>
+                )}
+              </div>
+              {weekStatus === 'rejected' && currentWeek?.rejectionNote && (
+                <span style={{ fontSize: 12, color: '#ef4444' }}>{currentWeek.rejectionNote}</span>
+              )}
+              {isOwnWeek && (weekStatus === 'draft' || weekStatus === 'rejected') && missingWorkingDays.length > 0 && !weekNotOver && (
+                <span style={{ fontSize: 12, color: '#d97706' }}>No hours logged yet for {missingWorkingDays.join(', ')}</span>
+              )}
+              {weekError && <FormError error={weekError} />}
+            </div>
+            {isOwnWeek && (weekStatus === 'draft' || weekStatus === 'rejected') && (
+              <button
+                disabled={submittingWeek || weekNotOver || missingWorkingDays.length > 0}
+                title={weekNotOver ? `You can submit this week from ${DAY_NAMES[lastWorkingDay.getDay()]}` : undefined}
+                onClick={async () => {
+                  setSubmittingWeek(true)
+                  await submitWeek(weekStartYmd)
+                  setSubmittingWeek(false)
+                }}
+                style={{ display: 'flex', alignItems: 'center', gap: 7, padding: '9px 22px', border: 'none', borderRadius: 8, background: '#2563eb', color: '#fff', fontWeight: 600, fontSize: 13, cursor: 'pointer', opacity: submittingWeek || weekNotOver || missingWorkingDays.length > 0 ? 0.5 : 1 }}
+              >
+                <Send size={14} /> {submittingWeek ? 'Submitting...' : weekStatus === 'rejected' ? 'Resubmit Weekly Timesheet' : 'Submit Weekly Timesheet'}
+              </button>
+            )}
+            {canApprove && !isOwnWeek && currentWeek && weekStatus === 'submitted' && (
+              <button
+                disabled={submittingWeek}
+                onClick={async () => { setSubmittingWeek(true); await approveWeek(currentWeek.id); setSubmittingWeek(false) }}
+                style={{ display: 'flex', alignItems: 'center', gap: 5, padding: '8px 16px', borderRadius: 8, border: 'none', background: '#d1fae5', color: '#065f46', fontSize: 13, fontWeight: 600, cursor: 'pointer' }}
+              >
+                <Check size={14} /> Approve week
+              </button>
+            )}
+          </div>
+        )}
       </div>
 
       {/* ── Inline reject modal ── */}
       <Modal
         open={!!rejectModal}
         onClose={() => setRejectModal(null)}
-        title="Reject Timesheet Entry"
+        title={rejectModal && rejectModal.ids.length > 1 ? `Reject ${rejectModal.ids.length} Entries` : 'Reject Timesheet Entry'}
         description="Provide a reason for rejection"
         size="sm"
         footer={
@@ -824,14 +2083,14 @@ export function Timesheets() {
             <Button variant="outline" onClick={() => setRejectModal(null)}>Cancel</Button>
             <Button
               className="bg-red-600 hover:bg-red-700 text-white"
-              disabled={busy}
+              disabled={busy || !rejectReason.trim()}
               onClick={async () => {
                 if (!rejectModal) return
-                setBusy(true)
-                await rejectEntry(rejectModal.id, rejectReason)
-                setBusy(false)
+                const { ids } = rejectModal
+                const note = rejectReason.trim()
                 setRejectModal(null)
                 setRejectReason('')
+                await reviewFromGrid('rejected', () => rejectEntries(ids, note))
               }}
             >Reject</Button>
           </div>
@@ -846,6 +2105,29 @@ export function Timesheets() {
         />
       </Modal>
 
+      {/* ── Edit entry modal ── */}
+      {editing && (
+        <EditEntryModal
+          key={editing.id}
+          entry={editing}
+          jobs={loggableJobs}
+          tasksFor={loggableTasks}
+          error={mutationError}
+          onSave={async data => (await editEntry(editing.id, data)) !== null}
+          onClose={() => { setEditing(null); resetMutationError() }}
+        />
+      )}
+
+      {/* Mounted only while open so the form starts fresh each time */}
+      {leaveModal && user && (
+        <LeaveModal
+          open
+          onClose={() => setLeaveModal(false)}
+          currentUserId={user.id}
+          people={canApprove ? employeeList.map(u => ({ id: u.id, name: u.name })) : []}
+        />
+      )}
+
       {/* ── Log Daily Time modal ── */}
       <Modal open={logDailyModal} onClose={resetLogModal} title="" size="xl">
         <div style={{ background: '#152035', borderRadius: 12, margin: -24, padding: 0, display: 'flex', minHeight: 440, overflow: 'hidden' }}>
@@ -861,14 +2143,24 @@ export function Timesheets() {
               const existingHours = rawEntries.filter(e => e.userId === user?.id && e.date === selDate).reduce((s, e) => s + e.hours, 0)
               const addedHours = dailyEntries.filter(e => e.date === selDate).reduce((s, e) => s + e.hours, 0)
               const projected = Math.round((existingHours + addedHours) * 100) / 100
-              if (projected === 0) return null
-              const isUnder = projected < 8
-              const isOver = projected > 8
+              if (!user) return null
+              const off = dayOff(calendar, user.id, selDate)
+              if (projected === 0) {
+                return off && (
+                  <div style={{ background: '#4c1d9530', border: '1px solid #8b5cf640', borderRadius: 8, padding: '10px 12px', marginBottom: 16, fontSize: 12, color: '#c4b5fd' }}>
+                    {off.kind === 'holiday' ? `Public holiday — ${off.name}` : 'You are on leave this day'}
+                  </div>
+                )
+              }
+              const expected = expectedHours(calendar, user.id, selDate)
+              const flag = dayHoursFlag(calendar, user.id, selDate, projected)
+              const isUnder = flag === 'UNDER_HOURS'
+              const isOver = flag === 'OVER_HOURS'
               return (
                 <div style={{ background: isOver ? '#7c1d1d30' : isUnder ? '#78350f30' : '#14532d30', border: `1px solid ${isOver ? '#ef444440' : isUnder ? '#f59e0b40' : '#22c55e40'}`, borderRadius: 8, padding: '10px 12px', marginBottom: 16 }}>
                   <div style={{ fontSize: 20, fontWeight: 700, color: isOver ? '#fca5a5' : isUnder ? '#fcd34d' : '#86efac' }}>{projected}h</div>
                   <div style={{ fontSize: 11, color: isOver ? '#fca5a5' : isUnder ? '#fcd34d' : '#86efac', marginTop: 2 }}>
-                    {isOver ? 'Over 8h — needs approval' : isUnder ? 'Under 8h — needs approval' : 'On track'}
+                    {isOver ? `${off ? (off.kind === 'holiday' ? off.name : 'On leave') : `Over ${expected}h`} — needs approval` : isUnder ? `Under ${expected}h — needs approval` : 'On track'}
                   </div>
                 </div>
               )
@@ -894,6 +2186,7 @@ export function Timesheets() {
                   </div>
                   <div style={{ fontSize: 11, color: '#e2e8f0', fontWeight: 600, marginBottom: 2 }}>{entry.job}</div>
                   <div style={{ fontSize: 10, color: '#64748b' }}>{entry.date}{entry.task ? ` • ${entry.task}` : ''}</div>
+                  {entry.times && <div style={{ fontSize: 10, color: '#94a3b8', marginTop: 2 }}>{formatTimes(entry.times)}</div>}
                   <div style={{ marginTop: 5 }}>
                     <span style={{ fontSize: 10, fontWeight: 600, padding: '1px 6px', borderRadius: 10, background: entry.billable ? '#14532d40' : '#1e293b', color: entry.billable ? '#86efac' : '#64748b' }}>
                       {entry.billable ? 'Billable' : 'Non-Bill'}
@@ -917,6 +2210,11 @@ export function Timesheets() {
           {/* Right form area */}
           <div style={{ flex: 1, padding: '32px 28px', display: 'flex', flexDirection: 'column' }}>
             <h3 style={{ color: '#fff', fontWeight: 600, fontSize: 16, marginBottom: 22 }}>New Time Entry</h3>
+            <TemplateBar
+              entries={dailyEntries.map(e => ({ jobId: e.jobId, taskId: e.taskId || undefined, hours: e.hours, description: e.notes || undefined }))}
+              disabled={readOnlyOn(dailyLog.date)}
+              onApply={applyTemplate}
+            />
 
             <div style={{ display: 'flex', flexDirection: 'column', gap: 16, flex: 1 }}>
               {/* Date / Hours / Billable */}
@@ -927,18 +2225,39 @@ export function Timesheets() {
                     type="date"
                     value={dailyLog.date}
                     onChange={e => setDailyLog({ ...dailyLog, date: e.target.value })}
-                    style={{ width: '100%', padding: '10px 13px', background: '#1e2d4a', border: '1px solid #2d4068', borderRadius: 8, color: '#fff', fontSize: 14, outline: 'none', boxSizing: 'border-box' }}
+                    aria-invalid={readOnlyOn(dailyLog.date)}
+                    style={{ width: '100%', padding: '10px 13px', background: '#1e2d4a', border: `1px solid ${readOnlyOn(dailyLog.date) ? '#ef4444' : '#2d4068'}`, borderRadius: 8, color: '#fff', fontSize: 14, outline: 'none', boxSizing: 'border-box' }}
                   />
+                  {readOnlyOn(dailyLog.date) && (
+                    <p role="alert" style={{ fontSize: 12, color: '#fca5a5', marginTop: 5, display: 'flex', alignItems: 'center', gap: 4 }}>
+                      <Lock size={11} /> This date is in a closed period
+                    </p>
+                  )}
                 </div>
                 <div>
-                  <label style={{ fontSize: 13, color: '#94a3b8', fontWeight: 500, marginBottom: 5, display: 'block' }}>Hours</label>
-                  <input
-                    type="number"
-                    step="0.5" min="0" max="24"
-                    value={dailyLog.hours}
-                    onChange={e => setDailyLog({ ...dailyLog, hours: e.target.value })}
-                    style={{ width: '100%', padding: '10px 13px', background: '#1e2d4a', border: '1px solid #2d4068', borderRadius: 8, color: '#fff', fontSize: 14, outline: 'none', boxSizing: 'border-box' }}
-                  />
+                  <label style={{ fontSize: 13, color: '#94a3b8', fontWeight: 500, marginBottom: 5, display: 'flex', justifyContent: 'space-between' }}>
+                    Hours
+                    <button
+                      type="button"
+                      onClick={() => setDailyLog({ ...dailyLog, mode: dailyLog.mode === 'times' ? 'hours' : 'times' })}
+                      style={{ background: 'none', border: 'none', padding: 0, color: '#60a5fa', fontSize: 12, fontWeight: 600, cursor: 'pointer' }}
+                    >
+                      {dailyLog.mode === 'times' ? 'Enter hours' : 'Use start/finish'}
+                    </button>
+                  </label>
+                  {dailyLog.mode === 'times' ? (
+                    <div style={{ width: '100%', padding: '10px 13px', background: '#1a2540', border: '1px solid #2d4068', borderRadius: 8, color: logHours > 0 ? '#94a3b8' : '#475569', fontSize: 14, boxSizing: 'border-box', minHeight: 42 }}>
+                      {logHours > 0 ? `${logHours}h` : '—'}
+                    </div>
+                  ) : (
+                    <input
+                      type="number"
+                      step="0.5" min="0" max="24"
+                      value={dailyLog.hours}
+                      onChange={e => setDailyLog({ ...dailyLog, hours: e.target.value })}
+                      style={{ width: '100%', padding: '10px 13px', background: '#1e2d4a', border: '1px solid #2d4068', borderRadius: 8, color: '#fff', fontSize: 14, outline: 'none', boxSizing: 'border-box' }}
+                    />
+                  )}
                 </div>
                 <div>
                   <label style={{ fontSize: 13, color: '#94a3b8', fontWeight: 500, marginBottom: 5, display: 'block' }}>Billable</label>
@@ -953,6 +2272,41 @@ export function Timesheets() {
                 </div>
               </div>
 
+              {/* Start / Finish / Break */}
+              {dailyLog.mode === 'times' && (
+                <div>
+                  <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: 14 }}>
+                    {([['startTime', 'Start'], ['endTime', 'Finish']] as const).map(([key, text]) => (
+                      <div key={key}>
+                        <label style={{ fontSize: 13, color: '#94a3b8', fontWeight: 500, marginBottom: 5, display: 'block' }}>{text}</label>
+                        <input
+                          type="time"
+                          value={dailyLog[key]}
+                          onChange={e => setDailyLog({ ...dailyLog, [key]: e.target.value })}
+                          style={{ width: '100%', padding: '10px 13px', background: '#1e2d4a', border: '1px solid #2d4068', borderRadius: 8, color: '#fff', fontSize: 14, outline: 'none', boxSizing: 'border-box', colorScheme: 'dark' }}
+                        />
+                      </div>
+                    ))}
+                    <div>
+                      <label style={{ fontSize: 13, color: '#94a3b8', fontWeight: 500, marginBottom: 5, display: 'block' }}>Break (min)</label>
+                      <input
+                        type="number"
+                        step="5" min="0"
+                        value={dailyLog.breakMinutes}
+                        onChange={e => setDailyLog({ ...dailyLog, breakMinutes: e.target.value })}
+                        style={{ width: '100%', padding: '10px 13px', background: '#1e2d4a', border: '1px solid #2d4068', borderRadius: 8, color: '#fff', fontSize: 14, outline: 'none', boxSizing: 'border-box' }}
+                      />
+                    </div>
+                  </div>
+                  {/* Only once both ends are filled in — a fresh row starts with no finish time */}
+                  {dailyLog.startTime && dailyLog.endTime && (logTimesProblem || logTimesOverlap) && (
+                    <p role="alert" style={{ fontSize: 12, color: '#fca5a5', marginTop: 6 }}>
+                      {logTimesProblem ? logTimesProblem.message : logTimesOverlap && `Overlaps ${formatTimes(logTimesOverlap.times)} on ${logTimesOverlap.job}`}
+                    </p>
+                  )}
+                </div>
+              )}
+
               {/* Job */}
               <div>
                 <label style={{ fontSize: 13, color: '#94a3b8', fontWeight: 500, marginBottom: 5, display: 'block' }}>Job</label>
@@ -965,19 +2319,11 @@ export function Timesheets() {
                   style={{ width: '100%', padding: '10px 13px', background: '#1e2d4a', border: '1px solid #2d4068', borderRadius: 8, color: dailyLog.jobId ? '#fff' : '#64748b', fontSize: 14, outline: 'none', boxSizing: 'border-box', cursor: 'pointer' }}
                 >
                   <option value="">Select job...</option>
-                  {jobs
-                    .filter(j => {
-                      // For managers/admins, show all active jobs
-                      if (isManager) return j.status === 'in_progress' || j.status === 'open'
-                      // For employees, only show jobs they have tasks assigned to
-                      return (j.status === 'in_progress' || j.status === 'open') && 
-                             accessibleJobIds?.includes(j.id)
-                    })
-                    .map(j => (
-                      <option key={j.id} value={j.id}>
-                        {j.jobId} — {j.title} ({j.clientName})
-                      </option>
-                    ))}
+                  {loggableJobs.map(j => (
+                    <option key={j.id} value={j.id}>
+                      {j.jobId} — {j.title} ({j.clientName})
+                    </option>
+                  ))}
                 </select>
               </div>
 
@@ -996,20 +2342,9 @@ export function Timesheets() {
       style={{ width: '100%', padding: '10px 13px', background: dailyLog.jobId ? '#1e2d4a' : '#1a2540', border: '1px solid #2d4068', borderRadius: 8, color: dailyLog.jobId ? '#fff' : '#475569', fontSize: 14, outline: 'none', boxSizing: 'border-box', cursor: dailyLog.jobId ? 'pointer' : 'not-allowed' }}
     >
       <option value="">{dailyLog.jobId ? 'Select task...' : 'Select a job first'}</option>
-      {tasks
-        .filter(t => {
-          // First filter by job
-          if (t.jobId !== dailyLog.jobId) return false
-          
-          // For managers, show all tasks for this job
-          if (isManager) return true
-          
-          // For employees, only show tasks assigned to them
-          return t.assignedToIds?.includes(user?.id || '')
-        })
-        .map(t => (
-          <option key={t.id} value={t.id}>{t.name}</option>
-        ))}
+      {loggableTasks(dailyLog.jobId).map(t => (
+        <option key={t.id} value={t.id}>{t.name}</option>
+      ))}
     </select>
   </div>
   <div>
@@ -1033,6 +2368,11 @@ export function Timesheets() {
             </div>
 
             {/* Footer buttons */}
+            {mutationError && (
+              <div style={{ marginTop: 20 }}>
+                <FormError error={mutationError} />
+              </div>
+            )}
             <div style={{ display: 'flex', justifyContent: 'flex-end', gap: 12, marginTop: 24, paddingTop: 20, borderTop: '1px solid #1e2d4a' }}>
               <button
                 onClick={resetLogModal}
@@ -1041,12 +2381,14 @@ export function Timesheets() {
                 CANCEL
               </button>
               <button
+                disabled={readOnlyOn(dailyLog.date)}
                 onClick={() => {
-                  if (dailyLog.hours && dailyLog.jobId) {
+                  if (canAddLog) {
                     setDailyEntries([...dailyEntries, {
                       id: `entry-${Date.now()}`,
                       date: dailyLog.date,
-                      hours: parseFloat(dailyLog.hours),
+                      hours: logHours,
+                      times: logTimes ?? undefined,
                       client: dailyLog.client,
                       jobId: dailyLog.jobId,
                       job: dailyLog.job,
@@ -1055,10 +2397,11 @@ export function Timesheets() {
                       notes: dailyLog.notes,
                       billable: dailyLog.billable,
                     }])
-                    setDailyLog(prev => ({ ...prev, jobId: '', job: '', client: '', taskId: '', task: '',  notes: '', hours: '8' }))
+                    // The next block of time usually starts where this one finished
+                    setDailyLog(prev => ({ ...prev, jobId: '', job: '', client: '', taskId: '', task: '',  notes: '', hours: '8', ...(logTimes && { startTime: logTimes.endTime, endTime: '', breakMinutes: '0' }) }))
                   }
                 }}
-                style={{ padding: '10px 22px', borderRadius: 8, background: '#1e2d4a', color: '#60a5fa', fontWeight: 600, fontSize: 14, cursor: 'pointer', display: 'flex', alignItems: 'center', gap: 6, border: '1px solid #2d4068' } as React.CSSProperties}
+                style={{ padding: '10px 22px', borderRadius: 8, background: '#1e2d4a', color: '#60a5fa', fontWeight: 600, fontSize: 14, cursor: readOnlyOn(dailyLog.date) ? 'not-allowed' : 'pointer', opacity: readOnlyOn(dailyLog.date) ? 0.5 : 1, display: 'flex', alignItems: 'center', gap: 6, border: '1px solid #2d4068' } as React.CSSProperties}
               >
                 <Plus size={15} /> ADD ENTRY
               </button>
@@ -1068,24 +2411,29 @@ export function Timesheets() {
                   onClick={async () => {
                     if (!user?.id) return
                     setSubmitting(true)
+                    // Rows the server rejected stay in the modal; offline rows go to the outbox
+                    const failed: typeof dailyEntries = []
                     try {
                       for (const entry of dailyEntries) {
                         if (entry.jobId) {
-                          await logTime({
+                          const result = await logTime({
                             userId: user.id,
                             jobId: entry.jobId,
                             taskId: entry.taskId || undefined,
                             date: entry.date,
                             hours: entry.hours,
+                            ...entry.times,
                             description: entry.notes ||entry.task || entry.job,
                             billable: entry.billable,
                           } as any)
+                          if (result === null) failed.push(entry)
                         }
                       }
                     } finally {
                       setSubmitting(false)
                     }
-                    resetLogModal()
+                    if (failed.length > 0) setDailyEntries(failed)
+                    else resetLogModal()
                   }}
                   style={{ padding: '10px 28px', border: 'none', borderRadius: 8, background: '#2563eb', color: '#fff', fontWeight: 700, fontSize: 14, cursor: submitting ? 'not-allowed' : 'pointer', opacity: submitting ? 0.7 : 1 }}
                 >
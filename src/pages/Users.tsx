@@ -2,9 +2,15 @@ import { useState, useEffect } from 'react'
 import type { User, UserRole } from '@/types'
 import { Avatar } from '@/components/ui/Avatar'
 import { Modal } from '@/components/ui/Modal'
-import { Search, Plus, Edit2, UserX, UserCheck, Loader2, Check, Trash2 } from 'lucide-react'
+import { Search, Plus, Edit2, UserX, UserCheck, Loader2, Check, Trash2, ShieldCheck } from 'lucide-react'
 import { useAuthStore } from '@/store/authStore'
+import { usePermissions } from '@/hooks/usePermissions'
 import { useUsers } from '@/hooks/useUsers'
+import { useDebouncedValue } from '@/hooks/useDebouncedValue'
+import { FieldError, FormError } from '@/components/ui/FieldError'
+import { LoadMore } from '@/components/ui/LoadMore'
+import type { ApiError } from '@/lib/api'
+import { passwordProblem, MIN_PASSWORD_LENGTH } from '@/lib/passwords'
 
 const roleTabs: { key: 'all' | UserRole; label: string }[] = [
   { key: 'all', label: 'All Users' },
@@ -15,13 +21,24 @@ const roleTabs: { key: 'all' | UserRole; label: string }[] = [
 
 export function Users() {
   const { user: currentUser } = useAuthStore()
+  const can = usePermissions()
   const [search, setSearch] = useState('')
+  const debouncedSearch = useDebouncedValue(search.trim())
   const [activeTab, setActiveTab] = useState<'all' | UserRole>('all')
   const [showModal, setShowModal] = useState(false)
   const [selectedUser, setSelectedUser] = useState<User | null>(null)
   const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null)
 
-  const { users, loading, error, deactivateUser, updateUser, createUser, deleteUser } = useUsers()
+  const {
+    users, total, hasMore, loadingMore, loadMore, loading, refreshing, error,
+    deactivateUser, updateUser, createUser, deleteUser, sendPasswordReset, resetMfa, mutationError, resetMutationError,
+  } = useUsers({ search: debouncedSearch || undefined })
+
+  const openModal = (user: User | null) => {
+    resetMutationError()
+    setSelectedUser(user)
+    setShowModal(true)
+  }
 
   if (loading) return (
     <div className="flex items-center justify-center h-64 gap-3 text-slate-500">
@@ -36,16 +53,10 @@ export function Users() {
     </div>
   )
 
-  const filtered = users.filter(u => {
-    const matchesSearch = u.name.toLowerCase().includes(search.toLowerCase()) ||
-      u.email.toLowerCase().includes(search.toLowerCase()) ||
-      (u.department ?? '').toLowerCase().includes(search.toLowerCase())
-    const matchesTab = activeTab === 'all' || u.role === activeTab
-    return matchesSearch && matchesTab
-  })
+  const filtered = users.filter(u => activeTab === 'all' || u.role === activeTab)
 
   const counts = {
-    all: users.length,
+    all: total,
     employee: users.filter(u => u.role === 'employee').length,
     manager: users.filter(u => u.role === 'manager').length,
     admin: users.filter(u => u.role === 'admin').length,
@@ -77,9 +88,9 @@ export function Users() {
       {/* Page Header */}
       <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: 24 }}>
         <h1 style={{ fontSize: 22, fontWeight: 700, color: '#1a1f36', margin: 0 }}>User Management</h1>
-        {currentUser?.role === 'admin' && (
+        {can('users.create') && (
           <button
-            onClick={() => { setSelectedUser(null); setShowModal(true) }}
+            onClick={() => openModal(null)}
             style={{ display: 'flex', alignItems: 'center', gap: 7, background: '#2563eb', color: '#fff', border: 'none', borderRadius: 8, padding: '9px 18px', fontWeight: 600, fontSize: 14, cursor: 'pointer' }}
           >
             <Plus size={16} /> Add user
@@ -113,7 +124,9 @@ export function Users() {
           {/* Search */}
           <div style={{ display: 'flex', alignItems: 'center', gap: 10, padding: '10px 0' }}>
             <div style={{ position: 'relative' }}>
-              <Search size={14} style={{ position: 'absolute', left: 10, top: '50%', transform: 'translateY(-50%)', color: '#9ca3af' }} />
+              {refreshing
+                ? <Loader2 size={14} className="animate-spin" style={{ position: 'absolute', left: 10, top: '50%', marginTop: -7, color: '#9ca3af' }} />
+                : <Search size={14} style={{ position: 'absolute', left: 10, top: '50%', transform: 'translateY(-50%)', color: '#9ca3af' }} />}
               <input
                 placeholder="Search users..."
                 value={search}
@@ -156,26 +169,35 @@ export function Users() {
                     <span style={{ color: user.status === 'active' ? '#16a34a' : '#dc2626', fontWeight: 600, fontSize: 13 }}>
                       {user.status.toUpperCase()}
                     </span>
+                    {user.mfaEnabled && (
+                      <span title="Two-factor authentication on" style={{ marginLeft: 6, color: '#16a34a', verticalAlign: 'middle' }}>
+                        <ShieldCheck size={14} style={{ display: 'inline' }} />
+                      </span>
+                    )}
                   </td>
                   <td style={{ padding: '13px 18px' }}>
                     <div style={{ display: 'flex', gap: 6 }}>
-                      <button
-                        onClick={() => { setSelectedUser(user); setShowModal(true) }}
-                        style={{ padding: '5px 8px', border: '1px solid #e5e7eb', borderRadius: 6, background: '#fff', cursor: 'pointer', color: '#6b7280' }}
-                        title="Edit"
-                      >
-                        <Edit2 size={14} />
-                      </button>
-                      <button
-                        onClick={() => toggleStatus(user.id)}
-                        style={{ padding: '5px 8px', border: '1px solid #e5e7eb', borderRadius: 6, background: '#fff', cursor: 'pointer', color: user.status === 'active' ? '#dc2626' : '#16a34a' }}
-                        title={user.status === 'active' ? 'Deactivate' : 'Activate'}
-                      >
-                        {user.status === 'active' ? <UserX size={14} /> : <UserCheck size={14} />}
-                      </button>
+                      {can('users.edit') && (
+                        <>
+                          <button
+                            onClick={() => openModal(user)}
+                            style={{ padding: '5px 8px', border: '1px solid #e5e7eb', borderRadius: 6, background: '#fff', cursor: 'pointer', color: '#6b7280' }}
+                            title="Edit"
+                          >
+                            <Edit2 size={14} />
+                          </button>
+                          <button
+                            onClick={() => toggleStatus(user.id)}
+                            style={{ padding: '5px 8px', border: '1px solid #e5e7eb', borderRadius: 6, background: '#fff', cursor: 'pointer', color: user.status === 'active' ? '#dc2626' : '#16a34a' }}
+                            title={user.status === 'active' ? 'Deactivate' : 'Activate'}
+                          >
+                            {user.status === 'active' ? <UserX size={14} /> : <UserCheck size={14} />}
+                          </button>
+                        </>
+                      )}
                       
-                      {/* Delete button - only for admins and not current user */}
-                      {currentUser?.role === 'admin' && currentUser.id !== user.id && (
+                      {/* Delete button - never for the current user */}
+                      {can('users.delete') && currentUser?.id !== user.id && (
                         <button
                           onClick={() => handleDelete(user.id)}
                           style={{ padding: '5px 8px', border: '1px solid #e5e7eb', borderRadius: 6, background: '#fff', cursor: 'pointer', color: '#dc2626' }}
@@ -191,16 +213,19 @@ export function Users() {
             </tbody>
           </table>
         </div>
+        <LoadMore shown={users.length} total={total} hasMore={hasMore} loading={loadingMore} onLoadMore={loadMore} noun="users" />
       </div>
 
       <UserModal
         open={showModal}
         onClose={() => setShowModal(false)}
         user={selectedUser}
+        error={mutationError}
         onSave={async (u) => {
+          let ok: boolean
           if (selectedUser) {
             // For editing existing user, include department and phone
-            await updateUser(selectedUser.id, {
+            ok = await updateUser(selectedUser.id, {
               name: u.name,
               email: u.email,
               role: u.role,
@@ -213,18 +238,23 @@ export function Users() {
             const parts = (u.name ?? '').trim().split(' ')
             const firstName = parts[0] ?? ''
             const lastName = parts.slice(1).join(' ') || firstName
-            await createUser({
+            ok = await createUser({
               firstName,
               lastName,
               email: u.email ?? '',
-              password: (u as User & { password?: string }).password ?? '',
+              passwordSetup: (u as UserFormData).passwordSetup ?? 'invite',
+              password: (u as UserFormData).password,
               role: u.role ?? 'employee',
               department: u.department,  // Add department
               phone: u.phone,            // Add phone
             })
           }
-          setShowModal(false)
+          // Keep the modal open on failure so the field errors can be fixed
+          if (ok) setShowModal(false)
+          return ok
         }}
+        onSendResetLink={sendPasswordReset}
+        onResetMfa={resetMfa}
       />
     </div>
   )
@@ -232,27 +262,49 @@ export function Users() {
 
 // ── 3-step Add User modal ──────────────────────────────────────────────────
 
+// Name errors may come back keyed as firstName/lastName (signup) or name
+const USER_STEP_FIELDS: Record<number, string[]> = {
+  1: ['firstName', 'lastName', 'name', 'phone', 'department'],
+  2: ['email', 'password'],
+  3: ['role'],
+}
+
 interface UserModalProps {
   open: boolean
   onClose: () => void
   user: User | null
-  onSave: (u: User) => void
+  error?: ApiError | null
+  onSave: (u: User) => Promise<boolean>
+  onSendResetLink: (email: string) => Promise<boolean>
+  /** Turn off a user's two-factor so they can enrol a new phone */
+  onResetMfa: (id: string) => Promise<boolean>
 }
 
-type UserFormData = Partial<User> & { password?: string; confirmPassword?: string }
+type UserFormData = Partial<User> & {
+  passwordSetup?: 'invite' | 'temporary'
+  password?: string
+  confirmPassword?: string
+}
 
-function UserModal({ open, onClose, user, onSave }: UserModalProps) {
+function UserModal({ open, onClose, user, error, onSave, onSendResetLink, onResetMfa }: UserModalProps) {
+  const can = usePermissions()
   const [step, setStep] = useState(1)
+  const [passwordIssue, setPasswordIssue] = useState<string | null>(null)
+  const [resetSent, setResetSent] = useState(false)
+  const [mfaReset, setMfaReset] = useState(false)
   const [form, setForm] = useState<UserFormData>(user ?? {
     name: '', email: '', role: 'employee', department: '', phone: '', status: 'active',
-    joinedDate: new Date().toISOString().split('T')[0], costRate: 0, password: '', confirmPassword: '',
+    joinedDate: new Date().toISOString().split('T')[0], costRate: 0, passwordSetup: 'invite', password: '', confirmPassword: '',
   })
 
   useEffect(() => {
     setStep(1)
+    setPasswordIssue(null)
+    setResetSent(false)
+    setMfaReset(false)
     setForm(user ?? {
       name: '', email: '', role: 'employee', department: '', phone: '', status: 'active',
-      joinedDate: new Date().toISOString().split('T')[0], costRate: 0, password: '', confirmPassword: '',
+      joinedDate: new Date().toISOString().split('T')[0], costRate: 0, passwordSetup: 'invite', password: '', confirmPassword: '',
     })
   }, [user])
 
@@ -270,11 +322,26 @@ function UserModal({ open, onClose, user, onSave }: UserModalProps) {
   }
   const lbl: React.CSSProperties = { fontSize: 13, color: '#94a3b8', fontWeight: 500, marginBottom: 5, display: 'block' }
 
-  const handleSave = () => {
+  const inputFor = (...fields: string[]): React.CSSProperties =>
+    error?.hasFieldError(...fields) ? { ...darkInput, borderColor: '#f87171' } : darkInput
+  const stepHasError = (num: number) => !!error?.hasFieldError(...(USER_STEP_FIELDS[num] ?? []))
+
+  const handleSave = async () => {
     if (!form.name || !form.email) return
-    if (!user && !form.password) return
-    onSave(form as User & { password?: string })
-    setStep(1)
+    if (!user && form.passwordSetup === 'temporary') {
+      const issue = passwordProblem(form.password ?? '', form.confirmPassword ?? '')
+      setPasswordIssue(issue)
+      if (issue) { setStep(2); return }
+    }
+    if (await onSave(form as User)) setStep(1)
+  }
+
+  const handleSendReset = async () => {
+    if (form.email && await onSendResetLink(form.email)) setResetSent(true)
+  }
+
+  const handleResetMfa = async () => {
+    if (user && await onResetMfa(user.id)) setMfaReset(true)
   }
 
   const handleClose = () => { onClose(); setStep(1) }
@@ -293,11 +360,11 @@ function UserModal({ open, onClose, user, onSave }: UserModalProps) {
                 <div style={{
                   width: 28, height: 28, borderRadius: '50%', display: 'flex', alignItems: 'center', justifyContent: 'center',
                   flexShrink: 0, fontSize: 13, fontWeight: 700,
-                  background: step > s.num ? '#16a34a' : step === s.num ? '#2563eb' : '#1e2d4a',
+                  background: stepHasError(s.num) ? '#dc2626' : step > s.num ? '#16a34a' : step === s.num ? '#2563eb' : '#1e2d4a',
                   color: '#fff',
                   border: step === s.num ? '2px solid #3b82f6' : 'none',
                 }}>
-                  {step > s.num ? <Check size={14} /> : s.num}
+                  {step > s.num && !stepHasError(s.num) ? <Check size={14} /> : s.num}
                 </div>
                 <span style={{ fontSize: 13, color: step === s.num ? '#fff' : '#64748b', fontWeight: step === s.num ? 600 : 400 }}>
                   {s.label}
@@ -309,6 +376,7 @@ function UserModal({ open, onClose, user, onSave }: UserModalProps) {
 
         {/* Right form area */}
         <div style={{ flex: 1, padding: '32px 28px' }}>
+          <FormError error={error} />
           {/* Step 1 — Personal details */}
           {step === 1 && (
             <div>
@@ -316,26 +384,29 @@ function UserModal({ open, onClose, user, onSave }: UserModalProps) {
               <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 16 }}>
                 <div>
                   <label style={lbl}>First Name</label>
-                  <input style={darkInput} value={(form.name ?? '').split(' ')[0] ?? ''} onChange={e => {
+                  <input style={inputFor('firstName', 'name')} value={(form.name ?? '').split(' ')[0] ?? ''} onChange={e => {
                     const parts = (form.name ?? '').split(' ')
                     parts[0] = e.target.value
                     set('name', parts.join(' '))
                   }} placeholder="John" />
+                  <FieldError error={error} field={['firstName', 'name']} />
                 </div>
                 <div>
                   <label style={lbl}>Last Name</label>
-                  <input style={darkInput} value={(form.name ?? '').split(' ').slice(1).join(' ') ?? ''} onChange={e => {
+                  <input style={inputFor('lastName')} value={(form.name ?? '').split(' ').slice(1).join(' ') ?? ''} onChange={e => {
                     const first = (form.name ?? '').split(' ')[0] ?? ''
                     set('name', `${first} ${e.target.value}`.trim())
                   }} placeholder="Smith" />
+                  <FieldError error={error} field="lastName" />
                 </div>
                 <div>
                   <label style={lbl}>Phone No.</label>
-                  <input style={darkInput} value={form.phone ?? ''} onChange={e => set('phone', e.target.value)} placeholder="+61 400 000 000" />
+                  <input style={inputFor('phone')} value={form.phone ?? ''} onChange={e => set('phone', e.target.value)} placeholder="+61 400 000 000" />
+                  <FieldError error={error} field="phone" />
                 </div>
                 <div>
                   <label style={lbl}>Department</label>
-                  <select style={{ ...darkInput, cursor: 'pointer' }} value={form.department ?? ''} onChange={e => set('department', e.target.value)}>
+                  <select style={{ ...inputFor('department'), cursor: 'pointer' }} value={form.department ?? ''} onChange={e => set('department', e.target.value)}>
                     <option value="">Select department</option>
                     <option value="Tax & Compliance">Tax & Compliance</option>
                     <option value="Bookkeeping">Bookkeeping</option>
@@ -343,6 +414,7 @@ function UserModal({ open, onClose, user, onSave }: UserModalProps) {
                     <option value="Operations">Operations</option>
                     <option value="Management">Management</option>
                   </select>
+                  <FieldError error={error} field="department" />
                 </div>
               </div>
             </div>
@@ -355,18 +427,90 @@ function UserModal({ open, onClose, user, onSave }: UserModalProps) {
               <div style={{ display: 'flex', flexDirection: 'column', gap: 16 }}>
                 <div>
                   <label style={lbl}>Email</label>
-                  <input style={darkInput} type="email" value={form.email ?? ''} onChange={e => set('email', e.target.value)} placeholder="john@top.com" />
+                  <input style={inputFor('email')} type="email" value={form.email ?? ''} onChange={e => set('email', e.target.value)} placeholder="john@top.com" />
+                  <FieldError error={error} field="email" />
                 </div>
+                {user && (
+                  <div>
+                    <label style={lbl}>Password</label>
+                    <button
+                      onClick={handleSendReset}
+                      disabled={resetSent}
+                      style={{ padding: '9px 16px', border: '1px solid #2d4068', borderRadius: 8, background: '#1e2d4a', color: resetSent ? '#4ade80' : '#fff', fontWeight: 600, fontSize: 13, cursor: resetSent ? 'default' : 'pointer' }}
+                    >
+                      {resetSent ? 'Reset link sent' : 'Email a password reset link'}
+                    </button>
+                  </div>
+                )}
+                {user && can('users.manageMfa') && (
+                  <div>
+                    <label style={lbl}>Two-factor Authentication</label>
+                    <label style={{ display: 'flex', gap: 10, alignItems: 'flex-start', cursor: 'pointer' }}>
+                      <input
+                        type="checkbox"
+                        checked={!!form.mfaRequired}
+                        onChange={e => setForm(f => ({ ...f, mfaRequired: e.target.checked }))}
+                        style={{ marginTop: 3, accentColor: '#2563eb' }}
+                      />
+                      <span>
+                        <span style={{ display: 'block', color: '#fff', fontSize: 14 }}>Require two-factor authentication</span>
+                        <span style={{ display: 'block', color: '#64748b', fontSize: 12 }}>
+                          {user.mfaEnabled && !mfaReset
+                            ? 'Set up — they sign in with an authenticator app.'
+                            : 'Not set up — they will be asked to set it up at their next sign-in.'}
+                        </span>
+                      </span>
+                    </label>
+                    {user.mfaEnabled && (
+                      <button
+                        onClick={handleResetMfa}
+                        disabled={mfaReset}
+                        style={{ marginTop: 10, padding: '9px 16px', border: '1px solid #2d4068', borderRadius: 8, background: '#1e2d4a', color: mfaReset ? '#4ade80' : '#fff', fontWeight: 600, fontSize: 13, cursor: mfaReset ? 'default' : 'pointer' }}
+                      >
+                        {mfaReset ? 'Two-factor reset' : 'Reset two-factor (lost phone)'}
+                      </button>
+                    )}
+                  </div>
+                )}
                 {!user && (
                   <>
                     <div>
                       <label style={lbl}>Password</label>
-                      <input style={darkInput} type="password" value={form.password ?? ''} onChange={e => set('password', e.target.value)} placeholder="Min 8 chars" />
-                    </div>
-                    <div>
-                      <label style={lbl}>Confirm Password</label>
-                      <input style={darkInput} type="password" value={form.confirmPassword ?? ''} onChange={e => set('confirmPassword', e.target.value)} placeholder="Repeat password" />
+                      <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+                        {([
+                          ['invite', 'Email a link to set their own password', 'Recommended — nobody else ever knows the password.'],
+                          ['temporary', 'Set a temporary password', 'They must choose a new one the first time they sign in.'],
+                        ] as const).map(([value, title, hint]) => (
+                          <label key={value} style={{ display: 'flex', gap: 10, alignItems: 'flex-start', cursor: 'pointer' }}>
+                            <input
+                              type="radio"
+                              name="passwordSetup"
+                              checked={form.passwordSetup === value}
+                              onChange={() => set('passwordSetup', value)}
+                              style={{ marginTop: 3, accentColor: '#2563eb' }}
+                            />
+                            <span>
+                              <span style={{ display: 'block', color: '#fff', fontSize: 14 }}>{title}</span>
+                              <span style={{ display: 'block', color: '#64748b', fontSize: 12 }}>{hint}</span>
+                            </span>
+                          </label>
+                        ))}
+                      </div>
                     </div>
+                    {form.passwordSetup === 'temporary' && (
+                      <>
+                        <div>
+                          <label style={lbl}>Temporary Password</label>
+                          <input style={passwordIssue ? { ...inputFor('password'), borderColor: '#f87171' } : inputFor('password')} type="password" value={form.password ?? ''} onChange={e => set('password', e.target.value)} placeholder={`Min ${MIN_PASSWORD_LENGTH} chars`} />
+                          <FieldError error={error} field="password" />
+                        </div>
+                        <div>
+                          <label style={lbl}>Confirm Password</label>
+                          <input style={darkInput} type="password" value={form.confirmPassword ?? ''} onChange={e => set('confirmPassword', e.target.value)} placeholder="Repeat password" />
+                          {passwordIssue && <p role="alert" style={{ fontSize: 12, color: '#f87171', marginTop: 5 }}>{passwordIssue}</p>}
+                        </div>
+                      </>
+                    )}
                   </>
                 )}
               </div>
@@ -393,6 +537,7 @@ function UserModal({ open, onClose, user, onSave }: UserModalProps) {
                   </button>
                 ))}
               </div>
+              <FieldError error={error} field="role" />
             </div>
           )}
 
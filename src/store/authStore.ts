@@ -1,8 +1,17 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
 import type { User, UserRole } from '@/types'
-import { api, setToken, clearToken, getToken } from '@/lib/api'
+import { api, ApiError, setToken, clearToken, getToken, setUnauthorizedHandler, setMfaSetupRequiredHandler, setImpersonation, setImpersonatedWriteHandler, SESSION_EXPIRED_MESSAGE } from '@/lib/api'
 import type { ApiResponse } from '@/lib/api'
+import { queryClient } from '@/lib/queryClient'
+import { readPayload } from '@/lib/schema'
+import { recordImpersonation, sendUnsentImpersonationAudit } from '@/lib/impersonationAudit'
+import type { ImpersonationAction } from '@/lib/impersonationAudit'
+import { roleLabels } from '@/lib/utils'
+import { can } from '@/lib/permissions'
+import { broadcastSession, onSessionMessage } from '@/lib/sessionSync'
+import { pauseRunningTimers } from '@/lib/taskTimers'
+import { usePreferencesStore } from './preferencesStore'
 
 interface ApiUser {
   id: string
@@ -11,88 +20,179 @@ interface ApiUser {
   lastName: string
   role: string
   status: string
+  department?: string | null
+  phone?: string | null
+  avatar?: string | null
+  mustChangePassword?: boolean
+  mfaEnabled?: boolean
+  mfaRequired?: boolean
+  recoveryCodesRemaining?: number
   createdAt?: string
   updatedAt?: string
 }
 
-// Backend login response structure
+// Backend login response structure — accounts with two-factor get a challenge instead of a session
 interface LoginResponse {
   success: boolean
   data: {
     user: ApiUser
     token: string
+  } | {
+    status: 'mfa_required'
+    mfaToken: string
   }
   message?: string
 }
 
+interface SessionResponse {
+  success: boolean
+  data: {
+    user: ApiUser
+    token: string
+  }
+  message?: string
+}
+
+interface RecoveryCodesResponse {
+  success: boolean
+  data: {
+    user: ApiUser
+    recoveryCodes: string[]
+  }
+}
+
 // Backend profile response structure
 interface ProfileResponse {
   success: boolean
   data: ApiUser
 }
 
+const USER_ROLES: readonly UserRole[] = ['employee', 'manager', 'admin']
+
 function normaliseUser(u: ApiUser): User {
+  const r = readPayload('User', u)
   return {
-    id: u.id,
-    name: `${u.firstName} ${u.lastName}`,
-    email: u.email,
-    // Backend roles: 'Admin', 'Manager', 'Employee'
-    role: u.role.toLowerCase() as UserRole,
-    status: u.status.toLowerCase() as 'active' | 'inactive',
-    department: '',
-    joinedDate: u.createdAt || '',
-    phone: '',
+    id: r.string('id'),
+    name: `${r.string('firstName')} ${r.optionalString('lastName') ?? ''}`.trim(),
+    email: r.string('email'),
+    // Backend roles: 'ADMIN', 'MANAGER', 'EMPLOYEE' — an unknown role gets the least privileges
+    role: r.enum('role', USER_ROLES, 'employee'),
+    status: r.enum('status', ['active', 'inactive'], 'active'),
+    department: r.optionalString('department') ?? '',
+    joinedDate: r.optionalString('createdAt') ?? '',
+    phone: r.optionalString('phone') ?? '',
+    avatar: r.optionalString('avatar'),
     costRate: 0,
+    mustChangePassword: r.optionalBoolean('mustChangePassword') ?? false,
+    mfaEnabled: r.optionalBoolean('mfaEnabled') ?? false,
+    mfaRequired: r.optionalBoolean('mfaRequired') ?? false,
+    recoveryCodesRemaining: r.optionalNumber('recoveryCodesRemaining'),
   }
 }
 
+/** `mfa_required` means the password was right and `verifyMfa` must finish the sign-in */
+export type LoginResult = 'success' | 'mfa_required' | 'failed'
+
+// A finished second step (or giving up) discards the challenge; these mean it's already gone
+const DEAD_CHALLENGE_CODES = ['MFA_CHALLENGE_EXPIRED', 'TOO_MANY_ATTEMPTS']
+
+/** Who an admin is currently viewing the app as */
+export interface Impersonation {
+  /** Set when impersonating a specific user; absent for a role-only view */
+  userId?: string
+  role: UserRole
+  name: string
+}
+
+export interface ProfileUpdate {
+  firstName: string
+  lastName: string
+  phone: string
+  /** Data URL of the resized image, or null to remove it */
+  avatar: string | null
+}
+
 interface AuthState {
+  /** The effective user — the impersonated one while an admin is viewing as someone else */
   user: User | null
+  /** The signed-in admin while impersonating, otherwise null */
+  realUser: User | null
+  impersonating: Impersonation | null
   isAuthenticated: boolean
   isLoading: boolean
   error: string | null
-  login: (email: string, password: string) => Promise<boolean>
-  logout: () => void
+  login: (email: string, password: string) => Promise<LoginResult>
+  /** Token from a password sign-in still waiting for its second factor */
+  mfaToken: string | null
+  /** Finish a two-factor sign-in with an authenticator or recovery code; throws ApiError */
+  verifyMfa: (code: string) => Promise<void>
+  cancelMfa: () => void
+  /** Pauses the user's running timers, then signs out in every open tab */
+  logout: () => Promise<void>
+  /** Timers sign-out could neither pause nor queue; shown on the sign-in page */
+  signOutWarning: string | null
+  /** Called when the API rejects our token — resets the session and flags why */
+  expireSession: () => void
+  sessionExpired: boolean
+  /** View as a generic user of this role; switching back to admin ends the impersonation */
   switchRole: (role: UserRole) => void
+  /** View the app exactly as this user sees it (admins only) */
+  impersonate: (target: User) => void
+  stopImpersonation: () => void
+  /** Add an entry to the impersonation audit trail; no-op when not impersonating */
+  recordImpersonationAction: (action: ImpersonationAction, detail: string) => void
+  /** Save the signed-in user's own name, phone and avatar; throws ApiError */
+  updateProfile: (data: ProfileUpdate) => Promise<void>
+  /** Replace the signed-in user's password; field errors come back on the ApiError */
+  changePassword: (currentPassword: string, newPassword: string) => Promise<void>
+  /** Confirm a pending two-factor setup with a code; resolves to the one-time recovery codes */
+  enableMfa: (code: string) => Promise<string[]>
+  disableMfa: (password: string) => Promise<void>
+  /** Replace every recovery code; the old ones stop working immediately */
+  regenerateRecoveryCodes: (password: string) => Promise<string[]>
   restoreSession: () => Promise<void>
   clearError: () => void
 }
 
-// ── Demo fallback (used when backend is not available) ────────────────────────
-
 // ── Store ─────────────────────────────────────────────────────────────────────
 
 export const useAuthStore = create<AuthState>()(
   persist(
     (set, get) => ({
       user: null,
+      realUser: null,
+      impersonating: null,
       isAuthenticated: false,
       isLoading: false,
       error: null,
+      sessionExpired: false,
+      mfaToken: null,
+      signOutWarning: null,
 
       login: async (email: string, password: string) => {
-        set({ isLoading: true, error: null })
+        set({ isLoading: true, error: null, mfaToken: null, signOutWarning: null })
 
         // 2. Try real backend
         try {
           const response = await api.post<LoginResponse>('/auth/login', { email, password })
-          
-          if (response.success && response.data?.token) {
-            setToken(response.data.token)
-            set({ 
-              user: normaliseUser(response.data.user), 
-              isAuthenticated: true,
-              isLoading: false,
-              error: null
-            })
-            return true
+          const data = response.data
+
+          if (response.success && data) {
+            if ('mfaToken' in data) {
+              set({ isLoading: false, mfaToken: data.mfaToken })
+              return 'mfa_required'
+            }
+            if (data.token) {
+              startSession(data.token, data.user)
+              return 'success'
+            }
           }
           
           set({ 
             isLoading: false,
             error: response.message || 'Login failed'
           })
-          return false
+          return 'failed'
         } catch (error) {
           // Backend unavailable or error
           console.error('Login error:', error)
@@ -100,13 +200,40 @@ export const useAuthStore = create<AuthState>()(
             isLoading: false,
             error: error instanceof Error ? error.message : 'Connection failed'
           })
-          return false
+          return 'failed'
+        }
+      },
+
+      verifyMfa: async (code: string) => {
+        const mfaToken = get().mfaToken
+        if (!mfaToken) throw new ApiError('Your sign-in attempt has expired. Enter your password again.', 410, 'MFA_CHALLENGE_EXPIRED')
+        try {
+          const response = await api.post<SessionResponse>('/auth/mfa/verify', { mfaToken, code: code.trim() })
+          startSession(response.data.token, response.data.user)
+        } catch (e: unknown) {
+          if (e instanceof ApiError && DEAD_CHALLENGE_CODES.includes(e.code)) set({ mfaToken: null })
+          throw e
+        }
+      },
+
+      cancelMfa: () => set({ mfaToken: null }),
+
+      logout: async () => {
+        if (get().impersonating) get().stopImpersonation()
+        // Timers are server-side — left running they'd keep billing until someone noticed
+        const userId = get().user?.id
+        const unpaused = userId && getToken() ? await pauseRunningTimers(userId) : []
+        endSession(false)
+        broadcastSession({ type: 'logout' })
+        if (unpaused.length > 0) {
+          set({ signOutWarning: `The timer on ${unpaused.join(', ')} couldn't be paused and may still be running. Sign in and pause it.` })
         }
       },
 
-      logout: () => {
-        clearToken()
-        set({ user: null, isAuthenticated: false, isLoading: false, error: null })
+      expireSession: () => {
+        if (!get().isAuthenticated) return
+        endSession(true)
+        broadcastSession({ type: 'logout', expired: true })
       },
 
       // Restore session from stored JWT on app load
@@ -124,12 +251,15 @@ export const useAuthStore = create<AuthState>()(
           const response = await api.get<ProfileResponse>('/auth/profile')
           
           if (response.success && response.data) {
+            const user = normaliseUser(response.data)
             set({ 
-              user: normaliseUser(response.data), 
+              user, 
               isAuthenticated: true,
               isLoading: false,
               error: null
             })
+            void usePreferencesStore.getState().load()
+            sendUnsentImpersonationAudit(user.id)
           } else {
             // Token might be invalid
             clearToken()
@@ -152,11 +282,71 @@ export const useAuthStore = create<AuthState>()(
         }
       },
 
-      // Switch between demo roles instantly
       switchRole: (role: UserRole) => {
-        const currentUser = get().user
-        if (!currentUser) return
+        const admin = get().realUser ?? get().user
+        if (!admin || !can(admin.role, 'users.impersonate')) return
+        if (role === 'admin') {
+          get().stopImpersonation()
+          return
+        }
+        startImpersonation(admin, { ...admin, role }, { role, name: roleLabels[role] })
+      },
+
+      impersonate: (target: User) => {
+        const admin = get().realUser ?? get().user
+        if (!admin || !can(admin.role, 'users.impersonate') || target.id === admin.id) return
+        startImpersonation(admin, target, { userId: target.id, role: target.role, name: target.name })
+      },
+
+      stopImpersonation: () => {
+        const { realUser, impersonating } = get()
+        if (!realUser || !impersonating) return
+        get().recordImpersonationAction('stop', '')
+        setImpersonation(null)
+        queryClient.clear()
+        set({ user: realUser, realUser: null, impersonating: null })
+      },
+
+      recordImpersonationAction: (action, detail) => {
+        const { realUser, impersonating } = get()
+        if (!realUser || !impersonating) return
+        recordImpersonation({
+          actorId: realUser.id,
+          actorName: realUser.name,
+          targetUserId: impersonating.userId,
+          targetName: impersonating.name,
+          targetRole: impersonating.role,
+          action,
+          detail,
+        })
+      },
+
+      updateProfile: async (data: ProfileUpdate) => {
+        const response = await api.put<ProfileResponse>('/auth/profile', data)
+        setOwnUser(normaliseUser(response.data))
+      },
+
+      changePassword: async (currentPassword: string, newPassword: string) => {
+        await api.post<ProfileResponse>('/auth/change-password', { currentPassword, newPassword })
+        const own = get().realUser ?? get().user
+        if (own) setOwnUser({ ...own, mustChangePassword: false })
+      },
+
+      enableMfa: async (code: string) => {
+        const response = await api.post<RecoveryCodesResponse>('/auth/mfa/enable', { code: code.trim() })
+        setOwnUser(normaliseUser(response.data.user))
+        return response.data.recoveryCodes
+      },
 
+      disableMfa: async (password: string) => {
+        const response = await api.post<ProfileResponse>('/auth/mfa/disable', { password })
+        setOwnUser(normaliseUser(response.data))
+      },
+
+      regenerateRecoveryCodes: async (password: string) => {
+        const response = await api.post<RecoveryCodesResponse>('/auth/mfa/recovery-codes', { password })
+        setOwnUser(normaliseUser(response.data.user))
+        return response.data.recoveryCodes
       },
 
       clearError: () => set({ error: null }),
@@ -164,10 +354,112 @@ export const useAuthStore = create<AuthState>()(
     { 
       name: 'top-auth',
       // Only persist these fields
+      // Impersonation is deliberately not persisted — a reload always comes back as the admin
       partialize: (state) => ({ 
-        user: state.user, 
+        user: state.realUser ?? state.user, 
         isAuthenticated: state.isAuthenticated 
       }),
     }
   )
-)
\ No newline at end of file
+)
+
+function startSession(token: string, apiUser: ApiUser) {
+  setToken(token)
+  const user = normaliseUser(apiUser)
+  useAuthStore.setState({
+    user,
+    isAuthenticated: true,
+    isLoading: false,
+    error: null,
+    sessionExpired: false,
+    mfaToken: null,
+  })
+  broadcastSession({ type: 'login', user })
+  void usePreferencesStore.getState().load()
+  sendUnsentImpersonationAudit(user.id)
+}
+
+/** Store an updated copy of the signed-in user from an /auth route and share it with other tabs. */
+function setOwnUser(user: User) {
+  // /auth routes always act as the signed-in admin, even while viewing as someone else
+  useAuthStore.setState(s => s.realUser ? { realUser: user } : { user })
+  broadcastSession({ type: 'user-updated', user })
+}
+
+/** Clear this tab's session without telling the other tabs. */
+function endSession(expired: boolean) {
+  // Close out any "view as" on the audit trail before the session state goes
+  useAuthStore.getState().recordImpersonationAction('stop', expired ? 'Session expired' : 'Signed out')
+  clearToken()
+  setImpersonation(null)
+  // Drop cached lists so the next user never sees this user's data
+  queryClient.clear()
+  usePreferencesStore.getState().reset()
+  useAuthStore.setState({
+    user: null,
+    realUser: null,
+    impersonating: null,
+    isAuthenticated: false,
+    isLoading: false,
+    error: expired ? SESSION_EXPIRED_MESSAGE : null,
+    sessionExpired: expired,
+  })
+}
+
+/**
+ * Switch the effective user to `as`. Cached queries belong to whoever was
+ * viewing before, so they're dropped and refetched with the new headers.
+ */
+function startImpersonation(admin: User, as: User, target: Impersonation) {
+  const state = useAuthStore.getState()
+  if (state.impersonating) state.stopImpersonation()
+  setImpersonation({ userId: target.userId, role: target.role })
+  queryClient.clear()
+  useAuthStore.setState({ user: as, realUser: admin, impersonating: target })
+  useAuthStore.getState().recordImpersonationAction('start', '')
+}
+
+// Any 401 from the API ends the session; RequireAuth then bounces to /login
+setUnauthorizedHandler(() => useAuthStore.getState().expireSession())
+
+// The API refusing everything until two-factor is set up means an admin has
+// required it since we loaded the account; RequireAuth then routes to /setup-two-factor
+setMfaSetupRequiredHandler(() => {
+  const { realUser, user } = useAuthStore.getState()
+  const own = realUser ?? user
+  if (own && !(own.mfaRequired && !own.mfaEnabled)) setOwnUser({ ...own, mfaRequired: true, mfaEnabled: false })
+})
+
+// Follow logins and logouts made in other tabs. The token itself is shared
+// through localStorage, so only the in-memory state needs updating.
+onSessionMessage(message => {
+  const state = useAuthStore.getState()
+  if (message.type === 'logout') {
+    if (state.isAuthenticated) endSession(!!message.expired)
+  } else if (message.type === 'user-updated') {
+    // Same person with new details: patch them in without ending a "view as" session
+    if ((state.realUser ?? state.user)?.id === message.user.id) {
+      useAuthStore.setState(s => s.realUser ? { realUser: message.user } : { user: message.user })
+    }
+  } else if (message.type === 'login') {
+    // A sign-in replaces this tab's session, so any "view as" here ends — on the record
+    state.stopImpersonation()
+    if (useAuthStore.getState().user?.id !== message.user.id) {
+      queryClient.clear()
+      void usePreferencesStore.getState().load()
+    }
+    useAuthStore.setState({
+      user: message.user,
+      realUser: null,
+      impersonating: null,
+      isAuthenticated: true,
+      error: null,
+      sessionExpired: false,
+      mfaToken: null,
+    })
+  }
+})
+
+// Every write made while viewing as someone else goes on the audit trail
+setImpersonatedWriteHandler((method, path, status) =>
+  useAuthStore.getState().recordImpersonationAction('write', `${method} ${path} → ${status}`))
@@ -0,0 +1,37 @@
+import { create } from 'zustand'
+
+/** One kind of mismatch between a backend payload and the shape we expect. */
+export interface SchemaDriftIssue {
+  key: string
+  entity: string
+  field: string
+  expected: string
+  received: string
+  /** Id of the first record it was seen on, to look it up in the network tab */
+  sampleId?: string
+  count: number
+  lastSeen: number
+}
+
+interface DiagnosticsState {
+  driftIssues: SchemaDriftIssue[]
+  reportDrift: (issue: Omit<SchemaDriftIssue, 'key' | 'count' | 'lastSeen'>) => void
+  clearDrift: () => void
+}
+
+export const useDiagnosticsStore = create<DiagnosticsState>((set) => ({
+  driftIssues: [],
+  // Same entity/field/problem is collapsed into one row with a counter so a
+  // drifted list of 500 rows doesn't flood the panel
+  reportDrift: (issue) => set(s => {
+    const key = `${issue.entity}.${issue.field}:${issue.expected}:${issue.received}`
+    const existing = s.driftIssues.find(i => i.key === key)
+    if (existing) {
+      return {
+        driftIssues: s.driftIssues.map(i => i.key === key ? { ...i, count: i.count + 1, lastSeen: Date.now() } : i),
+      }
+    }
+    return { driftIssues: [...s.driftIssues, { ...issue, key, count: 1, lastSeen: Date.now() }] }
+  }),
+  clearDrift: () => set({ driftIssues: [] }),
+}))
@@ -0,0 +1,150 @@
+import { create } from 'zustand'
+import { api, ApiError, isNetworkError, toApiError } from '@/lib/api'
+import { addOutboxItem, getOutboxItems, claimOutboxItem, putOutboxItem, deleteOutboxItem } from '@/lib/outbox'
+import type { OutboxItem, NewOutboxItem } from '@/lib/outbox'
+import { queryKeys, invalidate } from '@/lib/queryClient'
+import { useAuthStore } from './authStore'
+
+interface OutboxState {
+  items: OutboxItem[]
+  online: boolean
+  syncing: boolean
+  /** Read the persisted queue (on startup) */
+  load: () => Promise<void>
+  /** Rejects when nobody is signed in to own the change, so callers can report it as not saved */
+  enqueue: (item: Omit<NewOutboxItem, 'userId'>) => Promise<void>
+  /** True if the signed-in user has changes waiting, so new ones must queue behind them */
+  hasPending: () => boolean
+  /** Replay the signed-in user's pending changes in order; stops at the first network failure */
+  flush: () => Promise<void>
+  /** Put a conflicted change back in the queue and try again */
+  retry: (id: number) => Promise<void>
+  discard: (id: number) => Promise<void>
+}
+
+// The signed-in user's queue; an admin viewing as someone else keeps their own
+function currentUserId(): string | null {
+  const { realUser, user } = useAuthStore.getState()
+  return (realUser ?? user)?.id ?? null
+}
+
+function send(item: OutboxItem) {
+  switch (item.method) {
+    case 'POST': return api.post(item.path, item.body)
+    case 'PUT': return api.put(item.path, item.body)
+    case 'PATCH': return api.patch(item.path, item.body)
+    case 'DELETE': return api.delete(item.path)
+  }
+}
+
+/**
+ * Run a replay pass while holding the cross-tab lock. Every tab mirrors the
+ * same queue and hears the same 'online' event; if another tab is already
+ * replaying, this one skips the pass.
+ */
+async function withReplayLock(run: () => Promise<void>): Promise<void> {
+  if (!('locks' in navigator)) return run()
+  await navigator.locks.request('top-outbox-replay', { ifAvailable: true }, async lock => {
+    if (lock) await run()
+  })
+}
+
+// 5xx, timeouts and rate limits are worth retrying later; other 4xx need a human
+function isTransient(status: number) {
+  return status === 401 || status === 408 || status === 429 || status >= 500
+}
+
+export const useOutboxStore = create<OutboxState>((set, get) => ({
+  items: [],
+  online: typeof navigator === 'undefined' ? true : navigator.onLine,
+  syncing: false,
+
+  load: async () => {
+    try {
+      set({ items: await getOutboxItems() })
+    } catch (e) {
+      console.error('Failed to read offline queue:', e)
+    }
+  },
+
+  enqueue: async (input) => {
+    const userId = currentUserId()
+    if (!userId) throw new ApiError('You are signed out, so this change could not be saved for later. Sign in and try again.', 401, 'NOT_SIGNED_IN')
+    const item = await addOutboxItem({ ...input, userId })
+    set(s => ({ items: [...s.items, item] }))
+  },
+
+  hasPending: () => {
+    const userId = currentUserId()
+    return get().items.some(i => i.userId === userId && i.status === 'pending')
+  },
+
+  flush: async () => {
+    const userId = currentUserId()
+    if (get().syncing || !userId || !navigator.onLine) return
+    set({ syncing: true })
+    let replayed = 0
+    let stopped = false
+
+    await withReplayLock(async () => {
+      // Another tab may have replayed or queued since this one last looked
+      const queued = await getOutboxItems()
+      set({ items: queued })
+      for (const pending of queued.filter(i => i.userId === userId && i.status === 'pending')) {
+        const item = await claimOutboxItem(pending.id)
+        // Gone or taken by another tab: let that one carry on, in order
+        if (!item) { stopped = true; break }
+        try {
+          await send(item)
+          await deleteOutboxItem(item.id)
+          set(s => ({ items: s.items.filter(i => i.id !== item.id) }))
+          replayed++
+        } catch (e: unknown) {
+          const err = toApiError(e, 'Sync failed')
+          const transient = isNetworkError(e) || isTransient(err.status)
+          const updated: OutboxItem = transient
+            ? { ...item, attempts: item.attempts + 1, claimedAt: undefined }
+            : { ...item, attempts: item.attempts + 1, claimedAt: undefined, status: 'conflict', error: err.message }
+          await putOutboxItem(updated)
+          set(s => ({ items: s.items.map(i => i.id === item.id ? updated : i) }))
+          // Later changes may depend on this one (a pause after a start), so keep order
+          if (transient) { stopped = true; break }
+        }
+      }
+    }).catch(e => {
+      stopped = true
+      console.error('Failed to replay offline queue:', e)
+    })
+
+    set({ syncing: false })
+    if (replayed > 0) {
+      await invalidate(queryKeys.timesheets.all, queryKeys.tasks.all, queryKeys.jobs.all, queryKeys.dashboard.all)
+    }
+    // Pick up anything queued while this pass was running
+    if (!stopped && get().items.some(i => i.userId === userId && i.status === 'pending')) await get().flush()
+  },
+
+  retry: async (id) => {
+    const item = get().items.find(i => i.id === id)
+    if (!item) return
+    const updated: OutboxItem = { ...item, status: 'pending', error: undefined }
+    await putOutboxItem(updated)
+    set(s => ({ items: s.items.map(i => i.id === id ? updated : i) }))
+    await get().flush()
+  },
+
+  discard: async (id) => {
+    await deleteOutboxItem(id)
+    set(s => ({ items: s.items.filter(i => i.id !== id) }))
+  },
+}))
+
+// Replay as soon as the browser reports connectivity again
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', () => {
+    useOutboxStore.setState({ online: true })
+    void useOutboxStore.getState().flush()
+  })
+  window.addEventListener('offline', () => useOutboxStore.setState({ online: false }))
+  void useOutboxStore.getState().load().then(() => useOutboxStore.getState().flush())
+}
@@ -0,0 +1,64 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import type { UserPreferences } from '@/types'
+import { DEFAULT_PREFERENCES, fetchPreferences, savePreferences } from '@/lib/preferences'
+import { useUIStore } from './uiStore'
+
+interface PreferencesState {
+  preferences: UserPreferences
+  /** Fetch the signed-in user's preferences and apply them (called at sign-in) */
+  load: () => Promise<void>
+  /** Apply immediately, then save; rolls back if the save fails */
+  update: (patch: Partial<UserPreferences>) => Promise<void>
+  /** Back to defaults on sign-out so the next user doesn't inherit them */
+  reset: () => void
+}
+
+// Preferences that change app chrome rather than being read where they're used
+function apply(preferences: UserPreferences) {
+  useUIStore.setState({ sidebarCollapsed: preferences.sidebarCollapsed })
+}
+
+export const usePreferencesStore = create<PreferencesState>()(
+  persist(
+    (set, get) => ({
+      preferences: DEFAULT_PREFERENCES,
+
+      load: async () => {
+        try {
+          const preferences = await fetchPreferences()
+          set({ preferences })
+          apply(preferences)
+        } catch (e) {
+          // Keep whatever was cached — a missing endpoint shouldn't block sign-in
+          console.error('Failed to load preferences:', e)
+        }
+      },
+
+      update: async (patch) => {
+        const previous = get().preferences
+        const optimistic = { ...previous, ...patch }
+        set({ preferences: optimistic })
+        apply(optimistic)
+        try {
+          const saved = await savePreferences(patch)
+          set({ preferences: saved })
+        } catch (e) {
+          set({ preferences: previous })
+          apply(previous)
+          throw e
+        }
+      },
+
+      reset: () => {
+        set({ preferences: DEFAULT_PREFERENCES })
+        apply(DEFAULT_PREFERENCES)
+      },
+    }),
+    // Cached so a reload shows the right layout before the fetch returns
+    { name: 'top-preferences' },
+  ),
+)
+
+// Rehydrated preferences apply straight away on page load
+apply(usePreferencesStore.getState().preferences)
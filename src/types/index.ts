@@ -1,3 +1,5 @@
+import type { RoundingPolicy } from '@/lib/timeRounding'
+
 export type UserRole = 'employee' | 'manager' | 'admin'
 
 export interface User {
@@ -12,6 +14,24 @@ export interface User {
   phone?: string
   billingRate?: number
   costRate?: number
+  /** Signed in with a temporary password — must choose a new one before using the app */
+  mustChangePassword?: boolean
+  /** Signs in with an authenticator code as well as a password */
+  mfaEnabled?: boolean
+  /** An admin requires two-factor on this account — it can't be turned off, and must be set up before anything else */
+  mfaRequired?: boolean
+  /** Unused recovery codes left; only sent for the signed-in user's own account with two-factor on */
+  recoveryCodesRemaining?: number
+}
+
+export type TimesheetView = 'daily' | 'weekly' | 'monthly'
+
+// Stored server-side per user and applied at sign-in
+export interface UserPreferences {
+  timesheetView: TimesheetView
+  /** 0 = Sunday, 1 = Monday (JS getDay numbering) */
+  weekStartsOn: 0 | 1
+  sidebarCollapsed: boolean
 }
 
 // Database model (matches Prisma schema)
@@ -26,6 +46,7 @@ export interface ClientDB {
   status: 'active' | 'inactive'
   createdAt: string
   updatedAt?: string
+  rounding?: RoundingPolicy | null  // Billing rounding override; null follows the firm's policy
 }
 
 // UI model (includes computed fields for display)
@@ -45,6 +66,7 @@ export interface ClientFormData {
   address: string
   status: 'active' | 'inactive'
   createdAt: string
+  rounding: RoundingPolicy | null
 }
 
 export type JobStatus = 'open' | 'in_progress' | 'on_hold' | 'completed' | 'invoiced' | 'closed'
@@ -101,7 +123,7 @@ export interface Task {
   description?: string
 }
 
-export type TimesheetStatus = 'pending_normal' | 'pending_approval' | 'approved' | 'rejected'
+export type TimesheetStatus = 'draft' | 'pending_normal' | 'pending_approval' | 'approved' | 'rejected'
 
 export interface TimesheetEntry {
   id: string